@@ -1,7 +1,19 @@
 import type { NextConfig } from "next";
 
+const identityModelFiles = [
+  "./node_modules/@vladmandic/face-api/model/{tiny_face_detector,face_landmark_68,face_recognition}_model*",
+  "./node_modules/@tensorflow/tfjs-backend-wasm/dist/*.wasm",
+];
+
 const nextConfig: NextConfig = {
-  /* config options here */
+  // The job worker's identity check loads TF.js and its WASM binaries at runtime.
+  serverExternalPackages: ["@vladmandic/face-api", "@tensorflow/tfjs", "@tensorflow/tfjs-backend-wasm"],
+  // These routes read the model files from disk, so they must ship with them.
+  outputFileTracingIncludes: {
+    "/face-models/[file]": ["./node_modules/@vladmandic/face-api/model/{tiny_face_detector,face_landmark_68_tiny}_model*"],
+    "/api/generate": identityModelFiles,
+    "/api/jobs/worker": identityModelFiles,
+  },
 };
 
 export default nextConfig;
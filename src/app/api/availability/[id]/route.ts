@@ -0,0 +1,34 @@
+import { NextResponse, type NextRequest } from 'next/server'
+
+import { removeAvailability } from '@/lib/bookings'
+import { errorResponse } from '@/lib/errors/response'
+import { ACTIVE_ORGANIZATION_COOKIE, creditAccount, resolveActiveOrganization } from '@/lib/organizations'
+import { createClient } from '@/lib/server'
+
+/** Removes an availability window. Existing bookings in it stay. */
+export async function DELETE(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params
+  const supabase = await createClient()
+
+  const { data, error } = await supabase.auth.getClaims()
+  if (error || !data?.claims) {
+    return errorResponse('unauthenticated')
+  }
+
+  const organizationId = creditAccount(
+    await resolveActiveOrganization(supabase, request.cookies.get(ACTIVE_ORGANIZATION_COOKIE)?.value)
+  )
+  if (!organizationId) {
+    return errorResponse('forbidden')
+  }
+
+  try {
+    if (!(await removeAvailability(supabase, organizationId, id))) {
+      return errorResponse('not-found')
+    }
+    return new NextResponse(null, { status: 204 })
+  } catch (err) {
+    console.error('Failed to remove availability:', err)
+    return errorResponse('availability-update-failed')
+  }
+}
@@ -0,0 +1,56 @@
+import { NextResponse, type NextRequest } from 'next/server'
+
+import { parseAvailabilityRequest } from '@/lib/booking-request'
+import { addAvailability } from '@/lib/bookings'
+import { errorResponse } from '@/lib/errors/response'
+import { ACTIVE_ORGANIZATION_COOKIE, creditAccount, resolveActiveOrganization } from '@/lib/organizations'
+import { createClient } from '@/lib/server'
+
+/**
+ * Publishes a weekly window in which the current user takes bookings for the
+ * active organization: `{ weekday, startTime, endTime, timeZone, slotMinutes }`.
+ */
+export async function POST(request: NextRequest) {
+  const supabase = await createClient()
+
+  const { data, error } = await supabase.auth.getClaims()
+  if (error || !data?.claims) {
+    return errorResponse('unauthenticated')
+  }
+
+  const organizationId = creditAccount(
+    await resolveActiveOrganization(supabase, request.cookies.get(ACTIVE_ORGANIZATION_COOKIE)?.value)
+  )
+  if (!organizationId) {
+    return errorResponse('forbidden')
+  }
+
+  let body: unknown
+  try {
+    body = await request.json()
+  } catch {
+    return errorResponse('invalid-json')
+  }
+
+  const parsed = parseAvailabilityRequest(body)
+  if (!parsed.ok) {
+    return errorResponse('invalid-request', { message: parsed.error })
+  }
+  const { weekday, startTime, endTime, timeZone, slotMinutes } = parsed.value
+
+  try {
+    const id = await addAvailability(supabase, {
+      organization_id: organizationId,
+      stylist_id: data.claims.sub,
+      weekday,
+      start_time: startTime,
+      end_time: endTime,
+      time_zone: timeZone,
+      slot_minutes: slotMinutes,
+    })
+    return NextResponse.json({ id }, { status: 201 })
+  } catch (err) {
+    console.error('Failed to add availability:', err)
+    return errorResponse('availability-update-failed')
+  }
+}
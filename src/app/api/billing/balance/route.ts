@@ -0,0 +1,19 @@
+import { NextResponse, type NextRequest } from 'next/server'
+
+import { getCreditBalance } from '@/lib/billing'
+import { errorResponse } from '@/lib/errors/response'
+import { ACTIVE_ORGANIZATION_COOKIE, creditAccount, resolveActiveOrganization } from '@/lib/organizations'
+import { createClient } from '@/lib/server'
+
+/** The balance generations are charged to: the organization pool for its staff, otherwise the user's own. */
+export async function GET(request: NextRequest) {
+  const supabase = await createClient()
+
+  const { data, error } = await supabase.auth.getClaims()
+  if (error || !data?.claims) {
+    return errorResponse('unauthenticated')
+  }
+
+  const active = await resolveActiveOrganization(supabase, request.cookies.get(ACTIVE_ORGANIZATION_COOKIE)?.value)
+  return NextResponse.json({ balance: await getCreditBalance(supabase, creditAccount(active)) })
+}
@@ -0,0 +1,42 @@
+import { NextResponse, type NextRequest } from 'next/server'
+
+import { getCreditPack, getPaymentProvider } from '@/lib/billing'
+import { errorResponse } from '@/lib/errors/response'
+import { ACTIVE_ORGANIZATION_COOKIE, creditAccount, resolveActiveOrganization } from '@/lib/organizations'
+import { createClient } from '@/lib/server'
+
+export async function POST(request: NextRequest) {
+  const supabase = await createClient()
+
+  const { data, error } = await supabase.auth.getClaims()
+  if (error || !data?.claims) {
+    return errorResponse('unauthenticated')
+  }
+
+  const body: { packId?: unknown } = await request.json().catch(() => ({}))
+  const pack = getCreditPack(typeof body.packId === 'string' ? body.packId : null)
+  if (!pack) {
+    return errorResponse('unknown-pack')
+  }
+
+  // Staff share the organization's pool, and only owners top it up.
+  const active = await resolveActiveOrganization(supabase, request.cookies.get(ACTIVE_ORGANIZATION_COOKIE)?.value)
+  if (active?.role === 'stylist') {
+    return errorResponse('forbidden')
+  }
+
+  try {
+    const origin = request.nextUrl.origin
+    const session = await getPaymentProvider(origin).createCheckoutSession({
+      userId: data.claims.sub,
+      organizationId: creditAccount(active),
+      pack,
+      successUrl: `${origin}/billing?purchased=${pack.id}`,
+      cancelUrl: `${origin}/billing`,
+    })
+    return NextResponse.json({ url: session.url })
+  } catch (err) {
+    console.error('Checkout failed:', err)
+    return errorResponse('checkout-failed')
+  }
+}
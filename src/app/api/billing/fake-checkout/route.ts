@@ -0,0 +1,47 @@
+import { NextResponse, type NextRequest } from 'next/server'
+
+import { getPaymentProvider, handlePaymentWebhook, PaymentWebhookError } from '@/lib/billing'
+import { fakeCheckoutValue, fakeSignatureMatches } from '@/lib/billing/fake-provider'
+import { simulateCheckoutCompleted } from '@/lib/billing/webhook-simulator'
+import { errorResponse } from '@/lib/errors/response'
+import { createClient } from '@/lib/server'
+
+/**
+ * Completes a fake checkout by simulating the provider's webhook. Only
+ * available when `PAYMENT_PROVIDER=fake`.
+ */
+export async function POST(request: NextRequest) {
+  const secret = process.env.FAKE_PAYMENT_SECRET
+  if (process.env.PAYMENT_PROVIDER !== 'fake' || !secret) {
+    return errorResponse('not-found')
+  }
+
+  const supabase = await createClient()
+  const { data, error } = await supabase.auth.getClaims()
+  if (error || !data?.claims) {
+    return errorResponse('unauthenticated')
+  }
+
+  const body: Record<string, unknown> = await request.json().catch(() => ({}))
+  const link = {
+    sessionId: String(body.session ?? ''),
+    userId: String(body.user ?? ''),
+    organizationId: typeof body.org === 'string' && body.org ? body.org : null,
+    packId: String(body.pack ?? ''),
+  }
+  if (link.userId !== data.claims.sub || !fakeSignatureMatches(secret, fakeCheckoutValue(link), String(body.sig ?? ''))) {
+    return errorResponse('invalid-checkout-link')
+  }
+
+  const webhook = simulateCheckoutCompleted(secret, link)
+  try {
+    await handlePaymentWebhook(getPaymentProvider(request.nextUrl.origin), webhook.payload, webhook.signature)
+    return NextResponse.json({ ok: true })
+  } catch (err) {
+    if (err instanceof PaymentWebhookError) {
+      return errorResponse('webhook-invalid', { message: err.message })
+    }
+    console.error('Fake checkout failed:', err)
+    return errorResponse('webhook-failed')
+  }
+}
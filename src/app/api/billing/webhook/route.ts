@@ -0,0 +1,22 @@
+import { NextResponse, type NextRequest } from 'next/server'
+
+import { getPaymentProvider, handlePaymentWebhook, PaymentWebhookError } from '@/lib/billing'
+import { errorResponse } from '@/lib/errors/response'
+
+// Called by the payment provider, not a browser: there is no user session.
+export async function POST(request: NextRequest) {
+  const payload = await request.text()
+
+  try {
+    const provider = getPaymentProvider(request.nextUrl.origin)
+    const event = await handlePaymentWebhook(provider, payload, request.headers.get(provider.signatureHeader))
+    return NextResponse.json({ received: true, type: event.type })
+  } catch (err) {
+    if (err instanceof PaymentWebhookError) {
+      return errorResponse('webhook-invalid', { message: err.message })
+    }
+    console.error('Webhook failed:', err)
+    // A 5xx tells the provider to redeliver later.
+    return errorResponse('webhook-failed')
+  }
+}
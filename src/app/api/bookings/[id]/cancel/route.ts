@@ -0,0 +1,26 @@
+import { NextResponse, type NextRequest } from 'next/server'
+
+import { cancelBooking } from '@/lib/bookings'
+import { errorResponse } from '@/lib/errors/response'
+import { createClient } from '@/lib/server'
+
+/** Cancels an upcoming booking. The client, their stylist and the organization's owners may. */
+export async function POST(_request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params
+  const supabase = await createClient()
+
+  const { data, error } = await supabase.auth.getClaims()
+  if (error || !data?.claims) {
+    return errorResponse('unauthenticated')
+  }
+
+  try {
+    if (!(await cancelBooking(supabase, id))) {
+      return errorResponse('booking-not-found')
+    }
+    return new NextResponse(null, { status: 204 })
+  } catch (err) {
+    console.error('Failed to cancel booking:', err)
+    return errorResponse('booking-failed')
+  }
+}
@@ -0,0 +1,73 @@
+import { NextResponse, type NextRequest } from 'next/server'
+
+import { parseBookingRequest } from '@/lib/booking-request'
+import { bookAppointment, bookingConfirmationEmails, listAvailability } from '@/lib/bookings'
+import { getEmailSender } from '@/lib/email'
+import { errorResponse } from '@/lib/errors/response'
+import { listMembers, listMemberships } from '@/lib/organizations'
+import { createClient } from '@/lib/server'
+
+/**
+ * Books a slot with a stylist: `{ organizationId, stylistId, startsAt,
+ * generationId? }`. Both sides get a confirmation email; a failed email does
+ * not undo the booking.
+ */
+export async function POST(request: NextRequest) {
+  const supabase = await createClient()
+
+  const { data, error } = await supabase.auth.getClaims()
+  if (error || !data?.claims) {
+    return errorResponse('unauthenticated')
+  }
+
+  let body: unknown
+  try {
+    body = await request.json()
+  } catch {
+    return errorResponse('invalid-json')
+  }
+
+  const parsed = parseBookingRequest(body)
+  if (!parsed.ok) {
+    return errorResponse('invalid-request', { message: parsed.error })
+  }
+  const { organizationId, stylistId, startsAt, generationId } = parsed.value
+
+  let bookingId: string | null
+  try {
+    bookingId = await bookAppointment(supabase, { organizationId, stylistId, startsAt, generationId })
+  } catch (err) {
+    const code = (err as { code?: string }).code
+    if (code === '42501') return errorResponse('organization-not-found')
+    if (code === 'P0002') return errorResponse('generation-not-found')
+    console.error('Failed to book appointment:', err)
+    return errorResponse('booking-failed')
+  }
+  if (!bookingId) {
+    return errorResponse('slot-unavailable')
+  }
+
+  try {
+    const [memberships, members, availability] = await Promise.all([
+      listMemberships(supabase, data.claims.sub),
+      listMembers(supabase, organizationId),
+      listAvailability(supabase, organizationId, stylistId),
+    ])
+    const stylist = members.find((member) => member.user_id === stylistId)
+    const emails = bookingConfirmationEmails({
+      startsAt,
+      timeZone: availability[0]?.time_zone ?? 'UTC',
+      organizationName: memberships.find((membership) => membership.id === organizationId)?.name ?? 'the salon',
+      clientEmail: data.claims.email ?? '',
+      stylistEmail: stylist?.email ?? '',
+      withLook: generationId !== null,
+      origin: request.nextUrl.origin,
+    })
+    const sender = getEmailSender()
+    await Promise.all(emails.filter((email) => email.to).map((email) => sender.send(email)))
+  } catch (err) {
+    console.error('Failed to send booking confirmation:', err)
+  }
+
+  return NextResponse.json({ id: bookingId }, { status: 201 })
+}
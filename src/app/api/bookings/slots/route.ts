@@ -0,0 +1,48 @@
+import { NextResponse, type NextRequest } from 'next/server'
+
+import { availableSlots, BOOKING_WINDOW_DAYS, listAvailability, listBusyTimes } from '@/lib/bookings'
+import { errorResponse } from '@/lib/errors/response'
+import { UUID_PATTERN } from '@/lib/generate-request'
+import { getMemberRole, getOrganizationRole, isStaff } from '@/lib/organizations'
+import { createClient } from '@/lib/server'
+
+/** Open slots with a stylist: `?organizationId=&stylistId=`. Members of the organization only. */
+export async function GET(request: NextRequest) {
+  const supabase = await createClient()
+
+  const { data, error } = await supabase.auth.getClaims()
+  if (error || !data?.claims) {
+    return errorResponse('unauthenticated')
+  }
+
+  const organizationId = request.nextUrl.searchParams.get('organizationId') ?? ''
+  const stylistId = request.nextUrl.searchParams.get('stylistId') ?? ''
+  if (!UUID_PATTERN.test(organizationId) || !UUID_PATTERN.test(stylistId)) {
+    return errorResponse('invalid-request', { message: 'organizationId and stylistId must be ids' })
+  }
+
+  try {
+    if (!(await getOrganizationRole(supabase, organizationId))) {
+      return errorResponse('organization-not-found')
+    }
+    const role = await getMemberRole(supabase, organizationId, stylistId)
+    if (!role || !isStaff(role)) {
+      return errorResponse('stylist-not-found')
+    }
+
+    const now = new Date()
+    // One extra day covers time zones ahead of the server's.
+    const to = new Date(now.getTime() + (BOOKING_WINDOW_DAYS + 1) * 24 * 60 * 60 * 1000)
+    const [availability, busy] = await Promise.all([
+      listAvailability(supabase, organizationId, stylistId),
+      listBusyTimes(supabase, { organizationId, stylistId, from: now, to }),
+    ])
+    return NextResponse.json({
+      slots: availableSlots(availability, busy, now).map((slot) => slot.toISOString()),
+      timeZone: availability[0]?.time_zone ?? null,
+    })
+  } catch (err) {
+    console.error('Failed to load slots:', err)
+    return errorResponse('bookings-load-failed')
+  }
+}
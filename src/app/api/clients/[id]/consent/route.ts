@@ -0,0 +1,59 @@
+import { NextResponse, type NextRequest } from 'next/server'
+
+import { createAdminClient } from '@/lib/admin'
+import {
+  deleteClientGenerations,
+  getClientProfile,
+  isConsentScope,
+  recordConsent,
+  removeClientPhoto,
+} from '@/lib/client-profiles'
+import { errorResponse } from '@/lib/errors/response'
+import { ACTIVE_ORGANIZATION_COOKIE, creditAccount, resolveActiveOrganization } from '@/lib/organizations'
+import { createClient } from '@/lib/server'
+
+/**
+ * Records what the client consents to now: `{ scopes }`, empty to withdraw
+ * everything. Without `photos`, their photo, every look made for them and the
+ * edit sessions behind those looks are deleted.
+ */
+export async function POST(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params
+  const supabase = await createClient()
+
+  const { data, error } = await supabase.auth.getClaims()
+  if (error || !data?.claims) {
+    return errorResponse('unauthenticated')
+  }
+
+  const organizationId = creditAccount(
+    await resolveActiveOrganization(supabase, request.cookies.get(ACTIVE_ORGANIZATION_COOKIE)?.value)
+  )
+  if (!organizationId) {
+    return errorResponse('forbidden')
+  }
+
+  const body: { scopes?: unknown } = await request.json().catch(() => ({}))
+  if (!Array.isArray(body.scopes) || !body.scopes.every(isConsentScope)) {
+    return errorResponse('invalid-request', { message: 'scopes must list what the client consented to' })
+  }
+  const scopes = body.scopes
+
+  try {
+    const profile = await getClientProfile(supabase, organizationId, id)
+    if (!profile) {
+      return errorResponse('client-profile-not-found')
+    }
+    await recordConsent(supabase, id, scopes)
+
+    let deletedLooks = 0
+    if (!scopes.includes('photos')) {
+      await removeClientPhoto(supabase, profile)
+      deletedLooks = await deleteClientGenerations(createAdminClient(), id)
+    }
+    return NextResponse.json({ scopes, deletedLooks })
+  } catch (err) {
+    console.error('Failed to record client consent:', err)
+    return errorResponse('client-profile-update-failed')
+  }
+}
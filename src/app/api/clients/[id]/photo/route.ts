@@ -0,0 +1,96 @@
+import { NextResponse, type NextRequest } from 'next/server'
+
+import {
+  currentConsent,
+  getClientProfile,
+  hasConsent,
+  removeClientPhoto,
+  setClientPhoto,
+} from '@/lib/client-profiles'
+import { errorResponse } from '@/lib/errors/response'
+import { createSignedImageUrl } from '@/lib/generations'
+import { ACTIVE_ORGANIZATION_COOKIE, creditAccount, resolveActiveOrganization } from '@/lib/organizations'
+import { createClient } from '@/lib/server'
+import { validateBase64Image } from '@/lib/upload-validation'
+
+type Params = { params: Promise<{ id: string }> }
+
+/**
+ * Replaces the profile's reference photo: `{ base64Image, mimeType }`. Needs
+ * the client's consent to `photos`.
+ */
+export async function PUT(request: NextRequest, { params }: Params) {
+  const { id } = await params
+  const supabase = await createClient()
+
+  const { data, error } = await supabase.auth.getClaims()
+  if (error || !data?.claims) {
+    return errorResponse('unauthenticated')
+  }
+
+  const organizationId = creditAccount(
+    await resolveActiveOrganization(supabase, request.cookies.get(ACTIVE_ORGANIZATION_COOKIE)?.value)
+  )
+  if (!organizationId) {
+    return errorResponse('forbidden')
+  }
+
+  let body: { base64Image?: unknown; mimeType?: unknown }
+  try {
+    body = await request.json()
+  } catch {
+    return errorResponse('invalid-json')
+  }
+  if (typeof body.base64Image !== 'string' || typeof body.mimeType !== 'string') {
+    return errorResponse('invalid-request', { message: 'base64Image and mimeType are required' })
+  }
+  const image = { data: body.base64Image, mimeType: body.mimeType }
+  const validation = validateBase64Image(image)
+  if (!validation.ok) {
+    return errorResponse(validation.code)
+  }
+
+  try {
+    const profile = await getClientProfile(supabase, organizationId, id)
+    if (!profile) {
+      return errorResponse('client-profile-not-found')
+    }
+    if (!hasConsent(await currentConsent(supabase, id), 'photos')) {
+      return errorResponse('consent-required')
+    }
+    const path = await setClientPhoto(supabase, profile, image)
+    return NextResponse.json({ photoUrl: await createSignedImageUrl(supabase, path) })
+  } catch (err) {
+    console.error('Failed to store client photo:', err)
+    return errorResponse('client-profile-update-failed')
+  }
+}
+
+export async function DELETE(request: NextRequest, { params }: Params) {
+  const { id } = await params
+  const supabase = await createClient()
+
+  const { data, error } = await supabase.auth.getClaims()
+  if (error || !data?.claims) {
+    return errorResponse('unauthenticated')
+  }
+
+  const organizationId = creditAccount(
+    await resolveActiveOrganization(supabase, request.cookies.get(ACTIVE_ORGANIZATION_COOKIE)?.value)
+  )
+  if (!organizationId) {
+    return errorResponse('forbidden')
+  }
+
+  try {
+    const profile = await getClientProfile(supabase, organizationId, id)
+    if (!profile) {
+      return errorResponse('client-profile-not-found')
+    }
+    await removeClientPhoto(supabase, profile)
+    return new NextResponse(null, { status: 204 })
+  } catch (err) {
+    console.error('Failed to remove client photo:', err)
+    return errorResponse('client-profile-update-failed')
+  }
+}
@@ -0,0 +1,133 @@
+import { NextResponse, type NextRequest } from 'next/server'
+
+import { createAdminClient } from '@/lib/admin'
+import {
+  CLIENT_NAME_MAX_LENGTH,
+  CLIENT_NOTES_MAX_LENGTH,
+  currentConsent,
+  deleteClientProfile,
+  getClientProfile,
+  hasConsent,
+  updateClientProfile,
+} from '@/lib/client-profiles'
+import { errorResponse } from '@/lib/errors/response'
+import { createSignedImageUrl } from '@/lib/generations'
+import { ACTIVE_ORGANIZATION_COOKIE, creditAccount, resolveActiveOrganization } from '@/lib/organizations'
+import { createClient } from '@/lib/server'
+
+type Params = { params: Promise<{ id: string }> }
+
+/** What the editor needs to start a session with the client: their name and photo. */
+export async function GET(request: NextRequest, { params }: Params) {
+  const { id } = await params
+  const supabase = await createClient()
+
+  const { data, error } = await supabase.auth.getClaims()
+  if (error || !data?.claims) {
+    return errorResponse('unauthenticated')
+  }
+
+  const organizationId = creditAccount(
+    await resolveActiveOrganization(supabase, request.cookies.get(ACTIVE_ORGANIZATION_COOKIE)?.value)
+  )
+  if (!organizationId) {
+    return errorResponse('forbidden')
+  }
+
+  try {
+    const profile = await getClientProfile(supabase, organizationId, id)
+    if (!profile) {
+      return errorResponse('client-profile-not-found')
+    }
+    const consent = await currentConsent(supabase, id)
+    return NextResponse.json({
+      id: profile.id,
+      name: profile.name,
+      photoUrl: profile.photo_path ? await createSignedImageUrl(supabase, profile.photo_path) : null,
+      canStoreLooks: hasConsent(consent, 'photos'),
+    })
+  } catch (err) {
+    console.error('Failed to load client profile:', err)
+    return errorResponse('client-profile-load-failed')
+  }
+}
+
+/** Updates a profile's name and/or notes: `{ name?, notes? }`. */
+export async function PATCH(request: NextRequest, { params }: Params) {
+  const { id } = await params
+  const supabase = await createClient()
+
+  const { data, error } = await supabase.auth.getClaims()
+  if (error || !data?.claims) {
+    return errorResponse('unauthenticated')
+  }
+
+  const organizationId = creditAccount(
+    await resolveActiveOrganization(supabase, request.cookies.get(ACTIVE_ORGANIZATION_COOKIE)?.value)
+  )
+  if (!organizationId) {
+    return errorResponse('forbidden')
+  }
+
+  let body: { name?: unknown; notes?: unknown }
+  try {
+    body = await request.json()
+  } catch {
+    return errorResponse('invalid-json')
+  }
+
+  const changes: { name?: string; notes?: string } = {}
+  if (body.name !== undefined) {
+    const name = typeof body.name === 'string' ? body.name.trim() : ''
+    if (name.length === 0 || name.length > CLIENT_NAME_MAX_LENGTH) {
+      return errorResponse('invalid-request', { message: `name must be 1 to ${CLIENT_NAME_MAX_LENGTH} characters` })
+    }
+    changes.name = name
+  }
+  if (body.notes !== undefined) {
+    if (typeof body.notes !== 'string' || body.notes.length > CLIENT_NOTES_MAX_LENGTH) {
+      return errorResponse('invalid-request', { message: `notes must be at most ${CLIENT_NOTES_MAX_LENGTH} characters` })
+    }
+    changes.notes = body.notes
+  }
+
+  try {
+    if (!(await getClientProfile(supabase, organizationId, id))) {
+      return errorResponse('client-profile-not-found')
+    }
+    await updateClientProfile(supabase, id, changes)
+    return new NextResponse(null, { status: 204 })
+  } catch (err) {
+    console.error('Failed to update client profile:', err)
+    return errorResponse('client-profile-update-failed')
+  }
+}
+
+/** Deletes a profile with its photo, consent records and every look made for it. */
+export async function DELETE(request: NextRequest, { params }: Params) {
+  const { id } = await params
+  const supabase = await createClient()
+
+  const { data, error } = await supabase.auth.getClaims()
+  if (error || !data?.claims) {
+    return errorResponse('unauthenticated')
+  }
+
+  const organizationId = creditAccount(
+    await resolveActiveOrganization(supabase, request.cookies.get(ACTIVE_ORGANIZATION_COOKIE)?.value)
+  )
+  if (!organizationId) {
+    return errorResponse('forbidden')
+  }
+
+  try {
+    const profile = await getClientProfile(supabase, organizationId, id)
+    if (!profile || !(await deleteClientProfile(supabase, createAdminClient(), profile))) {
+      return errorResponse('client-profile-not-found')
+    }
+    return new NextResponse(null, { status: 204 })
+  } catch (err) {
+    console.error('Failed to delete client profile:', err)
+    return errorResponse('client-profile-update-failed')
+  }
+}
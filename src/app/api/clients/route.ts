@@ -0,0 +1,52 @@
+import { NextResponse, type NextRequest } from 'next/server'
+
+import {
+  CLIENT_NAME_MAX_LENGTH,
+  CLIENT_NOTES_MAX_LENGTH,
+  createClientProfile,
+  isConsentScope,
+} from '@/lib/client-profiles'
+import { errorResponse } from '@/lib/errors/response'
+import { ACTIVE_ORGANIZATION_COOKIE, creditAccount, resolveActiveOrganization } from '@/lib/organizations'
+import { createClient } from '@/lib/server'
+
+/**
+ * Creates a client profile in the active organization with the consent the
+ * client gave: `{ name, notes?, scopes }`. Owners and stylists only.
+ */
+export async function POST(request: NextRequest) {
+  const supabase = await createClient()
+
+  const { data, error } = await supabase.auth.getClaims()
+  if (error || !data?.claims) {
+    return errorResponse('unauthenticated')
+  }
+
+  const organizationId = creditAccount(
+    await resolveActiveOrganization(supabase, request.cookies.get(ACTIVE_ORGANIZATION_COOKIE)?.value)
+  )
+  if (!organizationId) {
+    return errorResponse('forbidden')
+  }
+
+  const body: { name?: unknown; notes?: unknown; scopes?: unknown } = await request.json().catch(() => ({}))
+  const name = typeof body.name === 'string' ? body.name.trim() : ''
+  if (name.length === 0 || name.length > CLIENT_NAME_MAX_LENGTH) {
+    return errorResponse('invalid-request', { message: `name must be 1 to ${CLIENT_NAME_MAX_LENGTH} characters` })
+  }
+  const notes = body.notes === undefined ? '' : body.notes
+  if (typeof notes !== 'string' || notes.length > CLIENT_NOTES_MAX_LENGTH) {
+    return errorResponse('invalid-request', { message: `notes must be at most ${CLIENT_NOTES_MAX_LENGTH} characters` })
+  }
+  if (!Array.isArray(body.scopes) || !body.scopes.every(isConsentScope)) {
+    return errorResponse('invalid-request', { message: 'scopes must list what the client consented to' })
+  }
+
+  try {
+    const id = await createClientProfile(supabase, { organizationId, name, notes, scopes: body.scopes })
+    return NextResponse.json({ id }, { status: 201 })
+  } catch (err) {
+    console.error('Failed to create client profile:', err)
+    return errorResponse('client-profile-update-failed')
+  }
+}
@@ -0,0 +1,30 @@
+import { NextResponse, type NextRequest } from 'next/server'
+
+import { removeFromCollection } from '@/lib/collections'
+import { errorResponse } from '@/lib/errors/response'
+import { createClient } from '@/lib/server'
+
+/** Takes a look out of a collection. The look itself is kept. */
+export async function DELETE(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string; generationId: string }> }
+) {
+  const { id, generationId } = await params
+  const supabase = await createClient()
+
+  const { data, error } = await supabase.auth.getClaims()
+  if (error || !data?.claims) {
+    return errorResponse('unauthenticated')
+  }
+
+  try {
+    const removed = await removeFromCollection(supabase, id, generationId)
+    if (!removed) {
+      return errorResponse('collection-not-found')
+    }
+    return new NextResponse(null, { status: 204 })
+  } catch (err) {
+    console.error('Failed to remove from collection:', err)
+    return errorResponse('collection-update-failed')
+  }
+}
@@ -0,0 +1,33 @@
+import { NextResponse, type NextRequest } from 'next/server'
+
+import { addToCollection } from '@/lib/collections'
+import { errorResponse } from '@/lib/errors/response'
+import { UUID_PATTERN } from '@/lib/generate-request'
+import { createClient } from '@/lib/server'
+
+/** Adds a look to a collection: `{ generationId }`. */
+export async function POST(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params
+  const supabase = await createClient()
+
+  const { data, error } = await supabase.auth.getClaims()
+  if (error || !data?.claims) {
+    return errorResponse('unauthenticated')
+  }
+
+  const body: { generationId?: unknown } = await request.json().catch(() => ({}))
+  if (typeof body.generationId !== 'string' || !UUID_PATTERN.test(body.generationId)) {
+    return errorResponse('invalid-request', { message: 'generationId must be a generation id' })
+  }
+
+  try {
+    const added = await addToCollection(supabase, id, body.generationId)
+    if (!added) {
+      return errorResponse('collection-not-found')
+    }
+    return new NextResponse(null, { status: 204 })
+  } catch (err) {
+    console.error('Failed to add to collection:', err)
+    return errorResponse('collection-update-failed')
+  }
+}
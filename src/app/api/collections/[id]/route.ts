@@ -0,0 +1,55 @@
+import { NextResponse, type NextRequest } from 'next/server'
+
+import { COLLECTION_NAME_MAX_LENGTH, deleteCollection, renameCollection } from '@/lib/collections'
+import { errorResponse } from '@/lib/errors/response'
+import { createClient } from '@/lib/server'
+
+/** Renames a collection: `{ name }`. */
+export async function PATCH(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params
+  const supabase = await createClient()
+
+  const { data, error } = await supabase.auth.getClaims()
+  if (error || !data?.claims) {
+    return errorResponse('unauthenticated')
+  }
+
+  const body: { name?: unknown } = await request.json().catch(() => ({}))
+  const name = typeof body.name === 'string' ? body.name.trim() : ''
+  if (name.length === 0 || name.length > COLLECTION_NAME_MAX_LENGTH) {
+    return errorResponse('invalid-request', { message: `name must be 1 to ${COLLECTION_NAME_MAX_LENGTH} characters` })
+  }
+
+  try {
+    const renamed = await renameCollection(supabase, id, name)
+    if (!renamed) {
+      return errorResponse('collection-not-found')
+    }
+    return new NextResponse(null, { status: 204 })
+  } catch (err) {
+    console.error('Failed to rename collection:', err)
+    return errorResponse('collection-update-failed')
+  }
+}
+
+/** Deletes a collection; the looks in it are kept. */
+export async function DELETE(_request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params
+  const supabase = await createClient()
+
+  const { data, error } = await supabase.auth.getClaims()
+  if (error || !data?.claims) {
+    return errorResponse('unauthenticated')
+  }
+
+  try {
+    const deleted = await deleteCollection(supabase, id)
+    if (!deleted) {
+      return errorResponse('collection-not-found')
+    }
+    return new NextResponse(null, { status: 204 })
+  } catch (err) {
+    console.error('Failed to delete collection:', err)
+    return errorResponse('collection-update-failed')
+  }
+}
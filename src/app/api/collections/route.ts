@@ -0,0 +1,45 @@
+import { NextResponse, type NextRequest } from 'next/server'
+
+import { COLLECTION_NAME_MAX_LENGTH, createCollection, listCollections } from '@/lib/collections'
+import { errorResponse } from '@/lib/errors/response'
+import { createClient } from '@/lib/server'
+
+export async function GET() {
+  const supabase = await createClient()
+
+  const { data, error } = await supabase.auth.getClaims()
+  if (error || !data?.claims) {
+    return errorResponse('unauthenticated')
+  }
+
+  try {
+    return NextResponse.json({ collections: await listCollections(supabase) })
+  } catch (err) {
+    console.error('Failed to list collections:', err)
+    return errorResponse('collections-load-failed')
+  }
+}
+
+/** Creates a collection for the current user: `{ name }`. */
+export async function POST(request: NextRequest) {
+  const supabase = await createClient()
+
+  const { data, error } = await supabase.auth.getClaims()
+  if (error || !data?.claims) {
+    return errorResponse('unauthenticated')
+  }
+
+  const body: { name?: unknown } = await request.json().catch(() => ({}))
+  const name = typeof body.name === 'string' ? body.name.trim() : ''
+  if (name.length === 0 || name.length > COLLECTION_NAME_MAX_LENGTH) {
+    return errorResponse('invalid-request', { message: `name must be 1 to ${COLLECTION_NAME_MAX_LENGTH} characters` })
+  }
+
+  try {
+    const collection = await createCollection(supabase, name)
+    return NextResponse.json({ collection }, { status: 201 })
+  } catch (err) {
+    console.error('Failed to create collection:', err)
+    return errorResponse('collection-update-failed')
+  }
+}
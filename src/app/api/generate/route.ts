@@ -0,0 +1,201 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { after, NextResponse, type NextRequest } from 'next/server'
+
+import { createAdminClient } from '@/lib/admin'
+import { debitGenerationCredits, getCreditBalance, refundGenerationCredits } from '@/lib/billing'
+import { currentConsent, getClientProfile, hasConsent } from '@/lib/client-profiles'
+import { getEditStep, selectionForStep } from '@/lib/edit-sessions'
+import { errorResponse } from '@/lib/errors/response'
+import { parseGenerateRequest } from '@/lib/generate-request'
+import { checkInstruction } from '@/lib/instruction-safety'
+import { createJob, processJob, type GenerationJob, type JobSource } from '@/lib/jobs'
+import {
+  ACTIVE_ORGANIZATION_COOKIE,
+  creditAccount,
+  getMemberRole,
+  resolveActiveOrganization,
+} from '@/lib/organizations'
+import {
+  buildEditPrompt,
+  buildRefinePrompt,
+  describeSelection,
+  type EditPrompt,
+  type StyleSelection,
+} from '@/lib/prompt-builder'
+import { checkQuota, clientIp, getQuotaStore, tierFromClaims } from '@/lib/quota'
+import { createClient } from '@/lib/server'
+import { validateBase64Image } from '@/lib/upload-validation'
+
+export async function POST(request: NextRequest) {
+  const supabase = await createClient()
+
+  const { data, error } = await supabase.auth.getClaims()
+  if (error || !data?.claims) {
+    return errorResponse('unauthenticated')
+  }
+
+  let body: unknown
+  try {
+    body = await request.json()
+  } catch {
+    return errorResponse('invalid-json')
+  }
+
+  const parsed = parseGenerateRequest(body)
+  if (!parsed.ok) {
+    return errorResponse('invalid-request', { message: parsed.error })
+  }
+
+  // Organization staff generate from the shared pool, optionally for one of its clients.
+  const active = await resolveActiveOrganization(supabase, request.cookies.get(ACTIVE_ORGANIZATION_COOKIE)?.value)
+  const organizationId = creditAccount(active)
+  const { clientId } = parsed.value
+  if (clientId) {
+    if (!organizationId) {
+      return errorResponse('forbidden')
+    }
+    if ((await getMemberRole(supabase, organizationId, clientId)) !== 'client') {
+      return errorResponse('client-not-found')
+    }
+  }
+  // Looks made in a client profile session are stored, which needs the client's consent.
+  const { clientProfileId } = parsed.value
+  if (clientProfileId) {
+    if (!organizationId) {
+      return errorResponse('forbidden')
+    }
+    if (!(await getClientProfile(supabase, organizationId, clientProfileId))) {
+      return errorResponse('client-profile-not-found')
+    }
+    if (!hasConsent(await currentConsent(supabase, clientProfileId), 'photos')) {
+      return errorResponse('consent-required')
+    }
+  }
+
+  let source: JobSource
+  let selection: StyleSelection
+  let prompt: EditPrompt
+  let instruction: string
+  if (parsed.value.kind === 'style') {
+    const { image, reference, mask } = parsed.value
+    const photo = validateBase64Image(image)
+    if (!photo.ok) {
+      return errorResponse(photo.code)
+    }
+    if (reference) {
+      const validation = validateBase64Image(reference)
+      if (!validation.ok) {
+        return errorResponse(validation.code)
+      }
+    }
+    if (mask) {
+      // Compositing stretches the mask, so a mismatched one would land on the wrong pixels.
+      const validation = validateBase64Image(mask)
+      if (
+        !validation.ok ||
+        validation.mimeType !== 'image/png' ||
+        validation.width !== photo.width ||
+        validation.height !== photo.height
+      ) {
+        return errorResponse('invalid-mask')
+      }
+    }
+    source = { image, reference, mask }
+    selection = parsed.value.selection
+    if (selection.instructions) {
+      const check = checkInstruction(selection.instructions)
+      if (!check.ok) {
+        return errorResponse(check.code)
+      }
+      selection = { ...selection, instructions: check.text || undefined }
+    }
+    prompt = buildEditPrompt(selection, { reference: reference !== undefined })
+    instruction = describeSelection(selection, { reference: reference !== undefined })
+  } else {
+    const check = checkInstruction(parsed.value.instruction)
+    if (!check.ok) {
+      return errorResponse(check.code)
+    }
+    if (!check.text) {
+      return errorResponse('invalid-request', { message: 'instruction must be a non-empty string' })
+    }
+    const parent = await getEditStep(supabase, parsed.value.parentStepId)
+    if (!parent) {
+      return errorResponse('edit-step-not-found')
+    }
+    source = { parent }
+    selection = (await selectionForStep(supabase, parent)) ?? {
+      hairstyleId: null,
+      beardId: null,
+      colorId: null,
+      modifiers: {},
+    }
+    prompt = buildRefinePrompt(check.text)
+    instruction = check.text
+  }
+
+  // Jobs are created, failed ones refunded and IP rate limits counted with the service role
+  let admin: SupabaseClient
+  try {
+    admin = createAdminClient()
+  } catch (err) {
+    console.error('Failed to queue generation:', err)
+    return errorResponse('queue-failed')
+  }
+
+  const userId = data.claims.sub
+  const decision = await checkQuota(getQuotaStore(admin), {
+    userId,
+    tier: organizationId ? null : tierFromClaims(data.claims),
+    ip: clientIp(request.headers),
+  })
+  if (!decision.allowed) {
+    return errorResponse(decision.reason, {
+      extra: { quota: decision.status, retryAfterSeconds: decision.retryAfterSeconds },
+      headers: { 'Retry-After': String(decision.retryAfterSeconds) },
+    })
+  }
+
+  const generationId = crypto.randomUUID()
+  const debitId = await debitGenerationCredits(supabase, generationId, organizationId)
+  if (!debitId) {
+    return errorResponse('insufficient-credits', { extra: { credits: 0 } })
+  }
+
+  let job: GenerationJob
+  try {
+    job = await createJob(admin, {
+      id: generationId,
+      userId,
+      source,
+      selection,
+      prompt: prompt.text,
+      instruction,
+      debitId,
+      organizationId,
+      clientId,
+      clientProfileId,
+    })
+  } catch (err) {
+    console.error('Failed to queue generation:', err)
+    try {
+      await refundGenerationCredits(admin, debitId)
+    } catch (refundError) {
+      console.error('Failed to refund generation credits:', refundError)
+    }
+    return errorResponse('queue-failed')
+  }
+
+  // Start right away; the worker route picks up anything this misses.
+  after(() => processJob(admin, job.id).catch((err) => console.error('Job processing failed:', err)))
+
+  return NextResponse.json(
+    {
+      jobId: job.id,
+      status: job.status,
+      quota: decision.status,
+      credits: await getCreditBalance(supabase, organizationId),
+    },
+    { status: 202 }
+  )
+}
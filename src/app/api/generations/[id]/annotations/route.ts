@@ -0,0 +1,57 @@
+import { NextResponse, type NextRequest } from 'next/server'
+
+import { getLookAnnotations, NOTE_MAX_LENGTH, saveNote, setFavorite } from '@/lib/collections'
+import { errorResponse } from '@/lib/errors/response'
+import { createClient } from '@/lib/server'
+
+/** The current user's star, note and collections for this look. */
+export async function GET(_request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params
+  const supabase = await createClient()
+
+  const { data, error } = await supabase.auth.getClaims()
+  if (error || !data?.claims) {
+    return errorResponse('unauthenticated')
+  }
+
+  try {
+    return NextResponse.json(await getLookAnnotations(supabase, id))
+  } catch (err) {
+    console.error('Failed to load look annotations:', err)
+    return errorResponse('collections-load-failed')
+  }
+}
+
+/** Stars or unstars the look and saves a note: `{ favorite?: boolean, note?: string }`. An empty note deletes it. */
+export async function PATCH(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params
+  const supabase = await createClient()
+
+  const { data, error } = await supabase.auth.getClaims()
+  if (error || !data?.claims) {
+    return errorResponse('unauthenticated')
+  }
+
+  const body: { favorite?: unknown; note?: unknown } = await request.json().catch(() => ({}))
+  if (body.favorite !== undefined && typeof body.favorite !== 'boolean') {
+    return errorResponse('invalid-request', { message: 'favorite must be a boolean' })
+  }
+  const note = typeof body.note === 'string' ? body.note.trim() : body.note
+  if (note !== undefined && (typeof note !== 'string' || note.length > NOTE_MAX_LENGTH)) {
+    return errorResponse('invalid-request', { message: `note must be at most ${NOTE_MAX_LENGTH} characters` })
+  }
+
+  try {
+    const updated = await Promise.all([
+      body.favorite === undefined ? true : setFavorite(supabase, id, body.favorite),
+      note === undefined ? true : saveNote(supabase, id, note),
+    ])
+    if (updated.includes(false)) {
+      return errorResponse('generation-not-found')
+    }
+    return new NextResponse(null, { status: 204 })
+  } catch (err) {
+    console.error('Failed to update look annotations:', err)
+    return errorResponse('collection-update-failed')
+  }
+}
@@ -0,0 +1,26 @@
+import { NextResponse, type NextRequest } from 'next/server'
+
+import { errorResponse } from '@/lib/errors/response'
+import { deleteGeneration } from '@/lib/generations'
+import { createClient } from '@/lib/server'
+
+export async function DELETE(_request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params
+  const supabase = await createClient()
+
+  const { data, error } = await supabase.auth.getClaims()
+  if (error || !data?.claims) {
+    return errorResponse('unauthenticated')
+  }
+
+  try {
+    const deleted = await deleteGeneration(supabase, id)
+    if (!deleted) {
+      return errorResponse('generation-not-found')
+    }
+    return new NextResponse(null, { status: 204 })
+  } catch (err) {
+    console.error('Failed to delete generation:', err)
+    return errorResponse('generation-delete-failed')
+  }
+}
@@ -0,0 +1,70 @@
+import { NextResponse, type NextRequest } from 'next/server'
+
+import { errorResponse } from '@/lib/errors/response'
+import {
+  createShareLink,
+  isShareExpiryDays,
+  listActiveShareLinks,
+  toShareLinkView,
+} from '@/lib/share-links'
+import { createClient } from '@/lib/server'
+
+/** The current user's share links to this look that still work. */
+export async function GET(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params
+  const supabase = await createClient()
+
+  const { data, error } = await supabase.auth.getClaims()
+  if (error || !data?.claims) {
+    return errorResponse('unauthenticated')
+  }
+
+  try {
+    const links = await listActiveShareLinks(supabase, id)
+    return NextResponse.json({ links: links.map((link) => toShareLinkView(link, request.nextUrl.origin)) })
+  } catch (err) {
+    console.error('Failed to list share links:', err)
+    return errorResponse('share-link-failed')
+  }
+}
+
+/**
+ * Creates a public link to this look: `{ showBefore?: boolean, expiresInDays:
+ * 1 | 7 | 30 | null }`.
+ */
+export async function POST(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params
+  const supabase = await createClient()
+
+  const { data, error } = await supabase.auth.getClaims()
+  if (error || !data?.claims) {
+    return errorResponse('unauthenticated')
+  }
+
+  let body: unknown
+  try {
+    body = await request.json()
+  } catch {
+    return errorResponse('invalid-json')
+  }
+
+  const { showBefore = false, expiresInDays } =
+    typeof body === 'object' && body !== null ? (body as { showBefore?: unknown; expiresInDays?: unknown }) : {}
+  if (typeof showBefore !== 'boolean') {
+    return errorResponse('invalid-request', { message: 'showBefore must be a boolean' })
+  }
+  if (!isShareExpiryDays(expiresInDays)) {
+    return errorResponse('invalid-request', { message: 'expiresInDays must be 1, 7, 30 or null' })
+  }
+
+  try {
+    const result = await createShareLink(supabase, { generationId: id, showBefore, expiresInDays })
+    if (!result.ok) {
+      return errorResponse(result.code)
+    }
+    return NextResponse.json({ link: toShareLinkView(result.link, request.nextUrl.origin) }, { status: 201 })
+  } catch (err) {
+    console.error('Failed to create share link:', err)
+    return errorResponse('share-link-failed')
+  }
+}
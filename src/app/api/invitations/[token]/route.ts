@@ -0,0 +1,32 @@
+import { NextResponse, type NextRequest } from 'next/server'
+
+import { errorResponse } from '@/lib/errors/response'
+import { acceptInvitation, ACTIVE_ORGANIZATION_COOKIE, ACTIVE_ORGANIZATION_COOKIE_OPTIONS } from '@/lib/organizations'
+import { createClient } from '@/lib/server'
+
+/**
+ * Accepts an invitation for the signed-in user's email address and switches
+ * to the organization it was for.
+ */
+export async function POST(_request: NextRequest, { params }: { params: Promise<{ token: string }> }) {
+  const { token } = await params
+  const supabase = await createClient()
+
+  const { data, error } = await supabase.auth.getClaims()
+  if (error || !data?.claims) {
+    return errorResponse('unauthenticated')
+  }
+
+  try {
+    const organizationId = await acceptInvitation(supabase, token)
+    if (!organizationId) {
+      return errorResponse('invitation-not-found')
+    }
+    const response = NextResponse.json({ organizationId })
+    response.cookies.set(ACTIVE_ORGANIZATION_COOKIE, organizationId, ACTIVE_ORGANIZATION_COOKIE_OPTIONS)
+    return response
+  } catch (err) {
+    console.error('Failed to accept invitation:', err)
+    return errorResponse('organization-update-failed')
+  }
+}
@@ -0,0 +1,34 @@
+import { NextResponse, type NextRequest } from 'next/server'
+
+import { createAdminClient } from '@/lib/admin'
+import { getCreditBalance } from '@/lib/billing'
+import { errorResponse } from '@/lib/errors/response'
+import { cancelJob, getJob } from '@/lib/jobs'
+import { ACTIVE_ORGANIZATION_COOKIE, creditAccount, resolveActiveOrganization } from '@/lib/organizations'
+import { createClient } from '@/lib/server'
+
+export async function POST(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params
+  const supabase = await createClient()
+
+  const { data, error } = await supabase.auth.getClaims()
+  if (error || !data?.claims) {
+    return errorResponse('unauthenticated')
+  }
+
+  try {
+    const cancelled = await cancelJob(createAdminClient(), data.claims.sub, id)
+    const job = await getJob(supabase, id)
+    if (!job) {
+      return errorResponse('job-not-found')
+    }
+    if (!cancelled) {
+      return errorResponse('job-finished', { extra: { job } })
+    }
+    const active = await resolveActiveOrganization(supabase, request.cookies.get(ACTIVE_ORGANIZATION_COOKIE)?.value)
+    return NextResponse.json({ job, credits: await getCreditBalance(supabase, creditAccount(active)) })
+  } catch (err) {
+    console.error('Failed to cancel job:', err)
+    return errorResponse('job-cancel-failed')
+  }
+}
@@ -0,0 +1,26 @@
+import { NextResponse, type NextRequest } from 'next/server'
+
+import { errorResponse } from '@/lib/errors/response'
+import { getJob } from '@/lib/jobs'
+import { createClient } from '@/lib/server'
+
+export async function GET(_request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params
+  const supabase = await createClient()
+
+  const { data, error } = await supabase.auth.getClaims()
+  if (error || !data?.claims) {
+    return errorResponse('unauthenticated')
+  }
+
+  try {
+    const job = await getJob(supabase, id)
+    if (!job) {
+      return errorResponse('job-not-found')
+    }
+    return NextResponse.json(job, { headers: { 'Cache-Control': 'no-store' } })
+  } catch (err) {
+    console.error('Failed to load job:', err)
+    return errorResponse('job-load-failed')
+  }
+}
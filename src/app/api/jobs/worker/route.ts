@@ -0,0 +1,21 @@
+import { NextResponse, type NextRequest } from 'next/server'
+
+import { createAdminClient } from '@/lib/admin'
+import { errorResponse } from '@/lib/errors/response'
+import { processQueuedJobs } from '@/lib/jobs'
+
+// Called by a scheduler (e.g. a cron job), not a browser: there is no user session.
+export async function POST(request: NextRequest) {
+  const secret = process.env.JOBS_WORKER_SECRET
+  if (!secret || request.headers.get('authorization') !== `Bearer ${secret}`) {
+    return errorResponse('unauthenticated')
+  }
+
+  try {
+    const result = await processQueuedJobs(createAdminClient())
+    return NextResponse.json(result)
+  } catch (err) {
+    console.error('Job worker failed:', err)
+    return errorResponse('job-worker-failed')
+  }
+}
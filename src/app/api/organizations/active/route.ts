@@ -0,0 +1,45 @@
+import { NextResponse, type NextRequest } from 'next/server'
+
+import { errorResponse } from '@/lib/errors/response'
+import {
+  ACTIVE_ORGANIZATION_COOKIE,
+  ACTIVE_ORGANIZATION_COOKIE_OPTIONS,
+  getOrganizationRole,
+} from '@/lib/organizations'
+import { createClient } from '@/lib/server'
+
+/**
+ * Chooses who the user acts for: `{ organizationId }` for one of their
+ * organizations, or `{ organizationId: null }` for their personal account.
+ */
+export async function PUT(request: NextRequest) {
+  const supabase = await createClient()
+
+  const { data, error } = await supabase.auth.getClaims()
+  if (error || !data?.claims) {
+    return errorResponse('unauthenticated')
+  }
+
+  const body: { organizationId?: unknown } = await request.json().catch(() => ({}))
+  const { organizationId } = body
+  if (organizationId !== null && typeof organizationId !== 'string') {
+    return errorResponse('invalid-request', { message: 'organizationId must be an organization id or null' })
+  }
+
+  const response = new NextResponse(null, { status: 204 })
+  if (organizationId === null) {
+    response.cookies.delete(ACTIVE_ORGANIZATION_COOKIE)
+    return response
+  }
+
+  try {
+    if (!(await getOrganizationRole(supabase, organizationId))) {
+      return errorResponse('organization-not-found')
+    }
+  } catch (err) {
+    console.error('Failed to switch organization:', err)
+    return errorResponse('organization-load-failed')
+  }
+  response.cookies.set(ACTIVE_ORGANIZATION_COOKIE, organizationId, ACTIVE_ORGANIZATION_COOKIE_OPTIONS)
+  return response
+}
@@ -0,0 +1,31 @@
+import { NextResponse, type NextRequest } from 'next/server'
+
+import { errorResponse } from '@/lib/errors/response'
+import { ACTIVE_ORGANIZATION_COOKIE, resolveActiveOrganization, revokeInvitation } from '@/lib/organizations'
+import { createClient } from '@/lib/server'
+
+/** Revokes a pending invitation to the active organization. Owners only. */
+export async function DELETE(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params
+  const supabase = await createClient()
+
+  const { data, error } = await supabase.auth.getClaims()
+  if (error || !data?.claims) {
+    return errorResponse('unauthenticated')
+  }
+
+  const active = await resolveActiveOrganization(supabase, request.cookies.get(ACTIVE_ORGANIZATION_COOKIE)?.value)
+  if (active?.role !== 'owner') {
+    return errorResponse('forbidden')
+  }
+
+  try {
+    if (!(await revokeInvitation(supabase, active.id, id))) {
+      return errorResponse('invitation-not-found')
+    }
+    return new NextResponse(null, { status: 204 })
+  } catch (err) {
+    console.error('Failed to revoke invitation:', err)
+    return errorResponse('organization-update-failed')
+  }
+}
@@ -0,0 +1,72 @@
+import { NextResponse, type NextRequest } from 'next/server'
+
+import { getEmailSender } from '@/lib/email'
+import { errorResponse } from '@/lib/errors/response'
+import {
+  ACTIVE_ORGANIZATION_COOKIE,
+  invitationEmail,
+  invitationPath,
+  inviteMember,
+  isInvitableRole,
+  listMemberships,
+  resolveActiveOrganization,
+} from '@/lib/organizations'
+import { createClient } from '@/lib/server'
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/
+
+/**
+ * Invites someone to the active organization as a stylist or client:
+ * `{ email, role }`. Owners only. The link is emailed to them; the response
+ * only includes it with the `capture` sender, which delivers nothing.
+ */
+export async function POST(request: NextRequest) {
+  const supabase = await createClient()
+
+  const { data, error } = await supabase.auth.getClaims()
+  if (error || !data?.claims) {
+    return errorResponse('unauthenticated')
+  }
+
+  const active = await resolveActiveOrganization(supabase, request.cookies.get(ACTIVE_ORGANIZATION_COOKIE)?.value)
+  if (active?.role !== 'owner') {
+    return errorResponse('forbidden')
+  }
+
+  const body: { email?: unknown; role?: unknown } = await request.json().catch(() => ({}))
+  const email = typeof body.email === 'string' ? body.email.trim() : ''
+  if (!EMAIL_PATTERN.test(email)) {
+    return errorResponse('invalid-request', { message: 'email must be an email address' })
+  }
+  if (!isInvitableRole(body.role)) {
+    return errorResponse('invalid-request', { message: 'role must be stylist or client' })
+  }
+
+  let url: string
+  try {
+    const token = await inviteMember(supabase, { organizationId: active.id, email, role: body.role })
+    url = new URL(invitationPath(token), request.nextUrl.origin).toString()
+  } catch (err) {
+    console.error('Failed to invite member:', err)
+    return errorResponse('organization-update-failed')
+  }
+
+  const sender = getEmailSender()
+  try {
+    const memberships = await listMemberships(supabase, data.claims.sub)
+    await sender.send(
+      invitationEmail({
+        email,
+        role: body.role,
+        organizationName: memberships.find((membership) => membership.id === active.id)?.name ?? 'the salon',
+        inviterEmail: data.claims.email ?? '',
+        url,
+      })
+    )
+  } catch (err) {
+    console.error('Failed to send invitation email:', err)
+    return errorResponse('invitation-email-failed')
+  }
+
+  return NextResponse.json({ email, ...(sender.name === 'capture' && { url }) }, { status: 201 })
+}
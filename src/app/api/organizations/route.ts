@@ -0,0 +1,71 @@
+import { NextResponse, type NextRequest } from 'next/server'
+
+import { errorResponse } from '@/lib/errors/response'
+import {
+  ACTIVE_ORGANIZATION_COOKIE,
+  ACTIVE_ORGANIZATION_COOKIE_OPTIONS,
+  createOrganization,
+  isStaff,
+  listMembers,
+  listMemberships,
+} from '@/lib/organizations'
+import { createClient } from '@/lib/server'
+
+/**
+ * The user's organizations, which one they are acting for (null for their
+ * personal account) and, for staff, that organization's clients.
+ */
+export async function GET(request: NextRequest) {
+  const supabase = await createClient()
+
+  const { data, error } = await supabase.auth.getClaims()
+  if (error || !data?.claims) {
+    return errorResponse('unauthenticated')
+  }
+
+  try {
+    const organizations = await listMemberships(supabase, data.claims.sub)
+    const activeId = request.cookies.get(ACTIVE_ORGANIZATION_COOKIE)?.value
+    const active = organizations.find((organization) => organization.id === activeId) ?? null
+    const clients =
+      active && isStaff(active.role)
+        ? (await listMembers(supabase, active.id))
+            .filter((member) => member.role === 'client')
+            .map((member) => ({ userId: member.user_id, email: member.email }))
+        : []
+
+    const response = NextResponse.json({ organizations, activeId: active?.id ?? null, clients })
+    // Left or removed from the organization since choosing it.
+    if (activeId && !active) response.cookies.delete(ACTIVE_ORGANIZATION_COOKIE)
+    return response
+  } catch (err) {
+    console.error('Failed to load organizations:', err)
+    return errorResponse('organization-load-failed')
+  }
+}
+
+/** Creates an organization owned by the user and switches to it: `{ name }`. */
+export async function POST(request: NextRequest) {
+  const supabase = await createClient()
+
+  const { data, error } = await supabase.auth.getClaims()
+  if (error || !data?.claims) {
+    return errorResponse('unauthenticated')
+  }
+
+  const body: { name?: unknown } = await request.json().catch(() => ({}))
+  const name = typeof body.name === 'string' ? body.name.trim() : ''
+  if (name.length === 0 || name.length > 100) {
+    return errorResponse('invalid-request', { message: 'name must be 1 to 100 characters' })
+  }
+
+  try {
+    const id = await createOrganization(supabase, name)
+    const response = NextResponse.json({ id }, { status: 201 })
+    response.cookies.set(ACTIVE_ORGANIZATION_COOKIE, id, ACTIVE_ORGANIZATION_COOKIE_OPTIONS)
+    return response
+  } catch (err) {
+    console.error('Failed to create organization:', err)
+    return errorResponse('organization-update-failed')
+  }
+}
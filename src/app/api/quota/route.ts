@@ -0,0 +1,17 @@
+import { NextResponse } from 'next/server'
+
+import { errorResponse } from '@/lib/errors/response'
+import { getQuotaStatus, getQuotaStore, tierFromClaims } from '@/lib/quota'
+import { createClient } from '@/lib/server'
+
+export async function GET() {
+  const supabase = await createClient()
+
+  const { data, error } = await supabase.auth.getClaims()
+  if (error || !data?.claims) {
+    return errorResponse('unauthenticated')
+  }
+
+  const status = await getQuotaStatus(getQuotaStore(supabase), data.claims.sub, tierFromClaims(data.claims))
+  return NextResponse.json(status)
+}
@@ -0,0 +1,26 @@
+import { NextResponse, type NextRequest } from 'next/server'
+
+import { getEditSession } from '@/lib/edit-sessions'
+import { errorResponse } from '@/lib/errors/response'
+import { createClient } from '@/lib/server'
+
+export async function GET(_request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params
+  const supabase = await createClient()
+
+  const { data, error } = await supabase.auth.getClaims()
+  if (error || !data?.claims) {
+    return errorResponse('unauthenticated')
+  }
+
+  try {
+    const session = await getEditSession(supabase, id)
+    if (!session) {
+      return errorResponse('session-not-found')
+    }
+    return NextResponse.json(session, { headers: { 'Cache-Control': 'no-store' } })
+  } catch (err) {
+    console.error('Failed to load edit session:', err)
+    return errorResponse('session-load-failed')
+  }
+}
@@ -0,0 +1,27 @@
+import { NextResponse, type NextRequest } from 'next/server'
+
+import { errorResponse } from '@/lib/errors/response'
+import { revokeShareLink } from '@/lib/share-links'
+import { createClient } from '@/lib/server'
+
+/** Revokes a share link; the public page stops working straight away. */
+export async function DELETE(_request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params
+  const supabase = await createClient()
+
+  const { data, error } = await supabase.auth.getClaims()
+  if (error || !data?.claims) {
+    return errorResponse('unauthenticated')
+  }
+
+  try {
+    const revoked = await revokeShareLink(supabase, id)
+    if (!revoked) {
+      return errorResponse('share-link-not-found')
+    }
+    return new NextResponse(null, { status: 204 })
+  } catch (err) {
+    console.error('Failed to revoke share link:', err)
+    return errorResponse('share-link-failed')
+  }
+}
@@ -1,3 +1,5 @@
+import { authErrorCode, errorPagePath } from '@/lib/errors'
+import { localPath } from '@/lib/local-path'
 import { createClient } from '@/lib/server'
 import { redirect } from 'next/navigation'
 import { type NextRequest } from 'next/server'
@@ -5,11 +7,10 @@ import { type NextRequest } from 'next/server'
 export async function GET(request: NextRequest) {
   const { searchParams } = new URL(request.url)
   const code = searchParams.get('code')
-  const _next = searchParams.get('next')
-  const next = _next?.startsWith('/') ? _next : '/'
+  const next = localPath(searchParams.get('next'))
 
   if (!code) {
-    return redirect(`/auth/error?error=Missing code in callback URL`)
+    return redirect(errorPagePath('auth-missing-code'))
   }
 
   const supabase = await createClient()
@@ -18,7 +19,8 @@ export async function GET(request: NextRequest) {
   const { data, error } = await supabase.auth.exchangeCodeForSession(code)
 
   if (error) {
-    return redirect(`/auth/error?error=${encodeURIComponent(error.message)}`)
+    console.error('Code exchange failed:', error)
+    return redirect(errorPagePath(authErrorCode(error)))
   }
 
   console.log('✅ Session established:', data.session)
@@ -1,3 +1,5 @@
+import { authErrorCode, errorPagePath } from '@/lib/errors'
+import { localPath } from '@/lib/local-path'
 import { createClient } from '@/lib/server'
 import { type EmailOtpType } from '@supabase/supabase-js'
 import { redirect } from 'next/navigation'
@@ -7,8 +9,7 @@ export async function GET(request: NextRequest) {
   const { searchParams } = new URL(request.url)
   const token_hash = searchParams.get('token_hash')
   const type = searchParams.get('type') as EmailOtpType | null
-  const _next = searchParams.get('next')
-  const next = _next?.startsWith('/') ? _next : '/'
+  const next = localPath(searchParams.get('next'))
 
   if (token_hash && type) {
     const supabase = await createClient()
@@ -22,10 +23,11 @@ export async function GET(request: NextRequest) {
       redirect(next)
     } else {
       // redirect the user to an error page with some instructions
-      redirect(`/auth/error?error=${error?.message}`)
+      console.error('OTP verification failed:', error)
+      redirect(errorPagePath(authErrorCode(error)))
     }
   }
 
   // redirect the user to an error page with some instructions
-  redirect(`/auth/error?error=No token hash or type`)
+  redirect(errorPagePath('auth-link-invalid'))
 }
@@ -1,7 +1,12 @@
+import Link from 'next/link'
+
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { getErrorDefinition, isAppErrorCode, MESSAGES } from '@/lib/errors'
 
-export default async function Page({ searchParams }: { searchParams: Promise<{ error: string }> }) {
+export default async function Page({ searchParams }: { searchParams: Promise<{ code?: string }> }) {
   const params = await searchParams
+  const definition = isAppErrorCode(params?.code) ? getErrorDefinition(params.code) : null
+  const action = definition?.action ?? { labelKey: 'general.goHome', href: '/' }
 
   return (
     <div className="flex min-h-svh w-full items-center justify-center p-6 md:p-10">
@@ -9,14 +14,17 @@ export default async function Page({ searchParams }: { searchParams: Promise<{ e
         <div className="flex flex-col gap-6">
           <Card>
             <CardHeader>
-              <CardTitle className="text-2xl">Sorry, something went wrong.</CardTitle>
+              <CardTitle className="text-2xl">
+                {definition ? MESSAGES[definition.messageKey] : MESSAGES['general.errorTitle']}
+              </CardTitle>
             </CardHeader>
-            <CardContent>
-              {params?.error ? (
-                <p className="text-sm text-muted-foreground">Code error: {params.error}</p>
-              ) : (
-                <p className="text-sm text-muted-foreground">An unspecified error occurred.</p>
-              )}
+            <CardContent className="flex flex-col gap-4">
+              <p className="text-sm text-muted-foreground">
+                {MESSAGES[definition?.guidanceKey ?? 'general.errorGuidance']}
+              </p>
+              <Link href={action.href} className="text-sm underline underline-offset-4">
+                {MESSAGES[action.labelKey]}
+              </Link>
             </CardContent>
           </Card>
         </div>
@@ -1,10 +1,13 @@
 import { SignUpForm } from '@/components/sign-up-form'
+import { localPath } from '@/lib/local-path'
+
+export default async function Page({ searchParams }: { searchParams: Promise<{ next?: string }> }) {
+  const { next } = await searchParams
 
-export default function Page() {
   return (
     <div className="flex min-h-svh w-full items-center justify-center p-6 md:p-10">
       <div className="w-full max-w-sm">
-        <SignUpForm />
+        <SignUpForm next={localPath(next)} />
       </div>
     </div>
   )
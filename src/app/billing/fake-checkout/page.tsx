@@ -0,0 +1,65 @@
+import { notFound } from 'next/navigation'
+
+import { FakeCheckoutForm } from '@/components/fake-checkout-form'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { formatPrice, getCreditPack } from '@/lib/billing'
+
+/** Keeps the return links on this site, whatever the query string says. */
+function localPath(value: string | undefined) {
+  if (!value) return '/billing'
+  try {
+    const url = new URL(value, 'http://localhost')
+    return `${url.pathname}${url.search}`
+  } catch {
+    return '/billing'
+  }
+}
+
+type Params = {
+  session?: string
+  user?: string
+  org?: string
+  pack?: string
+  sig?: string
+  success?: string
+  cancel?: string
+}
+
+/** Stand-in for a hosted checkout page while `PAYMENT_PROVIDER=fake`. */
+export default async function FakeCheckoutPage({ searchParams }: { searchParams: Promise<Params> }) {
+  if (process.env.PAYMENT_PROVIDER !== 'fake') {
+    notFound()
+  }
+
+  const params = await searchParams
+  const pack = getCreditPack(params.pack)
+  if (!pack || !params.session || !params.user || !params.sig) {
+    notFound()
+  }
+
+  return (
+    <div className="flex min-h-svh w-full items-center justify-center p-6 md:p-10">
+      <div className="w-full max-w-sm">
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-2xl">Test checkout</CardTitle>
+            <CardDescription>
+              {pack.name} pack · {pack.credits} credits · {formatPrice(pack)}. No real payment is taken.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <FakeCheckoutForm
+              session={params.session}
+              user={params.user}
+              org={params.org}
+              pack={pack.id}
+              sig={params.sig}
+              successUrl={localPath(params.success)}
+              cancelUrl={localPath(params.cancel)}
+            />
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,89 @@
+import { cookies } from 'next/headers'
+import Link from 'next/link'
+import { redirect } from 'next/navigation'
+
+import { BuyCreditsButton } from '@/components/buy-credits-button'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { CREDIT_PACKS, formatPrice, getCreditBalance, getCreditPack, listLedgerEntries } from '@/lib/billing'
+import { ACTIVE_ORGANIZATION_COOKIE, creditAccount, resolveActiveOrganization } from '@/lib/organizations'
+import { createClient } from '@/lib/server'
+
+export default async function BillingPage({ searchParams }: { searchParams: Promise<{ purchased?: string }> }) {
+  const params = await searchParams
+  const supabase = await createClient()
+
+  const { data, error } = await supabase.auth.getClaims()
+  if (error || !data?.claims) {
+    redirect('/auth/login')
+  }
+
+  const active = await resolveActiveOrganization(supabase, (await cookies()).get(ACTIVE_ORGANIZATION_COOKIE)?.value)
+  const account = creditAccount(active)
+  const [balance, entries] = await Promise.all([getCreditBalance(supabase, account), listLedgerEntries(supabase, account)])
+  const purchased = getCreditPack(params.purchased)
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-purple-50 via-pink-50 to-blue-50">
+      <div className="container mx-auto px-4 py-8 max-w-4xl space-y-8">
+        <div className="flex items-center justify-between">
+          <div>
+            <h1 className="text-3xl font-bold text-gray-800">Credits</h1>
+            <p className="text-gray-600">
+              {account ? "Your organization's shared pool has " : 'You have '}
+              <span className="font-semibold">{balance}</span> credits. Each generation uses one.
+            </p>
+          </div>
+          <Button asChild variant="outline">
+            <Link href="/">Back to editor</Link>
+          </Button>
+        </div>
+
+        {purchased && (
+          <div className="bg-green-50 border border-green-200 rounded-lg p-4 text-green-800">
+            Thanks! Your {purchased.name} pack is being added. It can take a few seconds to show up.
+          </div>
+        )}
+
+        {active?.role === 'stylist' ? (
+          <p className="text-sm text-gray-600">Only owners can add credits to the shared pool.</p>
+        ) : (
+          <div className="grid md:grid-cols-3 gap-4">
+            {CREDIT_PACKS.map((pack) => (
+              <Card key={pack.id}>
+                <CardHeader>
+                  <CardTitle>{pack.name}</CardTitle>
+                  <CardDescription>{pack.credits} credits</CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <BuyCreditsButton packId={pack.id} label={`Buy for ${formatPrice(pack)}`} />
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+        )}
+
+        <div className="bg-white rounded-2xl shadow-lg p-6">
+          <h2 className="text-xl font-semibold text-gray-800 mb-4">Recent activity</h2>
+          {entries.length === 0 ? (
+            <p className="text-sm text-gray-500">No credit activity yet.</p>
+          ) : (
+            <ul className="divide-y">
+              {entries.map((entry) => (
+                <li key={entry.id} className="flex justify-between py-2 text-sm">
+                  <span className="text-gray-700">
+                    {entry.description}
+                    <span className="block text-xs text-gray-500">{new Date(entry.created_at).toLocaleString()}</span>
+                  </span>
+                  <span className={entry.amount > 0 ? 'text-green-700' : 'text-gray-700'}>
+                    {entry.amount > 0 ? `+${entry.amount}` : entry.amount}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
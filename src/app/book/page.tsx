@@ -0,0 +1,116 @@
+import Link from 'next/link'
+import { redirect } from 'next/navigation'
+
+import { BookingForm, type BookableStylist } from '@/components/booking-form'
+import { ConfirmActionButton } from '@/components/confirm-action-button'
+import { Button } from '@/components/ui/button'
+import { formatSlot, listAvailability, listUpcomingBookings } from '@/lib/bookings'
+import { UUID_PATTERN } from '@/lib/generate-request'
+import { getGenerationOutputUrls } from '@/lib/generations'
+import { isStaff, listMembers, listMemberships } from '@/lib/organizations'
+import { createClient } from '@/lib/server'
+
+export default async function BookPage({ searchParams }: { searchParams: Promise<{ generation?: string }> }) {
+  const params = await searchParams
+  const supabase = await createClient()
+
+  const { data, error } = await supabase.auth.getClaims()
+  if (error || !data?.claims) {
+    redirect('/auth/login')
+  }
+
+  const generationId = params.generation && UUID_PATTERN.test(params.generation) ? params.generation : null
+  const memberships = await listMemberships(supabase, data.claims.sub)
+  const organizations = await Promise.all(
+    memberships.map(async (membership) => ({
+      membership,
+      members: await listMembers(supabase, membership.id),
+      availability: await listAvailability(supabase, membership.id),
+    }))
+  )
+  const [bookings, looks] = await Promise.all([
+    listUpcomingBookings(supabase, { clientId: data.claims.sub }),
+    getGenerationOutputUrls(supabase, generationId ? [generationId] : []),
+  ])
+  const lookUrl = generationId ? (looks.get(generationId) ?? null) : null
+
+  // Only staff who have published availability can be booked.
+  const stylists: BookableStylist[] = organizations.flatMap(({ membership, members, availability }) =>
+    members
+      .filter((member) => isStaff(member.role) && availability.some((window) => window.stylist_id === member.user_id))
+      .map((member) => ({
+        organizationId: membership.id,
+        organizationName: membership.name,
+        stylistId: member.user_id,
+        email: member.email,
+      }))
+  )
+  const describe = (organizationId: string, stylistId: string) => {
+    const organization = organizations.find(({ membership }) => membership.id === organizationId)
+    return {
+      organizationName: organization?.membership.name ?? 'Salon',
+      stylistEmail: organization?.members.find((member) => member.user_id === stylistId)?.email ?? 'your stylist',
+      timeZone: organization?.availability.find((window) => window.stylist_id === stylistId)?.time_zone ?? 'UTC',
+    }
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-purple-50 via-pink-50 to-blue-50">
+      <div className="container mx-auto px-4 py-8 max-w-4xl space-y-8">
+        <div className="flex items-center justify-between">
+          <div>
+            <h1 className="text-3xl font-bold text-gray-800">Book a cut</h1>
+            <p className="text-gray-600">Pick a stylist and a time. They will see the look you chose.</p>
+          </div>
+          <Button asChild variant="outline">
+            <Link href="/">Back to editor</Link>
+          </Button>
+        </div>
+
+        <div className="grid md:grid-cols-[auto_1fr] gap-6 bg-white rounded-2xl shadow-lg p-6">
+          {lookUrl && (
+            <img src={lookUrl} alt="The look you picked" className="w-48 h-48 rounded-lg object-cover" />
+          )}
+          {stylists.length > 0 ? (
+            <BookingForm stylists={stylists} generationId={lookUrl ? generationId : null} />
+          ) : (
+            <p className="text-sm text-gray-500">
+              {memberships.length === 0
+                ? 'Bookings are made with a salon. Ask yours for an invitation link to join it.'
+                : 'None of your salons have published times yet.'}
+            </p>
+          )}
+        </div>
+
+        <div className="bg-white rounded-2xl shadow-lg p-6">
+          <h2 className="text-xl font-semibold text-gray-800 mb-4">Your appointments</h2>
+          {bookings.length === 0 ? (
+            <p className="text-sm text-gray-500">No upcoming appointments.</p>
+          ) : (
+            <ul className="divide-y">
+              {bookings.map((booking) => {
+                const { organizationName, stylistEmail, timeZone } = describe(booking.organization_id, booking.stylist_id)
+                return (
+                  <li key={booking.id} className="flex items-center justify-between gap-2 py-2 text-sm">
+                    <span className="text-gray-700">
+                      {formatSlot(booking.starts_at, timeZone)}
+                      <span className="block text-xs text-gray-500">
+                        {stylistEmail} · {organizationName}
+                      </span>
+                    </span>
+                    <ConfirmActionButton
+                      url={`/api/bookings/${booking.id}/cancel`}
+                      method="POST"
+                      confirmText="Cancel this appointment?"
+                      labels={{ idle: 'Cancel', pending: 'Cancelling...', failed: 'Could not cancel the appointment' }}
+                    />
+                  </li>
+                )
+              })}
+            </ul>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,95 @@
+import Link from 'next/link'
+import { notFound, redirect } from 'next/navigation'
+
+import { BeforeAfter } from '@/components/before-after'
+import { ConfirmActionButton } from '@/components/confirm-action-button'
+import { GenerationNoteForm } from '@/components/generation-note-form'
+import { RenameCollectionForm } from '@/components/rename-collection-form'
+import { Button } from '@/components/ui/button'
+import { getCollection, getNotes, listCollectionGenerations } from '@/lib/collections'
+import { UUID_PATTERN } from '@/lib/generate-request'
+import { describeSelection } from '@/lib/prompt-builder'
+import { createClient } from '@/lib/server'
+
+export default async function CollectionPage({ params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params
+  const supabase = await createClient()
+
+  const { data, error } = await supabase.auth.getClaims()
+  if (error || !data?.claims) {
+    redirect('/auth/login')
+  }
+
+  const collection = UUID_PATTERN.test(id) ? await getCollection(supabase, id) : null
+  if (!collection) {
+    notFound()
+  }
+
+  const generations = await listCollectionGenerations(supabase, id)
+  const notes = await getNotes(supabase, generations.map((generation) => generation.id))
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-purple-50 via-pink-50 to-blue-50">
+      <div className="container mx-auto px-4 py-8 max-w-6xl space-y-8">
+        <div className="flex items-center justify-between">
+          <h1 className="text-3xl font-bold text-gray-800">{collection.name}</h1>
+          <Button asChild variant="outline">
+            <Link href="/collections">All collections</Link>
+          </Button>
+        </div>
+
+        <div className="bg-white rounded-2xl shadow-lg p-6 flex flex-wrap items-start justify-between gap-4">
+          <div className="flex-1 min-w-64">
+            <RenameCollectionForm key={collection.name} id={collection.id} initialName={collection.name} />
+          </div>
+          <ConfirmActionButton
+            url={`/api/collections/${collection.id}`}
+            confirmText="Delete this collection? The looks in it are kept."
+            labels={{ idle: 'Delete collection', pending: 'Deleting...', failed: 'Could not delete collection' }}
+            variant="destructive"
+            redirectTo="/collections"
+          />
+        </div>
+
+        {generations.length === 0 ? (
+          <div className="bg-gray-50 rounded-2xl border-2 border-dashed border-gray-300 p-12 text-center text-gray-500">
+            No looks in this collection yet. Add them from the result panel.
+          </div>
+        ) : (
+          <div className="grid sm:grid-cols-2 lg:grid-cols-3 gap-6">
+            {generations.map((generation) => (
+              <div key={generation.id} className="bg-white rounded-2xl shadow-lg p-4 space-y-3">
+                {generation.inputUrl && generation.outputUrl ? (
+                  <BeforeAfter
+                    before={generation.inputUrl}
+                    after={generation.outputUrl}
+                    beforeLabel="Original"
+                    afterLabel="New look"
+                    hideModes
+                  />
+                ) : (
+                  <div className="h-40 rounded-lg bg-gray-100 flex items-center justify-center text-sm text-gray-500">
+                    Images unavailable
+                  </div>
+                )}
+                <div className="flex items-start justify-between gap-2">
+                  <div>
+                    <p className="font-medium text-gray-800">
+                      {describeSelection(generation.selection, { reference: generation.reference_path !== null })}
+                    </p>
+                    <p className="text-xs text-gray-500">{new Date(generation.created_at).toLocaleString()}</p>
+                  </div>
+                  <ConfirmActionButton
+                    url={`/api/collections/${collection.id}/items/${generation.id}`}
+                    labels={{ idle: 'Remove', pending: 'Removing...', failed: 'Could not remove from collection' }}
+                  />
+                </div>
+                <GenerationNoteForm generationId={generation.id} initialNote={notes.get(generation.id) ?? ''} />
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,106 @@
+import Link from 'next/link'
+import { redirect } from 'next/navigation'
+
+import { BeforeAfter } from '@/components/before-after'
+import { CreateCollectionForm } from '@/components/create-collection-form'
+import { FavoriteButton } from '@/components/favorite-button'
+import { GenerationNoteForm } from '@/components/generation-note-form'
+import { Button } from '@/components/ui/button'
+import { getNotes, listCollections, listFavoriteGenerations } from '@/lib/collections'
+import { describeSelection } from '@/lib/prompt-builder'
+import { createClient } from '@/lib/server'
+
+export default async function CollectionsPage() {
+  const supabase = await createClient()
+
+  const { data, error } = await supabase.auth.getClaims()
+  if (error || !data?.claims) {
+    redirect('/auth/login')
+  }
+
+  const [collections, favorites] = await Promise.all([listCollections(supabase), listFavoriteGenerations(supabase)])
+  const notes = await getNotes(supabase, favorites.map((generation) => generation.id))
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-purple-50 via-pink-50 to-blue-50">
+      <div className="container mx-auto px-4 py-8 max-w-6xl space-y-8">
+        <div className="flex items-center justify-between">
+          <h1 className="text-3xl font-bold text-gray-800">Collections</h1>
+          <div className="flex gap-2">
+            <Button asChild variant="outline">
+              <Link href="/history">All looks</Link>
+            </Button>
+            <Button asChild variant="outline">
+              <Link href="/">New look</Link>
+            </Button>
+          </div>
+        </div>
+
+        <div className="bg-white rounded-2xl shadow-lg p-6 space-y-4">
+          {collections.length === 0 ? (
+            <p className="text-sm text-gray-500">
+              You have no collections yet. Group looks you are weighing up, like wedding options, from the result panel
+              or here.
+            </p>
+          ) : (
+            <ul className="grid sm:grid-cols-2 lg:grid-cols-3 gap-3">
+              {collections.map((collection) => (
+                <li key={collection.id}>
+                  <Link
+                    href={`/collections/${collection.id}`}
+                    className="block rounded-lg border border-gray-200 p-4 hover:border-purple-400"
+                  >
+                    <span className="font-medium text-gray-800">{collection.name}</span>
+                    <span className="block text-xs text-gray-500">
+                      {collection.itemCount === 1 ? '1 look' : `${collection.itemCount} looks`}
+                    </span>
+                  </Link>
+                </li>
+              ))}
+            </ul>
+          )}
+          <CreateCollectionForm />
+        </div>
+
+        <div className="space-y-4">
+          <h2 className="text-xl font-semibold text-gray-800">Starred looks</h2>
+          {favorites.length === 0 ? (
+            <div className="bg-gray-50 rounded-2xl border-2 border-dashed border-gray-300 p-12 text-center text-gray-500">
+              Star a look in the result panel to find it here.
+            </div>
+          ) : (
+            <div className="grid sm:grid-cols-2 lg:grid-cols-3 gap-6">
+              {favorites.map((generation) => (
+                <div key={generation.id} className="bg-white rounded-2xl shadow-lg p-4 space-y-3">
+                  {generation.inputUrl && generation.outputUrl ? (
+                    <BeforeAfter
+                      before={generation.inputUrl}
+                      after={generation.outputUrl}
+                      beforeLabel="Original"
+                      afterLabel="New look"
+                      hideModes
+                    />
+                  ) : (
+                    <div className="h-40 rounded-lg bg-gray-100 flex items-center justify-center text-sm text-gray-500">
+                      Images unavailable
+                    </div>
+                  )}
+                  <div className="flex items-start justify-between gap-2">
+                    <div>
+                      <p className="font-medium text-gray-800">
+                        {describeSelection(generation.selection, { reference: generation.reference_path !== null })}
+                      </p>
+                      <p className="text-xs text-gray-500">{new Date(generation.created_at).toLocaleString()}</p>
+                    </div>
+                    <FavoriteButton generationId={generation.id} initialFavorite />
+                  </div>
+                  <GenerationNoteForm generationId={generation.id} initialNote={notes.get(generation.id) ?? ''} />
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
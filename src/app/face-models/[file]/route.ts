@@ -0,0 +1,35 @@
+import { readFile } from 'node:fs/promises'
+import path from 'node:path'
+
+import { NextResponse, type NextRequest } from 'next/server'
+
+import { errorResponse } from '@/lib/errors/response'
+import { FACE_MODEL_DIR } from '@/lib/face-embedding'
+
+/** The `@vladmandic/face-api` models that browsers without a native face detector load. */
+const MODEL_FILES = [
+  'tiny_face_detector_model-weights_manifest.json',
+  'tiny_face_detector_model.bin',
+  'face_landmark_68_tiny_model-weights_manifest.json',
+  'face_landmark_68_tiny_model.bin',
+]
+
+/** Serves the bundled face model files, so face checks never depend on a CDN. */
+export async function GET(_request: NextRequest, { params }: { params: Promise<{ file: string }> }) {
+  const { file } = await params
+  if (!MODEL_FILES.includes(file)) {
+    return errorResponse('not-found')
+  }
+
+  try {
+    return new NextResponse(new Uint8Array(await readFile(path.join(FACE_MODEL_DIR, file))), {
+      headers: {
+        'Content-Type': file.endsWith('.json') ? 'application/json' : 'application/octet-stream',
+        'Cache-Control': 'public, max-age=86400',
+      },
+    })
+  } catch (err) {
+    console.error('Failed to load face model file:', err)
+    return errorResponse('internal')
+  }
+}
@@ -0,0 +1,135 @@
+import Link from 'next/link'
+import { redirect } from 'next/navigation'
+
+import { BeforeAfter } from '@/components/before-after'
+import { ConfirmActionButton } from '@/components/confirm-action-button'
+import { ShareLookButton } from '@/components/share-look-button'
+import { Button } from '@/components/ui/button'
+import { listGenerations } from '@/lib/generations'
+import { isIdentityFlagged } from '@/lib/identity-check'
+import { describeSelection } from '@/lib/prompt-builder'
+import { createClient } from '@/lib/server'
+
+const PAGE_SIZE = 12
+
+export default async function HistoryPage({ searchParams }: { searchParams: Promise<{ page?: string }> }) {
+  const params = await searchParams
+  const page = Math.max(1, Number.parseInt(params.page ?? '1', 10) || 1)
+
+  const supabase = await createClient()
+
+  const { data, error } = await supabase.auth.getClaims()
+  if (error || !data?.claims) {
+    redirect('/auth/login')
+  }
+
+  const { generations, total } = await listGenerations(supabase, page, PAGE_SIZE)
+  const pageCount = Math.max(1, Math.ceil(total / PAGE_SIZE))
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-purple-50 via-pink-50 to-blue-50">
+      <div className="container mx-auto px-4 py-8 max-w-6xl">
+        <div className="flex items-center justify-between mb-8">
+          <h1 className="text-3xl font-bold text-gray-800">Your Looks</h1>
+          <div className="flex gap-2">
+            <Button asChild variant="outline">
+              <Link href="/collections">Collections</Link>
+            </Button>
+            <Button asChild variant="outline">
+              <Link href="/">New look</Link>
+            </Button>
+          </div>
+        </div>
+
+        {generations.length === 0 ? (
+          <div className="bg-gray-50 rounded-2xl border-2 border-dashed border-gray-300 p-12 text-center text-gray-500">
+            {page > 1 ? 'No looks on this page.' : 'You have not generated any looks yet.'}
+          </div>
+        ) : (
+          <div className="grid sm:grid-cols-2 lg:grid-cols-3 gap-6">
+            {generations.map((generation) => (
+              <div key={generation.id} className="bg-white rounded-2xl shadow-lg p-4 space-y-3">
+                {generation.inputUrl && generation.outputUrl ? (
+                  <BeforeAfter
+                    before={generation.inputUrl}
+                    after={generation.outputUrl}
+                    beforeLabel="Original"
+                    afterLabel="New look"
+                  />
+                ) : (
+                  <div className="h-40 rounded-lg bg-gray-100 flex items-center justify-center text-sm text-gray-500">
+                    Images unavailable
+                  </div>
+                )}
+                <div className="flex items-start justify-between gap-2">
+                  {generation.referenceUrl && (
+                    <img
+                      src={generation.referenceUrl}
+                      alt="Reference hairstyle"
+                      title="Reference hairstyle"
+                      className="w-12 h-12 rounded-lg object-cover shrink-0"
+                    />
+                  )}
+                  <div className="flex-1">
+                    <p className="font-medium text-gray-800">
+                      {describeSelection(generation.selection, { reference: generation.reference_path !== null })}
+                    </p>
+                    <p className="text-xs text-gray-500">{new Date(generation.created_at).toLocaleString()}</p>
+                    {isIdentityFlagged(generation.identity_score) && (
+                      <p className="text-xs text-amber-700 mt-1">May not look like you</p>
+                    )}
+                    {generation.user_id !== data.claims.sub ? (
+                      <p className="text-xs text-purple-700 mt-1">Shared by your salon</p>
+                    ) : (
+                      generation.client_id && <p className="text-xs text-purple-700 mt-1">Created for a client</p>
+                    )}
+                  </div>
+                  <div className="flex flex-col items-end gap-2">
+                    {/* The creator and the client it was made for can share a look; only the creator can delete it */}
+                    {(generation.user_id === data.claims.sub || generation.client_id === data.claims.sub) && (
+                      <ShareLookButton generationId={generation.id} />
+                    )}
+                    {generation.user_id === data.claims.sub && (
+                      <ConfirmActionButton
+                        url={`/api/generations/${generation.id}`}
+                        confirmText="Delete this look? This cannot be undone."
+                        labels={{ idle: 'Delete', pending: 'Deleting...', failed: 'Could not delete generation' }}
+                        variant="destructive"
+                      />
+                    )}
+                  </div>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {pageCount > 1 && (
+          <div className="flex items-center justify-center gap-4 mt-8">
+            {page > 1 ? (
+              <Button asChild variant="outline">
+                <Link href={`/history?page=${page - 1}`}>Previous</Link>
+              </Button>
+            ) : (
+              <Button variant="outline" disabled>
+                Previous
+              </Button>
+            )}
+            <span className="text-sm text-gray-600">
+              Page {page} of {pageCount}
+            </span>
+            {page < pageCount ? (
+              <Button asChild variant="outline">
+                <Link href={`/history?page=${page + 1}`}>Next</Link>
+              </Button>
+            ) : (
+              <Button variant="outline" disabled>
+                Next
+              </Button>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,35 @@
+import { redirect } from 'next/navigation'
+
+import { AcceptInvitationButton } from '@/components/accept-invitation-button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { invitationPath } from '@/lib/organizations'
+import { createClient } from '@/lib/server'
+
+export default async function InvitationPage({ params }: { params: Promise<{ token: string }> }) {
+  const { token } = await params
+  const supabase = await createClient()
+
+  const { data, error } = await supabase.auth.getClaims()
+  if (error || !data?.claims) {
+    redirect(`/auth/login?next=${encodeURIComponent(invitationPath(token))}`)
+  }
+
+  return (
+    <div className="flex min-h-svh w-full items-center justify-center p-6 md:p-10">
+      <div className="w-full max-w-sm">
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-2xl">Join an organization</CardTitle>
+            <CardDescription>
+              You have been invited to a salon or barbershop. Invitations only work for the email address they were
+              sent to; you are signed in as {data.claims.email}.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <AcceptInvitationButton token={token} />
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,124 @@
+import { cookies } from 'next/headers'
+import Link from 'next/link'
+import { redirect } from 'next/navigation'
+
+import { ConfirmActionButton } from '@/components/confirm-action-button'
+import { CreateOrganizationForm } from '@/components/create-organization-form'
+import { InviteMemberForm } from '@/components/invite-member-form'
+import { OrganizationSwitcher } from '@/components/organization-switcher'
+import { Button } from '@/components/ui/button'
+import {
+  ACTIVE_ORGANIZATION_COOKIE,
+  isStaff,
+  listInvitations,
+  listMembers,
+  listMemberships,
+  ROLE_LABELS,
+} from '@/lib/organizations'
+import { createClient } from '@/lib/server'
+
+export default async function OrganizationPage() {
+  const supabase = await createClient()
+
+  const { data, error } = await supabase.auth.getClaims()
+  if (error || !data?.claims) {
+    redirect('/auth/login')
+  }
+
+  const memberships = await listMemberships(supabase, data.claims.sub)
+  const activeId = (await cookies()).get(ACTIVE_ORGANIZATION_COOKIE)?.value
+  const active = memberships.find((membership) => membership.id === activeId) ?? null
+  const isOwner = active?.role === 'owner'
+  const [members, invitations] = active
+    ? await Promise.all([listMembers(supabase, active.id), isOwner ? listInvitations(supabase, active.id) : []])
+    : [[], []]
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-purple-50 via-pink-50 to-blue-50">
+      <div className="container mx-auto px-4 py-8 max-w-4xl space-y-8">
+        <div className="flex items-center justify-between">
+          <div>
+            <h1 className="text-3xl font-bold text-gray-800">Organization</h1>
+            <p className="text-gray-600">
+              Salons and barbershops share one credit pool. Stylists can create looks for the shop&apos;s clients.
+            </p>
+          </div>
+          <Button asChild variant="outline">
+            <Link href="/">Back to editor</Link>
+          </Button>
+        </div>
+
+        <div className="bg-white rounded-2xl shadow-lg p-6 space-y-4">
+          <h2 className="text-xl font-semibold text-gray-800">Acting for</h2>
+          {memberships.length > 0 ? (
+            <OrganizationSwitcher organizations={memberships} activeId={active?.id ?? null} />
+          ) : (
+            <p className="text-sm text-gray-500">You are not part of an organization yet.</p>
+          )}
+          <CreateOrganizationForm />
+        </div>
+
+        {active && (
+          <div className="bg-white rounded-2xl shadow-lg p-6 space-y-4">
+            <div className="flex items-center justify-between gap-2">
+              <h2 className="text-xl font-semibold text-gray-800">{active.name} members</h2>
+              <div className="flex gap-2">
+                <Button asChild variant="outline" size="sm">
+                  <Link href={isStaff(active.role) ? '/protected/bookings' : '/book'}>Appointments</Link>
+                </Button>
+                {isStaff(active.role) && (
+                  <Button asChild variant="outline" size="sm">
+                    <Link href="/protected/clients">Client profiles</Link>
+                  </Button>
+                )}
+              </div>
+            </div>
+            <ul className="divide-y">
+              {members.map((member) => (
+                <li key={member.user_id} className="flex items-center justify-between gap-2 py-2 text-sm">
+                  <span className="text-gray-700">
+                    {member.email}
+                    <span className="block text-xs text-gray-500">{ROLE_LABELS[member.role]}</span>
+                  </span>
+                  {isOwner && member.user_id !== data.claims.sub && (
+                    <ConfirmActionButton
+                      url={`/api/organizations/members/${member.user_id}`}
+                      confirmText="Remove this member from the organization?"
+                      labels={{ idle: 'Remove', pending: 'Removing...', failed: 'Could not remove member' }}
+                    />
+                  )}
+                </li>
+              ))}
+            </ul>
+
+            {isOwner && (
+              <>
+                <h3 className="font-semibold text-gray-800">Invite a stylist or client</h3>
+                <InviteMemberForm />
+                {invitations.length > 0 && (
+                  <ul className="divide-y">
+                    {invitations.map((invitation) => (
+                      <li key={invitation.id} className="flex items-center justify-between gap-2 py-2 text-sm">
+                        <span className="text-gray-700">
+                          {invitation.email}
+                          <span className="block text-xs text-gray-500">
+                            {ROLE_LABELS[invitation.role]} · expires {new Date(invitation.expires_at).toLocaleDateString()}
+                          </span>
+                        </span>
+                        <ConfirmActionButton
+                          url={`/api/organizations/invitations/${invitation.id}`}
+                          confirmText="Revoke this invitation? The link will stop working."
+                          labels={{ idle: 'Revoke', pending: 'Revoking...', failed: 'Could not revoke invitation' }}
+                        />
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -1,85 +1,233 @@
 'use client'
-import { useState, useRef } from "react";
-import { Upload, Scissors, Loader2, Download, Camera, X, Image } from "lucide-react";
-import { createClient } from "@/lib/client";
-// Define interfaces for API response types
-interface InlineData {
-  mime_type?: string;
-  mimeType?: string;
-  data: string;
-}
-
-interface ContentPart {
-  inline_data?: InlineData;
-  inlineData?: InlineData;
-  text?: string;
-}
-
-interface ContentItem {
-  role: string;
-  parts: ContentPart[];
-}
-
-interface Candidate {
-  content: {
-    parts: ContentPart[];
-  };
-}
+import { useState, useRef, useEffect } from "react";
+import Link from "next/link";
+import { BatchGenerator } from "@/components/batch-generator";
+import { BeforeAfter } from "@/components/before-after";
+import { CreditBalance } from "@/components/credit-balance";
+import { EditSession } from "@/components/edit-session";
+import { GenerationFailure } from "@/components/generation-failure";
+import { LookAnnotations } from "@/components/look-annotations";
+import { MaskEditor } from "@/components/mask-editor";
+import { OrganizationSwitcher } from "@/components/organization-switcher";
+import { messageFor } from "@/lib/errors";
+import { QuotaIndicator } from "@/components/quota-indicator";
+import { ShareLookButton } from "@/components/share-look-button";
+import {
+  cancelGeneration,
+  errorMessage,
+  fetchCreditBalance,
+  fetchEditSession,
+  fetchQuota,
+  generationFailure,
+  isOutOfCredits,
+  isQuotaError,
+  requestGeneration,
+  waitForJob,
+  type GenerateInput,
+  type GenerationRequestError,
+  type UsageUpdate,
+} from "@/lib/generate-client";
+import { isIdentityFlagged } from "@/lib/identity-check";
+import { extensionForMimeType, fileToBase64 } from "@/lib/image-data";
+import { checkInstruction } from "@/lib/instruction-safety";
+import {
+  clientPhotoFile,
+  fetchClientProfileSession,
+  fetchOrganizations,
+  type ClientProfileSession,
+  type OrganizationsView,
+} from "@/lib/organization-client";
+import { isStaff } from "@/lib/organizations";
+import type { EditSessionView } from "@/lib/edit-sessions";
+import type { JobStatus } from "@/lib/jobs";
+import type { ProviderFailureKind } from "@/lib/providers/types";
+import { ImagePreprocessError, isHeic, preprocessImage } from "@/lib/image-preprocess";
+import {
+  analyzePhotoUrl,
+  checkFraming,
+  detectFaces,
+  PHOTO_WARNING_MESSAGES,
+  type PhotoWarningCode,
+} from "@/lib/photo-quality";
+import {
+  validateImageBytes,
+  validateInputFile,
+} from "@/lib/upload-validation";
+import { Upload, Scissors, Loader2, Download, Camera, X, Image, History, RotateCcw, UserX, Building2, Users, CalendarCheck, Star } from "lucide-react";
+import {
+  buildEditPrompt,
+  FRINGE_LABELS,
+  MAX_INSTRUCTION_LENGTH,
+  PART_SIDE_LABELS,
+  TEXTURE_LABELS,
+  type Fringe,
+  type HairTexture,
+  type PartSide,
+  type StyleSelection,
+} from "@/lib/prompt-builder";
+import type { QuotaStatus } from "@/lib/quota";
+import {
+  getStyle,
+  getStylesByCategory,
+  HAIR_CATEGORIES,
+  STYLE_CATEGORY_LABELS,
+} from "@/lib/style-catalog";
 
-interface APIResponse {
-  candidates?: Candidate[];
-}
+// Survives reloads so a generation in progress can be picked up again.
+const PENDING_JOB_KEY = "pending-generation-job";
 
 export default function HomePage() {
   const [file, setFile] = useState<File | null>(null);
   const [hairstyle, setHairstyle] = useState<string>("default");
   const [beardstyle, setBeardstyle] = useState<string>("default");
   const [loading, setLoading] = useState<boolean>(false);
+  const [jobStatus, setJobStatus] = useState<JobStatus | null>(null);
+  const [failure, setFailure] = useState<ProviderFailureKind | null>(null);
+  const [cancelling, setCancelling] = useState<boolean>(false);
   const [outputImage, setOutputImage] = useState<string | null>(null);
+  // History entry and edit step of the latest result, for booking it
+  const [latestResult, setLatestResult] = useState<{ generationId: string; stepId: string | null } | null>(null);
   const [previewImage, setPreviewImage] = useState<string | null>(null);
   const [error, setError] = useState<string>("");
   const [haircolor, setHaircolor] = useState("default");
+  const [partSide, setPartSide] = useState<PartSide | "">("");
+  const [texture, setTexture] = useState<HairTexture | "">("");
+  const [fringe, setFringe] = useState<Fringe | "">("");
+  const [customStyle, setCustomStyle] = useState<string>("");
   const [showCamera, setShowCamera] = useState<boolean>(false);
   const [isDragOver, setIsDragOver] = useState<boolean>(false);
   const [cameraReady, setCameraReady] = useState<boolean>(false);
-   const supabase = createClient();
+  const [preparing, setPreparing] = useState<boolean>(false);
+  const [photoWarnings, setPhotoWarnings] = useState<PhotoWarningCode[]>([]);
+  const [framingWarnings, setFramingWarnings] = useState<PhotoWarningCode[] | null>(null);
+  const [quota, setQuota] = useState<QuotaStatus | null>(null);
+  const [credits, setCredits] = useState<number | null>(null);
+  const [limitMessage, setLimitMessage] = useState<string>("");
+  const [mode, setMode] = useState<"single" | "batch">("single");
+  const [session, setSession] = useState<EditSessionView | null>(null);
+  const [currentStepId, setCurrentStepId] = useState<string | null>(null);
+  const [lastInstruction, setLastInstruction] = useState<string | null>(null);
+  const [referenceFile, setReferenceFile] = useState<File | null>(null);
+  const [referencePreview, setReferencePreview] = useState<string | null>(null);
+  const [preparingReference, setPreparingReference] = useState<boolean>(false);
+  const [referenceError, setReferenceError] = useState<string>("");
+  const [maskEnabled, setMaskEnabled] = useState<boolean>(false);
+  const [mask, setMask] = useState<string | null>(null);
+  const [identity, setIdentity] = useState<{ score: number; resultUrl: string } | null>(null);
+  const [organizations, setOrganizations] = useState<OrganizationsView | null>(null);
+  const [clientId, setClientId] = useState<string>("");
+  const [clientProfile, setClientProfile] = useState<ClientProfileSession | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const referenceInputRef = useRef<HTMLInputElement>(null);
   const videoRef = useRef<HTMLVideoElement>(null);
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const streamRef = useRef<MediaStream | null>(null);
+  const jobIdRef = useRef<string | null>(null);
+  const submitControllerRef = useRef<AbortController | null>(null);
 
-  // For demo purposes - you'd need to set your actual API key
+  // Validation and preprocessing shared by the photo and the reference upload
+  const prepareImage = async (selectedFile: File): Promise<{ ok: true; file: File } | { ok: false; message: string }> => {
+    try {
+      const inputError = await validateInputFile(selectedFile);
+      if (inputError) {
+        return { ok: false, message: messageFor(inputError) };
+      }
 
-  // Convert file to base64 string
-  const fileToBase64 = (file: File): Promise<string> => {
-    return new Promise((resolve, reject) => {
-      const reader = new FileReader();
-      reader.readAsDataURL(file);
-      reader.onload = () => {
-        const base64String = (reader.result as string).split(",")[1];
-        resolve(base64String);
+      // Fix orientation, downscale and strip metadata before anything is uploaded
+      const prepared = await preprocessImage(selectedFile);
+      const upload = validateImageBytes(new Uint8Array(await prepared.arrayBuffer()), prepared.type);
+      if (!upload.ok) {
+        return { ok: false, message: messageFor(upload.code) };
+      }
+      return { ok: true, file: prepared };
+    } catch (err) {
+      console.error("Preprocessing error:", err);
+      return {
+        ok: false,
+        message:
+          err instanceof ImagePreprocessError
+            ? err.message
+            : "Could not prepare this image. Please try another photo.",
       };
-      reader.onerror = (error) => reject(error);
-    });
+    }
   };
 
   // Handle file processing (from input, drag drop, or camera)
-  const processFile = (selectedFile: File) => {
-    if (!selectedFile.type.startsWith('image/')) {
-      setError("Please select a valid image file");
+  const processFile = async (selectedFile: File) => {
+    if (!selectedFile.type.startsWith('image/') && !isHeic(selectedFile)) {
+      setError(messageFor("unsupported-type"));
       return;
     }
 
-    setFile(selectedFile);
     setError("");
+    setFailure(null);
     setOutputImage(null);
-    
-    // Create preview
-    const reader = new FileReader();
-    reader.onload = () => {
-      setPreviewImage(reader.result as string);
-    };
-    reader.readAsDataURL(selectedFile);
+    setSession(null);
+    setCurrentStepId(null);
+    setPhotoWarnings([]);
+    setMaskEnabled(false);
+    setMask(null);
+    setPreparing(true);
+
+    try {
+      const result = await prepareImage(selectedFile);
+      if (!result.ok) {
+        setFile(null);
+        setPreviewImage(null);
+        setError(result.message);
+        return;
+      }
+      const prepared = result.file;
+      setFile(prepared);
+
+      // Create preview
+      const reader = new FileReader();
+      reader.onload = () => {
+        const dataUrl = reader.result as string;
+        setPreviewImage(dataUrl);
+
+        // Advisory only: warn about framing, lighting and focus before a generation is spent
+        analyzePhotoUrl(dataUrl)
+          .then((report) => setPhotoWarnings(report.warnings))
+          .catch((err) => console.error("Photo check error:", err));
+      };
+      reader.readAsDataURL(prepared);
+    } finally {
+      setPreparing(false);
+    }
+  };
+
+  // The reference only needs to show a hairstyle, so it skips the face and framing checks
+  const processReferenceFile = async (selectedFile: File) => {
+    if (!selectedFile.type.startsWith('image/') && !isHeic(selectedFile)) {
+      setReferenceError(messageFor("unsupported-type"));
+      return;
+    }
+
+    setReferenceError("");
+    setPreparingReference(true);
+    try {
+      const result = await prepareImage(selectedFile);
+      if (!result.ok) {
+        setReferenceError(result.message);
+        return;
+      }
+      setReferenceFile(result.file);
+      const reader = new FileReader();
+      reader.onload = () => setReferencePreview(reader.result as string);
+      reader.readAsDataURL(result.file);
+    } finally {
+      setPreparingReference(false);
+    }
+  };
+
+  const clearReference = () => {
+    setReferenceFile(null);
+    setReferencePreview(null);
+    setReferenceError("");
+    if (referenceInputRef.current) {
+      referenceInputRef.current.value = "";
+    }
   };
 
   // Handle file input change
@@ -168,6 +316,143 @@ export default function HomePage() {
 
   };
 
+  useEffect(() => {
+    fetchQuota()
+      .then(setQuota)
+      .catch((err) => console.error("Quota error:", err));
+    fetchCreditBalance()
+      .then(setCredits)
+      .catch((err) => console.error("Credit balance error:", err));
+    fetchOrganizations()
+      .then(setOrganizations)
+      .catch((err) => console.error("Organizations error:", err));
+  }, []);
+
+  // Credits and clients belong to whoever the user now acts for
+  const handleOrganizationSwitched = () => {
+    setClientId("");
+    setClientProfile(null);
+    fetchOrganizations()
+      .then(setOrganizations)
+      .catch((err) => console.error("Organizations error:", err));
+    fetchCreditBalance()
+      .then(setCredits)
+      .catch((err) => console.error("Credit balance error:", err));
+  };
+
+  const updateUsage = ({ quota: nextQuota, credits: nextCredits }: UsageUpdate) => {
+    if (nextQuota) setQuota(nextQuota);
+    if (typeof nextCredits === "number") setCredits(nextCredits);
+  };
+
+  // Failed and cancelled generations are refunded on the server
+  const handleGenerationError = (err: unknown) => {
+    const kind = generationFailure(err);
+    if (kind) {
+      setFailure(kind);
+      fetchCreditBalance()
+        .then(setCredits)
+        .catch((balanceError) => console.error("Credit balance error:", balanceError));
+    } else {
+      setError(errorMessage(err));
+    }
+  };
+
+  // Load the edit session a result belongs to; the result is shown either way, so failures are only logged
+  const showSession = async (sessionId: string, stepId: string | null, useRootAsPreview: boolean) => {
+    try {
+      const next = await fetchEditSession(sessionId);
+      setSession(next);
+      setCurrentStepId(stepId);
+      const root = next.steps.find((step) => !step.parentId);
+      if (useRootAsPreview && root?.imageUrl) setPreviewImage(root.imageUrl);
+    } catch (err) {
+      console.error("Edit session error:", err);
+    }
+  };
+
+  // Advisory: the worker scores whether the face in the result still matches the photo
+  const showIdentity = (score: number | null, resultUrl: string) => {
+    setIdentity(score === null ? null : { score, resultUrl });
+  };
+
+  // Resume a generation that was still running when the tab was closed or reloaded
+  useEffect(() => {
+    const jobId = localStorage.getItem(PENDING_JOB_KEY);
+    if (!jobId) return;
+
+    const controller = new AbortController();
+    jobIdRef.current = jobId;
+    setLoading(true);
+    waitForJob(jobId, {
+      signal: controller.signal,
+      onStatus: (job) => {
+        setJobStatus(job.status);
+        if (job.inputUrl) setPreviewImage((current) => current ?? job.inputUrl);
+      },
+    })
+      .then((job) => {
+        setOutputImage(job.outputUrl);
+        setLatestResult({ generationId: job.generationId ?? job.id, stepId: job.stepId });
+        if (job.outputUrl) showIdentity(job.identityScore, job.outputUrl);
+        if (job.sessionId) showSession(job.sessionId, job.stepId, true);
+      })
+      .catch((err: GenerationRequestError) => {
+        if (err.code === "aborted") return;
+        // A job that no longer exists has nothing to show.
+        if (err.status !== 404) handleGenerationError(err);
+      })
+      .finally(() => {
+        if (controller.signal.aborted) return;
+        localStorage.removeItem(PENDING_JOB_KEY);
+        jobIdRef.current = null;
+        setLoading(false);
+        setCancelling(false);
+        setJobStatus(null);
+        fetchQuota()
+          .then(setQuota)
+          .catch((err) => console.error("Quota error:", err));
+      });
+
+    return () => controller.abort();
+  }, []);
+
+  // "Start a session" on a client profile links here with ?clientProfile=<id> and preloads their photo
+  const startClientSession = async (clientProfileId: string) => {
+    try {
+      const profile = await fetchClientProfileSession(clientProfileId);
+      setClientProfile(profile);
+      const photo = await clientPhotoFile(profile);
+      if (photo) await processFile(photo);
+    } catch (err) {
+      setError(errorMessage(err));
+    }
+  };
+
+  useEffect(() => {
+    const clientProfileId = new URLSearchParams(window.location.search).get("clientProfile");
+    if (clientProfileId) startClientSession(clientProfileId);
+    // Only on the first render: the link is followed once
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  // Live framing guide: re-check the face position a few times a second while the camera is open
+  useEffect(() => {
+    if (!showCamera || !cameraReady) {
+      setFramingWarnings(null);
+      return;
+    }
+
+    const interval = setInterval(async () => {
+      const video = videoRef.current;
+      if (!video || video.videoWidth === 0) return;
+      const faces = await detectFaces(video);
+      setFramingWarnings(faces ? checkFraming(faces, video.videoWidth, video.videoHeight) : null);
+    }, 500);
+
+    return () => clearInterval(interval);
+  }, [showCamera, cameraReady]);
+
   const stopCamera = () => {
     if (streamRef.current) {
       streamRef.current.getTracks().forEach(track => track.stop());
@@ -199,87 +484,161 @@ export default function HomePage() {
     }
   };
 
-type SupabaseFunctionError = {
-  message: string;
-  status?: number;
+const selection: StyleSelection = {
+  hairstyleId: hairstyle === "default" ? null : hairstyle,
+  beardId: beardstyle === "default" ? null : beardstyle,
+  colorId: haircolor === "default" ? null : haircolor,
+  modifiers: {
+    partSide: partSide || undefined,
+    texture: texture || undefined,
+    fringe: fringe || undefined,
+  },
+  instructions: customStyle.trim() || undefined,
+};
+const activeMembership = organizations?.organizations.find((organization) => organization.id === organizations.activeId);
+const isStaffInActiveOrganization = activeMembership ? isStaff(activeMembership.role) : false;
+const promptNotes = buildEditPrompt(selection, { reference: referenceFile !== null }).notes;
+// Checked as the user types; the server repeats the check before anything is generated
+const customStyleCheck = customStyle.trim() ? checkInstruction(customStyle) : null;
+
+// ---- submit handlers ----
+const runGeneration = async (buildInput: () => Promise<GenerateInput>) => {
+  try {
+    setLoading(true);
+    setError("");
+    setLimitMessage("");
+    setFailure(null);
+
+    const controller = new AbortController();
+    submitControllerRef.current = controller;
+    const result = await requestGeneration(
+      {
+        ...(await buildInput()),
+        ...(clientId && { clientId }),
+        ...(clientProfile && { clientProfileId: clientProfile.id }),
+      },
+      {
+        signal: controller.signal,
+        onSubmitted: (job) => {
+          jobIdRef.current = job.jobId;
+          localStorage.setItem(PENDING_JOB_KEY, job.jobId);
+          setJobStatus(job.status);
+          updateUsage(job);
+        },
+        onStatus: (job) => setJobStatus(job.status),
+      }
+    );
+    setOutputImage(result.image);
+    setLatestResult({ generationId: result.generationId ?? result.jobId, stepId: result.stepId });
+    showIdentity(result.identityScore, result.image);
+    updateUsage(result);
+    if (result.sessionId) await showSession(result.sessionId, result.stepId, false);
+  } catch (err) {
+    console.error("Error:", err);
+    if ((isQuotaError(err) && err.code !== "rate-limited") || isOutOfCredits(err)) {
+      updateUsage(err);
+      setLimitMessage(err.message);
+    } else {
+      handleGenerationError(err);
+    }
+  } finally {
+    localStorage.removeItem(PENDING_JOB_KEY);
+    jobIdRef.current = null;
+    submitControllerRef.current = null;
+    setLoading(false);
+    setCancelling(false);
+    setJobStatus(null);
+  }
 };
 
-// ---- submit handler ----
+// A new look always starts a new edit session from the uploaded photo
 const handleSubmit = async () => {
   if (!file) {
     setError("Please upload a photo");
     return;
   }
+  setOutputImage(null);
+  setSession(null);
+  setCurrentStepId(null);
+  setLastInstruction(null);
+  await runGeneration(async () => ({
+    base64Image: await fileToBase64(file),
+    mimeType: file.type,
+    selection,
+    ...(referenceFile && {
+      referenceBase64Image: await fileToBase64(referenceFile),
+      referenceMimeType: referenceFile.type,
+    }),
+    ...(maskEnabled && mask && { maskBase64Image: mask }),
+  }));
+};
 
-  try {
-    setLoading(true);
-    setError("");
-    setOutputImage(null);
+// Refinements build on whichever version is selected, so picking an earlier one branches the session
+const handleRefine = async (instruction: string, parentStepId = currentStepId) => {
+  if (!parentStepId) return;
+  setLastInstruction(instruction);
+  await runGeneration(async () => ({ parentStepId, instruction }));
+};
 
-    const base64Image = await fileToBase64(file);
-
-    // --- prompt building ---
-    const haircut =
-      hairstyle === "default"
-        ? "Do not change the hair. Keep the hairstyle exactly as it is."
-        : `Change only the hair to: ${hairstyle}. Keep the person's face, skin, eyes, expression, and all other features exactly the same. Do not alter anything else.`;
-
-    const beardcut =
-      beardstyle === "default"
-        ? "Do not change the beard. Keep the existing beard exactly as it is."
-        : `Change only the beard to: ${beardstyle}. Keep the face and skin exactly the same. Do not alter anything else.`;
-
-    const haircolorcut =
-      haircolor === "default"
-        ? ""
-        : `Change only the hair color to: ${haircolor}. Keep the hairstyle, face, skin, eyes, and expression. Do not alter anything else.`;
-
-    const prompt = [haircut, beardcut, haircolorcut].join("\n");
-
-    // --- call Supabase Edge Function ---
-    const { data, error } = await supabase.functions.invoke<{
-      image?: string;
-      error?: string;
-    }>("gemini-function", {
-      body: {
-        base64Image,
-        mimeType: file.type,
-        prompt,
-      },
-    });
+const handleSelectStep = (stepId: string) => {
+  const step = session?.steps.find((candidate) => candidate.id === stepId);
+  if (!step) return;
+  setCurrentStepId(step.id);
+  setOutputImage(step.parentId ? step.imageUrl : null);
+  setFailure(null);
+};
+const currentStep = session?.steps.find((step) => step.id === currentStepId) ?? null;
+// An earlier version picked in the edit session is booked and shared instead of the latest result. The
+// latest step's history entry may not have been linked yet when the session loaded.
+const shownGenerationId =
+  currentStep && currentStep.id !== latestResult?.stepId
+    ? currentStep.generationId
+    : (latestResult?.generationId ?? null);
+const identityFlagged = identity !== null && isIdentityFlagged(identity.score) && identity.resultUrl === outputImage;
 
-    if (error) {
-      const typedError: SupabaseFunctionError = {
-        message: error.message || "Error calling Supabase Edge Function",
-        status: error.status,
-      };
-      throw typedError;
-    }
+// Redo a flagged result from the same starting point: the photo for a new look, the parent step for a refinement
+const handleRegenerate = async () => {
+  const parent = session?.steps.find((step) => step.id === currentStep?.parentId);
+  if (currentStep?.instruction && parent?.parentId) {
+    await handleRefine(currentStep.instruction, parent.id);
+  } else if (file) {
+    await handleSubmit();
+  }
+};
 
-    if (data?.image) {
-      setOutputImage(data.image);
-    } else {
-      throw { message: data?.error || "No image returned by Gemini API" };
-    }
+// Before the job exists, abort the upload; after, ask the server to stop it and let polling report the outcome
+const handleCancel = async () => {
+  setCancelling(true);
+  const jobId = jobIdRef.current;
+  if (!jobId) {
+    submitControllerRef.current?.abort();
+    return;
+  }
+  try {
+    const balance = await cancelGeneration(jobId);
+    if (typeof balance === "number") setCredits(balance);
   } catch (err) {
-    console.error("Error:", err);
-    const errorMessage =
-      typeof err === "object" && err !== null && "message" in err
-        ? (err as SupabaseFunctionError).message
-        : "Unexpected error occurred while generating image.";
-    setError(errorMessage);
-  } finally {
-    setLoading(false);
+    console.error("Cancel error:", err);
+    setError(errorMessage(err));
+    setCancelling(false);
   }
 };
 
 
-  const downloadImage = () => {
-    if (outputImage) {
+  const downloadImage = async () => {
+    if (!outputImage) return;
+    // The result is a signed storage URL on another origin, where the download attribute is ignored
+    try {
+      const blob = await (await fetch(outputImage)).blob();
+      const url = URL.createObjectURL(blob);
       const link = document.createElement("a");
-      link.href = outputImage;
-      link.download = `hairstyle-${hairstyle}-${Date.now()}.png`;
+      link.href = url;
+      link.download = `hairstyle-${hairstyle}-${Date.now()}.${extensionForMimeType(blob.type)}`;
       link.click();
+      URL.revokeObjectURL(url);
+    } catch (err) {
+      console.error("Download error:", err);
+      setError("Could not download the image. Please try again.");
     }
   };
 
@@ -287,7 +646,13 @@ const handleSubmit = async () => {
     setFile(null);
     setPreviewImage(null);
     setOutputImage(null);
+    setSession(null);
+    setCurrentStepId(null);
     setError("");
+    setFailure(null);
+    setPhotoWarnings([]);
+    setMaskEnabled(false);
+    setMask(null);
     if (fileInputRef.current) {
       fileInputRef.current.value = "";
     }
@@ -307,6 +672,51 @@ const handleSubmit = async () => {
           <p className="text-gray-600 max-w-2xl mx-auto">
             Transform your look with AI-powered hairstyle changes. Upload your photo and see how different hairstyles would look on you.
           </p>
+          <Link
+            href="/history"
+            className="inline-flex items-center gap-1 mt-3 text-sm text-purple-700 hover:text-purple-900"
+          >
+            <History className="w-4 h-4" />
+            Your saved looks
+          </Link>
+          <Link
+            href="/collections"
+            className="inline-flex items-center gap-1 mt-3 ml-4 text-sm text-purple-700 hover:text-purple-900"
+          >
+            <Star className="w-4 h-4" />
+            Collections
+          </Link>
+          <Link
+            href="/organization"
+            className="inline-flex items-center gap-1 mt-3 ml-4 text-sm text-purple-700 hover:text-purple-900"
+          >
+            <Building2 className="w-4 h-4" />
+            Salon
+          </Link>
+          {isStaffInActiveOrganization && (
+            <Link
+              href="/protected/clients"
+              className="inline-flex items-center gap-1 mt-3 ml-4 text-sm text-purple-700 hover:text-purple-900"
+            >
+              <Users className="w-4 h-4" />
+              Clients
+            </Link>
+          )}
+          {organizations && organizations.organizations.length > 0 && (
+            <div className="mt-3">
+              <OrganizationSwitcher
+                organizations={organizations.organizations}
+                activeId={organizations.activeId}
+                onSwitched={handleOrganizationSwitched}
+              />
+            </div>
+          )}
+          {(quota || credits !== null) && (
+            <div className="mt-3 flex flex-wrap justify-center gap-2">
+              {credits !== null && <CreditBalance credits={credits} />}
+              {quota && <QuotaIndicator quota={quota} />}
+            </div>
+          )}
         </div>
 
         <div className="max-w-6xl mx-auto">
@@ -320,6 +730,45 @@ const handleSubmit = async () => {
                 </h2>
                 
                 <div className="space-y-6">
+                  {clientProfile && (
+                    <div className="flex items-center justify-between gap-2 rounded-lg bg-purple-50 border border-purple-200 p-3 text-sm text-purple-800">
+                      <span>
+                        Session with{" "}
+                        <Link href={`/protected/clients/${clientProfile.id}`} className="font-medium underline">
+                          {clientProfile.name}
+                        </Link>
+                        {clientProfile.canStoreLooks
+                          ? ". Looks are saved to their profile."
+                          : ". They have not agreed to storing photos, so looks cannot be created for them."}
+                      </span>
+                      <button
+                        onClick={() => setClientProfile(null)}
+                        className="shrink-0 text-purple-700 hover:text-purple-900"
+                      >
+                        End session
+                      </button>
+                    </div>
+                  )}
+
+                  {/* Staff can create looks on behalf of their organization's clients */}
+                  {organizations && organizations.clients.length > 0 && (
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-2">
+                        Creating this look for
+                      </label>
+                      <select
+                        value={clientId}
+                        onChange={(e) => setClientId(e.target.value)}
+                        className="w-full p-3 border border-gray-300 text-zinc-900 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+                      >
+                        <option value="">Myself</option>
+                        {organizations.clients.map((client) => (
+                          <option key={client.userId} value={client.userId}>{client.email}</option>
+                        ))}
+                      </select>
+                    </div>
+                  )}
+
                   {/* Enhanced File Upload with Multiple Options */}
                   <div>
                     <label className="block text-sm font-medium text-gray-700 mb-3">
@@ -351,30 +800,91 @@ const handleSubmit = async () => {
                     <input
                       ref={fileInputRef}
                       type="file"
-                      accept="image/*"
+                      accept="image/*,.heic,.heif"
                       onChange={handleFileChange}
                       className="hidden"
                     />
 
-                    {/* Drag & Drop Area */}
-                    <div
-                      onDragOver={handleDragOver}
-                      onDragLeave={handleDragLeave}
-                      onDrop={handleDrop}
-                      onClick={() => fileInputRef.current?.click()}
-                      className={`relative border-2 border-dashed rounded-lg p-8 text-center cursor-pointer transition-all ${
-                        isDragOver
-                          ? 'border-blue-500 bg-blue-50'
-                          : 'border-gray-300 hover:border-gray-400 hover:bg-gray-50'
-                      }`}
-                    >
-                      <Upload className={`w-12 h-12 mx-auto mb-3 ${isDragOver ? 'text-blue-500' : 'text-gray-400'}`} />
-                      <p className={`text-sm ${isDragOver ? 'text-blue-600' : 'text-gray-600'}`}>
-                        {isDragOver ? 'Drop your image here' : 'Click here or drag & drop your image'}
-                      </p>
-                      <p className="text-xs text-gray-500 mt-1">
-                        Supports JPG, PNG, WebP formats
-                      </p>
+                    <div className={`grid gap-3 ${mode === "single" ? "sm:grid-cols-3" : ""}`}>
+                      {/* Drag & Drop Area */}
+                      <div
+                        onDragOver={handleDragOver}
+                        onDragLeave={handleDragLeave}
+                        onDrop={handleDrop}
+                        onClick={() => fileInputRef.current?.click()}
+                        className={`relative border-2 border-dashed rounded-lg p-8 text-center cursor-pointer transition-all ${
+                          mode === "single" ? 'sm:col-span-2' : ''
+                        } ${
+                          isDragOver
+                            ? 'border-blue-500 bg-blue-50'
+                            : 'border-gray-300 hover:border-gray-400 hover:bg-gray-50'
+                        }`}
+                      >
+                        <Upload className={`w-12 h-12 mx-auto mb-3 ${isDragOver ? 'text-blue-500' : 'text-gray-400'}`} />
+                        <p className={`text-sm ${isDragOver ? 'text-blue-600' : 'text-gray-600'}`}>
+                          {preparing
+                            ? 'Preparing your photo...'
+                            : isDragOver
+                              ? 'Drop your image here'
+                              : 'Click here or drag & drop your image'}
+                        </p>
+                        <p className="text-xs text-gray-500 mt-1">
+                          Supports JPG, PNG, WebP formats (HEIC where your browser can open it). Location data is removed before upload.
+                        </p>
+                      </div>
+
+                      {/* Reference hairstyle: "make my hair look like this" */}
+                      {mode === "single" && (
+                        <div>
+                          <input
+                            ref={referenceInputRef}
+                            type="file"
+                            accept="image/*,.heic,.heif"
+                            onChange={(e) => {
+                              const selectedFile = e.target.files?.[0];
+                              if (selectedFile) processReferenceFile(selectedFile);
+                            }}
+                            className="hidden"
+                          />
+                          {referencePreview ? (
+                            <div className="relative h-full min-h-32">
+                              <img
+                                src={referencePreview}
+                                alt="Reference hairstyle"
+                                className="w-full h-full max-h-48 object-cover rounded-lg border border-gray-200"
+                              />
+                              <span className="absolute bottom-1 left-1 bg-black/60 text-white text-xs px-2 py-0.5 rounded">
+                                Reference
+                              </span>
+                              <button
+                                onClick={clearReference}
+                                aria-label="Remove reference photo"
+                                className="absolute top-1 right-1 p-1 bg-white/90 rounded-full text-red-600 hover:text-red-800"
+                              >
+                                <X className="w-4 h-4" />
+                              </button>
+                            </div>
+                          ) : (
+                            <div
+                              onDragOver={(e) => e.preventDefault()}
+                              onDrop={(e) => {
+                                e.preventDefault();
+                                const selectedFile = e.dataTransfer.files[0];
+                                if (selectedFile) processReferenceFile(selectedFile);
+                              }}
+                              onClick={() => referenceInputRef.current?.click()}
+                              className="h-full border-2 border-dashed border-gray-300 rounded-lg p-4 text-center cursor-pointer hover:border-purple-400 hover:bg-purple-50 transition-all flex flex-col items-center justify-center"
+                            >
+                              <Scissors className="w-8 h-8 text-gray-400 mb-2" />
+                              <p className="text-sm text-gray-600">
+                                {preparingReference ? "Preparing..." : "Reference hairstyle"}
+                              </p>
+                              <p className="text-xs text-gray-500 mt-1">Optional: a photo of the cut you want</p>
+                            </div>
+                          )}
+                          {referenceError && <p className="text-xs text-red-700 mt-1">{referenceError}</p>}
+                        </div>
+                      )}
                     </div>
                   </div>
 
@@ -393,97 +903,230 @@ const handleSubmit = async () => {
                           Clear
                         </button>
                       </div>
-                      <div className="relative w-full max-w-md mx-auto">
-                        <img
-                          src={previewImage}
-                          alt="Preview"
-                          className="w-full h-auto rounded-lg shadow-md"
-                        />
-                      </div>
+                      {mode === "single" && maskEnabled ? (
+                        <MaskEditor imageUrl={previewImage} onChange={setMask} />
+                      ) : (
+                        <div className="relative w-full max-w-md mx-auto">
+                          <img
+                            src={previewImage}
+                            alt="Preview"
+                            className="w-full h-auto rounded-lg shadow-md"
+                          />
+                        </div>
+                      )}
+                      {mode === "single" && (
+                        <label className="mt-3 flex items-center gap-2 text-sm text-gray-700">
+                          <input
+                            type="checkbox"
+                            checked={maskEnabled}
+                            onChange={(e) => {
+                              setMaskEnabled(e.target.checked);
+                              setMask(null);
+                            }}
+                            className="rounded border-gray-300 text-purple-600 focus:ring-purple-500"
+                          />
+                          Protect the rest of the photo: only change the area I paint
+                        </label>
+                      )}
+                      {photoWarnings.length > 0 && (
+                        <div className="mt-3 bg-amber-50 border border-amber-200 rounded-lg p-4 text-sm text-amber-800">
+                          <p className="font-medium mb-1">This photo may give poor results:</p>
+                          <ul className="list-disc list-inside space-y-1">
+                            {photoWarnings.map((warning) => (
+                              <li key={warning}>{PHOTO_WARNING_MESSAGES[warning]}</li>
+                            ))}
+                          </ul>
+                          <p className="mt-2 text-amber-700">You can still continue, or pick a better photo.</p>
+                        </div>
+                      )}
                     </div>
                   )}
 
-                  {/* Hairstyle Selection */}
-                  <div>
-                    <label className="block text-sm font-medium text-gray-700 mb-2">
-                      Choose Hairstyle
-                    </label>
-                    <select
-                      value={hairstyle}
-                      onChange={(e) => setHairstyle(e.target.value)}
-                      className="w-full p-3 border border-gray-300 text-zinc-900 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  {/* Mode Toggle */}
+                  <div className="grid grid-cols-2 gap-2 p-1 bg-gray-100 rounded-lg">
+                    <button
+                      onClick={() => setMode("single")}
+                      className={`py-2 rounded-md text-sm font-medium transition-colors ${
+                        mode === "single" ? "bg-white shadow text-purple-700" : "text-gray-600 hover:text-gray-800"
+                      }`}
                     >
-                      <option value="default">No change</option>
-
-                      {/* Men Hairstyles */}
-                      <optgroup label="Men">
-                        <option value="Bald head, 0–2 mm length, completely shaved, clean and bold appearance;">Bald</option>
-                        <option value="Short fade, top 1–2 inches (25–50 mm), sides 0–1 inch (0–25 mm), sharp and modern look;">Short Fade</option>
-                        <option value="Long hair, 6–12 inches (150–300 mm), flowing and versatile, rugged look;">Long Hair</option>
-                        <option value="Crew cut, top 1–2 inches (25–50 mm), sides 0–1 inch (0–25 mm), classic and clean;">Crew Cut</option>
-                        <option value="Undercut, sides 0–1 inch (0–25 mm), top 2–6 inches (50–150 mm), edgy contrast;">Undercut</option>
-                        <option value="Man bun, 6–12 inches (150–300 mm), hair pulled back, often with shaved sides, bohemian look;">Man Bun</option>
-                        <option value="Buzz cut, uniform 1.5–12 mm, simple and low-maintenance;">Buzz Cut</option>
-                        <option value="Pompadour, top 4–6 inches (100–150 mm), sides 1–2 inches (25–50 mm), voluminous retro style;">Pompadour</option>
-                        <option value="Side part, top 2–4 inches (50–100 mm), neat and formal;">Side Part</option>
-                        <option value="Quiff, front 3–5 inches (75–125 mm), styled upwards and back, voluminous;">Quiff</option>
-                      </optgroup>
-
-                      {/* Women Hairstyles */}
-                      <optgroup label="Women">
-                        <option value="Bob Cut, chin-length, straight or slightly wavy, classic and elegant;">Bob Cut</option>
-                        <option value="Layered Cut, medium length, layered for volume and texture;">Layered Cut</option>
-                        <option value="Pixie Cut, short, cropped, chic and edgy;">Pixie Cut</option>
-                        <option value="Long Waves, long, soft waves, voluminous and flowing;">Long Waves</option>
-                        <option value="Ponytail, hair pulled back into high or low ponytail, practical yet stylish;">Ponytail</option>
-                      </optgroup>
-                    </select>
-                  </div>
-                  
-                  {/* Beard Style Selection */}
-                  <div>
-                    <label className="block text-sm font-medium text-gray-700 mb-2">
-                      Choose Beard Style
-                    </label>
-                    <select
-                      value={beardstyle}
-                      onChange={(e) => setBeardstyle(e.target.value)}
-                      className="w-full p-3 border border-gray-300 text-zinc-900 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                      Single look
+                    </button>
+                    <button
+                      onClick={() => setMode("batch")}
+                      className={`py-2 rounded-md text-sm font-medium transition-colors ${
+                        mode === "batch" ? "bg-white shadow text-purple-700" : "text-gray-600 hover:text-gray-800"
+                      }`}
                     >
-                      <option value="default">No change</option>
-                      <option value="clean shave — Completely smooth face with no facial hair, projecting a fresh, youthful, and formal look; famously sported by actors like Daniel Craig in James Bond appearances.">Clean Shave</option>
-                      <option value="stubble — Short, evenly trimmed facial hair (approx. 2–5 mm), offering a rugged yet neat aesthetic; epitomized by Ryan Gosling's designer stubble.">Stubble</option>
-                      <option value="goatee — A precise and distinctive beard style where facial hair is grown only on the chin, forming a small, concentrated patch that highlights the center of the face. The cheeks, jawline, and sideburns are completely shaved so the skin is fully visible, leaving no stubble or extended beard growth. The chin hair is kept short to medium in length, without braids or long strands. Unlike a circle beard or Van Dyke, the mustache remains either absent or completely disconnected from the chin beard, leaving a clear gap above the lips and around the corners of the mouth. This creates a sharp contrast between the visible skin and the deliberate chin hair, emphasizing the jaw and adding definition to the lower face. Culturally, the goatee is often associated with artistic, intellectual, and occasionally rebellious personalities, offering a blend of sophistication and edginess. Iconic example: Johnny Depp, who frequently sports a short disconnected goatee in both his public appearances and films, most famously in his portrayal of Captain Jack Sparrow in the 'Pirates of the Caribbean' series.">Goatee</option>
-                      <option value="full beard — Thick, dense coverage across jawline, cheeks, and chin, projecting maturity and masculinity; showcased by Jason Momoa with his signature rugged, unkempt full beard.">Full Beard</option>
-                      <option value="van dyke — Pointed chin beard paired with a detached mustache, with cheeks clean-shaven; a bold, artistic look often associated with Johnny Depp.">Van Dyke</option>
-                      <option value="anchor — A stylized beard shaped like an anchor: jawline beard connected to a pointed chin beard and mustache, offering a sharp, modern appearance; famously worn by Robert Downey Jr. as Tony Stark.">Anchor</option>
-                      <option value="circle beard — Rounded goatee merged with a mustache, forming a neat circle around the mouth; refined style seen on Idris Elba in well-groomed roles.">Circle Beard</option>
-                      <option value="mutton chops — Thick sideburns extending down the cheeks and connecting to a mustache, with chin completely shaved to the skin (no hair); evoking vintage boldness, occasionally seen in retro character portrayals. Example: Micah Bell (RDR2)">Mutton Chops</option>
-                      <option value="balbo — Separated chin beard and mustache without cheek or jaw hair; sharp, precise, and fashion-forward, popularized by Christian Bale in various stylized roles.">Balbo</option>
-                      <option value="extended goatee — Wider goatee extending along the jawline with chin beard connected to short side patches; David Beckham has sported this to frame his strong jaw.">Extended Goatee</option>
-                    </select>
+                      Try many styles
+                    </button>
                   </div>
 
-                  {/* Hair Color Selection */}
-                  <div>
-                    <label className="block text-sm font-medium text-gray-700 mb-2">
-                      Choose Hair Color
-                    </label>
-                    <select
-                      value={haircolor}
-                      onChange={(e) => setHaircolor(e.target.value)}
-                      className="w-full p-3 border border-gray-300 text-zinc-900 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent"
-                    >
-                      <option value="default">No change</option>
-                      <option value="black, dark and natural">Black</option>
-                      <option value="brown, medium warm tone">Brown</option>
-                      <option value="blonde, light and bright">Blonde</option>
-                      <option value="red, vibrant coppery tone">Red</option>
-                      <option value="gray, silver and matured look">Gray</option>
-                      <option value="white, pure white tone">White</option>
-                      <option value="auburn, reddish-brown mix">Auburn</option>
-                    </select>
-                  </div>
+                  {mode === "single" && (
+                    <>
+                      {/* Hairstyle Selection */}
+                      <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-2">
+                          Choose Hairstyle
+                        </label>
+                        <select
+                          value={hairstyle}
+                          onChange={(e) => setHairstyle(e.target.value)}
+                          className="w-full p-3 border border-gray-300 text-zinc-900 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                        >
+                          <option value="default">No change</option>
+
+                          {HAIR_CATEGORIES.map((category) => (
+                            <optgroup key={category} label={STYLE_CATEGORY_LABELS[category]}>
+                              {getStylesByCategory(category).map((style) => (
+                                <option key={style.id} value={style.id}>{style.name}</option>
+                              ))}
+                            </optgroup>
+                          ))}
+                        </select>
+                      </div>
+                  
+                      {/* Beard Style Selection */}
+                      <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-2">
+                          Choose Beard Style
+                        </label>
+                        <select
+                          value={beardstyle}
+                          onChange={(e) => setBeardstyle(e.target.value)}
+                          className="w-full p-3 border border-gray-300 text-zinc-900 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                        >
+                          <option value="default">No change</option>
+                          {getStylesByCategory("beard").map((style) => (
+                            <option key={style.id} value={style.id}>{style.name}</option>
+                          ))}
+                        </select>
+                      </div>
+
+                      {/* Hair Color Selection */}
+                      <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-2">
+                          Choose Hair Color
+                        </label>
+                        <select
+                          value={haircolor}
+                          onChange={(e) => setHaircolor(e.target.value)}
+                          className="w-full p-3 border border-gray-300 text-zinc-900 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent"
+                        >
+                          <option value="default">No change</option>
+                          {getStylesByCategory("color").map((style) => (
+                            <option key={style.id} value={style.id}>{style.name}</option>
+                          ))}
+                        </select>
+                      </div>
+
+                      {/* Style Modifiers */}
+                      <div className="grid grid-cols-3 gap-3">
+                        <div>
+                          <label className="block text-sm font-medium text-gray-700 mb-2">
+                            Part
+                          </label>
+                          <select
+                            value={partSide}
+                            onChange={(e) => setPartSide(e.target.value as PartSide | "")}
+                            className="w-full p-3 border border-gray-300 text-zinc-900 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                          >
+                            <option value="">Any</option>
+                            {Object.entries(PART_SIDE_LABELS).map(([value, label]) => (
+                              <option key={value} value={value}>{label}</option>
+                            ))}
+                          </select>
+                        </div>
+                        <div>
+                          <label className="block text-sm font-medium text-gray-700 mb-2">
+                            Texture
+                          </label>
+                          <select
+                            value={texture}
+                            onChange={(e) => setTexture(e.target.value as HairTexture | "")}
+                            className="w-full p-3 border border-gray-300 text-zinc-900 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                          >
+                            <option value="">Any</option>
+                            {Object.entries(TEXTURE_LABELS).map(([value, label]) => (
+                              <option key={value} value={value}>{label}</option>
+                            ))}
+                          </select>
+                        </div>
+                        <div>
+                          <label className="block text-sm font-medium text-gray-700 mb-2">
+                            Fringe
+                          </label>
+                          <select
+                            value={fringe}
+                            onChange={(e) => setFringe(e.target.value as Fringe | "")}
+                            className="w-full p-3 border border-gray-300 text-zinc-900 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                          >
+                            <option value="">Any</option>
+                            {Object.entries(FRINGE_LABELS).map(([value, label]) => (
+                              <option key={value} value={value}>{label}</option>
+                            ))}
+                          </select>
+                        </div>
+                      </div>
+
+                      {/* Free-text style description */}
+                      <div>
+                        <label htmlFor="custom-style" className="block text-sm font-medium text-gray-700 mb-2">
+                          Describe Your Style <span className="font-normal text-gray-500">(optional)</span>
+                        </label>
+                        <textarea
+                          id="custom-style"
+                          value={customStyle}
+                          onChange={(e) => setCustomStyle(e.target.value)}
+                          maxLength={MAX_INSTRUCTION_LENGTH}
+                          rows={2}
+                          placeholder="e.g. messy texture on top, tapered neckline"
+                          aria-invalid={customStyleCheck?.ok === false}
+                          aria-describedby="custom-style-help"
+                          className="w-full p-3 border border-gray-300 text-zinc-900 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+                        />
+                        <div id="custom-style-help" className="flex justify-between gap-3 text-xs mt-1">
+                          {customStyleCheck && !customStyleCheck.ok ? (
+                            <p className="text-red-700">{messageFor(customStyleCheck.code)}</p>
+                          ) : (
+                            <p className="text-gray-500">Hair and beard only. The face and everything else stay the same.</p>
+                          )}
+                          <span className="text-gray-400 shrink-0">
+                            {customStyle.length}/{MAX_INSTRUCTION_LENGTH}
+                          </span>
+                        </div>
+                      </div>
+
+                      {/* Conflicting selections that will be skipped */}
+                      {promptNotes.length > 0 && (
+                        <ul className="bg-amber-50 border border-amber-200 rounded-lg p-4 text-sm text-amber-800 list-disc list-inside space-y-1">
+                          {promptNotes.map((note) => (
+                            <li key={note}>{note}</li>
+                          ))}
+                        </ul>
+                      )}
+                    </>
+                  )}
+
+                  {/* Limit Reached */}
+                  {limitMessage && (
+                    <div className="bg-purple-50 border border-purple-200 rounded-lg p-4">
+                      <p className="font-medium text-purple-900">Limit reached</p>
+                      <p className="text-sm text-purple-800 mt-1">{limitMessage}</p>
+                      {credits === 0 && (
+                        <Link href="/billing" className="inline-block mt-2 text-sm font-medium text-purple-700 underline">
+                          Buy credits
+                        </Link>
+                      )}
+                    </div>
+                  )}
+
+                  {failure && (
+                    <GenerationFailure
+                      kind={failure}
+                      onRetry={lastInstruction ? () => handleRefine(lastInstruction) : file ? handleSubmit : undefined}
+                    />
+                  )}
 
                   {/* Error Message */}
                   {error && (
@@ -493,80 +1136,164 @@ const handleSubmit = async () => {
                   )}
 
                   {/* Submit Button */}
-                  <button
-                    onClick={handleSubmit}
-                    disabled={loading || !file}
-                    className="w-full bg-gradient-to-r from-purple-600 to-pink-600 text-white py-3 px-6 rounded-lg font-medium hover:from-purple-700 hover:to-pink-700 disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-200 flex items-center justify-center gap-2"
-                  >
-                    {loading ? (
-                      <>
-                        <Loader2 className="w-5 h-5 animate-spin" />
-                        Generating New Look...
-                      </>
-                    ) : (
-                      <>
-                        <Scissors className="w-5 h-5" />
-                        Transform Hairstyle
-                      </>
-                    )}
-                  </button>
+                  {mode === "single" && (
+                    <button
+                      onClick={handleSubmit}
+                      disabled={loading || preparing || !file || customStyleCheck?.ok === false || (maskEnabled && !mask)}
+                      className="w-full bg-gradient-to-r from-purple-600 to-pink-600 text-white py-3 px-6 rounded-lg font-medium hover:from-purple-700 hover:to-pink-700 disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-200 flex items-center justify-center gap-2"
+                    >
+                      {loading ? (
+                        <>
+                          <Loader2 className="w-5 h-5 animate-spin" />
+                          Generating New Look...
+                        </>
+                      ) : (
+                        <>
+                          <Scissors className="w-5 h-5" />
+                          Transform Hairstyle
+                        </>
+                      )}
+                    </button>
+                  )}
                 </div>
               </div>
             </div>
 
             {/* Results */}
             <div className="space-y-6">
-              {outputImage && (
-                <div className="bg-white rounded-2xl shadow-lg p-6">
-                  <div className="flex justify-between items-center mb-4">
-                    <h2 className="text-2xl font-semibold flex items-center gap-2">
-                      <span>✨</span>
-                      Your New Look
-                    </h2>
-                    <button
-                      onClick={downloadImage}
-                      className="bg-green-600 text-white px-4 py-2 rounded-lg hover:bg-green-700 transition-colors flex items-center gap-2"
-                    >
-                      <Download className="w-4 h-4" />
-                      Download
-                    </button>
-                  </div>
+              {mode === "batch" ? (
+                <BatchGenerator file={file} previewImage={previewImage} onUsageChange={updateUsage} />
+              ) : (
+                <>
+                  {outputImage && (
+                    <div className="bg-white rounded-2xl shadow-lg p-6">
+                      <div className="flex justify-between items-center mb-4">
+                        <h2 className="text-2xl font-semibold flex items-center gap-2">
+                          <span>✨</span>
+                          Your New Look
+                        </h2>
+                        <div className="flex gap-2">
+                          {shownGenerationId && (
+                            <ShareLookButton generationId={shownGenerationId} size="lg" />
+                          )}
+                          {shownGenerationId && (
+                            <Link
+                              href={`/book?generation=${shownGenerationId}`}
+                              className="bg-purple-600 text-white px-4 py-2 rounded-lg hover:bg-purple-700 transition-colors flex items-center gap-2"
+                            >
+                              <CalendarCheck className="w-4 h-4" />
+                              Book this cut
+                            </Link>
+                          )}
+                          <button
+                            onClick={downloadImage}
+                            className="bg-green-600 text-white px-4 py-2 rounded-lg hover:bg-green-700 transition-colors flex items-center gap-2"
+                          >
+                            <Download className="w-4 h-4" />
+                            Download
+                          </button>
+                        </div>
+                      </div>
                   
-                  <div className="relative">
-                    <img
-                      src={outputImage}
-                      alt="Generated hairstyle"
-                      className="w-full h-auto rounded-lg shadow-lg"
-                    />
-                    <div className="absolute bottom-2 left-2 bg-black bg-opacity-50 text-white px-3 py-1 rounded text-sm">
-                      {hairstyle.charAt(0).toUpperCase() + hairstyle.slice(1)}
+                      {previewImage ? (
+                        <BeforeAfter
+                          before={previewImage}
+                          after={outputImage}
+                          afterLabel={currentStep?.instruction ?? getStyle(hairstyle)?.name ?? "After"}
+                          imageClassName="shadow-lg"
+                        />
+                      ) : (
+                        <img
+                          src={outputImage}
+                          alt="Generated hairstyle"
+                          className="w-full h-auto rounded-lg shadow-lg"
+                        />
+                      )}
+
+                      {identityFlagged && (
+                        <div role="alert" className="mt-4 border rounded-lg p-4 flex gap-3 bg-amber-50 border-amber-200 text-amber-900">
+                          <UserX className="w-5 h-5 shrink-0 mt-0.5" />
+                          <div className="space-y-1">
+                            <p className="font-medium">This may not look like you</p>
+                            <p className="text-sm opacity-90">
+                              The face in the result only matches your photo {Math.round((identity?.score ?? 0) * 100)}%.
+                              Generating again usually fixes it.
+                            </p>
+                            {(file || currentStep?.parentId) && (
+                              <button
+                                onClick={handleRegenerate}
+                                disabled={loading}
+                                className="inline-flex items-center gap-1 text-sm font-medium underline disabled:opacity-50"
+                              >
+                                <RotateCcw className="w-4 h-4" />
+                                Generate again
+                              </button>
+                            )}
+                          </div>
+                        </div>
+                      )}
+
+                      {shownGenerationId && (
+                        <div className="mt-4">
+                          <LookAnnotations generationId={shownGenerationId} />
+                        </div>
+                      )}
                     </div>
-                  </div>
-                </div>
-              )}
+                  )}
 
-              {!outputImage && !loading && (
-                <div className="bg-gray-50 rounded-2xl border-2 border-dashed border-gray-300 p-12 text-center">
-                  <Scissors className="w-16 h-16 text-gray-400 mx-auto mb-4" />
-                  <h3 className="text-xl font-medium text-gray-700 mb-2">
-                    Ready to Transform?
-                  </h3>
-                  <p className="text-gray-500">
-                    Upload a photo using camera, gallery, or drag & drop to see the magic happen!
-                  </p>
-                </div>
-              )}
+                  {session && (
+                    <EditSession
+                      session={session}
+                      currentStepId={currentStepId}
+                      busy={loading}
+                      onSelectStep={handleSelectStep}
+                      onRefine={handleRefine}
+                    />
+                  )}
 
-              {loading && (
-                <div className="bg-white rounded-2xl shadow-lg p-12 text-center">
-                  <Loader2 className="w-16 h-16 text-purple-600 mx-auto mb-4 animate-spin" />
-                  <h3 className="text-xl font-medium text-gray-700 mb-2">
-                    Creating Your New Look
-                  </h3>
-                  <p className="text-gray-500">
-                    Our AI is working its magic... This may take a moment.
-                  </p>
-                </div>
+                  {!outputImage && !loading && !session && (
+                    <div className="bg-gray-50 rounded-2xl border-2 border-dashed border-gray-300 p-12 text-center">
+                      <Scissors className="w-16 h-16 text-gray-400 mx-auto mb-4" />
+                      <h3 className="text-xl font-medium text-gray-700 mb-2">
+                        Ready to Transform?
+                      </h3>
+                      <p className="text-gray-500">
+                        Upload a photo using camera, gallery, or drag & drop to see the magic happen!
+                      </p>
+                    </div>
+                  )}
+
+                  {loading && (
+                    <div className="bg-white rounded-2xl shadow-lg p-12 text-center">
+                      <Loader2 className="w-16 h-16 text-purple-600 mx-auto mb-4 animate-spin" />
+                      <h3 className="text-xl font-medium text-gray-700 mb-2">
+                        {jobStatus === "queued" ? "Waiting in Line" : "Creating Your New Look"}
+                      </h3>
+                      <p className="text-gray-500">
+                        {jobStatus === "queued"
+                          ? "Your generation is queued and will start shortly."
+                          : "Our AI is working its magic... This may take a moment."}
+                      </p>
+                      {jobStatus && (
+                        <p className="text-sm text-gray-400 mt-2">
+                          You can close this tab. The result will be waiting here and in your{" "}
+                          <Link href="/history" className="text-purple-700 hover:text-purple-900 underline">
+                            history
+                          </Link>
+                          .
+                        </p>
+                      )}
+                      <button
+                        onClick={handleCancel}
+                        disabled={cancelling}
+                        className="mt-6 inline-flex items-center gap-2 border border-gray-300 text-gray-700 px-4 py-2 rounded-lg hover:bg-gray-50 disabled:opacity-50 transition-colors"
+                      >
+                        {cancelling ? <Loader2 className="w-4 h-4 animate-spin" /> : <X className="w-4 h-4" />}
+                        {cancelling ? "Cancelling..." : "Cancel"}
+                      </button>
+                    </div>
+                  )}
+                </>
               )}
             </div>
           </div>
@@ -596,13 +1323,30 @@ const handleSubmit = async () => {
                   </div>
                 )}
                 
-                <video
-                  ref={videoRef}
-                  autoPlay
-                  playsInline
-                  muted
-                  className={`w-full h-64 bg-gray-200 rounded-lg object-cover ${!cameraReady ? 'hidden' : ''}`}
-                />
+                <div className={`relative ${!cameraReady ? 'hidden' : ''}`}>
+                  <video
+                    ref={videoRef}
+                    autoPlay
+                    playsInline
+                    muted
+                    className="w-full h-64 bg-gray-200 rounded-lg object-cover"
+                  />
+                  {/* Framing guide: turns green once a single, centered face fills it */}
+                  <div
+                    className={`absolute left-1/2 top-1/2 -translate-x-1/2 -translate-y-1/2 w-36 h-48 rounded-[50%] border-4 border-dashed pointer-events-none transition-colors ${
+                      framingWarnings?.length === 0 ? 'border-green-400' : 'border-white/80'
+                    }`}
+                  />
+                </div>
+                {cameraReady && (
+                  <p className="text-sm text-center text-gray-600">
+                    {framingWarnings === null
+                      ? "Center your face in the oval"
+                      : framingWarnings.length === 0
+                        ? "Looks good, hold still"
+                        : PHOTO_WARNING_MESSAGES[framingWarnings[0]]}
+                  </p>
+                )}
                 
                 <div className="flex gap-3">
                   <button
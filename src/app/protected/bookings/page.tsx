@@ -0,0 +1,119 @@
+import { cookies } from 'next/headers'
+import Link from 'next/link'
+import { redirect } from 'next/navigation'
+
+import { AvailabilityForm } from '@/components/availability-form'
+import { ConfirmActionButton } from '@/components/confirm-action-button'
+import { Button } from '@/components/ui/button'
+import { formatSlot, listAvailability, listUpcomingBookings, WEEKDAY_LABELS } from '@/lib/bookings'
+import { errorPagePath } from '@/lib/errors'
+import { getGenerationOutputUrls } from '@/lib/generations'
+import { ACTIVE_ORGANIZATION_COOKIE, isStaff, listMembers, resolveActiveOrganization } from '@/lib/organizations'
+import { createClient } from '@/lib/server'
+
+export default async function StylistBookingsPage() {
+  const supabase = await createClient()
+
+  const { data, error } = await supabase.auth.getClaims()
+  if (error || !data?.claims) {
+    redirect('/auth/login')
+  }
+
+  const active = await resolveActiveOrganization(supabase, (await cookies()).get(ACTIVE_ORGANIZATION_COOKIE)?.value)
+  if (!active || !isStaff(active.role)) {
+    redirect(errorPagePath('forbidden'))
+  }
+
+  // Owners see the whole organization's diary, stylists their own.
+  const [bookings, members, organizationAvailability] = await Promise.all([
+    listUpcomingBookings(
+      supabase,
+      active.role === 'owner' ? { organizationId: active.id } : { stylistId: data.claims.sub }
+    ),
+    listMembers(supabase, active.id),
+    listAvailability(supabase, active.id),
+  ])
+  const availability = organizationAvailability.filter((window) => window.stylist_id === data.claims.sub)
+  const looks = await getGenerationOutputUrls(
+    supabase,
+    bookings.flatMap((booking) => (booking.generation_id ? [booking.generation_id] : []))
+  )
+  const emailOf = (userId: string) => members.find((member) => member.user_id === userId)?.email ?? 'Former member'
+  const timeZoneOf = (stylistId: string) =>
+    organizationAvailability.find((window) => window.stylist_id === stylistId)?.time_zone ?? 'UTC'
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-purple-50 via-pink-50 to-blue-50">
+      <div className="container mx-auto px-4 py-8 max-w-4xl space-y-8">
+        <div className="flex items-center justify-between">
+          <h1 className="text-3xl font-bold text-gray-800">Bookings</h1>
+          <Button asChild variant="outline">
+            <Link href="/">Back to editor</Link>
+          </Button>
+        </div>
+
+        <div className="bg-white rounded-2xl shadow-lg p-6">
+          <h2 className="text-xl font-semibold text-gray-800 mb-4">Upcoming</h2>
+          {bookings.length === 0 ? (
+            <p className="text-sm text-gray-500">No upcoming bookings.</p>
+          ) : (
+            <ul className="divide-y">
+              {bookings.map((booking) => {
+                const lookUrl = booking.generation_id ? looks.get(booking.generation_id) : undefined
+                return (
+                  <li key={booking.id} className="flex items-center gap-4 py-3 text-sm">
+                    {lookUrl ? (
+                      <img src={lookUrl} alt="Target look" className="w-20 h-20 rounded-lg object-cover shrink-0" />
+                    ) : (
+                      <div className="w-20 h-20 rounded-lg bg-gray-100 flex items-center justify-center text-xs text-gray-500 shrink-0">
+                        No look
+                      </div>
+                    )}
+                    <span className="flex-1 text-gray-700">
+                      {formatSlot(booking.starts_at, timeZoneOf(booking.stylist_id))}
+                      <span className="block text-xs text-gray-500">
+                        {emailOf(booking.client_id)}
+                        {active.role === 'owner' && ` with ${emailOf(booking.stylist_id)}`}
+                      </span>
+                    </span>
+                    <ConfirmActionButton
+                      url={`/api/bookings/${booking.id}/cancel`}
+                      method="POST"
+                      confirmText="Cancel this appointment?"
+                      labels={{ idle: 'Cancel', pending: 'Cancelling...', failed: 'Could not cancel the appointment' }}
+                    />
+                  </li>
+                )
+              })}
+            </ul>
+          )}
+        </div>
+
+        <div className="bg-white rounded-2xl shadow-lg p-6 space-y-4">
+          <h2 className="text-xl font-semibold text-gray-800">Your weekly availability</h2>
+          {availability.length === 0 ? (
+            <p className="text-sm text-gray-500">Clients cannot book you until you add some times.</p>
+          ) : (
+            <ul className="divide-y">
+              {availability.map((window) => (
+                <li key={window.id} className="flex items-center justify-between gap-2 py-2 text-sm">
+                  <span className="text-gray-700">
+                    {WEEKDAY_LABELS[window.weekday]} {window.start_time.slice(0, 5)}–{window.end_time.slice(0, 5)}
+                    <span className="block text-xs text-gray-500">
+                      {window.slot_minutes}-minute slots · {window.time_zone}
+                    </span>
+                  </span>
+                  <ConfirmActionButton
+                    url={`/api/availability/${window.id}`}
+                    labels={{ idle: 'Remove', pending: 'Removing...', failed: 'Could not remove availability' }}
+                  />
+                </li>
+              ))}
+            </ul>
+          )}
+          <AvailabilityForm />
+        </div>
+      </div>
+    </div>
+  )
+}
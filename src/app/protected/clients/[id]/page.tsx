@@ -0,0 +1,145 @@
+import { cookies } from 'next/headers'
+import Link from 'next/link'
+import { notFound, redirect } from 'next/navigation'
+
+import { BeforeAfter } from '@/components/before-after'
+import { ClientConsentForm } from '@/components/client-consent-form'
+import { ClientPhotoUpload } from '@/components/client-photo-upload'
+import { ClientProfileForm } from '@/components/client-profile-form'
+import { ConfirmActionButton } from '@/components/confirm-action-button'
+import { Button } from '@/components/ui/button'
+import { CONSENT_SCOPE_LABELS, getClientProfile, hasConsent, listConsents } from '@/lib/client-profiles'
+import { errorPagePath } from '@/lib/errors'
+import { createSignedImageUrl, listGenerations } from '@/lib/generations'
+import { ACTIVE_ORGANIZATION_COOKIE, creditAccount, resolveActiveOrganization } from '@/lib/organizations'
+import { describeSelection } from '@/lib/prompt-builder'
+import { createClient } from '@/lib/server'
+
+const LOOKS_SHOWN = 12
+
+export default async function ClientProfilePage({ params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params
+  const supabase = await createClient()
+
+  const { data, error } = await supabase.auth.getClaims()
+  if (error || !data?.claims) {
+    redirect('/auth/login')
+  }
+
+  const organizationId = creditAccount(
+    await resolveActiveOrganization(supabase, (await cookies()).get(ACTIVE_ORGANIZATION_COOKIE)?.value)
+  )
+  if (!organizationId) {
+    redirect(errorPagePath('forbidden'))
+  }
+
+  const profile = await getClientProfile(supabase, organizationId, id)
+  if (!profile) {
+    notFound()
+  }
+
+  const [consents, { generations, total }, photoUrl] = await Promise.all([
+    listConsents(supabase, id),
+    listGenerations(supabase, 1, LOOKS_SHOWN, { clientProfileId: id }),
+    profile.photo_path ? createSignedImageUrl(supabase, profile.photo_path).catch(() => null) : null,
+  ])
+  const consent = consents[0] ?? null
+  const canStorePhotos = hasConsent(consent, 'photos')
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-purple-50 via-pink-50 to-blue-50">
+      <div className="container mx-auto px-4 py-8 max-w-4xl space-y-8">
+        <div className="flex items-center justify-between gap-4">
+          <h1 className="text-3xl font-bold text-gray-800">{profile.name}</h1>
+          <div className="flex gap-2">
+            <Button asChild variant="outline">
+              <Link href="/protected/clients">All clients</Link>
+            </Button>
+            {canStorePhotos && (
+              <Button asChild>
+                <Link href={`/?clientProfile=${profile.id}`}>Start a session</Link>
+              </Button>
+            )}
+          </div>
+        </div>
+
+        <div className="grid md:grid-cols-[auto_1fr] gap-6 bg-white rounded-2xl shadow-lg p-6">
+          <div className="space-y-3">
+            {photoUrl ? (
+              <img src={photoUrl} alt={profile.name} className="w-40 h-40 rounded-lg object-cover" />
+            ) : (
+              <div className="w-40 h-40 rounded-lg bg-gray-100 flex items-center justify-center text-sm text-gray-500">
+                No photo
+              </div>
+            )}
+            {canStorePhotos ? (
+              <ClientPhotoUpload id={profile.id} hasPhoto={profile.photo_path !== null} />
+            ) : (
+              <p className="text-xs text-gray-500 max-w-40">Record photo consent to store a photo.</p>
+            )}
+          </div>
+          <ClientProfileForm id={profile.id} name={profile.name} notes={profile.notes} />
+        </div>
+
+        <div className="bg-white rounded-2xl shadow-lg p-6 space-y-4">
+          <h2 className="text-xl font-semibold text-gray-800">Consent</h2>
+          <ClientConsentForm id={profile.id} scopes={consent?.scopes ?? []} />
+          {consents.length > 0 && (
+            <ul className="divide-y text-sm">
+              {consents.map((record) => (
+                <li key={record.id} className="py-2 text-gray-700">
+                  {record.scopes.length > 0
+                    ? record.scopes.map((scope) => CONSENT_SCOPE_LABELS[scope]).join('; ')
+                    : 'Withdrew all consent'}
+                  <span className="block text-xs text-gray-500">
+                    Recorded {new Date(record.recorded_at).toLocaleString()}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+
+        <div className="bg-white rounded-2xl shadow-lg p-6 space-y-4">
+          <h2 className="text-xl font-semibold text-gray-800">Looks ({total})</h2>
+          {generations.length === 0 ? (
+            <p className="text-sm text-gray-500">No looks yet. Start a session to create one.</p>
+          ) : (
+            <div className="grid sm:grid-cols-2 gap-6">
+              {generations.map((generation) => (
+                <div key={generation.id} className="space-y-2">
+                  {generation.inputUrl && generation.outputUrl ? (
+                    <BeforeAfter
+                      before={generation.inputUrl}
+                      after={generation.outputUrl}
+                      beforeLabel="Original"
+                      afterLabel="New look"
+                    />
+                  ) : (
+                    <div className="h-40 rounded-lg bg-gray-100 flex items-center justify-center text-sm text-gray-500">
+                      Images unavailable
+                    </div>
+                  )}
+                  <p className="text-sm font-medium text-gray-800">
+                    {describeSelection(generation.selection, { reference: generation.reference_path !== null })}
+                  </p>
+                  <p className="text-xs text-gray-500">{new Date(generation.created_at).toLocaleString()}</p>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <div className="flex justify-end">
+          <ConfirmActionButton
+            url={`/api/clients/${profile.id}`}
+            confirmText="Delete this client, their photo and every look made for them? This cannot be undone."
+            labels={{ idle: 'Delete client', pending: 'Deleting...', failed: 'Could not delete client profile' }}
+            variant="destructive"
+            redirectTo="/protected/clients"
+          />
+        </div>
+      </div>
+    </div>
+  )
+}
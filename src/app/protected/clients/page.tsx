@@ -0,0 +1,76 @@
+import { cookies } from 'next/headers'
+import Link from 'next/link'
+import { redirect } from 'next/navigation'
+
+import { CreateClientProfileForm } from '@/components/create-client-profile-form'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { searchClientProfiles } from '@/lib/client-profiles'
+import { errorPagePath } from '@/lib/errors'
+import { ACTIVE_ORGANIZATION_COOKIE, creditAccount, resolveActiveOrganization } from '@/lib/organizations'
+import { createClient } from '@/lib/server'
+
+export default async function ClientsPage({ searchParams }: { searchParams: Promise<{ q?: string }> }) {
+  const { q = '' } = await searchParams
+  const supabase = await createClient()
+
+  const { data, error } = await supabase.auth.getClaims()
+  if (error || !data?.claims) {
+    redirect('/auth/login')
+  }
+
+  const organizationId = creditAccount(
+    await resolveActiveOrganization(supabase, (await cookies()).get(ACTIVE_ORGANIZATION_COOKIE)?.value)
+  )
+  if (!organizationId) {
+    redirect(errorPagePath('forbidden'))
+  }
+
+  const profiles = await searchClientProfiles(supabase, organizationId, q)
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-purple-50 via-pink-50 to-blue-50">
+      <div className="container mx-auto px-4 py-8 max-w-4xl space-y-8">
+        <div className="flex items-center justify-between">
+          <div>
+            <h1 className="text-3xl font-bold text-gray-800">Clients</h1>
+            <p className="text-gray-600">Keep each client&apos;s photo, notes and looks across visits.</p>
+          </div>
+          <Button asChild variant="outline">
+            <Link href="/">Back to editor</Link>
+          </Button>
+        </div>
+
+        <div className="bg-white rounded-2xl shadow-lg p-6 space-y-4">
+          <form className="flex gap-2">
+            <Input name="q" type="search" placeholder="Search by name" defaultValue={q} />
+            <Button type="submit" variant="outline">
+              Search
+            </Button>
+          </form>
+          {profiles.length === 0 ? (
+            <p className="text-sm text-gray-500">{q ? 'No clients match your search.' : 'No client profiles yet.'}</p>
+          ) : (
+            <ul className="divide-y">
+              {profiles.map((profile) => (
+                <li key={profile.id} className="flex items-center justify-between gap-2 py-2 text-sm">
+                  <Link href={`/protected/clients/${profile.id}`} className="text-purple-700 hover:text-purple-900">
+                    {profile.name}
+                  </Link>
+                  <span className="text-xs text-gray-500">
+                    Updated {new Date(profile.updated_at).toLocaleDateString()}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+
+        <div className="bg-white rounded-2xl shadow-lg p-6 space-y-4">
+          <h2 className="text-xl font-semibold text-gray-800">New client</h2>
+          <CreateClientProfileForm />
+        </div>
+      </div>
+    </div>
+  )
+}
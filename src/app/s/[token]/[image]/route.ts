@@ -0,0 +1,34 @@
+import { NextResponse, type NextRequest } from 'next/server'
+
+import { createAdminClient } from '@/lib/admin'
+import { errorResponse } from '@/lib/errors/response'
+import { downloadSharedImage, type SharedImage } from '@/lib/share-links'
+
+/**
+ * Serves an image of a shared look (`before` or `after`). Images go through
+ * here rather than signed storage URLs so link previews keep working and
+ * revoking a link takes effect once caches expire.
+ */
+export async function GET(_request: NextRequest, { params }: { params: Promise<{ token: string; image: string }> }) {
+  const { token, image } = await params
+  if (image !== 'before' && image !== 'after') {
+    return errorResponse('not-found')
+  }
+
+  try {
+    const data = await downloadSharedImage(createAdminClient(), token, image satisfies SharedImage)
+    if (!data) {
+      return errorResponse('share-link-not-found')
+    }
+    return new NextResponse(Buffer.from(data.data, 'base64'), {
+      headers: {
+        'Content-Type': data.mimeType,
+        'Cache-Control': 'public, max-age=300',
+        'X-Robots-Tag': 'noindex',
+      },
+    })
+  } catch (err) {
+    console.error('Failed to load shared image:', err)
+    return errorResponse('internal')
+  }
+}
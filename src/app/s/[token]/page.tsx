@@ -0,0 +1,84 @@
+import type { Metadata } from 'next'
+import { headers } from 'next/headers'
+import Link from 'next/link'
+import { notFound } from 'next/navigation'
+import { cache } from 'react'
+
+import { BeforeAfter } from '@/components/before-after'
+import { Button } from '@/components/ui/button'
+import { createAdminClient } from '@/lib/admin'
+import { getSharedLook, sharedImagePath, sharePath } from '@/lib/share-links'
+
+// Shared between generateMetadata and the page within one request
+const loadSharedLook = cache((token: string) => getSharedLook(createAdminClient(), token))
+
+async function requestOrigin() {
+  const list = await headers()
+  const host = list.get('x-forwarded-host') ?? list.get('host') ?? 'localhost:3000'
+  const protocol = list.get('x-forwarded-proto') ?? (host.startsWith('localhost') ? 'http' : 'https')
+  return `${protocol}://${host}`
+}
+
+export async function generateMetadata({ params }: { params: Promise<{ token: string }> }): Promise<Metadata> {
+  const { token } = await params
+  const look = await loadSharedLook(token)
+  if (!look) {
+    return { title: 'Link unavailable', robots: { index: false } }
+  }
+
+  const origin = await requestOrigin()
+  const title = 'A new hairstyle look'
+  const image = new URL(sharedImagePath(token, 'after'), origin).toString()
+  return {
+    title,
+    description: look.description,
+    robots: { index: false },
+    openGraph: {
+      type: 'website',
+      title,
+      description: look.description,
+      url: new URL(sharePath(token), origin).toString(),
+      images: [{ url: image, alt: look.description }],
+    },
+    twitter: { card: 'summary_large_image', title, description: look.description, images: [image] },
+  }
+}
+
+/** Public page for a shared look. Visitors do not need an account. */
+export default async function SharedLookPage({ params }: { params: Promise<{ token: string }> }) {
+  const { token } = await params
+  const look = await loadSharedLook(token)
+  if (!look) notFound()
+
+  const after = sharedImagePath(token, 'after')
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-purple-50 via-pink-50 to-blue-50">
+      <div className="container mx-auto px-4 py-8 max-w-3xl space-y-6">
+        <div className="text-center">
+          <h1 className="text-3xl font-bold text-gray-800">A new look</h1>
+          <p className="text-gray-600 mt-2">{look.description}</p>
+        </div>
+
+        <div className="bg-white rounded-2xl shadow-lg p-4">
+          {look.showBefore ? (
+            <BeforeAfter before={sharedImagePath(token, 'before')} after={after} beforeLabel="Before" afterLabel="After" />
+          ) : (
+            <img src={after} alt={look.description} className="w-full rounded-lg" />
+          )}
+        </div>
+
+        <div className="text-center space-y-2">
+          <Button asChild>
+            <Link href="/">Try a new hairstyle yourself</Link>
+          </Button>
+          {look.expiresAt && (
+            <p className="text-xs text-gray-500">
+              This link works until {new Date(look.expiresAt).toLocaleDateString('en-GB', { dateStyle: 'long' })}.
+            </p>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,37 @@
+'use client'
+
+import { Button } from '@/components/ui/button'
+import { useRouter } from 'next/navigation'
+import { useState } from 'react'
+
+export function AcceptInvitationButton({ token }: { token: string }) {
+  const router = useRouter()
+  const [isLoading, setIsLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const accept = async () => {
+    setIsLoading(true)
+    setError(null)
+
+    try {
+      const response = await fetch(`/api/invitations/${token}`, { method: 'POST' })
+      if (!response.ok) {
+        const body: { error?: string } = await response.json().catch(() => ({}))
+        throw new Error(body.error || 'Could not accept invitation')
+      }
+      router.push('/organization')
+    } catch (error: unknown) {
+      setError(error instanceof Error ? error.message : 'An error occurred')
+      setIsLoading(false)
+    }
+  }
+
+  return (
+    <div className="space-y-2">
+      <Button className="w-full" onClick={accept} disabled={isLoading}>
+        {isLoading ? 'Joining...' : 'Accept invitation'}
+      </Button>
+      {error && <p className="text-sm text-red-500">{error}</p>}
+    </div>
+  )
+}
@@ -0,0 +1,95 @@
+'use client'
+
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { DEFAULT_SLOT_MINUTES, WEEKDAY_LABELS } from '@/lib/bookings'
+import { useRouter } from 'next/navigation'
+import { useState } from 'react'
+
+/** Adds a weekly window in which the current user takes bookings, in the browser's time zone. */
+export function AvailabilityForm() {
+  const router = useRouter()
+  const [weekday, setWeekday] = useState(1)
+  const [startTime, setStartTime] = useState('09:00')
+  const [endTime, setEndTime] = useState('17:00')
+  const [slotMinutes, setSlotMinutes] = useState(DEFAULT_SLOT_MINUTES)
+  const [isLoading, setIsLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const add = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setIsLoading(true)
+    setError(null)
+
+    try {
+      const response = await fetch('/api/availability', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          weekday,
+          startTime,
+          endTime,
+          slotMinutes,
+          timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+        }),
+      })
+      if (!response.ok) {
+        const body: { error?: string } = await response.json().catch(() => ({}))
+        throw new Error(body.error || 'Could not add availability')
+      }
+      router.refresh()
+    } catch (error: unknown) {
+      setError(error instanceof Error ? error.message : 'An error occurred')
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  return (
+    <form onSubmit={add} className="space-y-2">
+      <div className="grid sm:grid-cols-5 gap-2 items-end">
+        <div className="space-y-1">
+          <Label htmlFor="availability-weekday">Day</Label>
+          <select
+            id="availability-weekday"
+            value={weekday}
+            onChange={(e) => setWeekday(Number(e.target.value))}
+            className="h-9 w-full rounded-md border border-input bg-transparent px-3 text-sm"
+          >
+            {WEEKDAY_LABELS.map((label, index) => (
+              <option key={label} value={index}>
+                {label}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="availability-start">From</Label>
+          <Input id="availability-start" type="time" required value={startTime} onChange={(e) => setStartTime(e.target.value)} />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="availability-end">To</Label>
+          <Input id="availability-end" type="time" required value={endTime} onChange={(e) => setEndTime(e.target.value)} />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="availability-slot">Minutes per slot</Label>
+          <Input
+            id="availability-slot"
+            type="number"
+            min={15}
+            max={240}
+            step={5}
+            required
+            value={slotMinutes}
+            onChange={(e) => setSlotMinutes(Number(e.target.value))}
+          />
+        </div>
+        <Button type="submit" disabled={isLoading}>
+          {isLoading ? 'Adding...' : 'Add'}
+        </Button>
+      </div>
+      {error && <p className="text-sm text-red-500">{error}</p>}
+    </form>
+  )
+}
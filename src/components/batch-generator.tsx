@@ -0,0 +1,270 @@
+'use client'
+
+import { Loader2, RotateCcw, Scissors, X } from 'lucide-react'
+import { useRef, useState } from 'react'
+
+import { BeforeAfter } from '@/components/before-after'
+import { runWithConcurrency } from '@/lib/concurrency'
+import {
+  cancelGeneration,
+  errorMessage,
+  generationFailure,
+  isRetryableFailure,
+  requestGeneration,
+  type GenerationRequestError,
+  type UsageUpdate,
+} from '@/lib/generate-client'
+import { fileToBase64 } from '@/lib/image-data'
+import type { StyleSelection } from '@/lib/prompt-builder'
+import type { ProviderFailureKind } from '@/lib/providers/types'
+import {
+  HAIR_CATEGORIES,
+  STYLE_CATALOG,
+  STYLE_CATEGORY_LABELS,
+  type StyleCategory,
+  type StyleDefinition,
+} from '@/lib/style-catalog'
+
+export const MAX_BATCH_SIZE = 10
+const BATCH_CONCURRENCY = 3
+/**
+ * A full batch is more requests than the per-minute burst limit allows, so an
+ * item that hits it waits for the window to reset and goes again.
+ */
+const RATE_LIMIT_RETRIES = 2
+const BATCH_CATEGORIES: StyleCategory[] = [...HAIR_CATEGORIES, 'beard', 'color']
+
+type BatchStatus = 'queued' | 'running' | 'succeeded' | 'failed'
+
+interface BatchItem {
+  style: StyleDefinition
+  status: BatchStatus
+  image?: string
+  error?: string
+  failure?: ProviderFailureKind | null
+}
+
+/** A batch item changes exactly one thing: the style it was picked for. */
+function selectionFor(style: StyleDefinition): StyleSelection {
+  switch (style.category) {
+    case 'beard':
+      return { beardId: style.id }
+    case 'color':
+      return { colorId: style.id }
+    default:
+      return { hairstyleId: style.id }
+  }
+}
+
+interface BatchGeneratorProps {
+  file: File | null
+  previewImage: string | null
+  onUsageChange?: (update: UsageUpdate) => void
+}
+
+export function BatchGenerator({ file, previewImage, onUsageChange }: BatchGeneratorProps) {
+  const [selectedIds, setSelectedIds] = useState<string[]>([])
+  const [items, setItems] = useState<BatchItem[]>([])
+  const [running, setRunning] = useState(false)
+  const [cancelling, setCancelling] = useState(false)
+  // Jobs in flight by style id, so the whole batch can be cancelled
+  const jobIdsRef = useRef(new Map<string, string>())
+  const cancelledRef = useRef(false)
+
+  const updateItem = (id: string, patch: Partial<BatchItem>) => {
+    setItems((current) => current.map((item) => (item.style.id === id ? { ...item, ...patch } : item)))
+  }
+
+  const generate = async (style: StyleDefinition, base64Image: string, mimeType: string) => {
+    for (let attempt = 0; ; attempt++) {
+      if (cancelledRef.current) {
+        updateItem(style.id, { status: 'failed', error: 'Cancelled', failure: 'cancelled' })
+        return
+      }
+      updateItem(style.id, { status: 'running', error: undefined, failure: null })
+      try {
+        const result = await requestGeneration(
+          { base64Image, mimeType, selection: selectionFor(style) },
+          { onSubmitted: (job) => jobIdsRef.current.set(style.id, job.jobId) }
+        )
+        updateItem(style.id, { status: 'succeeded', image: result.image })
+        onUsageChange?.(result)
+        return
+      } catch (err) {
+        const error = err as GenerationRequestError
+        if (error.code === 'rate-limited' && !error.failure && attempt < RATE_LIMIT_RETRIES) {
+          updateItem(style.id, { status: 'queued' })
+          await new Promise((resolve) => setTimeout(resolve, (error.retryAfterSeconds ?? 60) * 1000))
+          continue
+        }
+        updateItem(style.id, { status: 'failed', error: errorMessage(err), failure: generationFailure(err) })
+        onUsageChange?.(error)
+        return
+      } finally {
+        jobIdsRef.current.delete(style.id)
+      }
+    }
+  }
+
+  const cancelBatch = async () => {
+    cancelledRef.current = true
+    setCancelling(true)
+    await Promise.all(
+      [...jobIdsRef.current.values()].map((jobId) =>
+        cancelGeneration(jobId).catch((err) => console.error('Cancel error:', err))
+      )
+    )
+  }
+
+  const toggle = (id: string) => {
+    setSelectedIds((current) =>
+      current.includes(id)
+        ? current.filter((selected) => selected !== id)
+        : current.length < MAX_BATCH_SIZE
+          ? [...current, id]
+          : current
+    )
+  }
+
+  const runBatch = async () => {
+    if (!file || selectedIds.length === 0) return
+
+    const styles = STYLE_CATALOG.filter((style) => selectedIds.includes(style.id))
+    setItems(styles.map((style) => ({ style, status: 'queued' })))
+    setRunning(true)
+    cancelledRef.current = false
+
+    try {
+      const base64Image = await fileToBase64(file)
+      await runWithConcurrency(styles, BATCH_CONCURRENCY, (style) => generate(style, base64Image, file.type))
+    } finally {
+      setRunning(false)
+      setCancelling(false)
+    }
+  }
+
+  const retry = async (style: StyleDefinition) => {
+    if (!file) return
+    cancelledRef.current = false
+    await generate(style, await fileToBase64(file), file.type)
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white rounded-2xl shadow-lg p-6 space-y-4">
+        <div className="flex justify-between items-center">
+          <h2 className="text-2xl text-gray-800 font-semibold">Try Many Styles</h2>
+          <span className="text-sm text-gray-500">
+            {selectedIds.length}/{MAX_BATCH_SIZE} selected
+          </span>
+        </div>
+
+        {BATCH_CATEGORIES.map((category) => (
+          <fieldset key={category}>
+            <legend className="text-sm font-medium text-gray-700 mb-2">{STYLE_CATEGORY_LABELS[category]}</legend>
+            <div className="flex flex-wrap gap-2">
+              {STYLE_CATALOG.filter((style) => style.category === category).map((style) => {
+                const checked = selectedIds.includes(style.id)
+                return (
+                  <label
+                    key={style.id}
+                    className={`px-3 py-1 rounded-full border text-sm cursor-pointer transition-colors ${
+                      checked
+                        ? 'bg-purple-600 border-purple-600 text-white'
+                        : 'border-gray-300 text-gray-700 hover:border-purple-400'
+                    }`}
+                  >
+                    <input
+                      type="checkbox"
+                      className="sr-only"
+                      checked={checked}
+                      onChange={() => toggle(style.id)}
+                      disabled={running}
+                    />
+                    {style.name}
+                  </label>
+                )
+              })}
+            </div>
+          </fieldset>
+        ))}
+
+        <button
+          onClick={runBatch}
+          disabled={running || !file || selectedIds.length === 0}
+          className="w-full bg-gradient-to-r from-purple-600 to-pink-600 text-white py-3 px-6 rounded-lg font-medium hover:from-purple-700 hover:to-pink-700 disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-200 flex items-center justify-center gap-2"
+        >
+          {running ? (
+            <>
+              <Loader2 className="w-5 h-5 animate-spin" />
+              Generating {items.filter((item) => item.status !== 'queued').length}/{items.length}...
+            </>
+          ) : (
+            <>
+              <Scissors className="w-5 h-5" />
+              Generate {selectedIds.length || ''} Looks
+            </>
+          )}
+        </button>
+
+        {running && (
+          <button
+            onClick={cancelBatch}
+            disabled={cancelling}
+            className="w-full border border-gray-300 text-gray-700 py-2 px-6 rounded-lg hover:bg-gray-50 disabled:opacity-50 transition-colors flex items-center justify-center gap-2"
+          >
+            <X className="w-4 h-4" />
+            {cancelling ? 'Cancelling...' : 'Cancel Remaining'}
+          </button>
+        )}
+      </div>
+
+      {items.length > 0 && (
+        <div className="grid grid-cols-2 gap-4">
+          {items.map((item) => (
+            <div key={item.style.id} className="bg-white rounded-xl shadow p-2">
+              <div className="aspect-square rounded-lg bg-gray-100 flex items-center justify-center overflow-hidden">
+                {item.status === 'succeeded' &&
+                  item.image &&
+                  (previewImage ? (
+                    <BeforeAfter
+                      before={previewImage}
+                      after={item.image}
+                      afterLabel={item.style.name}
+                      hideModes
+                      className="w-full"
+                    />
+                  ) : (
+                    <img src={item.image} alt={item.style.name} className="w-full h-full object-cover" />
+                  ))}
+                {(item.status === 'queued' || item.status === 'running') && (
+                  <Loader2
+                    className={`w-8 h-8 text-purple-600 ${item.status === 'running' ? 'animate-spin' : 'opacity-30'}`}
+                  />
+                )}
+                {item.status === 'failed' && (
+                  <div className="p-3 text-center">
+                    <p className={`text-sm mb-2 ${item.failure === 'cancelled' ? 'text-gray-600' : 'text-red-700'}`}>
+                      {item.error}
+                    </p>
+                    {(!item.failure || isRetryableFailure(item.failure)) && (
+                      <button
+                        onClick={() => retry(item.style)}
+                        disabled={running}
+                        className="inline-flex items-center gap-1 text-sm text-purple-700 hover:text-purple-900 disabled:opacity-50"
+                      >
+                        <RotateCcw className="w-4 h-4" />
+                        Retry
+                      </button>
+                    )}
+                  </div>
+                )}
+              </div>
+              <p className="text-sm font-medium text-gray-700 mt-2 text-center">{item.style.name}</p>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,191 @@
+'use client'
+
+import { ChevronsLeftRight } from 'lucide-react'
+import { useRef, useState } from 'react'
+
+import { cn } from '@/lib/utils'
+
+export type BeforeAfterMode = 'slider' | 'side-by-side' | 'toggle'
+
+const MODE_LABELS: Record<BeforeAfterMode, string> = {
+  slider: 'Slider',
+  'side-by-side': 'Side by side',
+  toggle: 'Toggle',
+}
+
+const KEYBOARD_STEP = 5
+
+interface BeforeAfterProps {
+  before: string
+  after: string
+  beforeLabel?: string
+  afterLabel?: string
+  initialMode?: BeforeAfterMode
+  /** Hide the mode buttons, e.g. in dense grids. */
+  hideModes?: boolean
+  className?: string
+  imageClassName?: string
+}
+
+function clamp(value: number) {
+  return Math.min(100, Math.max(0, value))
+}
+
+/**
+ * Compares an original photo with a generated one. The slider mode supports
+ * pointer (mouse, touch, pen) dragging and arrow/Home/End keys on the handle.
+ */
+export function BeforeAfter({
+  before,
+  after,
+  beforeLabel = 'Before',
+  afterLabel = 'After',
+  initialMode = 'slider',
+  hideModes = false,
+  className,
+  imageClassName,
+}: BeforeAfterProps) {
+  const [mode, setMode] = useState<BeforeAfterMode>(initialMode)
+  const [position, setPosition] = useState(50)
+  const [showBefore, setShowBefore] = useState(false)
+  const containerRef = useRef<HTMLDivElement>(null)
+  const draggingRef = useRef(false)
+
+  const moveTo = (clientX: number) => {
+    const rect = containerRef.current?.getBoundingClientRect()
+    if (!rect || rect.width === 0) return
+    setPosition(clamp(((clientX - rect.left) / rect.width) * 100))
+  }
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    draggingRef.current = true
+    e.currentTarget.setPointerCapture(e.pointerId)
+    moveTo(e.clientX)
+  }
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (draggingRef.current) moveTo(e.clientX)
+  }
+
+  const handlePointerUp = (e: React.PointerEvent<HTMLDivElement>) => {
+    draggingRef.current = false
+    e.currentTarget.releasePointerCapture(e.pointerId)
+  }
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLDivElement>) => {
+    const next =
+      e.key === 'ArrowLeft' || e.key === 'ArrowDown'
+        ? position - KEYBOARD_STEP
+        : e.key === 'ArrowRight' || e.key === 'ArrowUp'
+          ? position + KEYBOARD_STEP
+          : e.key === 'Home'
+            ? 0
+            : e.key === 'End'
+              ? 100
+              : null
+    if (next === null) return
+    e.preventDefault()
+    setPosition(clamp(next))
+  }
+
+  const label = (text: string, side: 'left' | 'right') => (
+    <span
+      className={cn(
+        'absolute bottom-2 bg-black/50 text-white px-2 py-0.5 rounded text-xs pointer-events-none',
+        side === 'left' ? 'left-2' : 'right-2'
+      )}
+    >
+      {text}
+    </span>
+  )
+
+  return (
+    <div className={cn('space-y-3', className)}>
+      {!hideModes && (
+        <div className="flex gap-1 p-1 bg-gray-100 rounded-lg w-fit" role="group" aria-label="Comparison mode">
+          {(Object.keys(MODE_LABELS) as BeforeAfterMode[]).map((value) => (
+            <button
+              key={value}
+              type="button"
+              onClick={() => setMode(value)}
+              aria-pressed={mode === value}
+              className={cn(
+                'px-3 py-1 rounded-md text-xs font-medium transition-colors',
+                mode === value ? 'bg-white shadow text-purple-700' : 'text-gray-600 hover:text-gray-800'
+              )}
+            >
+              {MODE_LABELS[value]}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {mode === 'slider' && (
+        <div
+          ref={containerRef}
+          className="relative select-none touch-none overflow-hidden rounded-lg cursor-ew-resize"
+          onPointerDown={handlePointerDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+          onPointerCancel={handlePointerUp}
+        >
+          <img src={after} alt={afterLabel} draggable={false} className={cn('w-full h-auto block', imageClassName)} />
+          <img
+            src={before}
+            alt={beforeLabel}
+            draggable={false}
+            className={cn('absolute inset-0 w-full h-full object-cover', imageClassName)}
+            style={{ clipPath: `inset(0 ${100 - position}% 0 0)` }}
+          />
+          {label(beforeLabel, 'left')}
+          {label(afterLabel, 'right')}
+          <div
+            role="slider"
+            tabIndex={0}
+            aria-label="Before and after divider"
+            aria-valuemin={0}
+            aria-valuemax={100}
+            aria-valuenow={Math.round(position)}
+            onKeyDown={handleKeyDown}
+            className="absolute inset-y-0 -ml-px w-0.5 bg-white shadow focus:outline-none focus-visible:ring-2 focus-visible:ring-purple-500"
+            style={{ left: `${position}%` }}
+          >
+            <span className="absolute top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 bg-white rounded-full p-1 shadow">
+              <ChevronsLeftRight className="w-4 h-4 text-gray-700" />
+            </span>
+          </div>
+        </div>
+      )}
+
+      {mode === 'side-by-side' && (
+        <div className="grid grid-cols-2 gap-2">
+          <div className="relative">
+            <img src={before} alt={beforeLabel} className={cn('w-full h-auto rounded-lg', imageClassName)} />
+            {label(beforeLabel, 'left')}
+          </div>
+          <div className="relative">
+            <img src={after} alt={afterLabel} className={cn('w-full h-auto rounded-lg', imageClassName)} />
+            {label(afterLabel, 'left')}
+          </div>
+        </div>
+      )}
+
+      {mode === 'toggle' && (
+        <button
+          type="button"
+          onClick={() => setShowBefore((value) => !value)}
+          aria-pressed={showBefore}
+          aria-label={showBefore ? `Showing ${beforeLabel}, press to show ${afterLabel}` : `Showing ${afterLabel}, press to show ${beforeLabel}`}
+          className="relative block w-full rounded-lg overflow-hidden focus:outline-none focus-visible:ring-2 focus-visible:ring-purple-500"
+        >
+          <img
+            src={showBefore ? before : after}
+            alt={showBefore ? beforeLabel : afterLabel}
+            className={cn('w-full h-auto block', imageClassName)}
+          />
+          {label(`${showBefore ? beforeLabel : afterLabel} · tap to switch`, 'left')}
+        </button>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,148 @@
+'use client'
+
+import { Button } from '@/components/ui/button'
+import { useRouter } from 'next/navigation'
+import { useEffect, useState } from 'react'
+
+/** A stylist who takes bookings in one of the user's organizations. */
+export interface BookableStylist {
+  organizationId: string
+  organizationName: string
+  stylistId: string
+  email: string
+}
+
+function slotDay(slot: string, timeZone: string) {
+  return new Date(slot).toLocaleDateString('en-GB', { timeZone, weekday: 'long', day: 'numeric', month: 'long' })
+}
+
+function slotTime(slot: string, timeZone: string) {
+  return new Date(slot).toLocaleTimeString('en-GB', { timeZone, hour: '2-digit', minute: '2-digit' })
+}
+
+/** Pick a stylist, then one of their open slots, and book it, optionally for a generated look. */
+export function BookingForm({ stylists, generationId }: { stylists: BookableStylist[]; generationId: string | null }) {
+  const router = useRouter()
+  const [stylistKey, setStylistKey] = useState(stylists.length === 1 ? '0' : '')
+  const [slots, setSlots] = useState<string[] | null>(null)
+  const [timeZone, setTimeZone] = useState('UTC')
+  const [slot, setSlot] = useState<string | null>(null)
+  const [isLoading, setIsLoading] = useState(false)
+  const [booked, setBooked] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const stylist = stylistKey ? stylists[Number(stylistKey)] : null
+
+  useEffect(() => {
+    setSlots(null)
+    setSlot(null)
+    if (!stylist) return
+
+    const controller = new AbortController()
+    const params = new URLSearchParams({ organizationId: stylist.organizationId, stylistId: stylist.stylistId })
+    fetch(`/api/bookings/slots?${params}`, { signal: controller.signal, cache: 'no-store' })
+      .then(async (response) => {
+        const body: { slots?: string[]; timeZone?: string | null; error?: string } = await response.json()
+        if (!response.ok || !body.slots) throw new Error(body.error || 'Could not load available times')
+        setTimeZone(body.timeZone ?? 'UTC')
+        setSlots(body.slots)
+      })
+      .catch((error: unknown) => {
+        if (controller.signal.aborted) return
+        setError(error instanceof Error ? error.message : 'An error occurred')
+      })
+    return () => controller.abort()
+  }, [stylist])
+
+  const book = async () => {
+    if (!stylist || !slot) return
+    setIsLoading(true)
+    setError(null)
+
+    try {
+      const response = await fetch('/api/bookings', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          organizationId: stylist.organizationId,
+          stylistId: stylist.stylistId,
+          startsAt: slot,
+          generationId,
+        }),
+      })
+      if (!response.ok) {
+        const body: { error?: string } = await response.json().catch(() => ({}))
+        throw new Error(body.error || 'Could not book the appointment')
+      }
+      setBooked(true)
+      router.refresh()
+    } catch (error: unknown) {
+      setError(error instanceof Error ? error.message : 'An error occurred')
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  if (booked && stylist && slot) {
+    return (
+      <div className="bg-green-50 border border-green-200 rounded-lg p-4 text-green-800">
+        Booked with {stylist.email} on {slotDay(slot, timeZone)} at {slotTime(slot, timeZone)}. A confirmation email is on
+        its way.
+      </div>
+    )
+  }
+
+  const days = new Map<string, string[]>()
+  for (const candidate of slots ?? []) {
+    const day = slotDay(candidate, timeZone)
+    days.set(day, [...(days.get(day) ?? []), candidate])
+  }
+
+  return (
+    <div className="space-y-4">
+      <label className="block text-sm font-medium text-gray-700">
+        Stylist
+        <select
+          value={stylistKey}
+          onChange={(e) => setStylistKey(e.target.value)}
+          className="mt-1 w-full p-3 border border-gray-300 text-zinc-900 rounded-lg"
+        >
+          <option value="">Choose a stylist</option>
+          {stylists.map((candidate, index) => (
+            <option key={`${candidate.organizationId}:${candidate.stylistId}`} value={index}>
+              {candidate.email} · {candidate.organizationName}
+            </option>
+          ))}
+        </select>
+      </label>
+
+      {stylist && slots === null && !error && <p className="text-sm text-gray-500">Loading available times...</p>}
+      {slots?.length === 0 && <p className="text-sm text-gray-500">No free times in the next two weeks.</p>}
+      {[...days].map(([day, daySlots]) => (
+        <div key={day}>
+          <p className="text-sm font-medium text-gray-700 mb-2">{day}</p>
+          <div className="flex flex-wrap gap-2">
+            {daySlots.map((candidate) => (
+              <Button
+                key={candidate}
+                size="sm"
+                variant={candidate === slot ? 'default' : 'outline'}
+                onClick={() => setSlot(candidate)}
+              >
+                {slotTime(candidate, timeZone)}
+              </Button>
+            ))}
+          </div>
+        </div>
+      ))}
+      {slots && slots.length > 0 && (
+        <p className="text-xs text-gray-500">Times are shown in the salon&apos;s time zone ({timeZone}).</p>
+      )}
+
+      <Button className="w-full" onClick={book} disabled={!slot || isLoading}>
+        {isLoading ? 'Booking...' : 'Book appointment'}
+      </Button>
+      {error && <p className="text-sm text-red-500">{error}</p>}
+    </div>
+  )
+}
@@ -0,0 +1,37 @@
+'use client'
+
+import { Button } from '@/components/ui/button'
+import { useState } from 'react'
+
+export function BuyCreditsButton({ packId, label }: { packId: string; label: string }) {
+  const [isLoading, setIsLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const checkout = async () => {
+    setIsLoading(true)
+    setError(null)
+
+    try {
+      const response = await fetch('/api/billing/checkout', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ packId }),
+      })
+      const body: { url?: string; error?: string } = await response.json()
+      if (!response.ok || !body.url) throw new Error(body.error || 'Could not start checkout')
+      window.location.assign(body.url)
+    } catch (error: unknown) {
+      setError(error instanceof Error ? error.message : 'An error occurred')
+      setIsLoading(false)
+    }
+  }
+
+  return (
+    <div className="space-y-1">
+      <Button className="w-full" onClick={checkout} disabled={isLoading}>
+        {isLoading ? 'Redirecting...' : label}
+      </Button>
+      {error && <p className="text-xs text-red-500">{error}</p>}
+    </div>
+  )
+}
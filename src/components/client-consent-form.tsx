@@ -0,0 +1,66 @@
+'use client'
+
+import { Button } from '@/components/ui/button'
+import { CONSENT_SCOPE_LABELS, CONSENT_SCOPES, type ConsentScope } from '@/lib/client-profiles'
+import { useRouter } from 'next/navigation'
+import { useState } from 'react'
+
+/**
+ * Records a new consent record for a client. Dropping `photos` deletes their
+ * photo and looks, so that needs confirming.
+ */
+export function ClientConsentForm({ id, scopes: currentScopes }: { id: string; scopes: ConsentScope[] }) {
+  const router = useRouter()
+  const [scopes, setScopes] = useState<ConsentScope[]>(currentScopes)
+  const [isLoading, setIsLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const toggleScope = (scope: ConsentScope, checked: boolean) => {
+    setScopes((current) => (checked ? [...current, scope] : current.filter((candidate) => candidate !== scope)))
+  }
+
+  const record = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (
+      currentScopes.includes('photos') &&
+      !scopes.includes('photos') &&
+      !confirm("This deletes the client's photo and every look made for them. Continue?")
+    ) {
+      return
+    }
+    setIsLoading(true)
+    setError(null)
+
+    try {
+      const response = await fetch(`/api/clients/${id}/consent`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ scopes }),
+      })
+      if (!response.ok) {
+        const body: { error?: string } = await response.json().catch(() => ({}))
+        throw new Error(body.error || 'Could not record consent')
+      }
+      router.refresh()
+    } catch (error: unknown) {
+      setError(error instanceof Error ? error.message : 'An error occurred')
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  return (
+    <form onSubmit={record} className="space-y-3">
+      {CONSENT_SCOPES.map((scope) => (
+        <label key={scope} className="flex items-center gap-2 text-sm">
+          <input type="checkbox" checked={scopes.includes(scope)} onChange={(e) => toggleScope(scope, e.target.checked)} />
+          {CONSENT_SCOPE_LABELS[scope]}
+        </label>
+      ))}
+      <Button type="submit" size="sm" disabled={isLoading}>
+        {isLoading ? 'Recording...' : 'Record consent'}
+      </Button>
+      {error && <p className="text-sm text-red-500">{error}</p>}
+    </form>
+  )
+}
@@ -0,0 +1,91 @@
+'use client'
+
+import { Button } from '@/components/ui/button'
+import { messageFor } from '@/lib/errors'
+import { fileToBase64 } from '@/lib/image-data'
+import { preprocessImage } from '@/lib/image-preprocess'
+import { validateInputFile } from '@/lib/upload-validation'
+import { useRouter } from 'next/navigation'
+import { useRef, useState } from 'react'
+
+/** Uploads or removes a client's reference photo, prepared the same way as in the editor. */
+export function ClientPhotoUpload({ id, hasPhoto }: { id: string; hasPhoto: boolean }) {
+  const router = useRouter()
+  const inputRef = useRef<HTMLInputElement>(null)
+  const [isLoading, setIsLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const send = async (init: RequestInit, fallback: string) => {
+    const response = await fetch(`/api/clients/${id}/photo`, init)
+    if (!response.ok) {
+      const body: { error?: string } = await response.json().catch(() => ({}))
+      throw new Error(body.error || fallback)
+    }
+  }
+
+  const upload = async (file: File) => {
+    setIsLoading(true)
+    setError(null)
+
+    try {
+      const inputError = await validateInputFile(file)
+      if (inputError) throw new Error(messageFor(inputError))
+      const prepared = await preprocessImage(file)
+      await send(
+        {
+          method: 'PUT',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ base64Image: await fileToBase64(prepared), mimeType: prepared.type }),
+        },
+        'Could not upload photo'
+      )
+      router.refresh()
+    } catch (error: unknown) {
+      setError(error instanceof Error ? error.message : 'An error occurred')
+    } finally {
+      setIsLoading(false)
+      if (inputRef.current) inputRef.current.value = ''
+    }
+  }
+
+  const remove = async () => {
+    if (!confirm("Remove this client's photo?")) return
+    setIsLoading(true)
+    setError(null)
+
+    try {
+      await send({ method: 'DELETE' }, 'Could not remove photo')
+      router.refresh()
+    } catch (error: unknown) {
+      setError(error instanceof Error ? error.message : 'An error occurred')
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  return (
+    <div className="space-y-2">
+      <input
+        ref={inputRef}
+        type="file"
+        accept="image/*"
+        className="hidden"
+        onChange={(e) => {
+          const file = e.target.files?.[0]
+          if (file) upload(file)
+        }}
+      />
+      <div className="flex gap-2">
+        <Button variant="outline" size="sm" onClick={() => inputRef.current?.click()} disabled={isLoading}>
+          {isLoading ? 'Working...' : hasPhoto ? 'Replace photo' : 'Upload photo'}
+        </Button>
+        {hasPhoto && (
+          <Button variant="outline" size="sm" onClick={remove} disabled={isLoading}>
+            Remove photo
+          </Button>
+        )}
+      </div>
+      {error && <p className="text-xs text-red-500">{error}</p>}
+    </div>
+  )
+}
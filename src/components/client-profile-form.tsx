@@ -0,0 +1,76 @@
+'use client'
+
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { CLIENT_NAME_MAX_LENGTH, CLIENT_NOTES_MAX_LENGTH } from '@/lib/client-profiles'
+import { useRouter } from 'next/navigation'
+import { useState } from 'react'
+
+/** Edits a client profile's name and notes. */
+export function ClientProfileForm({ id, name: initialName, notes: initialNotes }: { id: string; name: string; notes: string }) {
+  const router = useRouter()
+  const [name, setName] = useState(initialName)
+  const [notes, setNotes] = useState(initialNotes)
+  const [isLoading, setIsLoading] = useState(false)
+  const [saved, setSaved] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const save = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setIsLoading(true)
+    setSaved(false)
+    setError(null)
+
+    try {
+      const response = await fetch(`/api/clients/${id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name, notes }),
+      })
+      if (!response.ok) {
+        const body: { error?: string } = await response.json().catch(() => ({}))
+        throw new Error(body.error || 'Could not save client profile')
+      }
+      setSaved(true)
+      router.refresh()
+    } catch (error: unknown) {
+      setError(error instanceof Error ? error.message : 'An error occurred')
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  return (
+    <form onSubmit={save} className="space-y-4">
+      <div className="space-y-1">
+        <Label htmlFor="client-name">Name</Label>
+        <Input
+          id="client-name"
+          required
+          maxLength={CLIENT_NAME_MAX_LENGTH}
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+        />
+      </div>
+      <div className="space-y-1">
+        <Label htmlFor="client-notes">Notes</Label>
+        <textarea
+          id="client-notes"
+          rows={4}
+          maxLength={CLIENT_NOTES_MAX_LENGTH}
+          value={notes}
+          onChange={(e) => setNotes(e.target.value)}
+          className="w-full rounded-md border border-input bg-transparent px-3 py-2 text-sm"
+        />
+      </div>
+      <div className="flex items-center gap-3">
+        <Button type="submit" disabled={isLoading}>
+          {isLoading ? 'Saving...' : 'Save'}
+        </Button>
+        {saved && <p className="text-sm text-green-700">Saved</p>}
+      </div>
+      {error && <p className="text-sm text-red-500">{error}</p>}
+    </form>
+  )
+}
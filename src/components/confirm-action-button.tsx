@@ -0,0 +1,59 @@
+'use client'
+
+import { Button } from '@/components/ui/button'
+import { useRouter } from 'next/navigation'
+import { useState } from 'react'
+
+/**
+ * Calls an API route, after `confirmText` is accepted when one is given, then
+ * refreshes the page or moves to `redirectTo`. Used for deletes, removals and
+ * cancellations.
+ */
+export function ConfirmActionButton({
+  url,
+  method = 'DELETE',
+  confirmText,
+  labels,
+  variant = 'outline',
+  redirectTo,
+}: {
+  url: string
+  method?: 'DELETE' | 'POST'
+  confirmText?: string
+  /** The button text, the text while the request runs and the fallback error. */
+  labels: { idle: string; pending: string; failed: string }
+  variant?: 'outline' | 'destructive'
+  redirectTo?: string
+}) {
+  const router = useRouter()
+  const [isLoading, setIsLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const run = async () => {
+    if (confirmText && !confirm(confirmText)) return
+    setIsLoading(true)
+    setError(null)
+
+    try {
+      const response = await fetch(url, { method })
+      if (!response.ok) {
+        const body: { error?: string } = await response.json().catch(() => ({}))
+        throw new Error(body.error || labels.failed)
+      }
+      if (redirectTo) router.push(redirectTo)
+      else router.refresh()
+    } catch (error: unknown) {
+      setError(error instanceof Error ? error.message : 'An error occurred')
+      setIsLoading(false)
+    }
+  }
+
+  return (
+    <div className="flex flex-col items-end gap-1">
+      <Button variant={variant} size="sm" onClick={run} disabled={isLoading}>
+        {isLoading ? labels.pending : labels.idle}
+      </Button>
+      {error && <p className="text-xs text-red-500">{error}</p>}
+    </div>
+  )
+}
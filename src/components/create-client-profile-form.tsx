@@ -0,0 +1,90 @@
+'use client'
+
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import {
+  CLIENT_NAME_MAX_LENGTH,
+  CLIENT_NOTES_MAX_LENGTH,
+  CONSENT_SCOPE_LABELS,
+  CONSENT_SCOPES,
+  type ConsentScope,
+} from '@/lib/client-profiles'
+import { useRouter } from 'next/navigation'
+import { useState } from 'react'
+
+export function CreateClientProfileForm() {
+  const router = useRouter()
+  const [name, setName] = useState('')
+  const [notes, setNotes] = useState('')
+  const [scopes, setScopes] = useState<ConsentScope[]>([])
+  const [isLoading, setIsLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const toggleScope = (scope: ConsentScope, checked: boolean) => {
+    setScopes((current) => (checked ? [...current, scope] : current.filter((candidate) => candidate !== scope)))
+  }
+
+  const create = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setIsLoading(true)
+    setError(null)
+
+    try {
+      const response = await fetch('/api/clients', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name, notes, scopes }),
+      })
+      const body: { id?: string; error?: string } = await response.json().catch(() => ({}))
+      if (!response.ok || !body.id) throw new Error(body.error || 'Could not create client profile')
+      router.push(`/protected/clients/${body.id}`)
+    } catch (error: unknown) {
+      setError(error instanceof Error ? error.message : 'An error occurred')
+      setIsLoading(false)
+    }
+  }
+
+  return (
+    <form onSubmit={create} className="space-y-4">
+      <div className="space-y-1">
+        <Label htmlFor="client-name">Name</Label>
+        <Input
+          id="client-name"
+          required
+          maxLength={CLIENT_NAME_MAX_LENGTH}
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+        />
+      </div>
+      <div className="space-y-1">
+        <Label htmlFor="client-notes">Notes</Label>
+        <textarea
+          id="client-notes"
+          rows={3}
+          maxLength={CLIENT_NOTES_MAX_LENGTH}
+          value={notes}
+          onChange={(e) => setNotes(e.target.value)}
+          className="w-full rounded-md border border-input bg-transparent px-3 py-2 text-sm"
+        />
+      </div>
+      <fieldset className="space-y-2">
+        <legend className="text-sm font-medium">The client agrees to</legend>
+        {CONSENT_SCOPES.map((scope) => (
+          <label key={scope} className="flex items-center gap-2 text-sm">
+            <input
+              type="checkbox"
+              checked={scopes.includes(scope)}
+              onChange={(e) => toggleScope(scope, e.target.checked)}
+            />
+            {CONSENT_SCOPE_LABELS[scope]}
+          </label>
+        ))}
+      </fieldset>
+      <Button type="submit" disabled={isLoading}>
+        {isLoading ? 'Creating...' : 'Create profile'}
+      </Button>
+      {error && <p className="text-sm text-red-500">{error}</p>}
+    </form>
+  )
+}
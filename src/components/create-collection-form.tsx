@@ -0,0 +1,59 @@
+'use client'
+
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { COLLECTION_NAME_MAX_LENGTH } from '@/lib/collections'
+import { useRouter } from 'next/navigation'
+import { useState } from 'react'
+
+export function CreateCollectionForm() {
+  const router = useRouter()
+  const [name, setName] = useState('')
+  const [isLoading, setIsLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const create = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setIsLoading(true)
+    setError(null)
+
+    try {
+      const response = await fetch('/api/collections', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name }),
+      })
+      if (!response.ok) {
+        const body: { error?: string } = await response.json().catch(() => ({}))
+        throw new Error(body.error || 'Could not create collection')
+      }
+      setName('')
+      router.refresh()
+    } catch (error: unknown) {
+      setError(error instanceof Error ? error.message : 'An error occurred')
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  return (
+    <form onSubmit={create} className="space-y-2">
+      <Label htmlFor="collection-name">New collection</Label>
+      <div className="flex gap-2">
+        <Input
+          id="collection-name"
+          required
+          maxLength={COLLECTION_NAME_MAX_LENGTH}
+          placeholder="e.g. wedding options"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+        />
+        <Button type="submit" disabled={isLoading}>
+          {isLoading ? 'Creating...' : 'Create'}
+        </Button>
+      </div>
+      {error && <p className="text-sm text-red-500">{error}</p>}
+    </form>
+  )
+}
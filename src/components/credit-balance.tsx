@@ -0,0 +1,21 @@
+import { Coins } from 'lucide-react'
+import Link from 'next/link'
+
+import { cn } from '@/lib/utils'
+
+/** Header pill with the user's credit balance, linking to the billing page. */
+export function CreditBalance({ credits, className }: { credits: number; className?: string }) {
+  return (
+    <Link
+      href="/billing"
+      className={cn(
+        'inline-flex items-center gap-1 rounded-full px-3 py-1 text-sm transition-colors',
+        credits === 0 ? 'bg-red-100 text-red-800 hover:bg-red-200' : 'bg-amber-100 text-amber-800 hover:bg-amber-200',
+        className
+      )}
+    >
+      <Coins className="w-4 h-4" />
+      {credits} {credits === 1 ? 'credit' : 'credits'} · Buy more
+    </Link>
+  )
+}
@@ -0,0 +1,182 @@
+'use client'
+
+import { CornerDownRight, Loader2, Undo2, Wand2 } from 'lucide-react'
+import { useState } from 'react'
+
+import type { EditSessionView, EditStepView } from '@/lib/edit-sessions'
+import { messageFor } from '@/lib/errors'
+import { checkInstruction } from '@/lib/instruction-safety'
+import { MAX_INSTRUCTION_LENGTH } from '@/lib/prompt-builder'
+import { cn } from '@/lib/utils'
+
+const REFINE_SUGGESTIONS = [
+  'Shorter on the sides',
+  'A bit lighter',
+  'More volume on top',
+  'Tidier beard line',
+  'Slightly longer fringe',
+]
+
+/** Steps in tree order (each step followed by its descendants) with their depth. */
+function flattenSteps(steps: EditStepView[]) {
+  const children = new Map<string | null, EditStepView[]>()
+  for (const step of steps) {
+    children.set(step.parentId, [...(children.get(step.parentId) ?? []), step])
+  }
+
+  const ordered: { step: EditStepView; depth: number }[] = []
+  const visit = (parentId: string | null, depth: number) => {
+    for (const step of children.get(parentId) ?? []) {
+      ordered.push({ step, depth })
+      visit(step.id, depth + 1)
+    }
+  }
+  visit(null, 0)
+  return ordered
+}
+
+/** Ids from the root down to `stepId`. */
+function pathTo(steps: EditStepView[], stepId: string | null) {
+  const byId = new Map(steps.map((step) => [step.id, step]))
+  const path = new Set<string>()
+  for (let step = stepId ? byId.get(stepId) : undefined; step; step = step.parentId ? byId.get(step.parentId) : undefined) {
+    path.add(step.id)
+  }
+  return path
+}
+
+/**
+ * Refine the current result with a follow-up instruction, step back to an
+ * earlier version, or branch off from any step in the session.
+ */
+export function EditSession({
+  session,
+  currentStepId,
+  busy,
+  onSelectStep,
+  onRefine,
+}: {
+  session: EditSessionView
+  currentStepId: string | null
+  busy: boolean
+  onSelectStep: (stepId: string) => void
+  onRefine: (instruction: string) => void
+}) {
+  const [instruction, setInstruction] = useState('')
+  const current = session.steps.find((step) => step.id === currentStepId) ?? null
+  const path = pathTo(session.steps, currentStepId)
+  const check = instruction.trim() ? checkInstruction(instruction) : null
+
+  const submit = (text: string) => {
+    const result = checkInstruction(text)
+    if (busy || !result.ok || !result.text) return
+    onRefine(result.text)
+    setInstruction('')
+  }
+
+  return (
+    <div className="bg-white rounded-2xl shadow-lg p-6 space-y-4">
+      <div className="flex justify-between items-center">
+        <h2 className="text-xl font-semibold text-gray-800 flex items-center gap-2">
+          <Wand2 className="w-5 h-5 text-purple-600" />
+          Refine This Look
+        </h2>
+        <button
+          onClick={() => current?.parentId && onSelectStep(current.parentId)}
+          disabled={busy || !current?.parentId}
+          className="inline-flex items-center gap-1 text-sm border border-gray-300 text-gray-700 px-3 py-1.5 rounded-lg hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+        >
+          <Undo2 className="w-4 h-4" />
+          Undo
+        </button>
+      </div>
+
+      <form
+        onSubmit={(e) => {
+          e.preventDefault()
+          submit(instruction)
+        }}
+        className="space-y-2"
+      >
+        <div className="flex gap-2">
+          <input
+            type="text"
+            value={instruction}
+            onChange={(e) => setInstruction(e.target.value)}
+            maxLength={MAX_INSTRUCTION_LENGTH}
+            placeholder="e.g. shorter on the sides"
+            disabled={busy}
+            aria-invalid={check?.ok === false}
+            className="flex-1 p-2 border border-gray-300 rounded-lg text-gray-800 focus:ring-2 focus:ring-purple-500 focus:border-transparent disabled:opacity-50"
+          />
+          <button
+            type="submit"
+            disabled={busy || !check?.ok}
+            className="bg-purple-600 text-white px-4 py-2 rounded-lg hover:bg-purple-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors flex items-center gap-2"
+          >
+            {busy ? <Loader2 className="w-4 h-4 animate-spin" /> : <Wand2 className="w-4 h-4" />}
+            Refine
+          </button>
+        </div>
+        <div className="flex flex-wrap gap-2">
+          {REFINE_SUGGESTIONS.map((suggestion) => (
+            <button
+              key={suggestion}
+              type="button"
+              onClick={() => submit(suggestion)}
+              disabled={busy}
+              className="text-xs px-3 py-1 rounded-full border border-purple-200 text-purple-700 hover:bg-purple-50 disabled:opacity-50 transition-colors"
+            >
+              {suggestion}
+            </button>
+          ))}
+        </div>
+        {check && !check.ok ? (
+          <p className="text-xs text-red-700">{messageFor(check.code)}</p>
+        ) : (
+          <p className="text-xs text-gray-500">Each refinement uses one credit and builds on the selected version.</p>
+        )}
+      </form>
+
+      <div>
+        <div className="flex items-center justify-between mb-2">
+          <h3 className="text-sm font-medium text-gray-700">Versions</h3>
+          {session.referenceUrl && (
+            <span className="flex items-center gap-2 text-xs text-gray-500">
+              Reference
+              <img src={session.referenceUrl} alt="Reference hairstyle" className="w-8 h-8 rounded object-cover" />
+            </span>
+          )}
+        </div>
+        <ol className="space-y-1">
+          {flattenSteps(session.steps).map(({ step, depth }) => (
+            <li key={step.id} style={{ paddingLeft: `${depth * 1.25}rem` }}>
+              <button
+                onClick={() => onSelectStep(step.id)}
+                disabled={busy}
+                aria-current={step.id === currentStepId ? 'step' : undefined}
+                className={cn(
+                  'w-full flex items-center gap-3 p-1.5 rounded-lg text-left text-sm transition-colors disabled:cursor-not-allowed',
+                  step.id === currentStepId
+                    ? 'bg-purple-100 ring-2 ring-purple-500 text-purple-900'
+                    : path.has(step.id)
+                      ? 'bg-purple-50 text-gray-800 hover:bg-purple-100'
+                      : 'text-gray-600 hover:bg-gray-50'
+                )}
+              >
+                {depth > 0 && <CornerDownRight className="w-4 h-4 shrink-0 text-gray-400" />}
+                {step.imageUrl ? (
+                  <img src={step.imageUrl} alt="" className="w-10 h-10 rounded object-cover shrink-0" />
+                ) : (
+                  <div className="w-10 h-10 rounded bg-gray-200 shrink-0" />
+                )}
+                <span className="truncate">{step.parentId ? step.instruction : 'Original photo'}</span>
+              </button>
+            </li>
+          ))}
+        </ol>
+        <p className="text-xs text-gray-500 mt-2">Pick any version to refine it in a different direction.</p>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,53 @@
+'use client'
+
+import { Button } from '@/components/ui/button'
+import { useState } from 'react'
+
+interface FakeCheckoutFormProps {
+  session: string
+  user: string
+  /** Set when buying for an organization's credit pool. */
+  org?: string
+  pack: string
+  sig: string
+  successUrl: string
+  cancelUrl: string
+}
+
+export function FakeCheckoutForm({ successUrl, cancelUrl, ...link }: FakeCheckoutFormProps) {
+  const [isPaying, setIsPaying] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const pay = async () => {
+    setIsPaying(true)
+    setError(null)
+
+    try {
+      const response = await fetch('/api/billing/fake-checkout', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(link),
+      })
+      if (!response.ok) {
+        const body: { error?: string } = await response.json().catch(() => ({}))
+        throw new Error(body.error || 'Payment failed')
+      }
+      window.location.assign(successUrl)
+    } catch (error: unknown) {
+      setError(error instanceof Error ? error.message : 'An error occurred')
+      setIsPaying(false)
+    }
+  }
+
+  return (
+    <div className="flex flex-col gap-3">
+      {error && <p className="text-sm text-red-500">{error}</p>}
+      <Button onClick={pay} disabled={isPaying}>
+        {isPaying ? 'Paying...' : 'Pay (simulated)'}
+      </Button>
+      <Button variant="outline" onClick={() => window.location.assign(cancelUrl)} disabled={isPaying}>
+        Cancel
+      </Button>
+    </div>
+  )
+}
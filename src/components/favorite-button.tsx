@@ -0,0 +1,46 @@
+'use client'
+
+import { Button } from '@/components/ui/button'
+import { Star } from 'lucide-react'
+import { useRouter } from 'next/navigation'
+import { useState } from 'react'
+
+export function FavoriteButton({ generationId, initialFavorite }: { generationId: string; initialFavorite: boolean }) {
+  const router = useRouter()
+  const [favorite, setFavorite] = useState(initialFavorite)
+  const [isLoading, setIsLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const toggle = async () => {
+    setIsLoading(true)
+    setError(null)
+
+    try {
+      const response = await fetch(`/api/generations/${generationId}/annotations`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ favorite: !favorite }),
+      })
+      if (!response.ok) {
+        const body: { error?: string } = await response.json().catch(() => ({}))
+        throw new Error(body.error || 'Could not update favorite')
+      }
+      setFavorite(!favorite)
+      router.refresh()
+    } catch (error: unknown) {
+      setError(error instanceof Error ? error.message : 'An error occurred')
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  return (
+    <div className="flex flex-col items-start gap-1">
+      <Button variant="outline" size="sm" onClick={toggle} disabled={isLoading} aria-pressed={favorite}>
+        <Star className={favorite ? 'fill-amber-400 text-amber-500' : undefined} />
+        {favorite ? 'Starred' : 'Star'}
+      </Button>
+      {error && <p className="text-xs text-red-500">{error}</p>}
+    </div>
+  )
+}
@@ -2,6 +2,7 @@
 
 import { cn } from '@/lib/utils'
 import { createClient } from '@/lib/client'
+import { authErrorCode, messageFor } from '@/lib/errors'
 import { Button } from '@/components/ui/button'
 import {
   Card,
@@ -35,7 +36,7 @@ export function ForgotPasswordForm({ className, ...props }: React.ComponentProps
       if (error) throw error
       setSuccess(true)
     } catch (error: unknown) {
-      setError(error instanceof Error ? error.message : 'An error occurred')
+      setError(messageFor(authErrorCode(error)))
     } finally {
       setIsLoading(false)
     }
@@ -0,0 +1,52 @@
+import { Ban, Clock, Hourglass, ImageOff, RotateCcw, ServerCrash, ShieldAlert, type LucideIcon } from 'lucide-react'
+
+import { generationFailureCode, messageFor } from '@/lib/errors'
+import { isRetryableFailure } from '@/lib/generate-client'
+import type { ProviderFailureKind } from '@/lib/providers/types'
+import { cn } from '@/lib/utils'
+
+const FAILURE_DISPLAY: Record<ProviderFailureKind, { title: string; icon: LucideIcon; className: string }> = {
+  timeout: { title: 'Taking too long', icon: Clock, className: 'bg-amber-50 border-amber-200 text-amber-900' },
+  cancelled: { title: 'Generation cancelled', icon: Ban, className: 'bg-gray-50 border-gray-200 text-gray-800' },
+  'rate-limited': { title: 'Service busy', icon: Hourglass, className: 'bg-amber-50 border-amber-200 text-amber-900' },
+  unavailable: { title: 'Service unavailable', icon: ServerCrash, className: 'bg-amber-50 border-amber-200 text-amber-900' },
+  'safety-blocked': {
+    title: 'Request declined',
+    icon: ShieldAlert,
+    className: 'bg-orange-50 border-orange-200 text-orange-900',
+  },
+  'no-image': { title: 'No image returned', icon: ImageOff, className: 'bg-red-50 border-red-200 text-red-800' },
+  failed: { title: 'Generation failed', icon: ServerCrash, className: 'bg-red-50 border-red-200 text-red-800' },
+}
+
+/**
+ * Explains why a generation produced no image, styled by failure kind, with a
+ * retry button for failures where retrying can help.
+ */
+export function GenerationFailure({
+  kind,
+  onRetry,
+  className,
+}: {
+  kind: ProviderFailureKind
+  onRetry?: () => void
+  className?: string
+}) {
+  const { title, icon: Icon, className: tone } = FAILURE_DISPLAY[kind]
+
+  return (
+    <div role="alert" className={cn('border rounded-lg p-4 flex gap-3', tone, className)}>
+      <Icon className="w-5 h-5 shrink-0 mt-0.5" />
+      <div className="space-y-1">
+        <p className="font-medium">{title}</p>
+        <p className="text-sm opacity-90">{messageFor(generationFailureCode(kind))}</p>
+        {onRetry && isRetryableFailure(kind) && (
+          <button onClick={onRetry} className="inline-flex items-center gap-1 text-sm font-medium underline">
+            <RotateCcw className="w-4 h-4" />
+            Try again
+          </button>
+        )}
+      </div>
+    </div>
+  )
+}
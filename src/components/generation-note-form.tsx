@@ -0,0 +1,59 @@
+'use client'
+
+import { Button } from '@/components/ui/button'
+import { NOTE_MAX_LENGTH } from '@/lib/collections'
+import { useRouter } from 'next/navigation'
+import { useState } from 'react'
+
+/** The current user's private note on a look. Saving an empty note deletes it. */
+export function GenerationNoteForm({ generationId, initialNote }: { generationId: string; initialNote: string }) {
+  const router = useRouter()
+  const [note, setNote] = useState(initialNote)
+  const [savedNote, setSavedNote] = useState(initialNote)
+  const [isLoading, setIsLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const save = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setIsLoading(true)
+    setError(null)
+
+    try {
+      const response = await fetch(`/api/generations/${generationId}/annotations`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ note }),
+      })
+      if (!response.ok) {
+        const body: { error?: string } = await response.json().catch(() => ({}))
+        throw new Error(body.error || 'Could not save note')
+      }
+      setSavedNote(note.trim())
+      router.refresh()
+    } catch (error: unknown) {
+      setError(error instanceof Error ? error.message : 'An error occurred')
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  return (
+    <form onSubmit={save} className="space-y-1">
+      <textarea
+        aria-label="Note"
+        value={note}
+        onChange={(e) => setNote(e.target.value)}
+        maxLength={NOTE_MAX_LENGTH}
+        rows={2}
+        placeholder="Add a note, e.g. ask about the fringe length"
+        className="w-full rounded-md border border-input bg-transparent px-3 py-2 text-sm"
+      />
+      <div className="flex items-center justify-end gap-2">
+        {error && <p className="text-xs text-red-500">{error}</p>}
+        <Button type="submit" variant="outline" size="sm" disabled={isLoading || note.trim() === savedNote}>
+          {isLoading ? 'Saving...' : 'Save note'}
+        </Button>
+      </div>
+    </form>
+  )
+}
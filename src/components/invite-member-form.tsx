@@ -0,0 +1,87 @@
+'use client'
+
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { INVITABLE_ROLES, ROLE_LABELS, type InvitableRole } from '@/lib/organizations'
+import { useRouter } from 'next/navigation'
+import { useState } from 'react'
+
+/**
+ * Invites someone to the active organization by email. The link itself is
+ * only shown when the server does not deliver email (local development).
+ */
+export function InviteMemberForm() {
+  const router = useRouter()
+  const [email, setEmail] = useState('')
+  const [role, setRole] = useState<InvitableRole>('client')
+  const [sent, setSent] = useState<{ email: string; url?: string } | null>(null)
+  const [isLoading, setIsLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const invite = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setIsLoading(true)
+    setError(null)
+    setSent(null)
+
+    try {
+      const response = await fetch('/api/organizations/invitations', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ email, role }),
+      })
+      const body: { email?: string; url?: string; error?: string } = await response.json().catch(() => ({}))
+      if (!response.ok || !body.email) throw new Error(body.error || 'Could not send invitation')
+      setSent({ email: body.email, url: body.url })
+      setEmail('')
+      router.refresh()
+    } catch (error: unknown) {
+      setError(error instanceof Error ? error.message : 'An error occurred')
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  return (
+    <form onSubmit={invite} className="space-y-2">
+      <div className="grid sm:grid-cols-[1fr_auto_auto] gap-2 items-end">
+        <div className="space-y-1">
+          <Label htmlFor="invite-email">Email</Label>
+          <Input id="invite-email" type="email" required value={email} onChange={(e) => setEmail(e.target.value)} />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="invite-role">Role</Label>
+          <select
+            id="invite-role"
+            value={role}
+            onChange={(e) => setRole(e.target.value as InvitableRole)}
+            className="h-9 rounded-md border border-input bg-transparent px-3 text-sm"
+          >
+            {INVITABLE_ROLES.map((invitable) => (
+              <option key={invitable} value={invitable}>
+                {ROLE_LABELS[invitable]}
+              </option>
+            ))}
+          </select>
+        </div>
+        <Button type="submit" disabled={isLoading}>
+          {isLoading ? 'Inviting...' : 'Invite'}
+        </Button>
+      </div>
+      {sent && (
+        <p className="text-sm text-green-700 break-all">
+          Invitation sent to {sent.email}. The link works for a week.
+          {sent.url && (
+            <>
+              {' '}
+              Email is not delivered in this environment, so send them this link yourself:{' '}
+              <span className="font-mono">{sent.url}</span>
+            </>
+          )}
+        </p>
+      )}
+      {error && <p className="text-sm text-red-500">{error}</p>}
+    </form>
+  )
+}
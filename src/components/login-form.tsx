@@ -2,6 +2,7 @@
 
 import { cn } from '@/lib/utils'
 import { createClient } from '@/lib/client'
+import { authErrorCode, messageFor } from '@/lib/errors'
 import { Button } from '@/components/ui/button'
 import {
   Card,
@@ -16,7 +17,8 @@ import Link from 'next/link'
 import { useRouter } from 'next/navigation'
 import { useState } from 'react'
 
-export function LoginForm({ className, ...props }: React.ComponentPropsWithoutRef<'div'>) {
+/** `next` is a local path to continue to after logging in, e.g. an invitation. */
+export function LoginForm({ className, next = '/', ...props }: React.ComponentPropsWithoutRef<'div'> & { next?: string }) {
   const [email, setEmail] = useState('')
   const [password, setPassword] = useState('')
   const [error, setError] = useState<string | null>(null)
@@ -36,9 +38,9 @@ export function LoginForm({ className, ...props }: React.ComponentPropsWithoutRe
       })
       if (error) throw error
       // Update this route to redirect to an authenticated route. The user already has an active session.
-      router.push('/')
+      router.push(next)
     } catch (error: unknown) {
-      setError(error instanceof Error ? error.message : 'An error occurred')
+      setError(messageFor(authErrorCode(error)))
     } finally {
       setIsLoading(false)
     }
@@ -90,7 +92,7 @@ export function LoginForm({ className, ...props }: React.ComponentPropsWithoutRe
             </div>
             <div className="mt-4 text-center text-sm">
               Don&apos;t have an account?{' '}
-              <Link href="/auth/sign-up" className="underline underline-offset-4">
+              <Link href={next === '/' ? '/auth/sign-up' : `/auth/sign-up?next=${encodeURIComponent(next)}`} className="underline underline-offset-4">
                 Sign up
               </Link>
             </div>
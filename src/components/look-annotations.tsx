@@ -0,0 +1,150 @@
+'use client'
+
+import { FavoriteButton } from '@/components/favorite-button'
+import { GenerationNoteForm } from '@/components/generation-note-form'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { COLLECTION_NAME_MAX_LENGTH, type Collection, type LookAnnotations as Annotations } from '@/lib/collections'
+import Link from 'next/link'
+import { useEffect, useState } from 'react'
+
+async function send(input: string, init: RequestInit, fallback: string) {
+  const response = await fetch(input, init)
+  if (!response.ok) {
+    const body: { error?: string } = await response.json().catch(() => ({}))
+    throw new Error(body.error || fallback)
+  }
+  return response
+}
+
+/** Star, note and collections for the look in the result panel. */
+export function LookAnnotations({ generationId }: { generationId: string }) {
+  const [annotations, setAnnotations] = useState<Annotations | null>(null)
+  const [newName, setNewName] = useState('')
+  const [isLoading, setIsLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    let cancelled = false
+    setAnnotations(null)
+    setError(null)
+    fetch(`/api/generations/${generationId}/annotations`)
+      .then(async (response) => {
+        const body = await response.json().catch(() => ({}))
+        if (!response.ok) throw new Error(body.error || 'Could not load your collections')
+        if (!cancelled) setAnnotations(body as Annotations)
+      })
+      .catch((error: unknown) => {
+        if (!cancelled) setError(error instanceof Error ? error.message : 'An error occurred')
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [generationId])
+
+  const setContains = (collectionId: string, contains: boolean) =>
+    setAnnotations((current) =>
+      current && {
+        ...current,
+        collections: current.collections.map((collection) =>
+          collection.id === collectionId ? { ...collection, contains } : collection
+        ),
+      }
+    )
+
+  const toggle = async (collectionId: string, contains: boolean) => {
+    setIsLoading(true)
+    setError(null)
+    try {
+      if (contains) {
+        await send(
+          `/api/collections/${collectionId}/items`,
+          { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify({ generationId }) },
+          'Could not add to collection'
+        )
+      } else {
+        await send(`/api/collections/${collectionId}/items/${generationId}`, { method: 'DELETE' }, 'Could not remove from collection')
+      }
+      setContains(collectionId, contains)
+    } catch (error: unknown) {
+      setError(error instanceof Error ? error.message : 'An error occurred')
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const create = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setIsLoading(true)
+    setError(null)
+    try {
+      const response = await send(
+        '/api/collections',
+        { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify({ name: newName }) },
+        'Could not create collection'
+      )
+      const { collection }: { collection: Collection } = await response.json()
+      setAnnotations(
+        (current) =>
+          current && {
+            ...current,
+            collections: [...current.collections, { id: collection.id, name: collection.name, contains: false }],
+          }
+      )
+      setNewName('')
+      await toggle(collection.id, true)
+    } catch (error: unknown) {
+      setError(error instanceof Error ? error.message : 'An error occurred')
+      setIsLoading(false)
+    }
+  }
+
+  if (!annotations) {
+    return error ? <p className="text-sm text-red-500">{error}</p> : null
+  }
+
+  return (
+    <div className="space-y-3 rounded-lg border border-gray-200 p-3">
+      <div className="flex items-center justify-between gap-2">
+        <FavoriteButton generationId={generationId} initialFavorite={annotations.favorite} />
+        <Link href="/collections" className="text-sm text-purple-700 hover:text-purple-900">
+          Your collections
+        </Link>
+      </div>
+
+      <div className="space-y-1">
+        <p className="text-sm font-medium text-gray-700">Collections</p>
+        {annotations.collections.length > 0 && (
+          <div className="flex flex-wrap gap-x-4 gap-y-1">
+            {annotations.collections.map((collection) => (
+              <label key={collection.id} className="flex items-center gap-2 text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={collection.contains}
+                  disabled={isLoading}
+                  onChange={(e) => toggle(collection.id, e.target.checked)}
+                />
+                {collection.name}
+              </label>
+            ))}
+          </div>
+        )}
+        <form onSubmit={create} className="flex gap-2">
+          <Input
+            aria-label="New collection"
+            placeholder="New collection, e.g. wedding options"
+            value={newName}
+            maxLength={COLLECTION_NAME_MAX_LENGTH}
+            onChange={(e) => setNewName(e.target.value)}
+          />
+          <Button type="submit" variant="outline" size="sm" className="h-9" disabled={isLoading || !newName.trim()}>
+            Add
+          </Button>
+        </form>
+      </div>
+
+      <GenerationNoteForm generationId={generationId} initialNote={annotations.note} />
+      {error && <p className="text-sm text-red-500">{error}</p>}
+    </div>
+  )
+}
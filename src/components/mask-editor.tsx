@@ -0,0 +1,241 @@
+'use client'
+
+import { Brush, Eraser, Scissors, Trash2, User } from 'lucide-react'
+import { useRef, useState, type PointerEvent } from 'react'
+
+import { parseDataUrl } from '@/lib/image-data'
+import { detectFaces, type FaceBox } from '@/lib/photo-quality'
+import { cn } from '@/lib/utils'
+
+type Tool = 'brush' | 'eraser'
+type Region = 'hair' | 'beard'
+
+/** Brush sizes as a share of the image width, so they feel the same on any photo. */
+const BRUSH_SIZES = { S: 0.02, M: 0.05, L: 0.1 } as const
+const PAINT_COLOR = '#a855f7'
+
+/**
+ * Rough hair or beard area around a detected face, as ellipses relative to
+ * the face box. A starting point for the brush, not a segmentation.
+ */
+function fillRegion(ctx: CanvasRenderingContext2D, face: FaceBox, region: Region) {
+  const { x, y, width: w, height: h } = face
+  const ellipse = (cx: number, cy: number, rx: number, ry: number) => {
+    ctx.beginPath()
+    ctx.ellipse(cx, cy, rx, ry, 0, 0, Math.PI * 2)
+    ctx.fill()
+  }
+
+  ctx.globalCompositeOperation = 'source-over'
+  if (region === 'hair') {
+    ellipse(x + w / 2, y + h * 0.2, w * 0.9, h * 0.85)
+    // Cut the face back out: forehead down to the chin stays untouched.
+    ctx.globalCompositeOperation = 'destination-out'
+    ellipse(x + w / 2, y + h * 0.62, w * 0.42, h * 0.55)
+  } else {
+    ellipse(x + w / 2, y + h * 0.88, w * 0.5, h * 0.32)
+  }
+  ctx.globalCompositeOperation = 'source-over'
+}
+
+/**
+ * Paint (or auto-fill) the area the model may change. `onChange` receives the
+ * mask as base64 PNG data the size of the photo, white where edits are
+ * allowed, or null when nothing is painted.
+ */
+export function MaskEditor({ imageUrl, onChange }: { imageUrl: string; onChange: (mask: string | null) => void }) {
+  const imageRef = useRef<HTMLImageElement>(null)
+  const canvasRef = useRef<HTMLCanvasElement>(null)
+  const lastPointRef = useRef<{ x: number; y: number } | null>(null)
+  const [tool, setTool] = useState<Tool>('brush')
+  const [size, setSize] = useState<keyof typeof BRUSH_SIZES>('M')
+  const [notice, setNotice] = useState('')
+
+  const context = () => canvasRef.current?.getContext('2d', { willReadFrequently: true }) ?? null
+
+  const handleImageLoad = () => {
+    const image = imageRef.current
+    const canvas = canvasRef.current
+    if (!image || !canvas) return
+    canvas.width = image.naturalWidth
+    canvas.height = image.naturalHeight
+    onChange(null)
+  }
+
+  const emit = () => {
+    const canvas = canvasRef.current
+    const ctx = context()
+    if (!canvas || !ctx) return
+
+    const { data } = ctx.getImageData(0, 0, canvas.width, canvas.height)
+    let painted = false
+    for (let i = 3; i < data.length; i += 4) {
+      if (data[i] > 0) {
+        painted = true
+        break
+      }
+    }
+    if (!painted) {
+      onChange(null)
+      return
+    }
+
+    // White where painted, black elsewhere, at the photo's own size.
+    const mask = document.createElement('canvas')
+    mask.width = canvas.width
+    mask.height = canvas.height
+    const maskCtx = mask.getContext('2d')
+    if (!maskCtx) return
+    maskCtx.drawImage(canvas, 0, 0)
+    maskCtx.globalCompositeOperation = 'source-in'
+    maskCtx.fillStyle = '#fff'
+    maskCtx.fillRect(0, 0, mask.width, mask.height)
+    maskCtx.globalCompositeOperation = 'destination-over'
+    maskCtx.fillStyle = '#000'
+    maskCtx.fillRect(0, 0, mask.width, mask.height)
+    onChange(parseDataUrl(mask.toDataURL('image/png'))?.data ?? null)
+  }
+
+  const pointFor = (e: PointerEvent<HTMLCanvasElement>) => {
+    const canvas = e.currentTarget
+    const rect = canvas.getBoundingClientRect()
+    return {
+      x: ((e.clientX - rect.left) * canvas.width) / rect.width,
+      y: ((e.clientY - rect.top) * canvas.height) / rect.height,
+    }
+  }
+
+  const paintTo = (point: { x: number; y: number }) => {
+    const canvas = canvasRef.current
+    const ctx = context()
+    if (!canvas || !ctx) return
+    const from = lastPointRef.current ?? point
+    ctx.globalCompositeOperation = tool === 'brush' ? 'source-over' : 'destination-out'
+    ctx.strokeStyle = PAINT_COLOR
+    ctx.lineWidth = BRUSH_SIZES[size] * canvas.width
+    ctx.lineCap = 'round'
+    ctx.lineJoin = 'round'
+    ctx.beginPath()
+    ctx.moveTo(from.x, from.y)
+    ctx.lineTo(point.x, point.y)
+    ctx.stroke()
+    ctx.globalCompositeOperation = 'source-over'
+    lastPointRef.current = point
+  }
+
+  const handlePointerDown = (e: PointerEvent<HTMLCanvasElement>) => {
+    e.currentTarget.setPointerCapture(e.pointerId)
+    lastPointRef.current = null
+    paintTo(pointFor(e))
+  }
+
+  const handlePointerMove = (e: PointerEvent<HTMLCanvasElement>) => {
+    if (!e.currentTarget.hasPointerCapture(e.pointerId)) return
+    paintTo(pointFor(e))
+  }
+
+  const handlePointerUp = (e: PointerEvent<HTMLCanvasElement>) => {
+    e.currentTarget.releasePointerCapture(e.pointerId)
+    lastPointRef.current = null
+    emit()
+  }
+
+  const autoFill = async (region: Region) => {
+    const image = imageRef.current
+    const ctx = context()
+    if (!image || !ctx) return
+    const faces = await detectFaces(image)
+    if (!faces) {
+      setNotice('Auto-fill could not run face detection on this photo. Paint the area instead.')
+      return
+    }
+    if (faces.length !== 1) {
+      setNotice('Auto-fill needs exactly one face in the photo. Paint the area instead.')
+      return
+    }
+    setNotice('')
+    ctx.fillStyle = PAINT_COLOR
+    fillRegion(ctx, faces[0], region)
+    emit()
+  }
+
+  const clear = () => {
+    const canvas = canvasRef.current
+    context()?.clearRect(0, 0, canvas?.width ?? 0, canvas?.height ?? 0)
+    setNotice('')
+    onChange(null)
+  }
+
+  const toolButton = (active: boolean) =>
+    cn(
+      'inline-flex items-center gap-1 px-3 py-1.5 rounded-lg text-sm border transition-colors',
+      active ? 'bg-purple-600 border-purple-600 text-white' : 'border-gray-300 text-gray-700 hover:bg-gray-50'
+    )
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center gap-2">
+        <button type="button" onClick={() => setTool('brush')} className={toolButton(tool === 'brush')}>
+          <Brush className="w-4 h-4" />
+          Paint
+        </button>
+        <button type="button" onClick={() => setTool('eraser')} className={toolButton(tool === 'eraser')}>
+          <Eraser className="w-4 h-4" />
+          Erase
+        </button>
+        <div className="flex rounded-lg border border-gray-300 overflow-hidden" role="group" aria-label="Brush size">
+          {(Object.keys(BRUSH_SIZES) as (keyof typeof BRUSH_SIZES)[]).map((key) => (
+            <button
+              key={key}
+              type="button"
+              onClick={() => setSize(key)}
+              aria-pressed={size === key}
+              className={cn('px-2.5 py-1.5 text-sm', size === key ? 'bg-gray-200 text-gray-900' : 'text-gray-600')}
+            >
+              {key}
+            </button>
+          ))}
+        </div>
+        <button type="button" onClick={clear} className={toolButton(false)}>
+          <Trash2 className="w-4 h-4" />
+          Clear
+        </button>
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        <button type="button" onClick={() => autoFill('hair')} className={toolButton(false)}>
+          <Scissors className="w-4 h-4" />
+          Auto-fill hair
+        </button>
+        <button type="button" onClick={() => autoFill('beard')} className={toolButton(false)}>
+          <User className="w-4 h-4" />
+          Auto-fill beard
+        </button>
+      </div>
+
+      <div className="relative w-full max-w-md mx-auto select-none">
+        <img
+          ref={imageRef}
+          src={imageUrl}
+          alt="Photo to paint on"
+          onLoad={handleImageLoad}
+          className="w-full h-auto rounded-lg"
+          draggable={false}
+        />
+        <canvas
+          ref={canvasRef}
+          onPointerDown={handlePointerDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+          onPointerCancel={handlePointerUp}
+          className="absolute inset-0 w-full h-full rounded-lg opacity-50 cursor-crosshair touch-none"
+        />
+      </div>
+
+      {notice && <p className="text-xs text-amber-700">{notice}</p>}
+      <p className="text-xs text-gray-500">
+        Only the painted area can change. Everything else is copied from your photo pixel for pixel.
+      </p>
+    </div>
+  )
+}
@@ -0,0 +1,66 @@
+'use client'
+
+import { Building2 } from 'lucide-react'
+import { useRouter } from 'next/navigation'
+import { useState } from 'react'
+
+import { switchOrganization } from '@/lib/organization-client'
+import { ROLE_LABELS, type Membership } from '@/lib/organizations'
+
+/**
+ * Header control choosing whether the user acts for themselves or one of
+ * their organizations. `onSwitched` runs once the server has the new choice;
+ * without it the page re-renders on the server.
+ */
+export function OrganizationSwitcher({
+  organizations,
+  activeId,
+  onSwitched,
+}: {
+  organizations: Membership[]
+  activeId: string | null
+  onSwitched?: (organizationId: string | null) => void
+}) {
+  const router = useRouter()
+  const [isSwitching, setIsSwitching] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const change = async (value: string) => {
+    const organizationId = value || null
+    setIsSwitching(true)
+    setError(null)
+
+    try {
+      await switchOrganization(organizationId)
+      if (onSwitched) onSwitched(organizationId)
+      else router.refresh()
+    } catch (error: unknown) {
+      setError(error instanceof Error ? error.message : 'An error occurred')
+    } finally {
+      setIsSwitching(false)
+    }
+  }
+
+  return (
+    <div className="inline-flex flex-col items-center gap-1">
+      <label className="inline-flex items-center gap-2 text-sm text-gray-700">
+        <Building2 className="w-4 h-4 text-purple-600" />
+        <span className="sr-only">Acting for</span>
+        <select
+          value={activeId ?? ''}
+          onChange={(e) => change(e.target.value)}
+          disabled={isSwitching}
+          className="rounded-full border border-gray-300 bg-white px-3 py-1 text-zinc-900"
+        >
+          <option value="">Personal account</option>
+          {organizations.map((organization) => (
+            <option key={organization.id} value={organization.id}>
+              {organization.name} ({ROLE_LABELS[organization.role]})
+            </option>
+          ))}
+        </select>
+      </label>
+      {error && <p className="text-xs text-red-500">{error}</p>}
+    </div>
+  )
+}
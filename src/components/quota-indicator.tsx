@@ -0,0 +1,25 @@
+import { Sparkles } from 'lucide-react'
+
+import type { QuotaStatus } from '@/lib/quota'
+import { cn } from '@/lib/utils'
+
+/**
+ * Remaining generation credits, e.g. "3 of 5 left today · 42 this month".
+ */
+export function QuotaIndicator({ quota, className }: { quota: QuotaStatus; className?: string }) {
+  const remaining = Math.min(quota.remaining.daily, quota.remaining.monthly)
+  const exhausted = remaining === 0
+
+  return (
+    <span
+      className={cn(
+        'inline-flex items-center gap-1 rounded-full px-3 py-1 text-sm',
+        exhausted ? 'bg-red-100 text-red-800' : 'bg-purple-100 text-purple-800',
+        className
+      )}
+    >
+      <Sparkles className="w-4 h-4" />
+      {quota.remaining.daily} of {quota.limits.daily} left today · {quota.remaining.monthly} this month
+    </span>
+  )
+}
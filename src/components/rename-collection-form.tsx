@@ -0,0 +1,55 @@
+'use client'
+
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { COLLECTION_NAME_MAX_LENGTH } from '@/lib/collections'
+import { useRouter } from 'next/navigation'
+import { useState } from 'react'
+
+export function RenameCollectionForm({ id, initialName }: { id: string; initialName: string }) {
+  const router = useRouter()
+  const [name, setName] = useState(initialName)
+  const [isLoading, setIsLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const rename = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setIsLoading(true)
+    setError(null)
+
+    try {
+      const response = await fetch(`/api/collections/${id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name }),
+      })
+      if (!response.ok) {
+        const body: { error?: string } = await response.json().catch(() => ({}))
+        throw new Error(body.error || 'Could not rename collection')
+      }
+      router.refresh()
+    } catch (error: unknown) {
+      setError(error instanceof Error ? error.message : 'An error occurred')
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  return (
+    <form onSubmit={rename} className="space-y-1">
+      <div className="flex gap-2">
+        <Input
+          aria-label="Collection name"
+          required
+          maxLength={COLLECTION_NAME_MAX_LENGTH}
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+        />
+        <Button type="submit" variant="outline" disabled={isLoading || name.trim() === initialName}>
+          {isLoading ? 'Saving...' : 'Rename'}
+        </Button>
+      </div>
+      {error && <p className="text-sm text-red-500">{error}</p>}
+    </form>
+  )
+}
@@ -0,0 +1,170 @@
+'use client'
+
+import { Button } from '@/components/ui/button'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { SHARE_EXPIRY_DAYS, type ShareExpiryDays, type ShareLinkView } from '@/lib/share-links'
+import { Share2 } from 'lucide-react'
+import { useState } from 'react'
+
+const EXPIRY_LABELS: Record<string, string> = { 1: '1 day', 7: '7 days', 30: '30 days', never: 'Never' }
+
+function expiryKey(days: ShareExpiryDays) {
+  return days === null ? 'never' : String(days)
+}
+
+/**
+ * Creates, copies and revokes public links to one look. Existing links are
+ * loaded when the dialog opens so earlier ones can be revoked too.
+ */
+export function ShareLookButton({ generationId, size = 'sm' }: { generationId: string; size?: 'sm' | 'lg' }) {
+  const [links, setLinks] = useState<ShareLinkView[] | null>(null)
+  const [expiresInDays, setExpiresInDays] = useState<ShareExpiryDays>(7)
+  const [showBefore, setShowBefore] = useState(false)
+  const [copiedId, setCopiedId] = useState<string | null>(null)
+  const [isLoading, setIsLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const request = async (input: string, init?: RequestInit) => {
+    const response = await fetch(input, init)
+    if (!response.ok) {
+      const body: { error?: string } = await response.json().catch(() => ({}))
+      throw new Error(body.error || 'Could not update share links')
+    }
+    return response
+  }
+
+  const run = async (action: () => Promise<void>) => {
+    setIsLoading(true)
+    setError(null)
+    try {
+      await action()
+    } catch (error: unknown) {
+      setError(error instanceof Error ? error.message : 'An error occurred')
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const load = (open: boolean) => {
+    if (!open) return
+    run(async () => {
+      const response = await request(`/api/generations/${generationId}/share-links`)
+      const body: { links: ShareLinkView[] } = await response.json()
+      setLinks(body.links)
+    })
+  }
+
+  const create = (e: React.FormEvent) => {
+    e.preventDefault()
+    run(async () => {
+      const response = await request(`/api/generations/${generationId}/share-links`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ expiresInDays, showBefore }),
+      })
+      const body: { link: ShareLinkView } = await response.json()
+      setLinks((current) => [body.link, ...(current ?? [])])
+      await copy(body.link)
+    })
+  }
+
+  const revoke = (link: ShareLinkView) => {
+    if (!confirm('Revoke this link? Anyone who has it will no longer be able to see the look.')) return
+    run(async () => {
+      await request(`/api/share-links/${link.id}`, { method: 'DELETE' })
+      setLinks((current) => (current ?? []).filter((candidate) => candidate.id !== link.id))
+    })
+  }
+
+  const copy = async (link: ShareLinkView) => {
+    try {
+      await navigator.clipboard.writeText(link.url)
+      setCopiedId(link.id)
+    } catch {
+      // Clipboard access can be denied; the link is still shown to copy by hand
+    }
+  }
+
+  return (
+    <Dialog onOpenChange={load}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size={size}>
+          <Share2 />
+          Share
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Share this look</DialogTitle>
+          <DialogDescription>
+            Anyone with the link can see the look without signing in, until it expires or you revoke it.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={create} className="space-y-3">
+          <div className="flex items-end gap-2">
+            <div className="space-y-1 flex-1">
+              <Label htmlFor={`share-expiry-${generationId}`}>Expires after</Label>
+              <select
+                id={`share-expiry-${generationId}`}
+                value={expiryKey(expiresInDays)}
+                onChange={(e) =>
+                  setExpiresInDays(SHARE_EXPIRY_DAYS.find((days) => expiryKey(days) === e.target.value) ?? null)
+                }
+                className="h-9 w-full rounded-md border border-input bg-transparent px-3 text-sm"
+              >
+                {SHARE_EXPIRY_DAYS.map((days) => (
+                  <option key={expiryKey(days)} value={expiryKey(days)}>
+                    {EXPIRY_LABELS[expiryKey(days)]}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <Button type="submit" disabled={isLoading}>
+              {isLoading ? 'Working...' : 'Create link'}
+            </Button>
+          </div>
+          <label className="flex items-center gap-2 text-sm text-gray-700">
+            <input type="checkbox" checked={showBefore} onChange={(e) => setShowBefore(e.target.checked)} />
+            Include the original photo as a before/after view
+          </label>
+        </form>
+
+        {links && links.length > 0 && (
+          <ul className="space-y-2">
+            {links.map((link) => (
+              <li key={link.id} className="space-y-1">
+                <div className="flex gap-2">
+                  <Input readOnly value={link.url} onFocus={(e) => e.target.select()} className="text-xs" />
+                  <Button variant="outline" size="sm" onClick={() => copy(link)}>
+                    {copiedId === link.id ? 'Copied' : 'Copy'}
+                  </Button>
+                  <Button variant="destructive" size="sm" onClick={() => revoke(link)} disabled={isLoading}>
+                    Revoke
+                  </Button>
+                </div>
+                <p className="text-xs text-gray-500">
+                  {link.showBefore ? 'Before/after' : 'Result only'} ·{' '}
+                  {link.expiresAt
+                    ? `expires ${new Date(link.expiresAt).toLocaleString('en-GB', { dateStyle: 'medium', timeStyle: 'short' })}`
+                    : 'never expires'}
+                </p>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        {error && <p className="text-sm text-red-500">{error}</p>}
+      </DialogContent>
+    </Dialog>
+  )
+}
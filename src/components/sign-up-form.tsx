@@ -2,6 +2,7 @@
 
 import { cn } from '@/lib/utils'
 import { createClient } from '@/lib/client'
+import { authErrorCode, messageFor } from '@/lib/errors'
 import { Button } from '@/components/ui/button'
 import {
   Card,
@@ -16,7 +17,8 @@ import Link from 'next/link'
 import { useRouter } from 'next/navigation'
 import { useState } from 'react'
 
-export function SignUpForm({ className, ...props }: React.ComponentPropsWithoutRef<'div'>) {
+/** `next` is a local path to continue to once the email is confirmed, e.g. an invitation. */
+export function SignUpForm({ className, next = '/', ...props }: React.ComponentPropsWithoutRef<'div'> & { next?: string }) {
   const [email, setEmail] = useState('')
   const [password, setPassword] = useState('')
   const [repeatPassword, setRepeatPassword] = useState('')
@@ -31,7 +33,7 @@ export function SignUpForm({ className, ...props }: React.ComponentPropsWithoutR
     setError(null)
 
     if (password !== repeatPassword) {
-      setError('Passwords do not match')
+      setError(messageFor('auth-password-mismatch'))
       setIsLoading(false)
       return
     }
@@ -41,13 +43,13 @@ export function SignUpForm({ className, ...props }: React.ComponentPropsWithoutR
         email,
         password,
         options: {
-          emailRedirectTo: `${window.location.origin}/auth/callback`,
+          emailRedirectTo: `${window.location.origin}/auth/callback?next=${encodeURIComponent(next)}`,
         },
       })
       if (error) throw error
       router.push('/auth/sign-up-success')
     } catch (error: unknown) {
-      setError(error instanceof Error ? error.message : 'An error occurred')
+      setError(messageFor(authErrorCode(error)))
     } finally {
       setIsLoading(false)
     }
@@ -105,7 +107,7 @@ export function SignUpForm({ className, ...props }: React.ComponentPropsWithoutR
             </div>
             <div className="mt-4 text-center text-sm">
               Already have an account?{' '}
-              <Link href="/auth/login" className="underline underline-offset-4">
+              <Link href={next === '/' ? '/auth/login' : `/auth/login?next=${encodeURIComponent(next)}`} className="underline underline-offset-4">
                 Login
               </Link>
             </div>
@@ -2,6 +2,7 @@
 
 import { cn } from '@/lib/utils'
 import { createClient } from '@/lib/client'
+import { authErrorCode, messageFor } from '@/lib/errors'
 import { Button } from '@/components/ui/button'
 import {
   Card,
@@ -33,7 +34,7 @@ export function UpdatePasswordForm({ className, ...props }: React.ComponentProps
       // Update this route to redirect to an authenticated route. The user already has an active session.
       router.push('/protected')
     } catch (error: unknown) {
-      setError(error instanceof Error ? error.message : 'An error occurred')
+      setError(messageFor(authErrorCode(error)))
     } finally {
       setIsLoading(false)
     }
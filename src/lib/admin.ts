@@ -0,0 +1,17 @@
+import { createClient as createSupabaseClient } from '@supabase/supabase-js'
+
+/**
+ * Service-role client for trusted server code that acts without a user
+ * session, such as payment webhooks. It bypasses row-level security: never
+ * import it from client components or hand it user-controlled filters.
+ */
+export function createAdminClient() {
+  const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY
+  if (!serviceRoleKey) {
+    throw new Error('SUPABASE_SERVICE_ROLE_KEY is not set')
+  }
+
+  return createSupabaseClient(process.env.NEXT_PUBLIC_SUPABASE_URL!, serviceRoleKey, {
+    auth: { persistSession: false, autoRefreshToken: false },
+  })
+}
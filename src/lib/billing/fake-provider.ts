@@ -0,0 +1,87 @@
+import { createHmac, randomUUID, timingSafeEqual } from 'node:crypto'
+
+import {
+  PaymentWebhookError,
+  type CreateCheckoutInput,
+  type PaymentEvent,
+  type PaymentProvider,
+} from '@/lib/billing/types'
+
+export const FAKE_SIGNATURE_HEADER = 'x-fake-payment-signature'
+
+export function fakeSign(secret: string, value: string) {
+  return createHmac('sha256', secret).update(value).digest('hex')
+}
+
+export function fakeSignatureMatches(secret: string, value: string, signature: string | null) {
+  if (!signature) return false
+  const expected = Buffer.from(fakeSign(secret, value))
+  const actual = Buffer.from(signature)
+  return expected.length === actual.length && timingSafeEqual(expected, actual)
+}
+
+/** Fields of a fake checkout link, signed so the "pay" step cannot be forged. */
+export interface FakeCheckoutLink {
+  sessionId: string
+  userId: string
+  organizationId?: string | null
+  packId: string
+}
+
+export function fakeCheckoutValue({ sessionId, userId, organizationId, packId }: FakeCheckoutLink) {
+  return organizationId ? `${sessionId}:${userId}:${organizationId}:${packId}` : `${sessionId}:${userId}:${packId}`
+}
+
+/**
+ * Local stand-in for a hosted checkout. Sessions are not stored anywhere: the
+ * checkout link carries the session, user and pack with an HMAC, and the
+ * `/billing/fake-checkout` page completes it through the webhook simulator.
+ */
+export function createFakePaymentProvider({ secret, baseUrl }: { secret: string; baseUrl: string }): PaymentProvider {
+  return {
+    name: 'fake',
+    signatureHeader: FAKE_SIGNATURE_HEADER,
+
+    async createCheckoutSession({ userId, organizationId, pack, successUrl, cancelUrl }: CreateCheckoutInput) {
+      const sessionId = `fcs_${randomUUID()}`
+      const link: FakeCheckoutLink = { sessionId, userId, organizationId, packId: pack.id }
+      const url = new URL('/billing/fake-checkout', baseUrl)
+      url.search = new URLSearchParams({
+        session: sessionId,
+        user: userId,
+        ...(organizationId && { org: organizationId }),
+        pack: pack.id,
+        success: successUrl,
+        cancel: cancelUrl,
+        sig: fakeSign(secret, fakeCheckoutValue(link)),
+      }).toString()
+      return { id: sessionId, url: url.toString() }
+    },
+
+    async verifyWebhook(payload, signature): Promise<PaymentEvent> {
+      if (!fakeSignatureMatches(secret, payload, signature)) {
+        throw new PaymentWebhookError('Invalid webhook signature')
+      }
+
+      const event = JSON.parse(payload) as {
+        type?: string
+        data?: { session_id?: string; user_id?: string; organization_id?: string | null; pack_id?: string }
+      }
+      if (event.type !== 'checkout.session.completed' || !event.data) {
+        return { type: 'ignored' }
+      }
+
+      const { session_id, user_id, organization_id, pack_id } = event.data
+      if (!session_id || !user_id || !pack_id) {
+        throw new PaymentWebhookError('Webhook payload is missing fields')
+      }
+      return {
+        type: 'checkout.completed',
+        sessionId: session_id,
+        userId: user_id,
+        organizationId: organization_id ?? null,
+        packId: pack_id,
+      }
+    },
+  }
+}
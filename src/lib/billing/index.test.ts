@@ -0,0 +1,70 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+
+import { handlePaymentWebhook, PaymentWebhookError } from '@/lib/billing'
+import { createFakePaymentProvider } from '@/lib/billing/fake-provider'
+import { simulateCheckoutCompleted, simulateIgnoredEvent } from '@/lib/billing/webhook-simulator'
+
+interface LedgerRow {
+  user_id: string
+  amount: number
+  payment_ref: string
+}
+
+// An in-memory credit_ledger that keeps payment_ref unique, like the table does.
+const ledger = vi.hoisted(() => new Map<string, LedgerRow>())
+
+vi.mock('@/lib/admin', () => ({
+  createAdminClient: () => ({
+    from: () => ({
+      upsert: async (row: LedgerRow, { ignoreDuplicates }: { ignoreDuplicates?: boolean }) => {
+        if (!(ignoreDuplicates && ledger.has(row.payment_ref))) ledger.set(row.payment_ref, row)
+        return { error: null }
+      },
+    }),
+  }),
+}))
+
+const secret = 'test-secret'
+const provider = createFakePaymentProvider({ secret, baseUrl: 'http://localhost:3000' })
+const checkout = { sessionId: 'fcs_1', userId: 'user-1', packId: 'starter' }
+
+describe('handlePaymentWebhook with the fake provider', () => {
+  beforeEach(() => ledger.clear())
+
+  it('grants the pack for a completed checkout', async () => {
+    const { payload, signature } = simulateCheckoutCompleted(secret, checkout)
+
+    await expect(handlePaymentWebhook(provider, payload, signature)).resolves.toMatchObject({
+      type: 'checkout.completed',
+      packId: 'starter',
+    })
+    expect([...ledger.values()]).toEqual([
+      expect.objectContaining({ user_id: 'user-1', amount: 20, payment_ref: 'fake:fcs_1' }),
+    ])
+  })
+
+  it('rejects a wrong signature without granting anything', async () => {
+    const { payload } = simulateCheckoutCompleted(secret, checkout)
+
+    await expect(handlePaymentWebhook(provider, payload, 'not-the-signature')).rejects.toThrow(PaymentWebhookError)
+    await expect(
+      handlePaymentWebhook(provider, payload, simulateCheckoutCompleted('other-secret', checkout).signature)
+    ).rejects.toThrow(PaymentWebhookError)
+    expect(ledger.size).toBe(0)
+  })
+
+  it('ignores events it does not act on', async () => {
+    const { payload, signature } = simulateIgnoredEvent(secret)
+
+    await expect(handlePaymentWebhook(provider, payload, signature)).resolves.toEqual({ type: 'ignored' })
+    expect(ledger.size).toBe(0)
+  })
+
+  it('grants a replayed webhook only once', async () => {
+    const { payload, signature } = simulateCheckoutCompleted(secret, checkout)
+
+    await handlePaymentWebhook(provider, payload, signature)
+    await handlePaymentWebhook(provider, payload, signature)
+    expect(ledger.size).toBe(1)
+  })
+})
@@ -0,0 +1,53 @@
+import { createAdminClient } from '@/lib/admin'
+import { createFakePaymentProvider } from '@/lib/billing/fake-provider'
+import { recordPurchase } from '@/lib/billing/ledger'
+import { getCreditPack } from '@/lib/billing/packs'
+import { PaymentWebhookError, type PaymentProvider } from '@/lib/billing/types'
+
+export * from '@/lib/billing/ledger'
+export * from '@/lib/billing/packs'
+export * from '@/lib/billing/types'
+
+/**
+ * Picks the payment provider named by `PAYMENT_PROVIDER`. Only `fake` exists
+ * so far; it needs `FAKE_PAYMENT_SECRET` and must not be enabled in production.
+ */
+export function getPaymentProvider(baseUrl: string): PaymentProvider {
+  const name = process.env.PAYMENT_PROVIDER
+
+  switch (name) {
+    case 'fake': {
+      const secret = process.env.FAKE_PAYMENT_SECRET
+      if (!secret) {
+        throw new Error('FAKE_PAYMENT_SECRET is required when PAYMENT_PROVIDER=fake')
+      }
+      return createFakePaymentProvider({ secret, baseUrl })
+    }
+    case undefined:
+      throw new Error('Payments are not configured: set PAYMENT_PROVIDER')
+    default:
+      throw new Error(`Unknown PAYMENT_PROVIDER: ${name}`)
+  }
+}
+
+/**
+ * Verifies a provider webhook and applies it to the ledger. Shared by the
+ * webhook route and the fake checkout, so both take the same path.
+ */
+export async function handlePaymentWebhook(provider: PaymentProvider, payload: string, signature: string | null) {
+  const event = await provider.verifyWebhook(payload, signature)
+  if (event.type === 'ignored') return event
+
+  const pack = getCreditPack(event.packId)
+  if (!pack) {
+    throw new PaymentWebhookError(`Unknown credit pack: ${event.packId}`)
+  }
+
+  await recordPurchase(createAdminClient(), {
+    userId: event.userId,
+    organizationId: event.organizationId,
+    pack,
+    paymentRef: `${provider.name}:${event.sessionId}`,
+  })
+  return event
+}
@@ -0,0 +1,96 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+
+import { GENERATION_COST, type CreditPack } from '@/lib/billing/packs'
+
+export type LedgerEntryKind = 'grant' | 'purchase' | 'generation' | 'refund'
+
+export interface LedgerEntry {
+  id: string
+  user_id: string
+  /** Set on entries of an organization's shared pool. */
+  organization_id: string | null
+  amount: number
+  kind: LedgerEntryKind
+  generation_id: string | null
+  payment_ref: string | null
+  refund_of: string | null
+  description: string
+  created_at: string
+}
+
+/**
+ * The current user's balance: the sum of their ledger entries. With an
+ * `organizationId`, the organization's pool instead (owners and stylists only).
+ */
+export async function getCreditBalance(supabase: SupabaseClient, organizationId: string | null = null) {
+  const { data, error } = organizationId
+    ? await supabase.rpc('organization_credit_balance', { p_organization_id: organizationId })
+    : await supabase.rpc('credit_balance')
+  if (error) throw error
+  return (data as number | null) ?? 0
+}
+
+/**
+ * Charges the current user, or the organization pool they generate for, for
+ * one generation. Returns the debit entry id, or null when the balance is too
+ * low (nothing is written in that case).
+ */
+export async function debitGenerationCredits(
+  supabase: SupabaseClient,
+  generationId: string,
+  organizationId: string | null = null
+) {
+  const args = { p_amount: GENERATION_COST, p_generation_id: generationId, p_description: 'Generation' }
+  const { data, error } = organizationId
+    ? await supabase.rpc('debit_organization_credits', { p_organization_id: organizationId, ...args })
+    : await supabase.rpc('debit_credits', args)
+  if (error) throw error
+  return data as string | null
+}
+
+/**
+ * Reverses a generation debit. Needs the service-role client. Safe to call
+ * more than once; only the first call writes a refund entry.
+ */
+export async function refundGenerationCredits(admin: SupabaseClient, debitId: string) {
+  const { error } = await admin.rpc('refund_credits', { p_debit_id: debitId })
+  if (error) throw error
+}
+
+/**
+ * Grants a purchased pack. Needs the service-role client; `paymentRef` is
+ * unique, so a redelivered webhook does not grant twice.
+ */
+export async function recordPurchase(
+  admin: SupabaseClient,
+  {
+    userId,
+    organizationId = null,
+    pack,
+    paymentRef,
+  }: { userId: string; organizationId?: string | null; pack: CreditPack; paymentRef: string }
+) {
+  const { error } = await admin.from('credit_ledger').upsert(
+    {
+      user_id: userId,
+      organization_id: organizationId,
+      amount: pack.credits,
+      kind: 'purchase',
+      payment_ref: paymentRef,
+      description: `${pack.name} pack`,
+    },
+    { onConflict: 'payment_ref', ignoreDuplicates: true }
+  )
+  if (error) throw error
+}
+
+export async function listLedgerEntries(supabase: SupabaseClient, organizationId: string | null = null, limit = 20) {
+  let query = supabase.from('credit_ledger').select('*')
+  query = organizationId ? query.eq('organization_id', organizationId) : query.is('organization_id', null)
+  const { data, error } = await query
+    .order('created_at', { ascending: false })
+    .limit(limit)
+    .returns<LedgerEntry[]>()
+  if (error) throw error
+  return data ?? []
+}
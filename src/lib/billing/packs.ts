@@ -0,0 +1,25 @@
+export interface CreditPack {
+  id: string
+  name: string
+  credits: number
+  /** Price in the smallest currency unit. */
+  priceCents: number
+  currency: 'usd'
+}
+
+export const CREDIT_PACKS: readonly CreditPack[] = [
+  { id: 'starter', name: 'Starter', credits: 20, priceCents: 499, currency: 'usd' },
+  { id: 'salon', name: 'Salon', credits: 100, priceCents: 1999, currency: 'usd' },
+  { id: 'studio', name: 'Studio', credits: 500, priceCents: 7999, currency: 'usd' },
+]
+
+/** Credits charged for one generation. */
+export const GENERATION_COST = 1
+
+export function getCreditPack(id: string | null | undefined) {
+  return CREDIT_PACKS.find((pack) => pack.id === id)
+}
+
+export function formatPrice(pack: CreditPack) {
+  return new Intl.NumberFormat('en-US', { style: 'currency', currency: pack.currency }).format(pack.priceCents / 100)
+}
@@ -0,0 +1,41 @@
+import type { CreditPack } from '@/lib/billing/packs'
+
+export interface CheckoutSession {
+  id: string
+  /** Where to send the browser to pay. */
+  url: string
+}
+
+export interface CreateCheckoutInput {
+  userId: string
+  /** Buy for this organization's credit pool instead of the user. */
+  organizationId?: string | null
+  pack: CreditPack
+  successUrl: string
+  cancelUrl: string
+}
+
+/** A verified webhook event, reduced to what the ledger needs. */
+export type PaymentEvent =
+  | { type: 'checkout.completed'; sessionId: string; userId: string; organizationId: string | null; packId: string }
+  | { type: 'ignored' }
+
+/**
+ * A payment processor. Checkout happens on the provider's side; credits are
+ * only granted once its signed webhook arrives and verifies.
+ */
+export interface PaymentProvider {
+  readonly name: string
+  /** Request header carrying the webhook signature. */
+  readonly signatureHeader: string
+  createCheckoutSession(input: CreateCheckoutInput): Promise<CheckoutSession>
+  /** Throws `PaymentWebhookError` if the signature does not match the payload. */
+  verifyWebhook(payload: string, signature: string | null): Promise<PaymentEvent>
+}
+
+export class PaymentWebhookError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'PaymentWebhookError'
+  }
+}
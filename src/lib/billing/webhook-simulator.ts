@@ -0,0 +1,31 @@
+import { fakeSign, type FakeCheckoutLink } from '@/lib/billing/fake-provider'
+
+export interface SimulatedWebhook {
+  payload: string
+  signature: string
+}
+
+/**
+ * Builds the signed webhook the fake provider would send when a checkout
+ * completes. Post it to `/api/billing/webhook` with `FAKE_SIGNATURE_HEADER`,
+ * or pass it to `handlePaymentWebhook` directly in tests.
+ */
+export function simulateCheckoutCompleted(secret: string, checkout: FakeCheckoutLink): SimulatedWebhook {
+  const payload = JSON.stringify({
+    id: `evt_${checkout.sessionId}`,
+    type: 'checkout.session.completed',
+    data: {
+      session_id: checkout.sessionId,
+      user_id: checkout.userId,
+      organization_id: checkout.organizationId ?? null,
+      pack_id: checkout.packId,
+    },
+  })
+  return { payload, signature: fakeSign(secret, payload) }
+}
+
+/** A webhook for an event type the ledger does not act on. */
+export function simulateIgnoredEvent(secret: string, type = 'checkout.session.expired'): SimulatedWebhook {
+  const payload = JSON.stringify({ id: `evt_${Date.now()}`, type, data: {} })
+  return { payload, signature: fakeSign(secret, payload) }
+}
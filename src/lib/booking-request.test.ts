@@ -0,0 +1,79 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+
+import { parseBookingRequest } from '@/lib/booking-request'
+import { bookingConfirmationEmails, formatSlot } from '@/lib/bookings'
+import { captureEmailSender, getEmailSender } from '@/lib/email'
+
+const organizationId = '6f1c2a9e-4b7d-4e3a-9c1f-2d8e5b7a0c41'
+const stylistId = 'b3e8d1f2-7a4c-4d9e-8f1b-5c2a6e9d0f13'
+const generationId = '0a9b8c7d-6e5f-4a3b-8c2d-1e0f9a8b7c6d'
+
+describe('parseBookingRequest', () => {
+  it('accepts a booking with and without a look', () => {
+    expect(parseBookingRequest({ organizationId, stylistId, startsAt: '2026-10-20T14:30:00Z', generationId })).toEqual({
+      ok: true,
+      value: { organizationId, stylistId, startsAt: new Date('2026-10-20T14:30:00Z'), generationId },
+    })
+    expect(parseBookingRequest({ organizationId, stylistId, startsAt: '2026-10-20T14:30:00Z' })).toMatchObject({
+      ok: true,
+      value: { generationId: null },
+    })
+  })
+
+  it.each([
+    ['a body that is not an object', []],
+    ['ids that are not UUIDs', { organizationId: 'salon', stylistId, startsAt: '2026-10-20T14:30:00Z' }],
+    ['a start that is not a date', { organizationId, stylistId, startsAt: 'tomorrow at noon' }],
+    ['a look that is not a generation id', { organizationId, stylistId, startsAt: '2026-10-20T14:30:00Z', generationId: 7 }],
+  ])('rejects %s', (_case, body) => {
+    expect(parseBookingRequest(body)).toMatchObject({ ok: false })
+  })
+})
+
+describe('bookingConfirmationEmails', () => {
+  afterEach(() => {
+    captureEmailSender.clear()
+    vi.restoreAllMocks()
+  })
+
+  const startsAt = new Date('2026-10-20T14:30:00Z')
+  const send = async (withLook: boolean) => {
+    vi.spyOn(console, 'info').mockImplementation(() => {})
+    const sender = getEmailSender()
+    const emails = bookingConfirmationEmails({
+      startsAt,
+      timeZone: 'Europe/London',
+      organizationName: 'Salon Nord',
+      clientEmail: 'client@example.com',
+      stylistEmail: 'stylist@example.com',
+      withLook,
+      origin: 'https://app.example.com',
+    })
+    for (const email of emails) await sender.send(email)
+    return captureEmailSender.sent()
+  }
+
+  it('sends the client and the stylist the slot in the salon time zone', async () => {
+    const [client, stylist] = await send(true)
+    const when = formatSlot(startsAt, 'Europe/London')
+    expect(when).toContain('15:30')
+
+    expect(client.to).toBe('client@example.com')
+    expect(client.subject).toBe('Your appointment at Salon Nord is booked')
+    expect(client.text).toContain(`You are booked in with stylist@example.com at Salon Nord on ${when}.`)
+    expect(client.text).toContain('https://app.example.com/book')
+    expect(client.text).toContain('Your stylist can see the look you picked.')
+
+    expect(stylist.to).toBe('stylist@example.com')
+    expect(stylist.subject).toBe(`New booking on ${when}`)
+    expect(stylist.text).toContain('https://app.example.com/protected/bookings')
+    expect(stylist.text).toContain('They picked a look to show you.')
+  })
+
+  it('leaves out the look when none was picked', async () => {
+    const sent = await send(false)
+
+    expect(sent).toHaveLength(2)
+    for (const email of sent) expect(email.text).not.toMatch(/look/)
+  })
+})
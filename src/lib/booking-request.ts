@@ -0,0 +1,78 @@
+import { isValidTimeZone, minutesOfDay } from '@/lib/bookings'
+import { UUID_PATTERN, type ParseResult } from '@/lib/generate-request'
+
+export interface BookingRequest {
+  organizationId: string
+  stylistId: string
+  startsAt: Date
+  /** The look to show the stylist. */
+  generationId: string | null
+}
+
+export interface AvailabilityRequest {
+  weekday: number
+  startTime: string
+  endTime: string
+  timeZone: string
+  slotMinutes: number
+}
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+function isId(value: unknown): value is string {
+  return typeof value === 'string' && UUID_PATTERN.test(value)
+}
+
+/** Validates the JSON body posted to `/api/bookings`. */
+export function parseBookingRequest(body: unknown): ParseResult<BookingRequest> {
+  if (!isRecord(body)) {
+    return { ok: false, error: 'Request body must be a JSON object' }
+  }
+  const { organizationId, stylistId, startsAt, generationId } = body
+  if (!isId(organizationId) || !isId(stylistId)) {
+    return { ok: false, error: 'organizationId and stylistId must be ids' }
+  }
+  if (typeof startsAt !== 'string' || Number.isNaN(Date.parse(startsAt))) {
+    return { ok: false, error: 'startsAt must be an ISO date-time' }
+  }
+  if (generationId !== undefined && generationId !== null && !isId(generationId)) {
+    return { ok: false, error: 'generationId must be a generation id' }
+  }
+  return {
+    ok: true,
+    value: { organizationId, stylistId, startsAt: new Date(startsAt), generationId: generationId ?? null },
+  }
+}
+
+/** Validates the JSON body posted to `/api/availability`. Times are `HH:MM` in `timeZone`. */
+export function parseAvailabilityRequest(body: unknown): ParseResult<AvailabilityRequest> {
+  if (!isRecord(body)) {
+    return { ok: false, error: 'Request body must be a JSON object' }
+  }
+  const { weekday, startTime, endTime, timeZone, slotMinutes } = body
+  if (typeof weekday !== 'number' || !Number.isInteger(weekday) || weekday < 0 || weekday > 6) {
+    return { ok: false, error: 'weekday must be 0 (Sunday) to 6' }
+  }
+  if (
+    typeof startTime !== 'string' ||
+    typeof endTime !== 'string' ||
+    !TIME_PATTERN.test(startTime) ||
+    !TIME_PATTERN.test(endTime)
+  ) {
+    return { ok: false, error: 'startTime and endTime must be HH:MM' }
+  }
+  if (minutesOfDay(startTime) >= minutesOfDay(endTime)) {
+    return { ok: false, error: 'endTime must be after startTime' }
+  }
+  if (typeof timeZone !== 'string' || !isValidTimeZone(timeZone)) {
+    return { ok: false, error: 'timeZone must be an IANA time zone' }
+  }
+  if (typeof slotMinutes !== 'number' || !Number.isInteger(slotMinutes) || slotMinutes < 15 || slotMinutes > 240) {
+    return { ok: false, error: 'slotMinutes must be 15 to 240' }
+  }
+  return { ok: true, value: { weekday, startTime, endTime, timeZone, slotMinutes } }
+}
@@ -0,0 +1,293 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+
+import type { EmailMessage } from '@/lib/email'
+
+/** How far ahead clients can book. */
+export const BOOKING_WINDOW_DAYS = 14
+export const DEFAULT_SLOT_MINUTES = 45
+
+export const WEEKDAY_LABELS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday']
+
+export type BookingStatus = 'confirmed' | 'cancelled'
+
+/** A weekly window in which a stylist takes appointments. */
+export interface StylistAvailability {
+  id: string
+  organization_id: string
+  stylist_id: string
+  /** 0 = Sunday. */
+  weekday: number
+  /** Wall-clock `HH:MM:SS` in `time_zone`. */
+  start_time: string
+  end_time: string
+  time_zone: string
+  slot_minutes: number
+  created_at: string
+}
+
+export interface Booking {
+  id: string
+  organization_id: string
+  stylist_id: string
+  client_id: string
+  /** The look the client wants, if they booked from a result. */
+  generation_id: string | null
+  starts_at: string
+  ends_at: string
+  status: BookingStatus
+  created_at: string
+}
+
+export interface BusyTime {
+  starts_at: string
+  ends_at: string
+}
+
+export function isValidTimeZone(timeZone: string) {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone })
+    return true
+  } catch {
+    return false
+  }
+}
+
+/** Minutes since midnight of an `HH:MM` or `HH:MM:SS` time. */
+export function minutesOfDay(time: string) {
+  const [hours, minutes] = time.split(':').map(Number)
+  return hours * 60 + minutes
+}
+
+function zonedParts(instant: Date, timeZone: string) {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: 'numeric',
+    second: 'numeric',
+  }).formatToParts(instant)
+  const part = (type: Intl.DateTimeFormatPartTypes) => Number(parts.find((candidate) => candidate.type === type)?.value)
+  return {
+    year: part('year'),
+    month: part('month') - 1,
+    day: part('day'),
+    hour: part('hour'),
+    minute: part('minute'),
+    second: part('second'),
+  }
+}
+
+/** How far `timeZone` is ahead of UTC at `instant`, in milliseconds. */
+function timeZoneOffset(instant: Date, timeZone: string) {
+  const { year, month, day, hour, minute, second } = zonedParts(instant, timeZone)
+  return Date.UTC(year, month, day, hour, minute, second) - Math.floor(instant.getTime() / 1000) * 1000
+}
+
+/**
+ * The instant a wall-clock time occurs in `timeZone`. Checked twice so days
+ * with a daylight saving change land on the right offset.
+ */
+function zonedTimeToUtc(year: number, month: number, day: number, minutes: number, timeZone: string) {
+  const wallClock = Date.UTC(year, month, day, 0, minutes)
+  const first = wallClock - timeZoneOffset(new Date(wallClock), timeZone)
+  return new Date(wallClock - timeZoneOffset(new Date(first), timeZone))
+}
+
+/**
+ * Bookable slot start times, oldest first, for the next `days` days. Mirrors
+ * the checks in `book_appointment()`: slots start every `slot_minutes` from
+ * the start of a window, end inside it, are in the future and do not overlap
+ * a busy time.
+ */
+export function availableSlots(
+  availability: StylistAvailability[],
+  busy: BusyTime[],
+  now = new Date(),
+  days = BOOKING_WINDOW_DAYS
+) {
+  const taken = busy.map((time) => ({ start: Date.parse(time.starts_at), end: Date.parse(time.ends_at) }))
+  const slots = new Map<number, Date>()
+
+  for (const window of availability) {
+    const today = zonedParts(now, window.time_zone)
+    const start = minutesOfDay(window.start_time)
+    const end = minutesOfDay(window.end_time)
+
+    for (let offset = 0; offset < days; offset++) {
+      const date = new Date(Date.UTC(today.year, today.month, today.day + offset))
+      if (date.getUTCDay() !== window.weekday) continue
+
+      for (let minutes = start; minutes + window.slot_minutes <= end; minutes += window.slot_minutes) {
+        const slot = zonedTimeToUtc(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate(), minutes, window.time_zone)
+        const slotEnd = slot.getTime() + window.slot_minutes * 60_000
+        if (slot <= now || taken.some((time) => time.start < slotEnd && time.end > slot.getTime())) continue
+        slots.set(slot.getTime(), slot)
+      }
+    }
+  }
+
+  return [...slots.values()].sort((a, b) => a.getTime() - b.getTime())
+}
+
+/** A slot as the client and stylist read it, e.g. "Tuesday, 21 October 2026 at 14:30". */
+export function formatSlot(instant: Date | string, timeZone: string) {
+  return new Date(instant).toLocaleString('en-GB', { timeZone, dateStyle: 'full', timeStyle: 'short' })
+}
+
+export async function listAvailability(supabase: SupabaseClient, organizationId: string, stylistId?: string) {
+  let query = supabase.from('stylist_availability').select('*').eq('organization_id', organizationId)
+  if (stylistId) query = query.eq('stylist_id', stylistId)
+
+  const { data, error } = await query
+    .order('weekday')
+    .order('start_time')
+    .returns<StylistAvailability[]>()
+  if (error) throw error
+  return data ?? []
+}
+
+/** Publishes a weekly window for the current user, who must be staff in the organization. */
+export async function addAvailability(
+  supabase: SupabaseClient,
+  window: Pick<StylistAvailability, 'organization_id' | 'stylist_id' | 'weekday' | 'start_time' | 'end_time' | 'time_zone' | 'slot_minutes'>
+) {
+  const { data, error } = await supabase
+    .from('stylist_availability')
+    .insert(window)
+    .select('id')
+    .single<Pick<StylistAvailability, 'id'>>()
+  if (error) throw error
+  return data.id
+}
+
+export async function removeAvailability(supabase: SupabaseClient, organizationId: string, id: string) {
+  const { data, error } = await supabase
+    .from('stylist_availability')
+    .delete()
+    .eq('organization_id', organizationId)
+    .eq('id', id)
+    .select('id')
+  if (error) throw error
+  return (data ?? []).length > 0
+}
+
+export async function listBusyTimes(
+  supabase: SupabaseClient,
+  { organizationId, stylistId, from, to }: { organizationId: string; stylistId: string; from: Date; to: Date }
+) {
+  const { data, error } = await supabase.rpc('stylist_busy_times', {
+    p_organization_id: organizationId,
+    p_stylist_id: stylistId,
+    p_from: from.toISOString(),
+    p_to: to.toISOString(),
+  })
+  if (error) throw error
+  return (data ?? []) as BusyTime[]
+}
+
+/**
+ * Books a slot for the current user and returns the booking id, or null if
+ * the slot is no longer available.
+ */
+export async function bookAppointment(
+  supabase: SupabaseClient,
+  {
+    organizationId,
+    stylistId,
+    startsAt,
+    generationId,
+  }: { organizationId: string; stylistId: string; startsAt: Date; generationId?: string | null }
+) {
+  const { data, error } = await supabase.rpc('book_appointment', {
+    p_organization_id: organizationId,
+    p_stylist_id: stylistId,
+    p_starts_at: startsAt.toISOString(),
+    p_generation_id: generationId ?? null,
+  })
+  if (error) throw error
+  return data as string | null
+}
+
+/** Returns false if the booking does not exist, has started, or may not be cancelled by the current user. */
+export async function cancelBooking(supabase: SupabaseClient, id: string) {
+  const { data, error } = await supabase.rpc('cancel_booking', { p_booking_id: id })
+  if (error) throw error
+  return data as boolean
+}
+
+export async function getBooking(supabase: SupabaseClient, id: string) {
+  const { data, error } = await supabase.from('bookings').select('*').eq('id', id).maybeSingle<Booking>()
+  if (error) throw error
+  return data
+}
+
+/**
+ * Upcoming confirmed bookings the current user can see, soonest first: their
+ * own as a client, theirs as a stylist, and all of an organization's for owners.
+ */
+export async function listUpcomingBookings(
+  supabase: SupabaseClient,
+  filter: { clientId: string } | { stylistId: string } | { organizationId: string },
+  limit = 50
+) {
+  let query = supabase
+    .from('bookings')
+    .select('*')
+    .eq('status', 'confirmed')
+    .gt('ends_at', new Date().toISOString())
+  if ('clientId' in filter) query = query.eq('client_id', filter.clientId)
+  else if ('stylistId' in filter) query = query.eq('stylist_id', filter.stylistId)
+  else query = query.eq('organization_id', filter.organizationId)
+
+  const { data, error } = await query.order('starts_at').limit(limit).returns<Booking[]>()
+  if (error) throw error
+  return data ?? []
+}
+
+/** Confirmation emails for a new booking, one to the client and one to the stylist. */
+export function bookingConfirmationEmails({
+  startsAt,
+  timeZone,
+  organizationName,
+  clientEmail,
+  stylistEmail,
+  withLook,
+  origin,
+}: {
+  startsAt: Date
+  timeZone: string
+  organizationName: string
+  clientEmail: string
+  stylistEmail: string
+  withLook: boolean
+  origin: string
+}): EmailMessage[] {
+  const when = formatSlot(startsAt, timeZone)
+  return [
+    {
+      to: clientEmail,
+      subject: `Your appointment at ${organizationName} is booked`,
+      text: [
+        `You are booked in with ${stylistEmail} at ${organizationName} on ${when}.`,
+        withLook ? 'Your stylist can see the look you picked.' : '',
+        `To see or cancel your appointments, go to ${origin}/book`,
+      ]
+        .filter(Boolean)
+        .join('\n\n'),
+    },
+    {
+      to: stylistEmail,
+      subject: `New booking on ${when}`,
+      text: [
+        `${clientEmail} booked an appointment with you at ${organizationName} on ${when}.`,
+        withLook ? 'They picked a look to show you.' : '',
+        `See your bookings at ${origin}/protected/bookings`,
+      ]
+        .filter(Boolean)
+        .join('\n\n'),
+    },
+  ]
+}
@@ -0,0 +1,255 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+
+import { deleteGeneration, GENERATIONS_BUCKET, removeUnusedImages, uploadImage } from '@/lib/generations'
+import { extensionForMimeType, type Base64Image } from '@/lib/image-data'
+import { cancelJob, type GenerationJob } from '@/lib/jobs'
+
+/** What a client can agree to. `photos` is needed to store their photo or any look made for them. */
+export type ConsentScope = 'photos' | 'portfolio'
+
+export const CONSENT_SCOPES: readonly ConsentScope[] = ['photos', 'portfolio']
+
+export const CONSENT_SCOPE_LABELS: Record<ConsentScope, string> = {
+  photos: 'Store their photo and the looks made for them',
+  portfolio: "Show their looks in the salon's portfolio",
+}
+
+export const CLIENT_NAME_MAX_LENGTH = 100
+export const CLIENT_NOTES_MAX_LENGTH = 2000
+
+export interface ClientProfile {
+  id: string
+  organization_id: string
+  name: string
+  notes: string
+  /** Only set while the client consents to `photos`. */
+  photo_path: string | null
+  created_by: string | null
+  created_at: string
+  updated_at: string
+}
+
+/** One consent record. The newest is in force; an empty `scopes` is a withdrawal. */
+export interface ClientConsent {
+  id: string
+  client_profile_id: string
+  scopes: ConsentScope[]
+  recorded_by: string | null
+  recorded_at: string
+}
+
+export function isConsentScope(value: unknown): value is ConsentScope {
+  return typeof value === 'string' && (CONSENT_SCOPES as readonly string[]).includes(value)
+}
+
+export function hasConsent(consent: ClientConsent | null, scope: ConsentScope) {
+  return consent?.scopes.includes(scope) ?? false
+}
+
+/** Matches anywhere in the name, case-insensitively; `%` and `_` in the query are literal. */
+export async function searchClientProfiles(supabase: SupabaseClient, organizationId: string, query = '', limit = 50) {
+  let request = supabase.from('client_profiles').select('*').eq('organization_id', organizationId)
+  const term = query.trim()
+  if (term) request = request.ilike('name', `%${term.replace(/[\\%_]/g, '\\$&')}%`)
+
+  const { data, error } = await request.order('name').limit(limit).returns<ClientProfile[]>()
+  if (error) throw error
+  return data ?? []
+}
+
+/** A profile in `organizationId`, or null if there is none the current user may see. */
+export async function getClientProfile(supabase: SupabaseClient, organizationId: string, id: string) {
+  const { data, error } = await supabase
+    .from('client_profiles')
+    .select('*')
+    .eq('organization_id', organizationId)
+    .eq('id', id)
+    .maybeSingle<ClientProfile>()
+  if (error) throw error
+  return data
+}
+
+/** Creates a profile together with its first consent record and returns its id. */
+export async function createClientProfile(
+  supabase: SupabaseClient,
+  { organizationId, name, notes, scopes }: { organizationId: string; name: string; notes: string; scopes: ConsentScope[] }
+) {
+  const { data, error } = await supabase
+    .from('client_profiles')
+    .insert({ organization_id: organizationId, name, notes })
+    .select('id')
+    .single<Pick<ClientProfile, 'id'>>()
+  if (error) throw error
+
+  await recordConsent(supabase, data.id, scopes)
+  return data.id
+}
+
+export async function updateClientProfile(
+  supabase: SupabaseClient,
+  id: string,
+  changes: { name?: string; notes?: string }
+) {
+  const { error } = await supabase
+    .from('client_profiles')
+    .update({ ...changes, updated_at: new Date().toISOString() })
+    .eq('id', id)
+  if (error) throw error
+}
+
+/** Consent records for a profile, newest (the one in force) first. */
+export async function listConsents(supabase: SupabaseClient, clientProfileId: string) {
+  const { data, error } = await supabase
+    .from('client_consents')
+    .select('*')
+    .eq('client_profile_id', clientProfileId)
+    .order('recorded_at', { ascending: false })
+    .returns<ClientConsent[]>()
+  if (error) throw error
+  return data ?? []
+}
+
+export async function currentConsent(supabase: SupabaseClient, clientProfileId: string) {
+  const { data, error } = await supabase
+    .from('client_consents')
+    .select('*')
+    .eq('client_profile_id', clientProfileId)
+    .order('recorded_at', { ascending: false })
+    .limit(1)
+    .maybeSingle<ClientConsent>()
+  if (error) throw error
+  return data
+}
+
+export async function recordConsent(supabase: SupabaseClient, clientProfileId: string, scopes: ConsentScope[]) {
+  const { error } = await supabase
+    .from('client_consents')
+    .insert({ client_profile_id: clientProfileId, scopes: [...new Set(scopes)] })
+  if (error) throw error
+}
+
+/**
+ * Replaces the profile photo. It is stored under the organization's folder so
+ * every stylist can start a session with it.
+ */
+export async function setClientPhoto(supabase: SupabaseClient, profile: ClientProfile, image: Base64Image) {
+  const path = `organizations/${profile.organization_id}/clients/${profile.id}/photo-${Date.now()}.${extensionForMimeType(image.mimeType)}`
+  await uploadImage(supabase, path, image)
+
+  const { error } = await supabase
+    .from('client_profiles')
+    .update({ photo_path: path, updated_at: new Date().toISOString() })
+    .eq('id', profile.id)
+  if (error) {
+    await supabase.storage.from(GENERATIONS_BUCKET).remove([path])
+    throw error
+  }
+
+  if (profile.photo_path) await removeStoredPhoto(supabase, profile.photo_path)
+  return path
+}
+
+export async function removeClientPhoto(supabase: SupabaseClient, profile: ClientProfile) {
+  if (!profile.photo_path) return
+  const { error } = await supabase
+    .from('client_profiles')
+    .update({ photo_path: null, updated_at: new Date().toISOString() })
+    .eq('id', profile.id)
+  if (error) throw error
+  await removeStoredPhoto(supabase, profile.photo_path)
+}
+
+async function removeStoredPhoto(supabase: SupabaseClient, path: string) {
+  const { error } = await supabase.storage.from(GENERATIONS_BUCKET).remove([path])
+  if (error) console.error('Failed to remove client photo:', error)
+}
+
+type ClientJobImages = Pick<GenerationJob, 'input_path' | 'output_path' | 'reference_path' | 'mask_path' | 'session_id'>
+
+/**
+ * Deletes every look made for a profile, whichever stylist made it, along with
+ * the edit sessions and jobs that hold its photos and results, then the images
+ * nothing else uses. Unfinished jobs are cancelled and refunded first. Needs
+ * the service-role client: staff can only delete their own generations.
+ * Returns how many looks were deleted.
+ */
+export async function deleteClientGenerations(admin: SupabaseClient, clientProfileId: string) {
+  const { data: unfinished, error: unfinishedError } = await admin
+    .from('generation_jobs')
+    .select('id, user_id')
+    .eq('client_profile_id', clientProfileId)
+    .in('status', ['queued', 'running'])
+    .returns<Pick<GenerationJob, 'id' | 'user_id'>[]>()
+  if (unfinishedError) throw unfinishedError
+  for (const job of unfinished ?? []) {
+    await cancelJob(admin, job.user_id, job.id)
+  }
+
+  const [generations, jobs] = await Promise.all([
+    admin
+      .from('generations')
+      .select('id')
+      .eq('client_profile_id', clientProfileId)
+      .returns<{ id: string }[]>(),
+    admin
+      .from('generation_jobs')
+      .select('input_path, output_path, reference_path, mask_path, session_id')
+      .eq('client_profile_id', clientProfileId)
+      .returns<ClientJobImages[]>(),
+  ])
+  if (generations.error) throw generations.error
+  if (jobs.error) throw jobs.error
+
+  const sessionIds = [...new Set((jobs.data ?? []).flatMap((job) => (job.session_id ? [job.session_id] : [])))]
+  const paths = (jobs.data ?? []).flatMap((job) => [job.input_path, job.output_path, job.reference_path, job.mask_path])
+  if (sessionIds.length > 0) {
+    const [sessions, steps] = await Promise.all([
+      admin
+        .from('edit_sessions')
+        .select('reference_path, mask_path')
+        .in('id', sessionIds)
+        .returns<{ reference_path: string | null; mask_path: string | null }[]>(),
+      admin.from('edit_steps').select('image_path').in('session_id', sessionIds).returns<{ image_path: string }[]>(),
+    ])
+    if (sessions.error) throw sessions.error
+    if (steps.error) throw steps.error
+    paths.push(
+      ...(sessions.data ?? []).flatMap((session) => [session.reference_path, session.mask_path]),
+      ...(steps.data ?? []).map((step) => step.image_path)
+    )
+  }
+
+  let deleted = 0
+  for (const { id } of generations.data ?? []) {
+    if (await deleteGeneration(admin, id)) deleted++
+  }
+
+  // Steps reference the same images as the looks, so they go before the
+  // images can. Deleting a session deletes its steps.
+  const { error: jobsError } = await admin.from('generation_jobs').delete().eq('client_profile_id', clientProfileId)
+  if (jobsError) throw jobsError
+  if (sessionIds.length > 0) {
+    const { error: sessionsError } = await admin.from('edit_sessions').delete().in('id', sessionIds)
+    if (sessionsError) throw sessionsError
+  }
+
+  try {
+    await removeUnusedImages(admin, paths.filter((path): path is string => path !== null))
+  } catch (err) {
+    console.error('Failed to remove client images:', err)
+  }
+  return deleted
+}
+
+/**
+ * Deletes a profile, its photo, its consent records and the looks made for
+ * it. Returns false if there is no such profile.
+ */
+export async function deleteClientProfile(supabase: SupabaseClient, admin: SupabaseClient, profile: ClientProfile) {
+  await deleteClientGenerations(admin, profile.id)
+
+  const { data, error } = await supabase.from('client_profiles').delete().eq('id', profile.id).select('id')
+  if (error) throw error
+  if (profile.photo_path) await removeStoredPhoto(supabase, profile.photo_path)
+  return (data ?? []).length > 0
+}
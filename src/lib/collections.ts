@@ -0,0 +1,191 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+
+import { withSignedUrls, type GenerationRecord } from '@/lib/generations'
+
+export const COLLECTION_NAME_MAX_LENGTH = 100
+export const NOTE_MAX_LENGTH = 2000
+
+export interface Collection {
+  id: string
+  user_id: string
+  name: string
+  created_at: string
+  updated_at: string
+}
+
+export interface CollectionSummary extends Collection {
+  itemCount: number
+}
+
+/** The current user's star, note and collections for one look, as the result panel shows them. */
+export interface LookAnnotations {
+  favorite: boolean
+  note: string
+  collections: { id: string; name: string; contains: boolean }[]
+}
+
+/** The current user's collections, alphabetically, with how many looks each holds. */
+export async function listCollections(supabase: SupabaseClient) {
+  const { data, error } = await supabase
+    .from('collections')
+    .select('*, collection_items (count)')
+    .order('name')
+    .returns<(Collection & { collection_items: { count: number }[] })[]>()
+  if (error) throw error
+
+  return (data ?? []).map(
+    ({ collection_items, ...collection }): CollectionSummary => ({
+      ...collection,
+      itemCount: collection_items[0]?.count ?? 0,
+    })
+  )
+}
+
+/** A collection of the current user, or null if there is none. */
+export async function getCollection(supabase: SupabaseClient, id: string) {
+  const { data, error } = await supabase.from('collections').select('*').eq('id', id).maybeSingle<Collection>()
+  if (error) throw error
+  return data
+}
+
+export async function createCollection(supabase: SupabaseClient, name: string) {
+  const { data, error } = await supabase.from('collections').insert({ name }).select().single<Collection>()
+  if (error) throw error
+  return data
+}
+
+/** Returns false if the collection does not exist or belongs to someone else. */
+export async function renameCollection(supabase: SupabaseClient, id: string, name: string) {
+  const { data, error } = await supabase
+    .from('collections')
+    .update({ name, updated_at: new Date().toISOString() })
+    .eq('id', id)
+    .select('id')
+  if (error) throw error
+  return (data ?? []).length > 0
+}
+
+/** Deletes a collection. The looks in it are kept. */
+export async function deleteCollection(supabase: SupabaseClient, id: string) {
+  const { data, error } = await supabase.from('collections').delete().eq('id', id).select('id')
+  if (error) throw error
+  return (data ?? []).length > 0
+}
+
+/**
+ * Adds a look to a collection; adding it again is a no-op. Returns false if
+ * the collection is not the current user's or they cannot see the look.
+ */
+export async function addToCollection(supabase: SupabaseClient, collectionId: string, generationId: string) {
+  const { error } = await supabase
+    .from('collection_items')
+    .upsert({ collection_id: collectionId, generation_id: generationId }, { ignoreDuplicates: true })
+  // Row-level security rejects the insert; a missing look fails the foreign key
+  if (error?.code === '42501' || error?.code === '23503') return false
+  if (error) throw error
+  return true
+}
+
+export async function removeFromCollection(supabase: SupabaseClient, collectionId: string, generationId: string) {
+  const { data, error } = await supabase
+    .from('collection_items')
+    .delete()
+    .eq('collection_id', collectionId)
+    .eq('generation_id', generationId)
+    .select('generation_id')
+  if (error) throw error
+  return (data ?? []).length > 0
+}
+
+/** Looks in a collection that the current user can still see, most recently added first. */
+export async function listCollectionGenerations(supabase: SupabaseClient, collectionId: string) {
+  const { data, error } = await supabase
+    .from('collection_items')
+    .select('generation:generations (*)')
+    .eq('collection_id', collectionId)
+    .order('added_at', { ascending: false })
+    .returns<{ generation: GenerationRecord | null }[]>()
+  if (error) throw error
+  return withSignedUrls(supabase, (data ?? []).flatMap(({ generation }) => (generation ? [generation] : [])))
+}
+
+/** Starred looks that the current user can still see, most recently starred first. */
+export async function listFavoriteGenerations(supabase: SupabaseClient, limit = 50) {
+  const { data, error } = await supabase
+    .from('generation_favorites')
+    .select('generation:generations (*)')
+    .order('created_at', { ascending: false })
+    .limit(limit)
+    .returns<{ generation: GenerationRecord | null }[]>()
+  if (error) throw error
+  return withSignedUrls(supabase, (data ?? []).flatMap(({ generation }) => (generation ? [generation] : [])))
+}
+
+/** Stars or unstars a look. Returns false if the current user cannot see it. */
+export async function setFavorite(supabase: SupabaseClient, generationId: string, favorite: boolean) {
+  if (!favorite) {
+    const { error } = await supabase.from('generation_favorites').delete().eq('generation_id', generationId)
+    if (error) throw error
+    return true
+  }
+
+  const { error } = await supabase
+    .from('generation_favorites')
+    .upsert({ generation_id: generationId }, { onConflict: 'user_id,generation_id', ignoreDuplicates: true })
+  if (error?.code === '42501' || error?.code === '23503') return false
+  if (error) throw error
+  return true
+}
+
+/** Saves the current user's note on a look; an empty note deletes it. Returns false if they cannot see the look. */
+export async function saveNote(supabase: SupabaseClient, generationId: string, body: string) {
+  if (!body) {
+    const { error } = await supabase.from('generation_notes').delete().eq('generation_id', generationId)
+    if (error) throw error
+    return true
+  }
+
+  const { error } = await supabase
+    .from('generation_notes')
+    .upsert({ generation_id: generationId, body, updated_at: new Date().toISOString() }, { onConflict: 'user_id,generation_id' })
+  if (error?.code === '42501' || error?.code === '23503') return false
+  if (error) throw error
+  return true
+}
+
+/** The current user's notes on the given looks, keyed by generation id. */
+export async function getNotes(supabase: SupabaseClient, generationIds: string[]) {
+  const notes = new Map<string, string>()
+  if (generationIds.length === 0) return notes
+
+  const { data, error } = await supabase
+    .from('generation_notes')
+    .select('generation_id, body')
+    .in('generation_id', [...new Set(generationIds)])
+    .returns<{ generation_id: string; body: string }[]>()
+  if (error) throw error
+  for (const row of data ?? []) notes.set(row.generation_id, row.body)
+  return notes
+}
+
+export async function getLookAnnotations(supabase: SupabaseClient, generationId: string): Promise<LookAnnotations> {
+  const [favorite, notes, collections, items] = await Promise.all([
+    supabase.from('generation_favorites').select('generation_id').eq('generation_id', generationId).maybeSingle(),
+    getNotes(supabase, [generationId]),
+    listCollections(supabase),
+    supabase
+      .from('collection_items')
+      .select('collection_id')
+      .eq('generation_id', generationId)
+      .returns<{ collection_id: string }[]>(),
+  ])
+  if (favorite.error) throw favorite.error
+  if (items.error) throw items.error
+
+  const containing = new Set((items.data ?? []).map((item) => item.collection_id))
+  return {
+    favorite: favorite.data !== null,
+    note: notes.get(generationId) ?? '',
+    collections: collections.map(({ id, name }) => ({ id, name, contains: containing.has(id) })),
+  }
+}
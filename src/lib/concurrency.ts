@@ -0,0 +1,21 @@
+/**
+ * Runs `worker` over `items` with at most `limit` calls in flight, starting
+ * the next item as soon as any earlier one settles. Workers are expected to
+ * handle their own errors; a rejection aborts the remaining queue.
+ */
+export async function runWithConcurrency<T>(
+  items: readonly T[],
+  limit: number,
+  worker: (item: T, index: number) => Promise<void>
+) {
+  let next = 0
+
+  const runners = Array.from({ length: Math.min(Math.max(1, limit), items.length) }, async () => {
+    while (next < items.length) {
+      const index = next++
+      await worker(items[index], index)
+    }
+  })
+
+  await Promise.all(runners)
+}
@@ -0,0 +1,191 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+
+import { createSignedImageUrls, downloadImage } from '@/lib/generations'
+import type { StyleSelection } from '@/lib/prompt-builder'
+import type { EditTurn } from '@/lib/providers/types'
+
+export interface EditSession {
+  id: string
+  user_id: string
+  /** Hairstyle photo the first generation copied from, if any. */
+  reference_path: string | null
+  /** Region every step may change; the rest is copied from the parent image. */
+  mask_path: string | null
+  created_at: string
+}
+
+export interface EditStep {
+  id: string
+  session_id: string
+  user_id: string
+  parent_id: string | null
+  instruction: string | null
+  prompt: string | null
+  image_path: string
+  generation_id: string | null
+  created_at: string
+}
+
+export interface EditStepView {
+  id: string
+  parentId: string | null
+  instruction: string | null
+  imageUrl: string | null
+  /** The history entry for this step's result; null for the root. */
+  generationId: string | null
+  createdAt: string
+}
+
+/** A session as the browser sees it: every step, oldest first, with signed image URLs. */
+export interface EditSessionView {
+  id: string
+  referenceUrl: string | null
+  steps: EditStepView[]
+}
+
+/**
+ * Earlier turns replayed to the model. Older turns are dropped and the image
+ * before the first kept turn stands in for the original photo, which keeps
+ * long sessions within the model's request size.
+ */
+const MAX_CONTEXT_TURNS = 3
+
+/**
+ * Starts a session whose root step is the uploaded photo at `imagePath`.
+ * Needs the service-role client.
+ */
+export async function createEditSession(
+  admin: SupabaseClient,
+  userId: string,
+  imagePath: string,
+  { referencePath = null, maskPath = null }: { referencePath?: string | null; maskPath?: string | null } = {}
+) {
+  const { data: session, error } = await admin
+    .from('edit_sessions')
+    .insert({ user_id: userId, reference_path: referencePath, mask_path: maskPath })
+    .select()
+    .single<EditSession>()
+  if (error) throw error
+
+  const { data: root, error: stepError } = await admin
+    .from('edit_steps')
+    .insert({ session_id: session.id, user_id: userId, image_path: imagePath })
+    .select()
+    .single<EditStep>()
+  if (stepError) throw stepError
+
+  return { session, root }
+}
+
+export async function getEditSessionRecord(supabase: SupabaseClient, id: string) {
+  const { data, error } = await supabase.from('edit_sessions').select('*').eq('id', id).maybeSingle<EditSession>()
+  if (error) throw error
+  return data
+}
+
+/**
+ * Returns the current user's step, or null if it does not exist or belongs to
+ * someone else.
+ */
+export async function getEditStep(supabase: SupabaseClient, id: string) {
+  const { data, error } = await supabase.from('edit_steps').select('*').eq('id', id).maybeSingle<EditStep>()
+  if (error) throw error
+  return data
+}
+
+/**
+ * The catalog styles behind a step's image, so refinements keep describing
+ * the look they started from. Null for the root photo or when the step's
+ * generation has been deleted.
+ */
+export async function selectionForStep(supabase: SupabaseClient, step: EditStep) {
+  if (!step.generation_id) return null
+  const { data, error } = await supabase
+    .from('generations')
+    .select('selection')
+    .eq('id', step.generation_id)
+    .maybeSingle<{ selection: StyleSelection }>()
+  if (error) throw error
+  return data?.selection ?? null
+}
+
+async function listSteps(supabase: SupabaseClient, sessionId: string) {
+  const { data, error } = await supabase
+    .from('edit_steps')
+    .select('*')
+    .eq('session_id', sessionId)
+    .order('created_at', { ascending: true })
+    .returns<EditStep[]>()
+  if (error) throw error
+  return data ?? []
+}
+
+/** Adds a generated step under `step.parent_id`. Needs the service-role client. */
+export async function addEditStep(
+  admin: SupabaseClient,
+  step: Pick<EditStep, 'session_id' | 'user_id' | 'parent_id' | 'instruction' | 'prompt' | 'image_path' | 'generation_id'>
+) {
+  const { data, error } = await admin.from('edit_steps').insert(step).select().single<EditStep>()
+  if (error) throw error
+  return data
+}
+
+/**
+ * What the provider needs to apply a new instruction on top of `parentStepId`:
+ * the starting image and the turns that led from it to the parent. The
+ * session's reference photo comes along while the original photo is still
+ * the starting image, since only the first turn talks about it. `original`
+ * is the session's photo, which results are compared with.
+ */
+export async function loadEditContext(admin: SupabaseClient, sessionId: string, parentStepId: string) {
+  const [allSteps, { data: session, error }] = await Promise.all([
+    listSteps(admin, sessionId),
+    admin.from('edit_sessions').select('reference_path').eq('id', sessionId).single<Pick<EditSession, 'reference_path'>>(),
+  ])
+  if (error) throw error
+  const steps = new Map(allSteps.map((step) => [step.id, step]))
+
+  const chain: EditStep[] = []
+  for (let step = steps.get(parentStepId); step; step = step.parent_id ? steps.get(step.parent_id) : undefined) {
+    chain.unshift(step)
+  }
+  if (chain.length === 0) {
+    throw new Error(`Edit step ${parentStepId} not found in session ${sessionId}`)
+  }
+
+  const kept = chain.slice(Math.max(1, chain.length - MAX_CONTEXT_TURNS))
+  const base = chain[chain.length - kept.length - 1]
+  const [image, ...images] = await Promise.all([base, ...kept].map((step) => downloadImage(admin, step.image_path)))
+  const history: EditTurn[] = kept.map((step, i) => ({ prompt: step.prompt ?? '', image: images[i] }))
+  const reference =
+    session.reference_path && !base.parent_id ? await downloadImage(admin, session.reference_path) : undefined
+  const original = base === chain[0] ? image : await downloadImage(admin, chain[0].image_path)
+
+  return { image, reference, history, original }
+}
+
+/**
+ * Returns the current user's session with signed URLs, or null if it does not
+ * exist or belongs to someone else.
+ */
+export async function getEditSession(supabase: SupabaseClient, id: string): Promise<EditSessionView | null> {
+  const [steps, session] = await Promise.all([listSteps(supabase, id), getEditSessionRecord(supabase, id)])
+  if (!session) return null
+
+  const paths = steps.map((step) => step.image_path)
+  if (session.reference_path) paths.push(session.reference_path)
+  const urls = await createSignedImageUrls(supabase, paths)
+
+  return {
+    id,
+    referenceUrl: session.reference_path ? (urls.get(session.reference_path) ?? null) : null,
+    steps: steps.map((step) => ({
+      id: step.id,
+      parentId: step.parent_id,
+      instruction: step.instruction,
+      imageUrl: urls.get(step.image_path) ?? null,
+      generationId: step.generation_id,
+      createdAt: step.created_at,
+    })),
+  }
+}
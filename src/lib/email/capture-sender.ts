@@ -0,0 +1,24 @@
+import type { EmailMessage, EmailSender } from '@/lib/email/types'
+
+/**
+ * Keeps messages in memory instead of sending them, for tests and local
+ * development. Each one is also logged so the links in it can be followed.
+ */
+export class CaptureEmailSender implements EmailSender {
+  readonly name = 'capture'
+  private messages: EmailMessage[] = []
+
+  async send(message: EmailMessage) {
+    this.messages.push(message)
+    console.info(`[email] To: ${message.to}\nSubject: ${message.subject}\n\n${message.text}`)
+  }
+
+  /** Everything sent since the last `clear()`, oldest first. */
+  sent(): readonly EmailMessage[] {
+    return this.messages
+  }
+
+  clear() {
+    this.messages = []
+  }
+}
@@ -0,0 +1,23 @@
+import { CaptureEmailSender } from '@/lib/email/capture-sender'
+import type { EmailSender } from '@/lib/email/types'
+
+export * from '@/lib/email/capture-sender'
+export * from '@/lib/email/types'
+
+/** Shared so tests can read what the app sent. */
+export const captureEmailSender = new CaptureEmailSender()
+
+/**
+ * Picks the sender named by `EMAIL_PROVIDER`. Only `capture` (the default)
+ * exists so far: it logs messages instead of delivering them.
+ */
+export function getEmailSender(): EmailSender {
+  const name = process.env.EMAIL_PROVIDER ?? 'capture'
+
+  switch (name) {
+    case 'capture':
+      return captureEmailSender
+    default:
+      throw new Error(`Unknown EMAIL_PROVIDER: ${name}`)
+  }
+}
@@ -0,0 +1,15 @@
+export interface EmailMessage {
+  to: string
+  subject: string
+  /** Plain text body. */
+  text: string
+}
+
+/**
+ * Delivers transactional email. Implementations throw when the message could
+ * not be handed over; callers decide whether that fails the request.
+ */
+export interface EmailSender {
+  readonly name: string
+  send(message: EmailMessage): Promise<void>
+}
@@ -0,0 +1,227 @@
+import { MESSAGES, type MessageKey } from '@/lib/errors/messages'
+import type { ProviderFailureKind } from '@/lib/providers/types'
+
+export { MESSAGES, type MessageKey } from '@/lib/errors/messages'
+
+export interface ErrorDefinition {
+  /** HTTP status a route answers with. */
+  status: number
+  messageKey: MessageKey
+  /** What the user can do about it, shown on the error page. */
+  guidanceKey?: MessageKey
+  action?: { labelKey: MessageKey; href: string }
+}
+
+/**
+ * Every error the app reports, by stable code. Codes are part of the API
+ * (`{ error, code }` bodies and `/auth/error?code=`), so never rename one;
+ * add a new code instead.
+ */
+export const ERRORS = {
+  unauthenticated: {
+    status: 401,
+    messageKey: 'general.unauthenticated',
+    action: { labelKey: 'auth.login', href: '/auth/login' },
+  },
+  'invalid-json': { status: 400, messageKey: 'general.invalidJson' },
+  'invalid-request': { status: 400, messageKey: 'general.invalidRequest' },
+  'not-found': { status: 404, messageKey: 'general.notFound' },
+  forbidden: { status: 403, messageKey: 'general.forbidden', action: { labelKey: 'general.goHome', href: '/' } },
+  internal: { status: 500, messageKey: 'general.internal', guidanceKey: 'general.errorGuidance' },
+
+  'file-too-large': { status: 413, messageKey: 'upload.fileTooLarge' },
+  'unsupported-type': { status: 415, messageKey: 'upload.unsupportedType' },
+  'type-mismatch': { status: 415, messageKey: 'upload.typeMismatch' },
+  'dimensions-too-small': { status: 422, messageKey: 'upload.dimensionsTooSmall' },
+  'dimensions-too-large': { status: 422, messageKey: 'upload.dimensionsTooLarge' },
+  unreadable: { status: 422, messageKey: 'upload.unreadable' },
+  'invalid-mask': { status: 422, messageKey: 'upload.invalidMask' },
+
+  'instruction-too-long': { status: 400, messageKey: 'instruction.tooLong' },
+  'instruction-prompt-injection': { status: 422, messageKey: 'instruction.promptInjection' },
+  'instruction-identity': { status: 422, messageKey: 'instruction.identity' },
+  'instruction-age': { status: 422, messageKey: 'instruction.age' },
+  'instruction-ethnicity': { status: 422, messageKey: 'instruction.ethnicity' },
+  'instruction-clothing': { status: 422, messageKey: 'instruction.clothing' },
+
+  'daily-limit': { status: 429, messageKey: 'quota.dailyLimit' },
+  'monthly-limit': { status: 429, messageKey: 'quota.monthlyLimit' },
+  'rate-limited': { status: 429, messageKey: 'quota.rateLimited' },
+  'insufficient-credits': { status: 402, messageKey: 'credits.insufficient' },
+
+  'queue-failed': { status: 500, messageKey: 'generation.queueFailed' },
+  'generation-not-found': { status: 404, messageKey: 'generation.notFound' },
+  'generation-delete-failed': { status: 500, messageKey: 'generation.deleteFailed' },
+  'generation-timeout': { status: 504, messageKey: 'generation.timeout' },
+  'generation-cancelled': { status: 499, messageKey: 'generation.cancelled' },
+  'generation-rate-limited': { status: 503, messageKey: 'generation.rateLimited' },
+  'generation-unavailable': { status: 503, messageKey: 'generation.unavailable' },
+  'generation-safety-blocked': { status: 422, messageKey: 'generation.safetyBlocked' },
+  'generation-no-image': { status: 502, messageKey: 'generation.noImage' },
+  'generation-failed': { status: 502, messageKey: 'generation.failed' },
+  'job-not-found': { status: 404, messageKey: 'job.notFound' },
+  'job-load-failed': { status: 500, messageKey: 'job.loadFailed' },
+  'job-finished': { status: 409, messageKey: 'job.finished' },
+  'job-cancel-failed': { status: 500, messageKey: 'job.cancelFailed' },
+  'job-worker-failed': { status: 500, messageKey: 'job.workerFailed' },
+
+  'session-not-found': { status: 404, messageKey: 'session.notFound' },
+  'session-load-failed': { status: 500, messageKey: 'session.loadFailed' },
+  'edit-step-not-found': { status: 404, messageKey: 'session.stepNotFound' },
+
+  'organization-not-found': { status: 404, messageKey: 'organization.notFound' },
+  'organization-load-failed': { status: 500, messageKey: 'organization.loadFailed' },
+  'organization-update-failed': { status: 500, messageKey: 'organization.updateFailed' },
+  'invitation-not-found': { status: 404, messageKey: 'organization.invitationNotFound' },
+  'invitation-email-failed': { status: 502, messageKey: 'organization.invitationEmailFailed' },
+  'member-not-found': { status: 404, messageKey: 'organization.memberNotFound' },
+  'client-not-found': { status: 404, messageKey: 'organization.clientNotFound' },
+
+  'client-profile-not-found': { status: 404, messageKey: 'clientProfile.notFound' },
+  'client-profile-load-failed': { status: 500, messageKey: 'clientProfile.loadFailed' },
+  'client-profile-update-failed': { status: 500, messageKey: 'clientProfile.updateFailed' },
+  'consent-required': { status: 403, messageKey: 'clientProfile.consentRequired' },
+
+  'slot-unavailable': { status: 409, messageKey: 'booking.slotUnavailable' },
+  'stylist-not-found': { status: 404, messageKey: 'booking.stylistNotFound' },
+  'booking-not-found': { status: 404, messageKey: 'booking.notFound' },
+  'booking-failed': { status: 500, messageKey: 'booking.failed' },
+  'bookings-load-failed': { status: 500, messageKey: 'booking.loadFailed' },
+  'availability-update-failed': { status: 500, messageKey: 'booking.availabilityUpdateFailed' },
+
+  'share-link-not-found': { status: 404, messageKey: 'share.notFound' },
+  'share-link-failed': { status: 500, messageKey: 'share.failed' },
+  'share-consent-required': { status: 403, messageKey: 'share.consentRequired' },
+
+  'collection-not-found': { status: 404, messageKey: 'collection.notFound' },
+  'collections-load-failed': { status: 500, messageKey: 'collection.loadFailed' },
+  'collection-update-failed': { status: 500, messageKey: 'collection.updateFailed' },
+
+  'unknown-pack': { status: 400, messageKey: 'billing.unknownPack' },
+  'checkout-failed': { status: 500, messageKey: 'billing.checkoutFailed' },
+  'invalid-checkout-link': { status: 400, messageKey: 'billing.invalidCheckoutLink' },
+  'webhook-invalid': { status: 400, messageKey: 'billing.webhookInvalid' },
+  'webhook-failed': { status: 500, messageKey: 'billing.webhookFailed' },
+
+  'auth-missing-code': {
+    status: 400,
+    messageKey: 'auth.missingCode',
+    guidanceKey: 'auth.missingCodeGuidance',
+    action: { labelKey: 'auth.login', href: '/auth/login' },
+  },
+  'auth-link-invalid': {
+    status: 400,
+    messageKey: 'auth.linkInvalid',
+    guidanceKey: 'auth.linkInvalidGuidance',
+    action: { labelKey: 'auth.requestNewLink', href: '/auth/forgot-password' },
+  },
+  'auth-link-expired': {
+    status: 400,
+    messageKey: 'auth.linkExpired',
+    guidanceKey: 'auth.linkExpiredGuidance',
+    action: { labelKey: 'auth.requestNewLink', href: '/auth/forgot-password' },
+  },
+  'auth-invalid-credentials': { status: 400, messageKey: 'auth.invalidCredentials' },
+  'auth-invalid-email': { status: 400, messageKey: 'auth.invalidEmail' },
+  'auth-email-not-confirmed': {
+    status: 400,
+    messageKey: 'auth.emailNotConfirmed',
+    guidanceKey: 'auth.emailNotConfirmedGuidance',
+    action: { labelKey: 'auth.login', href: '/auth/login' },
+  },
+  'auth-user-exists': {
+    status: 422,
+    messageKey: 'auth.userExists',
+    action: { labelKey: 'auth.login', href: '/auth/login' },
+  },
+  'auth-weak-password': { status: 422, messageKey: 'auth.weakPassword' },
+  'auth-same-password': { status: 422, messageKey: 'auth.samePassword' },
+  'auth-password-mismatch': { status: 400, messageKey: 'auth.passwordMismatch' },
+  'auth-rate-limited': { status: 429, messageKey: 'auth.rateLimited' },
+  'auth-session-missing': {
+    status: 401,
+    messageKey: 'auth.sessionMissing',
+    action: { labelKey: 'auth.login', href: '/auth/login' },
+  },
+  'auth-failed': {
+    status: 400,
+    messageKey: 'auth.failed',
+    guidanceKey: 'general.errorGuidance',
+    action: { labelKey: 'auth.login', href: '/auth/login' },
+  },
+} as const satisfies Record<string, ErrorDefinition>
+
+export type AppErrorCode = keyof typeof ERRORS
+
+export function isAppErrorCode(value: unknown): value is AppErrorCode {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(ERRORS, value)
+}
+
+export function getErrorDefinition(code: AppErrorCode): ErrorDefinition {
+  return ERRORS[code]
+}
+
+export function messageFor(code: AppErrorCode) {
+  return MESSAGES[ERRORS[code].messageKey]
+}
+
+/**
+ * An error with a stable code. `message` defaults to the user-facing copy;
+ * pass one only to add detail for logs.
+ */
+export class AppError extends Error {
+  readonly status: number
+
+  constructor(
+    public readonly code: AppErrorCode,
+    message: string = messageFor(code),
+    options?: { cause?: unknown }
+  ) {
+    super(message)
+    this.name = 'AppError'
+    this.status = ERRORS[code].status
+    if (options?.cause !== undefined) this.cause = options.cause
+  }
+}
+
+/** The error code for a generation that failed with `kind`. */
+export function generationFailureCode(kind: ProviderFailureKind): AppErrorCode {
+  return `generation-${kind}`
+}
+
+const AUTH_ERROR_CODES: Record<string, AppErrorCode> = {
+  invalid_credentials: 'auth-invalid-credentials',
+  email_address_invalid: 'auth-invalid-email',
+  email_not_confirmed: 'auth-email-not-confirmed',
+  user_already_exists: 'auth-user-exists',
+  email_exists: 'auth-user-exists',
+  weak_password: 'auth-weak-password',
+  same_password: 'auth-same-password',
+  otp_expired: 'auth-link-expired',
+  flow_state_expired: 'auth-link-expired',
+  flow_state_not_found: 'auth-link-invalid',
+  bad_code_verifier: 'auth-link-invalid',
+  bad_oauth_state: 'auth-link-invalid',
+  otp_disabled: 'auth-link-invalid',
+  over_request_rate_limit: 'auth-rate-limited',
+  over_email_send_rate_limit: 'auth-rate-limited',
+  session_not_found: 'auth-session-missing',
+  session_expired: 'auth-session-missing',
+}
+
+/**
+ * Maps a Supabase Auth error (or anything thrown around an auth call) to an
+ * app error code, by its `code` where Supabase provides one.
+ */
+export function authErrorCode(error: unknown): AppErrorCode {
+  if (error instanceof AppError) return error.code
+  const code = typeof error === 'object' && error !== null ? (error as { code?: unknown }).code : undefined
+  if (typeof code === 'string' && code in AUTH_ERROR_CODES) return AUTH_ERROR_CODES[code]
+  const status = typeof error === 'object' && error !== null ? (error as { status?: unknown }).status : undefined
+  return status === 429 ? 'auth-rate-limited' : 'auth-failed'
+}
+
+/** Path of the error page for `code`. */
+export function errorPagePath(code: AppErrorCode) {
+  return `/auth/error?code=${encodeURIComponent(code)}`
+}
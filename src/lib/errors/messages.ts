@@ -0,0 +1,137 @@
+import { MAX_INSTRUCTION_LENGTH } from '@/lib/prompt-builder'
+import { UPLOAD_LIMITS } from '@/lib/upload-validation'
+
+/**
+ * User-facing copy for every error, keyed by a stable message key. Codes in
+ * `ERRORS` point here, so wording can change without touching the codes that
+ * clients match on.
+ */
+export const MESSAGES = {
+  // General
+  'general.unauthenticated': 'Please log in to continue.',
+  'general.invalidJson': 'The request body must be valid JSON.',
+  'general.invalidRequest': 'That request was not valid.',
+  'general.notFound': 'We could not find what you were looking for.',
+  'general.internal': 'Something went wrong on our side. Please try again.',
+  'general.forbidden': 'Your role in this organization does not allow that. Ask an owner, or switch accounts.',
+  'general.errorTitle': 'Sorry, something went wrong.',
+  'general.errorGuidance': 'Please try again. If it keeps happening, contact support.',
+  'general.goHome': 'Back to the app',
+
+  // Uploads
+  'upload.fileTooLarge': 'This photo file is too large. Please choose a smaller one.',
+  'upload.unsupportedType': 'This file type is not supported. Please use a JPG, PNG or WebP photo.',
+  'upload.typeMismatch': 'This file does not look like the image type it claims to be. Please re-save it and try again.',
+  'upload.dimensionsTooSmall': `This photo is too small. Please use one at least ${UPLOAD_LIMITS.minDimension} pixels on each side.`,
+  'upload.dimensionsTooLarge': `This photo is too large. Please use one at most ${UPLOAD_LIMITS.maxDimension} pixels on each side.`,
+  'upload.unreadable': 'This image could not be read. It may be corrupted.',
+  'upload.invalidMask': 'The painted area does not match this photo. Please repaint it and try again.',
+
+  // Free-text style instructions
+  'instruction.tooLong': `Please keep your style description to ${MAX_INSTRUCTION_LENGTH} characters or fewer.`,
+  'instruction.promptInjection':
+    'Your description reads like instructions to the AI rather than a hairstyle. Describe only the hair or beard you want.',
+  'instruction.identity':
+    'Only hair and beard can be changed. Descriptions that change the face, gender or who the person is are not allowed.',
+  'instruction.age': 'Only hair and beard can be changed. Descriptions that make someone look older or younger are not allowed.',
+  'instruction.ethnicity':
+    'Only hair and beard can be changed. Descriptions that change skin tone, race or ethnicity are not allowed.',
+  'instruction.clothing': 'Only hair and beard can be changed. Descriptions about clothing or nudity are not allowed.',
+
+  // Quotas and credits
+  'quota.dailyLimit': "You've used all of today's generations. Your credits refresh at midnight UTC.",
+  'quota.monthlyLimit': "You've used all of this month's generations. Your credits refresh on the 1st.",
+  'quota.rateLimited': 'You are generating too quickly. Please wait a minute and try again.',
+  'credits.insufficient': 'You are out of credits. Buy a credit pack to keep generating.',
+
+  // Generations and jobs
+  'generation.queueFailed': 'Could not queue your generation. Please try again.',
+  'generation.notFound': 'Generation not found.',
+  'generation.deleteFailed': 'Could not delete generation.',
+  'generation.timeout': 'The image service took too long to answer. Your credit was refunded; please try again.',
+  'generation.cancelled': 'The generation was cancelled. Your credit was refunded.',
+  'generation.rateLimited': 'The image service is busy right now. Your credit was refunded; please try again in a minute.',
+  'generation.unavailable':
+    'The image service is temporarily unavailable. Your credit was refunded; please try again shortly.',
+  'generation.safetyBlocked':
+    'The image service declined this photo or style. Try a different photo, or a different combination of styles. Your credit was refunded.',
+  'generation.noImage': 'The image service answered without an image. Your credit was refunded; trying again usually works.',
+  'generation.failed': 'Something went wrong while generating your image. Your credit was refunded.',
+  'job.notFound': 'Job not found.',
+  'job.loadFailed': 'Could not check on your generation.',
+  'job.finished': 'This generation has already finished.',
+  'job.cancelFailed': 'Could not cancel the generation.',
+  'job.workerFailed': 'Job processing failed.',
+
+  // Edit sessions
+  'session.notFound': 'Edit session not found.',
+  'session.loadFailed': 'Could not load your edit session.',
+  'session.stepNotFound': 'That version is no longer available. Start again from a new photo.',
+
+  // Organizations
+  'organization.notFound': 'Organization not found, or you are no longer a member.',
+  'organization.loadFailed': 'Could not load your organizations.',
+  'organization.updateFailed': 'Could not update the organization. Please try again.',
+  'organization.invitationNotFound':
+    'This invitation is not valid. It may have expired, been used already, or been sent to a different email address.',
+  'organization.invitationEmailFailed':
+    'The invitation was created but the email could not be sent. Please invite them again.',
+  'organization.memberNotFound': 'That person is not a member, or you cannot remove them.',
+  'organization.clientNotFound': 'That client is not part of this organization.',
+
+  // Client profiles
+  'clientProfile.notFound': 'Client profile not found.',
+  'clientProfile.loadFailed': 'Could not load client profiles.',
+  'clientProfile.updateFailed': 'Could not update the client profile. Please try again.',
+  'clientProfile.consentRequired': 'This client has not agreed to having their photos stored. Record their consent first.',
+
+  // Bookings
+  'booking.slotUnavailable': 'That time is no longer available. Please pick another slot.',
+  'booking.stylistNotFound': 'That stylist is not taking bookings here.',
+  'booking.notFound': 'Booking not found, or it can no longer be cancelled.',
+  'booking.failed': 'Could not book the appointment. Please try again.',
+  'booking.loadFailed': 'Could not load available times.',
+  'booking.availabilityUpdateFailed': 'Could not update your availability. Please try again.',
+
+  // Share links
+  'share.notFound': 'Share link not found, or it was already revoked.',
+  'share.failed': 'Could not update share links. Please try again.',
+  'share.consentRequired':
+    'This client has not agreed to their looks being shown outside the salon. Record their portfolio consent first.',
+
+  // Favorites, collections and notes
+  'collection.notFound': 'Collection not found.',
+  'collection.loadFailed': 'Could not load your collections.',
+  'collection.updateFailed': 'Could not save your changes. Please try again.',
+
+  // Billing
+  'billing.unknownPack': 'Unknown credit pack.',
+  'billing.checkoutFailed': 'Could not start checkout.',
+  'billing.invalidCheckoutLink': 'Invalid checkout link.',
+  'billing.webhookInvalid': 'The webhook could not be verified.',
+  'billing.webhookFailed': 'Webhook processing failed.',
+
+  // Auth
+  'auth.missingCode': 'The sign-in link is incomplete.',
+  'auth.missingCodeGuidance': 'Open the link from your email again, or copy the whole address into your browser.',
+  'auth.linkInvalid': 'This link is not valid.',
+  'auth.linkInvalidGuidance': 'It may already have been used, or opened in a different browser. Request a new one.',
+  'auth.linkExpired': 'This link has expired.',
+  'auth.linkExpiredGuidance': 'Links from our emails only work for a limited time. Request a new one.',
+  'auth.invalidCredentials': 'The email or password is incorrect.',
+  'auth.invalidEmail': 'Please enter a valid email address.',
+  'auth.emailNotConfirmed': 'Please confirm your email address first.',
+  'auth.emailNotConfirmedGuidance': 'Check your inbox for the confirmation email and open the link in it.',
+  'auth.userExists': 'An account with this email already exists.',
+  'auth.weakPassword': 'This password is too weak. Use at least 6 characters and avoid common passwords.',
+  'auth.samePassword': 'Your new password must be different from the old one.',
+  'auth.passwordMismatch': 'Passwords do not match.',
+  'auth.rateLimited': 'Too many attempts. Please wait a few minutes and try again.',
+  'auth.sessionMissing': 'Your session has ended. Please log in again.',
+  'auth.failed': 'We could not complete that request.',
+  'auth.login': 'Go to login',
+  'auth.requestNewLink': 'Request a new link',
+  'auth.signUp': 'Sign up again',
+} as const
+
+export type MessageKey = keyof typeof MESSAGES
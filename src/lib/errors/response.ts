@@ -0,0 +1,18 @@
+import { NextResponse } from 'next/server'
+
+import { ERRORS, messageFor, type AppErrorCode } from '@/lib/errors'
+
+/**
+ * The JSON error body every API route answers with: `{ error, code, ...extra }`
+ * and the status mapped to `code`. `message` replaces the catalogue text,
+ * e.g. to say which field of an invalid request was wrong.
+ */
+export function errorResponse(
+  code: AppErrorCode,
+  { message, extra, headers }: { message?: string; extra?: Record<string, unknown>; headers?: HeadersInit } = {}
+) {
+  return NextResponse.json(
+    { error: message ?? messageFor(code), code, ...extra },
+    { status: ERRORS[code].status, headers }
+  )
+}
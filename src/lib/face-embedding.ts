@@ -0,0 +1,82 @@
+/**
+ * Server-side identity check for the job worker: the face in the photo and
+ * the face in the result are each turned into a 128-number descriptor by the
+ * `@vladmandic/face-api` recognition model, run on TF.js's WASM backend on
+ * the CPU. The score is 1 minus the distance between the two descriptors.
+ */
+
+import path from 'node:path'
+
+import sharp from 'sharp'
+
+import type { Base64Image } from '@/lib/image-data'
+
+/** The model files shipped with `@vladmandic/face-api`. */
+export const FACE_MODEL_DIR = path.join(process.cwd(), 'node_modules', '@vladmandic', 'face-api', 'model')
+
+/** Larger images are shrunk first; the detector works at 416 pixels anyway. */
+const MAX_SIDE = 1024
+
+type FaceApi = typeof import('@vladmandic/face-api/dist/face-api.node-wasm.js')
+
+let faceApi: Promise<FaceApi> | null = null
+
+/** Loads the models once per server process. A failed load is retried on the next call. */
+function loadFaceApi() {
+  faceApi ??= (async () => {
+    const tf = await import('@tensorflow/tfjs')
+    await import('@tensorflow/tfjs-backend-wasm')
+    const faceapi = await import('@vladmandic/face-api/dist/face-api.node-wasm.js')
+    await tf.setBackend('wasm')
+    await tf.ready()
+    await Promise.all([
+      faceapi.nets.tinyFaceDetector.loadFromDisk(FACE_MODEL_DIR),
+      faceapi.nets.faceLandmark68Net.loadFromDisk(FACE_MODEL_DIR),
+      faceapi.nets.faceRecognitionNet.loadFromDisk(FACE_MODEL_DIR),
+    ])
+    return faceapi
+  })().catch((err) => {
+    faceApi = null
+    throw err
+  })
+  return faceApi
+}
+
+/** Descriptors of every face in the image, largest face first. */
+async function faceDescriptors(faceapi: FaceApi, image: Base64Image) {
+  const { data, info } = await sharp(Buffer.from(image.data, 'base64'))
+    .rotate()
+    .resize({ width: MAX_SIDE, height: MAX_SIDE, fit: 'inside', withoutEnlargement: true })
+    .removeAlpha()
+    .raw()
+    .toBuffer({ resolveWithObject: true })
+
+  const tensor = faceapi.tf.tensor3d(new Uint8Array(data), [info.height, info.width, 3], 'int32')
+  try {
+    const faces = await faceapi
+      .detectAllFaces(tensor, new faceapi.TinyFaceDetectorOptions())
+      .withFaceLandmarks()
+      .withFaceDescriptors()
+    return faces
+      .sort((a, b) => b.detection.box.area - a.detection.box.area)
+      .map((face) => face.descriptor)
+  } finally {
+    tensor.dispose()
+  }
+}
+
+/**
+ * Scores how much the face in `after` still matches the one in `before`,
+ * from 0 to 1. Returns null when it cannot tell because `before` does not
+ * show exactly one face. A result without any face scores 0; with several,
+ * the largest is taken to be the person and the rest are artifacts.
+ */
+export async function scoreIdentity(before: Base64Image, after: Base64Image): Promise<number | null> {
+  const faceapi = await loadFaceApi()
+  const original = await faceDescriptors(faceapi, before)
+  if (original.length !== 1) return null
+  const [result] = await faceDescriptors(faceapi, after)
+  if (!result) return 0
+
+  return Math.min(1, Math.max(0, 1 - faceapi.euclideanDistance(original[0], result)))
+}
@@ -0,0 +1,239 @@
+import type { EditSessionView } from '@/lib/edit-sessions'
+import { generationFailureCode, isAppErrorCode, messageFor, type AppErrorCode } from '@/lib/errors'
+import type { JobStatus, JobView } from '@/lib/jobs'
+import type { StyleSelection } from '@/lib/prompt-builder'
+import type { ProviderFailureKind } from '@/lib/providers/types'
+import type { QuotaDenialReason, QuotaStatus } from '@/lib/quota'
+
+/** Quota and credit balance as last reported by the server. */
+export interface UsageUpdate {
+  quota?: QuotaStatus | null
+  credits?: number | null
+}
+
+/**
+ * A new photo with catalog styles or a reference photo, or a refinement of an
+ * earlier step. Staff may generate on behalf of one of their organization's
+ * clients and during a session with a client profile.
+ */
+export type GenerateInput = (
+  | {
+      base64Image: string
+      mimeType: string
+      selection: StyleSelection
+      /** A photo of the hairstyle to copy. */
+      referenceBase64Image?: string
+      referenceMimeType?: string
+      /** PNG the size of the photo, white where the edit may change pixels. */
+      maskBase64Image?: string
+    }
+  | { parentStepId: string; instruction: string }
+) & { clientId?: string; clientProfileId?: string }
+
+export interface GenerateResponse extends UsageUpdate {
+  image: string
+  /** The history entry reuses this id once it is saved. */
+  jobId: string
+  generationId: string | null
+  sessionId: string | null
+  stepId: string | null
+  /** How much the face in the result matches the photo, 0–1; null when it could not be measured. */
+  identityScore: number | null
+}
+
+export type GenerationRequestError = UsageUpdate & {
+  message: string
+  status?: number
+  /** An `AppErrorCode` when the server sent one. */
+  code?: AppErrorCode | string
+  /** Set when the generation itself failed, as opposed to the request. */
+  failure?: ProviderFailureKind
+  /** When a quota refusal lifts. */
+  retryAfterSeconds?: number
+}
+
+/** Failures where sending the same request again may succeed. */
+export function isRetryableFailure(kind: ProviderFailureKind) {
+  return kind !== 'safety-blocked' && kind !== 'cancelled'
+}
+
+export function generationFailure(err: unknown): ProviderFailureKind | null {
+  return typeof err === 'object' && err !== null ? ((err as GenerationRequestError).failure ?? null) : null
+}
+
+const QUOTA_ERROR_CODES: readonly string[] = ['daily-limit', 'monthly-limit', 'rate-limited'] satisfies QuotaDenialReason[]
+
+export function isOutOfCredits(err: unknown): err is GenerationRequestError {
+  return typeof err === 'object' && err !== null && (err as GenerationRequestError).code === 'insufficient-credits'
+}
+
+export function isQuotaError(err: unknown): err is GenerationRequestError & { code: QuotaDenialReason } {
+  return typeof err === 'object' && err !== null && QUOTA_ERROR_CODES.includes((err as GenerationRequestError).code ?? '')
+}
+
+export interface SubmittedJob extends UsageUpdate {
+  jobId: string
+  status: JobStatus
+}
+
+const POLL_INTERVAL_MS = 1500
+
+async function failure(response: Response, fallback: AppErrorCode): Promise<GenerationRequestError> {
+  const data: {
+    error?: string
+    code?: string
+    quota?: QuotaStatus | null
+    credits?: number | null
+    retryAfterSeconds?: number
+  } = await response.json().catch(() => ({}))
+  return {
+    message: data.error || messageFor(fallback),
+    status: response.status,
+    code: data.code ?? fallback,
+    quota: data.quota,
+    credits: data.credits,
+    retryAfterSeconds: data.retryAfterSeconds,
+  }
+}
+
+/**
+ * Browser-side call to `POST /api/generate`. Resolves once the job is queued;
+ * throws a `GenerationRequestError` when the route refuses it. Aborting
+ * `signal` abandons the request; if the server had already queued the job it
+ * still runs and ends up in history.
+ */
+export async function submitGeneration(input: GenerateInput, signal?: AbortSignal): Promise<SubmittedJob> {
+  let response: Response
+  try {
+    response = await fetch('/api/generate', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(input),
+      signal,
+    })
+  } catch (err) {
+    if (!signal?.aborted) throw err
+    const error: GenerationRequestError = { message: messageFor('generation-cancelled'), failure: 'cancelled' }
+    throw error
+  }
+  if (!response.ok) {
+    throw await failure(response, 'internal')
+  }
+  const data: SubmittedJob = await response.json()
+  return { jobId: data.jobId, status: data.status, quota: data.quota ?? null, credits: data.credits ?? null }
+}
+
+export async function fetchJob(jobId: string): Promise<JobView> {
+  const response = await fetch(`/api/jobs/${jobId}`, { cache: 'no-store' })
+  if (!response.ok) {
+    throw await failure(response, 'job-load-failed')
+  }
+  return response.json()
+}
+
+/**
+ * Asks the server to stop a queued or running job. The job's poller then sees
+ * it as cancelled. Returns the refunded credit balance, or null if the job
+ * had already finished.
+ */
+export async function cancelGeneration(jobId: string): Promise<number | null> {
+  const response = await fetch(`/api/jobs/${jobId}/cancel`, { method: 'POST' })
+  if (response.status === 409) return null
+  if (!response.ok) {
+    throw await failure(response, 'job-cancel-failed')
+  }
+  const body: { credits: number | null } = await response.json()
+  return body.credits
+}
+
+function jobFailure(job: JobView): GenerationRequestError {
+  const kind = job.status === 'cancelled' ? 'cancelled' : (job.errorCode ?? 'failed')
+  return { message: job.error || messageFor(generationFailureCode(kind)), code: generationFailureCode(kind), failure: kind }
+}
+
+/**
+ * Polls a job until it finishes. `onStatus` sees every poll, so the caller
+ * can show queued/running progress. A failed or cancelled job throws a
+ * `GenerationRequestError` with its `failure` kind. Aborting `signal` only
+ * stops polling (code `aborted`); use `cancelGeneration` to stop the job.
+ */
+export async function waitForJob(
+  jobId: string,
+  { onStatus, signal }: { onStatus?: (job: JobView) => void; signal?: AbortSignal } = {}
+): Promise<JobView> {
+  for (;;) {
+    const job = await fetchJob(jobId)
+    onStatus?.(job)
+    if (job.status === 'succeeded') {
+      if (!job.outputUrl) {
+        const error: GenerationRequestError = { message: messageFor('generation-not-found'), code: 'generation-not-found' }
+        throw error
+      }
+      return job
+    }
+    if (job.status === 'failed' || job.status === 'cancelled') {
+      throw jobFailure(job)
+    }
+    await new Promise((resolve) => setTimeout(resolve, POLL_INTERVAL_MS))
+    if (signal?.aborted) {
+      const error: GenerationRequestError = { message: 'Stopped waiting for the generation', code: 'aborted' }
+      throw error
+    }
+  }
+}
+
+/**
+ * Submits a generation and waits for its result. `image` is a signed URL.
+ */
+export async function requestGeneration(
+  input: GenerateInput,
+  options: { onStatus?: (job: JobView) => void; onSubmitted?: (job: SubmittedJob) => void; signal?: AbortSignal } = {}
+): Promise<GenerateResponse> {
+  const submitted = await submitGeneration(input, options.signal)
+  options.onSubmitted?.(submitted)
+  const job = await waitForJob(submitted.jobId, options)
+  return {
+    image: job.outputUrl!,
+    jobId: submitted.jobId,
+    generationId: job.generationId,
+    sessionId: job.sessionId,
+    stepId: job.stepId,
+    identityScore: job.identityScore,
+    // Usage is recorded when the job succeeds, after the submit response.
+    quota: await fetchQuota().catch(() => submitted.quota ?? null),
+    credits: submitted.credits,
+  }
+}
+
+export async function fetchEditSession(sessionId: string): Promise<EditSessionView> {
+  const response = await fetch(`/api/sessions/${sessionId}`, { cache: 'no-store' })
+  if (!response.ok) {
+    throw await failure(response, 'session-load-failed')
+  }
+  return response.json()
+}
+
+/**
+ * User-facing text for anything thrown by this module: the catalogue message
+ * for known codes, the raw message otherwise.
+ */
+export function errorMessage(err: unknown) {
+  if (typeof err !== 'object' || err === null || !('message' in err)) {
+    return messageFor('internal')
+  }
+  const { code, message, failure } = err as GenerationRequestError
+  if (failure) return messageFor(generationFailureCode(failure))
+  return isAppErrorCode(code) ? messageFor(code) : String(message)
+}
+
+export async function fetchQuota(): Promise<QuotaStatus | null> {
+  const response = await fetch('/api/quota')
+  return response.ok ? response.json() : null
+}
+
+export async function fetchCreditBalance(): Promise<number | null> {
+  const response = await fetch('/api/billing/balance')
+  if (!response.ok) return null
+  const body: { balance: number } = await response.json()
+  return body.balance
+}
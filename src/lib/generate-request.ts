@@ -0,0 +1,150 @@
+import { isBase64, type Base64Image } from '@/lib/image-data'
+import {
+  FRINGE_LABELS,
+  PART_SIDE_LABELS,
+  TEXTURE_LABELS,
+  type StyleModifiers,
+  type StyleSelection,
+} from '@/lib/prompt-builder'
+
+export const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+/** A new look from an uploaded photo and catalog styles. */
+export interface StyleGenerateRequest {
+  kind: 'style'
+  image: Base64Image
+  /** A photo of the hairstyle to copy. */
+  reference?: Base64Image
+  /** PNG the size of `image`, white where the edit may change pixels. */
+  mask?: Base64Image
+  selection: StyleSelection
+}
+
+/** A follow-up instruction applied to an earlier step of an edit session. */
+export interface RefineGenerateRequest {
+  kind: 'refine'
+  parentStepId: string
+  instruction: string
+}
+
+/**
+ * Either request, optionally made by organization staff on behalf of a client
+ * member and/or during a session with a client profile.
+ */
+export type GenerateRequest = (StyleGenerateRequest | RefineGenerateRequest) & {
+  clientId?: string
+  clientProfileId?: string
+}
+
+export type ParseResult<T> = { ok: true; value: T } | { ok: false; error: string }
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+function optionalId(value: unknown) {
+  return typeof value === 'string' && value.length > 0 ? value : null
+}
+
+function optionalKey<K extends string>(value: unknown, labels: Record<K, string>) {
+  return typeof value === 'string' && value in labels ? (value as K) : undefined
+}
+
+function parseSelection(value: unknown): StyleSelection | null {
+  if (!isRecord(value)) return null
+
+  const modifiers: StyleModifiers = {}
+  if (isRecord(value.modifiers)) {
+    modifiers.partSide = optionalKey(value.modifiers.partSide, PART_SIDE_LABELS)
+    modifiers.texture = optionalKey(value.modifiers.texture, TEXTURE_LABELS)
+    modifiers.fringe = optionalKey(value.modifiers.fringe, FRINGE_LABELS)
+  }
+
+  return {
+    hairstyleId: optionalId(value.hairstyleId),
+    beardId: optionalId(value.beardId),
+    colorId: optionalId(value.colorId),
+    modifiers,
+    instructions: typeof value.instructions === 'string' && value.instructions.trim() ? value.instructions : undefined,
+  }
+}
+
+function parseRefineRequest(body: Record<string, unknown>): ParseResult<RefineGenerateRequest> {
+  const { parentStepId, instruction } = body
+
+  if (typeof parentStepId !== 'string' || !UUID_PATTERN.test(parentStepId)) {
+    return { ok: false, error: 'parentStepId must be a step id' }
+  }
+  if (typeof instruction !== 'string' || instruction.trim().length === 0) {
+    return { ok: false, error: 'instruction must be a non-empty string' }
+  }
+
+  return { ok: true, value: { kind: 'refine', parentStepId, instruction } }
+}
+
+function parseStyleRequest(body: Record<string, unknown>): ParseResult<StyleGenerateRequest> {
+  const { base64Image, mimeType } = body
+
+  if (typeof base64Image !== 'string' || !isBase64(base64Image)) {
+    return { ok: false, error: 'base64Image must be a base64-encoded string' }
+  }
+  if (typeof mimeType !== 'string' || !mimeType.startsWith('image/')) {
+    return { ok: false, error: 'mimeType must be an image MIME type' }
+  }
+
+  let reference: Base64Image | undefined
+  if (body.referenceBase64Image !== undefined) {
+    const { referenceBase64Image, referenceMimeType } = body
+    if (typeof referenceBase64Image !== 'string' || !isBase64(referenceBase64Image)) {
+      return { ok: false, error: 'referenceBase64Image must be a base64-encoded string' }
+    }
+    if (typeof referenceMimeType !== 'string' || !referenceMimeType.startsWith('image/')) {
+      return { ok: false, error: 'referenceMimeType must be an image MIME type' }
+    }
+    reference = { data: referenceBase64Image, mimeType: referenceMimeType }
+  }
+
+  let mask: Base64Image | undefined
+  if (body.maskBase64Image !== undefined) {
+    if (typeof body.maskBase64Image !== 'string' || !isBase64(body.maskBase64Image)) {
+      return { ok: false, error: 'maskBase64Image must be a base64-encoded PNG' }
+    }
+    mask = { data: body.maskBase64Image, mimeType: 'image/png' }
+  }
+
+  const selection = parseSelection(body.selection)
+  if (!selection) {
+    return { ok: false, error: 'selection must be an object of style ids' }
+  }
+
+  return {
+    ok: true,
+    value: { kind: 'style', image: { data: base64Image, mimeType }, reference, mask, selection },
+  }
+}
+
+/**
+ * Validates the JSON body posted to `/api/generate`: either a photo with a
+ * style selection and an optional reference photo and edit mask, or a
+ * `parentStepId` with a refinement `instruction`. Both may name a `clientId`
+ * and a `clientProfileId`.
+ */
+export function parseGenerateRequest(body: unknown): ParseResult<GenerateRequest> {
+  if (!isRecord(body)) {
+    return { ok: false, error: 'Request body must be a JSON object' }
+  }
+  if (body.clientId !== undefined && (typeof body.clientId !== 'string' || !UUID_PATTERN.test(body.clientId))) {
+    return { ok: false, error: 'clientId must be a user id' }
+  }
+  if (
+    body.clientProfileId !== undefined &&
+    (typeof body.clientProfileId !== 'string' || !UUID_PATTERN.test(body.clientProfileId))
+  ) {
+    return { ok: false, error: 'clientProfileId must be a client profile id' }
+  }
+  const clientId = body.clientId as string | undefined
+  const clientProfileId = body.clientProfileId as string | undefined
+
+  const parsed = 'parentStepId' in body ? parseRefineRequest(body) : parseStyleRequest(body)
+  return parsed.ok ? { ok: true, value: { ...parsed.value, clientId, clientProfileId } } : parsed
+}
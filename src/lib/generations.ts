@@ -0,0 +1,265 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+
+import { extensionForMimeType, type Base64Image } from '@/lib/image-data'
+import type { StyleSelection } from '@/lib/prompt-builder'
+
+export const GENERATIONS_BUCKET = 'generations'
+const SIGNED_URL_TTL_SECONDS = 60 * 60
+
+export interface GenerationRecord {
+  id: string
+  user_id: string
+  input_path: string
+  output_path: string
+  /** The hairstyle photo the user asked to copy, if any. */
+  reference_path: string | null
+  selection: StyleSelection
+  prompt: string
+  /** Face similarity between input and output (0–1), null until measured. */
+  identity_score: number | null
+  organization_id: string | null
+  client_id: string | null
+  client_profile_id: string | null
+  created_at: string
+}
+
+export interface GenerationWithUrls extends GenerationRecord {
+  inputUrl: string | null
+  outputUrl: string | null
+  referenceUrl: string | null
+}
+
+/** An image to upload, or the storage path of one uploaded earlier. */
+export type StoredImage = Base64Image | { path: string }
+
+export interface NewGeneration {
+  /** Pre-assigned id, e.g. one already referenced by a ledger entry. */
+  id?: string
+  input: StoredImage
+  output: StoredImage
+  reference?: StoredImage
+  selection: StyleSelection
+  prompt: string
+  /** Made by organization staff, optionally for one of its clients. */
+  organizationId?: string | null
+  clientId?: string | null
+  clientProfileId?: string | null
+  /** From `scoreIdentity`; null when it could not be measured. */
+  identityScore?: number | null
+}
+
+export async function uploadImage(supabase: SupabaseClient, path: string, image: Base64Image) {
+  const { error } = await supabase.storage
+    .from(GENERATIONS_BUCKET)
+    .upload(path, Buffer.from(image.data, 'base64'), { contentType: image.mimeType })
+  if (error) throw error
+}
+
+export async function downloadImage(supabase: SupabaseClient, path: string): Promise<Base64Image> {
+  const { data, error } = await supabase.storage.from(GENERATIONS_BUCKET).download(path)
+  if (error) throw error
+  return {
+    data: Buffer.from(await data.arrayBuffer()).toString('base64'),
+    mimeType: data.type || 'application/octet-stream',
+  }
+}
+
+export async function createSignedImageUrl(supabase: SupabaseClient, path: string) {
+  const { data, error } = await supabase.storage.from(GENERATIONS_BUCKET).createSignedUrl(path, SIGNED_URL_TTL_SECONDS)
+  if (error) throw error
+  return data.signedUrl
+}
+
+/** Signs several images at once. Paths that could not be signed are missing from the map. */
+export async function createSignedImageUrls(supabase: SupabaseClient, paths: string[]) {
+  const urls = new Map<string, string>()
+  if (paths.length === 0) return urls
+
+  const { data, error } = await supabase.storage
+    .from(GENERATIONS_BUCKET)
+    .createSignedUrls([...new Set(paths)], SIGNED_URL_TTL_SECONDS)
+  if (error) throw error
+  for (const entry of data) {
+    if (entry.path && entry.signedUrl) urls.set(entry.path, entry.signedUrl)
+  }
+  return urls
+}
+
+/**
+ * Stores the images under `<userId>/<generationId>/` and records the
+ * generation. Files uploaded here are removed again if the insert fails;
+ * images passed by path are left alone.
+ */
+export async function saveGeneration(supabase: SupabaseClient, userId: string, generation: NewGeneration) {
+  const id = generation.id ?? crypto.randomUUID()
+  const uploaded: string[] = []
+
+  const store = async (image: StoredImage, name: string) => {
+    if ('path' in image) return image.path
+    const path = `${userId}/${id}/${name}.${extensionForMimeType(image.mimeType)}`
+    await uploadImage(supabase, path, image)
+    uploaded.push(path)
+    return path
+  }
+  const inputPath = await store(generation.input, 'input')
+  const outputPath = await store(generation.output, 'output')
+  const referencePath = generation.reference ? await store(generation.reference, 'reference') : null
+
+  const { data, error } = await supabase
+    .from('generations')
+    .insert({
+      id,
+      user_id: userId,
+      input_path: inputPath,
+      output_path: outputPath,
+      reference_path: referencePath,
+      selection: generation.selection,
+      prompt: generation.prompt,
+      organization_id: generation.organizationId ?? null,
+      client_id: generation.clientId ?? null,
+      client_profile_id: generation.clientProfileId ?? null,
+      identity_score: generation.identityScore ?? null,
+    })
+    .select()
+    .single<GenerationRecord>()
+
+  if (error) {
+    await supabase.storage.from(GENERATIONS_BUCKET).remove(uploaded)
+    throw error
+  }
+
+  return data
+}
+
+/**
+ * Returns one page (1-based) of the generations the current user can see,
+ * newest first, with short-lived signed URLs for both images. `clientProfileId`
+ * narrows it to the looks made for one client profile.
+ */
+export async function listGenerations(
+  supabase: SupabaseClient,
+  page: number,
+  pageSize: number,
+  { clientProfileId }: { clientProfileId?: string } = {}
+) {
+  const from = (page - 1) * pageSize
+
+  let query = supabase.from('generations').select('*', { count: 'exact' })
+  if (clientProfileId) query = query.eq('client_profile_id', clientProfileId)
+  const { data, count, error } = await query
+    .order('created_at', { ascending: false })
+    .range(from, from + pageSize - 1)
+    .returns<GenerationRecord[]>()
+
+  if (error) throw error
+
+  return { generations: await withSignedUrls(supabase, data ?? []), total: count ?? 0 }
+}
+
+/** Adds short-lived signed URLs for every image of each generation. */
+export async function withSignedUrls(supabase: SupabaseClient, rows: GenerationRecord[]): Promise<GenerationWithUrls[]> {
+  const urls = await createSignedImageUrls(
+    supabase,
+    rows.flatMap((row) => [row.input_path, row.output_path, ...(row.reference_path ? [row.reference_path] : [])])
+  )
+
+  return rows.map((row) => ({
+    ...row,
+    inputUrl: urls.get(row.input_path) ?? null,
+    outputUrl: urls.get(row.output_path) ?? null,
+    referenceUrl: row.reference_path ? (urls.get(row.reference_path) ?? null) : null,
+  }))
+}
+
+/**
+ * Signed result image URLs for the given generations, keyed by id. Ones the
+ * current user cannot see are missing from the map.
+ */
+export async function getGenerationOutputUrls(supabase: SupabaseClient, ids: string[]) {
+  const urls = new Map<string, string>()
+  if (ids.length === 0) return urls
+
+  const { data, error } = await supabase
+    .from('generations')
+    .select('id, output_path')
+    .in('id', [...new Set(ids)])
+    .returns<Pick<GenerationRecord, 'id' | 'output_path'>[]>()
+  if (error) throw error
+
+  const signed = await createSignedImageUrls(supabase, (data ?? []).map((row) => row.output_path))
+  for (const row of data ?? []) {
+    const url = signed.get(row.output_path)
+    if (url) urls.set(row.id, url)
+  }
+  return urls
+}
+
+/**
+ * Paths among `paths` that no generation or edit step points at any more.
+ * Edit sessions share images between steps and generations.
+ */
+async function unreferencedPaths(supabase: SupabaseClient, paths: string[]) {
+  const list = `(${paths.map((path) => `"${path}"`).join(',')})`
+  const [generations, steps, sessions] = await Promise.all([
+    supabase
+      .from('generations')
+      .select('input_path, output_path, reference_path')
+      .or(`input_path.in.${list},output_path.in.${list},reference_path.in.${list}`)
+      .returns<Pick<GenerationRecord, 'input_path' | 'output_path' | 'reference_path'>[]>(),
+    supabase.from('edit_steps').select('image_path').in('image_path', paths).returns<{ image_path: string }[]>(),
+    supabase
+      .from('edit_sessions')
+      .select('reference_path')
+      .in('reference_path', paths)
+      .returns<{ reference_path: string }[]>(),
+  ])
+  if (generations.error) throw generations.error
+  if (steps.error) throw steps.error
+  if (sessions.error) throw sessions.error
+
+  const used = new Set([
+    ...(generations.data ?? []).flatMap((row) => [row.input_path, row.output_path, row.reference_path]),
+    ...(steps.data ?? []).map((row) => row.image_path),
+    ...(sessions.data ?? []).map((row) => row.reference_path),
+  ])
+  return paths.filter((path) => !used.has(path))
+}
+
+/** Removes the images among `paths` that no generation or edit step points at any more. */
+export async function removeUnusedImages(supabase: SupabaseClient, paths: string[]) {
+  if (paths.length === 0) return
+  const unused = await unreferencedPaths(supabase, [...new Set(paths)])
+  if (unused.length > 0) {
+    const { error } = await supabase.storage.from(GENERATIONS_BUCKET).remove(unused)
+    if (error) throw error
+  }
+}
+
+/**
+ * Deletes a generation and any of its images that nothing else uses. Returns
+ * false if it does not exist or belongs to someone else (row-level security
+ * hides it either way).
+ */
+export async function deleteGeneration(supabase: SupabaseClient, id: string) {
+  const { data, error } = await supabase
+    .from('generations')
+    .delete()
+    .eq('id', id)
+    .select('input_path, output_path, reference_path')
+    .maybeSingle<Pick<GenerationRecord, 'input_path' | 'output_path' | 'reference_path'>>()
+
+  if (error) throw error
+  if (!data) return false
+
+  try {
+    await removeUnusedImages(supabase, [
+      data.input_path,
+      data.output_path,
+      ...(data.reference_path ? [data.reference_path] : []),
+    ])
+  } catch (err) {
+    console.error('Failed to remove generation images:', err)
+  }
+
+  return true
+}
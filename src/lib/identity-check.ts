@@ -0,0 +1,16 @@
+/**
+ * Whether a generated look still shows the same person. The job worker
+ * measures it (`scoreIdentity` in `@/lib/face-embedding`) and stores it as
+ * `identity_score`; this module only holds what the pages need to flag it.
+ */
+
+/**
+ * Results scoring below this are flagged as possibly not looking like the
+ * user: the recognition model treats faces whose descriptors are more than
+ * 0.6 apart as different people.
+ */
+export const IDENTITY_THRESHOLD = 0.4
+
+export function isIdentityFlagged(score: number | null) {
+  return score !== null && score < IDENTITY_THRESHOLD
+}
@@ -0,0 +1,47 @@
+import sharp from 'sharp'
+
+import type { Base64Image } from '@/lib/image-data'
+
+/**
+ * Blur radius for the mask edge, in pixels. Softens the seam between edited
+ * and original pixels; everything further than this from the painted area is
+ * copied from the original unchanged.
+ */
+const FEATHER_SIGMA = 1.5
+
+function buffer(image: Base64Image) {
+  return Buffer.from(image.data, 'base64')
+}
+
+/**
+ * Copies the masked region of `edited` onto `original`. White in `mask` takes
+ * the edited pixel, black keeps the original, grey blends. The edited image
+ * and the mask are stretched to the original's size first. The result is a
+ * PNG, so unmasked pixels stay identical to the decoded original.
+ */
+export async function compositeMasked(original: Base64Image, edited: Base64Image, mask: Base64Image): Promise<Base64Image> {
+  const { width, height } = await sharp(buffer(original)).metadata()
+  if (!width || !height) {
+    throw new Error('Could not read the size of the original image')
+  }
+
+  const alpha = await sharp(buffer(mask))
+    .resize(width, height, { fit: 'fill' })
+    .greyscale()
+    .blur(FEATHER_SIGMA)
+    .extractChannel(0)
+    .raw()
+    .toBuffer()
+  // sharp runs operations in a fixed order, so the alpha is joined in a second pass.
+  const rgb = await sharp(buffer(edited)).resize(width, height, { fit: 'fill' }).removeAlpha().raw().toBuffer()
+  const overlay = await sharp(rgb, { raw: { width, height, channels: 3 } })
+    .joinChannel(alpha, { raw: { width, height, channels: 1 } })
+    .png()
+    .toBuffer()
+
+  const result = await sharp(buffer(original))
+    .composite([{ input: overlay }])
+    .png()
+    .toBuffer()
+  return { data: result.toString('base64'), mimeType: 'image/png' }
+}
@@ -0,0 +1,58 @@
+/**
+ * A base64-encoded image without the `data:` URL prefix, as exchanged with
+ * image-generation providers.
+ */
+export interface Base64Image {
+  data: string
+  mimeType: string
+}
+
+const DATA_URL_PATTERN = /^data:([^;,]+);base64,([A-Za-z0-9+/=]*)$/
+const BASE64_PATTERN = /^[A-Za-z0-9+/]*={0,2}$/
+
+/**
+ * Whether `value` is padded base64 that decodes without throwing: whole
+ * 4-character groups, with `=` only at the end.
+ */
+export function isBase64(value: string) {
+  return value.length > 0 && value.length % 4 === 0 && BASE64_PATTERN.test(value)
+}
+
+export function toDataUrl(image: Base64Image) {
+  return `data:${image.mimeType};base64,${image.data}`
+}
+
+/**
+ * Parses a `data:<mime>;base64,<data>` URL. Returns null for anything else.
+ */
+export function parseDataUrl(value: string): Base64Image | null {
+  const match = DATA_URL_PATTERN.exec(value)
+  if (!match) return null
+  return { mimeType: match[1], data: match[2] }
+}
+
+const EXTENSIONS: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/webp': 'webp',
+  'image/gif': 'gif',
+  'image/svg+xml': 'svg',
+}
+
+export function extensionForMimeType(mimeType: string) {
+  return EXTENSIONS[mimeType] ?? 'bin'
+}
+
+/**
+ * Reads a browser `File` as base64 (without the data URL prefix).
+ */
+export function fileToBase64(file: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader()
+    reader.readAsDataURL(file)
+    reader.onload = () => {
+      resolve((reader.result as string).split(',')[1])
+    }
+    reader.onerror = () => reject(reader.error)
+  })
+}
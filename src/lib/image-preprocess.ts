@@ -0,0 +1,119 @@
+export type OutputFormat = 'image/jpeg' | 'image/webp'
+
+export interface PreprocessOptions {
+  /** Longest edge of the output in pixels; larger photos are downscaled. */
+  maxEdge: number
+  format: OutputFormat
+  /** Encoder quality between 0 and 1. */
+  quality: number
+}
+
+export const DEFAULT_PREPROCESS_OPTIONS: PreprocessOptions = {
+  maxEdge: 1536,
+  format: 'image/jpeg',
+  quality: 0.9,
+}
+
+export type PreprocessErrorCode = 'heic-unsupported' | 'decode-failed' | 'encode-failed'
+
+export class ImagePreprocessError extends Error {
+  constructor(
+    public readonly code: PreprocessErrorCode,
+    message: string
+  ) {
+    super(message)
+    this.name = 'ImagePreprocessError'
+  }
+}
+
+const HEIC_PATTERN = /\.(heic|heif)$/i
+
+export function isHeic(file: File) {
+  return file.type === 'image/heic' || file.type === 'image/heif' || HEIC_PATTERN.test(file.name)
+}
+
+/**
+ * Decodes with EXIF orientation applied to the pixels, so the re-encoded
+ * output is upright without needing an orientation tag.
+ */
+async function decode(file: File): Promise<ImageBitmap | HTMLImageElement> {
+  if (typeof createImageBitmap === 'function') {
+    return createImageBitmap(file, { imageOrientation: 'from-image' })
+  }
+
+  const url = URL.createObjectURL(file)
+  try {
+    const image = new Image()
+    image.src = url
+    await image.decode()
+    return image
+  } finally {
+    URL.revokeObjectURL(url)
+  }
+}
+
+function encode(canvas: HTMLCanvasElement, format: OutputFormat, quality: number) {
+  return new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, format, quality))
+}
+
+function renamed(name: string, format: OutputFormat) {
+  const base = name.replace(/\.[^.]+$/, '') || 'photo'
+  return `${base}.${format === 'image/webp' ? 'webp' : 'jpg'}`
+}
+
+/**
+ * Prepares a user photo for upload: applies EXIF orientation, downscales to
+ * `maxEdge` and re-encodes through a canvas. Re-encoding drops all metadata,
+ * including EXIF GPS coordinates.
+ *
+ * HEIC is decoded where the browser supports it (Safari) and rejected with
+ * an `ImagePreprocessError` elsewhere.
+ */
+export async function preprocessImage(
+  file: File,
+  options: Partial<PreprocessOptions> = {}
+): Promise<File> {
+  const { maxEdge, format, quality } = { ...DEFAULT_PREPROCESS_OPTIONS, ...options }
+
+  let source: ImageBitmap | HTMLImageElement
+  try {
+    source = await decode(file)
+  } catch {
+    if (isHeic(file)) {
+      throw new ImagePreprocessError(
+        'heic-unsupported',
+        'HEIC photos are not supported by this browser. Please convert the photo to JPG, PNG or WebP, or set your iPhone camera to "Most Compatible".'
+      )
+    }
+    throw new ImagePreprocessError('decode-failed', 'This image could not be read. It may be corrupted.')
+  }
+
+  const width = source instanceof HTMLImageElement ? source.naturalWidth : source.width
+  const height = source instanceof HTMLImageElement ? source.naturalHeight : source.height
+  const scale = Math.min(1, maxEdge / Math.max(width, height))
+
+  const canvas = document.createElement('canvas')
+  canvas.width = Math.max(1, Math.round(width * scale))
+  canvas.height = Math.max(1, Math.round(height * scale))
+
+  const ctx = canvas.getContext('2d')
+  if (!ctx) {
+    throw new ImagePreprocessError('encode-failed', 'Your browser could not process this image.')
+  }
+  ctx.imageSmoothingQuality = 'high'
+  ctx.drawImage(source, 0, 0, canvas.width, canvas.height)
+  if ('close' in source) source.close()
+
+  // Browsers without a WebP encoder silently fall back to PNG; use JPEG instead.
+  let blob = await encode(canvas, format, quality)
+  let outputFormat = format
+  if (!blob || blob.type !== format) {
+    outputFormat = 'image/jpeg'
+    blob = await encode(canvas, outputFormat, quality)
+  }
+  if (!blob) {
+    throw new ImagePreprocessError('encode-failed', 'Your browser could not process this image.')
+  }
+
+  return new File([blob], renamed(file.name, outputFormat), { type: outputFormat, lastModified: Date.now() })
+}
@@ -0,0 +1,136 @@
+import { MAX_INSTRUCTION_LENGTH } from '@/lib/prompt-builder'
+
+/**
+ * Screens free-text style instructions before they reach the image model.
+ * Shared by the browser, which explains a rejection as the user types, and
+ * the generate route, which enforces it. Messages and HTTP statuses for the
+ * error codes live in `@/lib/errors`.
+ *
+ * This is a local blocklist, not a classifier: it catches the obvious
+ * attempts to steer the model away from hair and beard edits, and the prompt
+ * builder still fences the text off as a request about hair only.
+ */
+
+export type InstructionErrorCode =
+  | 'instruction-too-long'
+  | 'instruction-prompt-injection'
+  | 'instruction-identity'
+  | 'instruction-age'
+  | 'instruction-ethnicity'
+  | 'instruction-clothing'
+
+export type InstructionCheck = { ok: true; text: string } | { ok: false; code: InstructionErrorCode }
+
+const LEET: Record<string, string> = { '0': 'o', '1': 'i', '3': 'e', '4': 'a', '5': 's', '7': 't', '@': 'a', $: 's' }
+
+/**
+ * Wording that makes the person, not the hair, the subject: "make me look",
+ * "he looks", or an instruction that starts with "look". Age and ethnicity
+ * words only count after it, so "make the top look white" stays a hair edit.
+ */
+const PERSON = String.raw`(\b(make|turn) (me|him|her|them)( look)?|\b(i|me|he|him|she|her|they|them) (look|looks|looking)|^look(ing)?)`
+
+const ETHNICITIES = 'white|black|asian|african|caucasian|european|latino|latina|hispanic|arab|indian|middle eastern'
+
+/** Checked in order; the first match decides the explanation. */
+const BLOCKLIST: { code: InstructionErrorCode; patterns: RegExp[] }[] = [
+  {
+    code: 'instruction-prompt-injection',
+    patterns: [
+      /\b(ignore|disregard|forget|override|bypass)\b.{0,40}\b(instructions?|prompts?|rules|above|previous|guidelines|system)\b/,
+      /\bsystem prompt\b/,
+      /\b(you are now|act as|pretend to be|roleplay as|new instructions?|developer mode|jailbreak)\b/,
+      /\b(do not|don ?t) (keep|preserve) (the )?(face|person|identity)\b/,
+    ],
+  },
+  {
+    code: 'instruction-clothing',
+    patterns: [
+      /\b(nude|naked|nudity|undress(ed|ing)?|topless|shirtless|nsfw|lingerie|underwear|bikini|sexy|erotic)\b/,
+      /\b(remove|take off|strip|without)\b.{0,20}\b(clothes|clothing|shirt|dress|bra|pants|outfit)\b/,
+    ],
+  },
+  {
+    code: 'instruction-identity',
+    patterns: [
+      /\b(different|another|new|other|someone else s?) (person|face|identity|man|woman|guy|girl)\b/,
+      /\b(face ?swap|swap (the |my |his |her |their )?face|(change|replace|alter|reshape) (the |my |his |her |their )?(face|nose|eyes|jaw|lips|chin|identity))\b/,
+      /\b(look|looks|looking) like (a )?(celebrity|famous|someone else|another person)\b/,
+      /\b(turn|make) (me|him|her|them|this person) into\b/,
+      /\b(change|swap) (the )?(gender|sex)\b|\bgender ?swap\b/,
+    ],
+  },
+  {
+    code: 'instruction-age',
+    patterns: [
+      // "Older-school" describes the style, not the person.
+      new RegExp(String.raw`${PERSON}\b.{0,20}\b(younger|older)\b(?! school)`),
+      /\b(younger|older) (me|self|version|face)\b/,
+      /\b(de ?age|age (me|him|her|them|up|down)|elderly|wrinkles?|baby face|toddler)\b/,
+      // "A kid cut" is a haircut, so a child only counts as what the person looks like.
+      new RegExp(
+        String.raw`(${PERSON}|\blook(s|ing)?) like (a |an )?(child|kid|baby|toddler|teen(ager)?|old (man|woman|person|lady|guy))\b(?! (cut|haircut))`
+      ),
+      new RegExp(String.raw`${PERSON} \d+\b`),
+    ],
+  },
+  {
+    code: 'instruction-ethnicity',
+    patterns: [
+      // "Skin fade" is a haircut, so skin only counts next to tone or color words.
+      /\bskin (tone|colou?r)\b|\b(lighter|darker|paler|tanned|whiter|browner) skin\b/,
+      /\b(complexion|race|racial|ethnicity|ethnic)\b/,
+      new RegExp(
+        String.raw`(${PERSON}|\blook(s|ing)? (more )?like)\b.{0,10}\b(${ETHNICITIES})\b(?! (hair|haired|highlights?|streaks?|beard|tips?|roots?|blonde?|platinum))`
+      ),
+    ],
+  },
+]
+
+/**
+ * Lowercased words with punctuation and accents flattened, plus a copy with
+ * leetspeak spelled out, so "n.a.k.3.d" reads as "n a k e d" and "naked".
+ */
+function foldings(text: string) {
+  const plain = text
+    .normalize('NFKD')
+    .toLowerCase()
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^a-z0-9@$]+/g, ' ')
+  const leet = plain.replace(/[0-9@$]/g, (char) => LEET[char] ?? char)
+  const words = (value: string) => value.replace(/[^a-z0-9]+/g, ' ').trim()
+  // Letters spaced out one by one ("n a k e d") are joined back up.
+  const joined = (value: string) => words(value).replace(/\b(?:[a-z] )+[a-z]\b/g, (run) => run.replace(/ /g, ''))
+  return [words(plain), joined(leet)]
+}
+
+/**
+ * Trims the text and removes control and zero-width characters. An empty
+ * result means no instruction was given.
+ */
+export function normalizeInstruction(text: string) {
+  return text
+    .replace(/[\u200b-\u200f\u2060\ufeff]/g, '')
+    .replace(/[\u0000-\u001f\u007f]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim()
+}
+
+/**
+ * Accepts an instruction that only describes hair and beard changes, or
+ * explains why it was rejected.
+ */
+export function checkInstruction(text: string): InstructionCheck {
+  const normalized = normalizeInstruction(text)
+  if (normalized.length > MAX_INSTRUCTION_LENGTH) {
+    return { ok: false, code: 'instruction-too-long' }
+  }
+
+  const variants = foldings(normalized)
+  for (const { code, patterns } of BLOCKLIST) {
+    if (patterns.some((pattern) => variants.some((variant) => pattern.test(variant)))) {
+      return { ok: false, code }
+    }
+  }
+  return { ok: true, text: normalized }
+}
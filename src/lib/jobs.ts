@@ -0,0 +1,466 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+
+import { refundGenerationCredits } from '@/lib/billing'
+import { currentConsent, hasConsent } from '@/lib/client-profiles'
+import {
+  addEditStep,
+  createEditSession,
+  getEditSessionRecord,
+  loadEditContext,
+  type EditStep,
+} from '@/lib/edit-sessions'
+import {
+  createSignedImageUrl,
+  downloadImage,
+  GENERATIONS_BUCKET,
+  saveGeneration,
+  uploadImage,
+} from '@/lib/generations'
+import { scoreIdentity } from '@/lib/face-embedding'
+import { compositeMasked } from '@/lib/image-composite'
+import { extensionForMimeType, type Base64Image } from '@/lib/image-data'
+import type { StyleSelection } from '@/lib/prompt-builder'
+import { getImageEditProvider, latestImage, ProviderError, type ProviderFailureKind } from '@/lib/providers'
+import { getQuotaStore } from '@/lib/quota'
+
+export type JobStatus = 'queued' | 'running' | 'succeeded' | 'failed' | 'cancelled'
+
+export interface GenerationJob {
+  id: string
+  user_id: string
+  status: JobStatus
+  input_path: string
+  output_path: string | null
+  reference_path: string | null
+  mask_path: string | null
+  selection: StyleSelection
+  prompt: string
+  debit_id: string | null
+  generation_id: string | null
+  /** Set when staff generated from their organization's pool. */
+  organization_id: string | null
+  /** The client member the look was made for. */
+  client_id: string | null
+  /** The client profile whose session the look was made in. */
+  client_profile_id: string | null
+  session_id: string | null
+  parent_step_id: string | null
+  /** The step holding the result, once the job has succeeded. */
+  step_id: string | null
+  instruction: string | null
+  error: string | null
+  error_code: ProviderFailureKind | null
+  /** Measured by the worker once the result is in; see `scoreIdentity`. */
+  identity_score: number | null
+  attempts: number
+  created_at: string
+  started_at: string | null
+  finished_at: string | null
+}
+
+/** What the browser sees of a job. Image URLs are short-lived signed URLs. */
+export interface JobView {
+  id: string
+  status: JobStatus
+  error: string | null
+  errorCode: ProviderFailureKind | null
+  inputUrl: string | null
+  outputUrl: string | null
+  generationId: string | null
+  sessionId: string | null
+  stepId: string | null
+  /** How much the face in the result matches the input, 0–1; null when it could not be measured. */
+  identityScore: number | null
+  createdAt: string
+}
+
+/** A new photo (with optional reference and mask) to start an edit session from, or the step to refine. */
+export type JobSource = { image: Base64Image; reference?: Base64Image; mask?: Base64Image } | { parent: EditStep }
+
+/**
+ * A running job that has not finished by then is assumed to be abandoned.
+ * Must outlast the provider's own timeouts and retries.
+ */
+const STALE_JOB_MS = 5 * 60 * 1000
+const MAX_ATTEMPTS = 3
+/** How often a running job checks whether its owner cancelled it. */
+const CANCEL_CHECK_MS = 2000
+const FAILED_MESSAGE = 'Unexpected error occurred while generating image.'
+const CANCELLED_MESSAGE = 'The generation was cancelled.'
+
+export function isFinished(status: JobStatus) {
+  return status === 'succeeded' || status === 'failed' || status === 'cancelled'
+}
+
+/**
+ * Queues a job. A new photo is stored and starts an edit session; a parent
+ * step continues its session. `admin` must be the service-role client: users
+ * cannot insert jobs themselves, so every job has been admitted (quota,
+ * credits) by the generate route.
+ */
+export async function createJob(
+  admin: SupabaseClient,
+  job: {
+    id: string
+    userId: string
+    source: JobSource
+    selection: StyleSelection
+    prompt: string
+    instruction: string
+    debitId: string
+    organizationId?: string | null
+    clientId?: string | null
+    clientProfileId?: string | null
+  }
+) {
+  let parent: EditStep
+  let referencePath: string | null = null
+  let maskPath: string | null = null
+  if ('image' in job.source) {
+    const { image, reference, mask } = job.source
+    const inputPath = `${job.userId}/${job.id}/input.${extensionForMimeType(image.mimeType)}`
+    await uploadImage(admin, inputPath, image)
+    if (reference) {
+      referencePath = `${job.userId}/${job.id}/reference.${extensionForMimeType(reference.mimeType)}`
+      await uploadImage(admin, referencePath, reference)
+    }
+    if (mask) {
+      maskPath = `${job.userId}/${job.id}/mask.png`
+      await uploadImage(admin, maskPath, mask)
+    }
+    parent = (await createEditSession(admin, job.userId, inputPath, { referencePath, maskPath })).root
+  } else {
+    parent = job.source.parent
+    maskPath = (await getEditSessionRecord(admin, parent.session_id))?.mask_path ?? null
+  }
+
+  const { data, error } = await admin
+    .from('generation_jobs')
+    .insert({
+      id: job.id,
+      user_id: job.userId,
+      input_path: parent.image_path,
+      reference_path: referencePath,
+      mask_path: maskPath,
+      selection: job.selection,
+      prompt: job.prompt,
+      instruction: job.instruction,
+      debit_id: job.debitId,
+      organization_id: job.organizationId ?? null,
+      client_id: job.clientId ?? null,
+      client_profile_id: job.clientProfileId ?? null,
+      session_id: parent.session_id,
+      parent_step_id: parent.id,
+    })
+    .select()
+    .single<GenerationJob>()
+  if (error) throw error
+  return data
+}
+
+/**
+ * Returns the current user's job, or null if it does not exist or belongs to
+ * someone else.
+ */
+export async function getJob(supabase: SupabaseClient, id: string): Promise<JobView | null> {
+  const { data: job, error } = await supabase
+    .from('generation_jobs')
+    .select('*')
+    .eq('id', id)
+    .maybeSingle<GenerationJob>()
+  if (error) throw error
+  if (!job) return null
+
+  const sign = (path: string | null) =>
+    path
+      ? createSignedImageUrl(supabase, path).catch((err) => {
+          console.error('Failed to sign job image:', err)
+          return null
+        })
+      : null
+  const [inputUrl, outputUrl] = await Promise.all([
+    sign(job.input_path),
+    sign(job.status === 'succeeded' ? job.output_path : null),
+  ])
+
+  return {
+    id: job.id,
+    status: job.status,
+    error: job.error,
+    errorCode: job.error_code,
+    inputUrl,
+    outputUrl,
+    generationId: job.generation_id,
+    sessionId: job.session_id,
+    stepId: job.step_id,
+    identityScore: job.identity_score,
+    createdAt: job.created_at,
+  }
+}
+
+/**
+ * Moves a running job to a final state. Returns false if it is no longer
+ * running, i.e. it was cancelled meanwhile.
+ */
+async function finish(admin: SupabaseClient, id: string, patch: Partial<GenerationJob>) {
+  const { data, error } = await admin
+    .from('generation_jobs')
+    .update({ ...patch, finished_at: new Date().toISOString() })
+    .eq('id', id)
+    .eq('status', 'running')
+    .select('id')
+  if (error) throw error
+  return data.length > 0
+}
+
+async function refund(admin: SupabaseClient, job: GenerationJob) {
+  // Users are only charged for images they actually receive.
+  if (!job.debit_id) return
+  try {
+    await refundGenerationCredits(admin, job.debit_id)
+  } catch (err) {
+    console.error('Failed to refund generation credits:', err)
+  }
+}
+
+async function fail(admin: SupabaseClient, job: GenerationJob, kind: ProviderFailureKind, message: string) {
+  if (await finish(admin, job.id, { status: 'failed', error: message, error_code: kind })) {
+    await refund(admin, job)
+  }
+}
+
+/**
+ * Aborts `controller` once the job is cancelled, possibly from another
+ * server instance. Returns a function that stops watching.
+ */
+function watchForCancel(admin: SupabaseClient, id: string, controller: AbortController) {
+  const interval = setInterval(async () => {
+    const { data } = await admin
+      .from('generation_jobs')
+      .select('status')
+      .eq('id', id)
+      .maybeSingle<Pick<GenerationJob, 'status'>>()
+    if (data?.status === 'cancelled') controller.abort()
+  }, CANCEL_CHECK_MS)
+  return () => clearInterval(interval)
+}
+
+/**
+ * Claims a queued job and runs it to completion. Safe to call concurrently for
+ * the same job: only one caller wins the claim, the others return false.
+ */
+export async function processJob(admin: SupabaseClient, id: string) {
+  const { data: queued, error: readError } = await admin
+    .from('generation_jobs')
+    .select('*')
+    .eq('id', id)
+    .maybeSingle<GenerationJob>()
+  if (readError) throw readError
+  if (!queued || queued.status !== 'queued') return false
+
+  const { data: job, error: claimError } = await admin
+    .from('generation_jobs')
+    .update({ status: 'running', attempts: queued.attempts + 1, started_at: new Date().toISOString() })
+    .eq('id', id)
+    .eq('status', 'queued')
+    .eq('attempts', queued.attempts)
+    .select()
+    .maybeSingle<GenerationJob>()
+  if (claimError) throw claimError
+  if (!job) return false
+
+  const controller = new AbortController()
+  const stopWatching = watchForCancel(admin, id, controller)
+  let original: Base64Image
+  let output: Base64Image
+  try {
+    const context =
+      job.session_id && job.parent_step_id
+        ? await loadEditContext(admin, job.session_id, job.parent_step_id)
+        : {
+            image: await downloadImage(admin, job.input_path),
+            reference: job.reference_path ? await downloadImage(admin, job.reference_path) : undefined,
+            history: [],
+          }
+    const { image, reference, history } = context
+    const request = { image, reference, prompt: job.prompt, history, signal: controller.signal }
+    // Refinements are compared with the session's photo, so drift across steps is caught too.
+    original = 'original' in context ? context.original : image
+    output = (await getImageEditProvider({ supabase: admin }).edit(request)).image
+    if (job.mask_path) {
+      // Only the masked region comes from the model; the rest stays as it was before this step.
+      output = await compositeMasked(latestImage(request), output, await downloadImage(admin, job.mask_path))
+    }
+  } catch (err) {
+    if (controller.signal.aborted) return true
+    console.error('Generation failed:', err)
+    if (err instanceof ProviderError) {
+      await fail(admin, job, err.kind, err.message)
+    } else {
+      await fail(admin, job, 'failed', FAILED_MESSAGE)
+    }
+    return true
+  } finally {
+    stopWatching()
+  }
+
+  // The client may have withdrawn consent while the image was generated; then none of it is kept.
+  let consented: boolean
+  try {
+    consented = !job.client_profile_id || hasConsent(await currentConsent(admin, job.client_profile_id), 'photos')
+  } catch (err) {
+    console.error('Failed to check client consent:', err)
+    await fail(admin, job, 'failed', FAILED_MESSAGE)
+    return true
+  }
+  if (!consented) {
+    if (await finish(admin, job.id, { status: 'cancelled', error: CANCELLED_MESSAGE, error_code: 'cancelled' })) {
+      await refund(admin, job)
+    }
+    return true
+  }
+
+  // Advisory: a score that cannot be measured must not cost the user a paid result.
+  const identityScore = await scoreIdentity(original, output).catch((err) => {
+    console.error('Failed to score identity:', err)
+    return null
+  })
+
+  const outputPath = `${job.user_id}/${job.id}/output.${extensionForMimeType(output.mimeType)}`
+  // The step exists before the job succeeds, so pollers always see its id.
+  let step: EditStep | null = null
+  try {
+    await uploadImage(admin, outputPath, output)
+    if (job.session_id) {
+      step = await addEditStep(admin, {
+        session_id: job.session_id,
+        user_id: job.user_id,
+        parent_id: job.parent_step_id,
+        instruction: job.instruction,
+        prompt: job.prompt,
+        image_path: outputPath,
+        generation_id: null,
+      })
+    }
+  } catch (err) {
+    console.error('Failed to store job output:', err)
+    await admin.storage.from(GENERATIONS_BUCKET).remove([outputPath])
+    await fail(admin, job, 'failed', FAILED_MESSAGE)
+    return true
+  }
+
+  const succeeded = await finish(admin, job.id, {
+    status: 'succeeded',
+    output_path: outputPath,
+    step_id: step?.id ?? null,
+    identity_score: identityScore,
+  })
+  if (!succeeded) {
+    // Cancelled while the image was being stored: the user was refunded, so drop it.
+    if (step) await admin.from('edit_steps').delete().eq('id', step.id)
+    await admin.storage.from(GENERATIONS_BUCKET).remove([outputPath])
+    return true
+  }
+
+  // Counting towards the quota must not keep a paid result out of history.
+  // Looks paid from an organization's pool do not count towards the stylist's own quota.
+  try {
+    if (!job.organization_id) await getQuotaStore(admin).recordGeneration(job.user_id, new Date())
+  } catch (err) {
+    console.error('Failed to record generation for quotas:', err)
+  }
+
+  // The result is on the job either way; a failed save only keeps it out of history.
+  try {
+    const saved = await saveGeneration(admin, job.user_id, {
+      id: job.id,
+      input: { path: job.input_path },
+      output: { path: outputPath },
+      reference: job.reference_path ? { path: job.reference_path } : undefined,
+      selection: job.selection,
+      prompt: job.prompt,
+      organizationId: job.organization_id,
+      clientId: job.client_id,
+      clientProfileId: job.client_profile_id,
+      identityScore,
+    })
+    const { error } = await admin.from('generation_jobs').update({ generation_id: saved.id }).eq('id', job.id)
+    if (error) throw error
+    if (step) {
+      const { error: stepError } = await admin.from('edit_steps').update({ generation_id: saved.id }).eq('id', step.id)
+      if (stepError) throw stepError
+    }
+  } catch (err) {
+    console.error('Failed to save generation:', err)
+  }
+
+  return true
+}
+
+/**
+ * Cancels the user's job if it has not finished yet and refunds its credit.
+ * Returns false if there is no such unfinished job.
+ */
+export async function cancelJob(admin: SupabaseClient, userId: string, id: string) {
+  const { data: job, error } = await admin
+    .from('generation_jobs')
+    .update({
+      status: 'cancelled',
+      error: CANCELLED_MESSAGE,
+      error_code: 'cancelled',
+      finished_at: new Date().toISOString(),
+    })
+    .eq('id', id)
+    .eq('user_id', userId)
+    .in('status', ['queued', 'running'])
+    .select()
+    .maybeSingle<GenerationJob>()
+  if (error) throw error
+  if (!job) return false
+
+  await refund(admin, job)
+  return true
+}
+
+/**
+ * Worker entry point: requeues abandoned jobs (or fails them after
+ * `MAX_ATTEMPTS`), then drains up to `limit` queued jobs, oldest first.
+ */
+export async function processQueuedJobs(admin: SupabaseClient, limit = 10) {
+  const staleBefore = new Date(Date.now() - STALE_JOB_MS).toISOString()
+  const { data: stale, error: staleError } = await admin
+    .from('generation_jobs')
+    .select('*')
+    .eq('status', 'running')
+    .lt('started_at', staleBefore)
+    .returns<GenerationJob[]>()
+  if (staleError) throw staleError
+
+  for (const job of stale ?? []) {
+    if (job.attempts >= MAX_ATTEMPTS) {
+      await fail(admin, job, 'timeout', FAILED_MESSAGE)
+    } else {
+      const { error } = await admin
+        .from('generation_jobs')
+        .update({ status: 'queued', started_at: null })
+        .eq('id', job.id)
+        .eq('status', 'running')
+      if (error) throw error
+    }
+  }
+
+  const { data: queued, error: queuedError } = await admin
+    .from('generation_jobs')
+    .select('id')
+    .eq('status', 'queued')
+    .order('created_at', { ascending: true })
+    .limit(limit)
+    .returns<Pick<GenerationJob, 'id'>[]>()
+  if (queuedError) throw queuedError
+
+  let processed = 0
+  for (const { id } of queued ?? []) {
+    if (await processJob(admin, id)) processed++
+  }
+  return { recovered: (stale ?? []).length, processed }
+}
@@ -0,0 +1,15 @@
+import { describe, expect, it } from 'vitest'
+
+import { localPath } from '@/lib/local-path'
+
+describe('localPath', () => {
+  it('keeps paths on this site', () => {
+    expect(localPath('/protected/organization?tab=members')).toBe('/protected/organization?tab=members')
+  })
+
+  it('falls back to the home page for anything that could leave the site', () => {
+    for (const value of [null, undefined, '', 'https://evil.com', '//evil.com', '/\\evil.com', '/a\\b', '/\t/evil.com']) {
+      expect(localPath(value)).toBe('/')
+    }
+  })
+})
@@ -0,0 +1,8 @@
+/**
+ * `value` if it is a path on this site, otherwise `/`. Used for `next`
+ * parameters so a link cannot send users off-site: browsers read `//host`,
+ * `/\host` and paths with tabs or newlines in them as other hosts.
+ */
+export function localPath(value: string | null | undefined) {
+  return value && /^\/(?![/\\])/.test(value) && !/[\\\u0000-\u001f\u007f]/.test(value) ? value : '/'
+}
@@ -1,6 +1,10 @@
 import { createServerClient } from '@supabase/ssr'
 import { NextResponse, type NextRequest } from 'next/server'
 
+import { errorPagePath } from '@/lib/errors'
+import { errorResponse } from '@/lib/errors/response'
+import { ACTIVE_ORGANIZATION_COOKIE, requiredRoles, resolveActiveOrganization } from '@/lib/organizations'
+
 export async function updateSession(request: NextRequest) {
   let supabaseResponse = NextResponse.next({
     request,
@@ -41,14 +45,35 @@ export async function updateSession(request: NextRequest) {
   if (
     !user &&
     !request.nextUrl.pathname.startsWith('/login') &&
-    !request.nextUrl.pathname.startsWith('/auth')
+    !request.nextUrl.pathname.startsWith('/auth') &&
+    // Shared looks are public; the token is the permission
+    !request.nextUrl.pathname.startsWith('/s/') &&
+    // Face model files are static and the same for everyone
+    !request.nextUrl.pathname.startsWith('/face-models/') &&
+    // API routes answer with 401 themselves instead of an HTML redirect
+    !request.nextUrl.pathname.startsWith('/api')
   ) {
     // no user, potentially respond by redirecting the user to the login page
     const url = request.nextUrl.clone()
     url.pathname = '/auth/login'
+    // Come back afterwards, e.g. to accept an invitation
+    url.search = request.nextUrl.pathname === '/' ? '' : `?next=${encodeURIComponent(request.nextUrl.pathname)}`
     return NextResponse.redirect(url)
   }
 
+  // Organization role checks, against the organization the user is acting for
+  const roles = requiredRoles(request.nextUrl.pathname)
+  if (user && roles) {
+    const active = await resolveActiveOrganization(supabase, request.cookies.get(ACTIVE_ORGANIZATION_COOKIE)?.value)
+    if (!active || !roles.includes(active.role)) {
+      const denied = request.nextUrl.pathname.startsWith('/api')
+        ? errorResponse('forbidden')
+        : NextResponse.redirect(new URL(errorPagePath('forbidden'), request.url))
+      supabaseResponse.cookies.getAll().forEach((cookie) => denied.cookies.set(cookie))
+      return denied
+    }
+  }
+
   // IMPORTANT: You *must* return the supabaseResponse object as it is.
   // If you're creating a new response object with NextResponse.next() make sure to:
   // 1. Pass the request in it, like so:
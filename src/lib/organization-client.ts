@@ -0,0 +1,61 @@
+import type { Membership } from '@/lib/organizations'
+
+/** A client of the active organization that staff can generate for. */
+export interface OrganizationClient {
+  userId: string
+  email: string
+}
+
+export interface OrganizationsView {
+  organizations: Membership[]
+  /** Null when the user acts for their personal account. */
+  activeId: string | null
+  /** Empty unless the user is staff in the active organization. */
+  clients: OrganizationClient[]
+}
+
+async function errorFrom(response: Response, fallback: string) {
+  const body: { error?: string } = await response.json().catch(() => ({}))
+  return new Error(body.error || fallback)
+}
+
+/** Browser-side call to `GET /api/organizations`. Null when signed out or it fails. */
+export async function fetchOrganizations(): Promise<OrganizationsView | null> {
+  const response = await fetch('/api/organizations', { cache: 'no-store' })
+  if (!response.ok) return null
+  return response.json()
+}
+
+/** Acts for an organization from now on, or for the personal account with null. */
+export async function switchOrganization(organizationId: string | null) {
+  const response = await fetch('/api/organizations/active', {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ organizationId }),
+  })
+  if (!response.ok) throw await errorFrom(response, 'Could not switch organization')
+}
+
+/** A client profile session opened from `/protected/clients`. */
+export interface ClientProfileSession {
+  id: string
+  name: string
+  photoUrl: string | null
+  /** False once the client has withdrawn consent to storing their photos. */
+  canStoreLooks: boolean
+}
+
+export async function fetchClientProfileSession(id: string): Promise<ClientProfileSession> {
+  const response = await fetch(`/api/clients/${id}`, { cache: 'no-store' })
+  if (!response.ok) throw await errorFrom(response, 'Could not load the client profile')
+  return response.json()
+}
+
+/** Downloads the profile photo so the editor can treat it like an upload. */
+export async function clientPhotoFile(session: ClientProfileSession): Promise<File | null> {
+  if (!session.photoUrl) return null
+  const response = await fetch(session.photoUrl)
+  if (!response.ok) throw new Error('Could not load the client photo')
+  const blob = await response.blob()
+  return new File([blob], `client-${session.id}`, { type: blob.type })
+}
@@ -0,0 +1,257 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+
+import type { EmailMessage } from '@/lib/email'
+import { UUID_PATTERN } from '@/lib/generate-request'
+
+export type OrganizationRole = 'owner' | 'stylist' | 'client'
+/** Owners are only ever the person who created the organization. */
+export type InvitableRole = Exclude<OrganizationRole, 'owner'>
+
+export const ROLE_LABELS: Record<OrganizationRole, string> = {
+  owner: 'Owner',
+  stylist: 'Stylist',
+  client: 'Client',
+}
+
+export const INVITABLE_ROLES: readonly InvitableRole[] = ['stylist', 'client']
+
+/** Roles that spend the organization's credit pool and generate for its clients. */
+export const STAFF_ROLES: readonly OrganizationRole[] = ['owner', 'stylist']
+
+/** Names the organization the user is acting for; without it they act for themselves. */
+export const ACTIVE_ORGANIZATION_COOKIE = 'active-organization'
+export const ACTIVE_ORGANIZATION_COOKIE_OPTIONS = {
+  path: '/',
+  httpOnly: true,
+  sameSite: 'lax',
+  maxAge: 60 * 60 * 24 * 365,
+} as const
+
+/**
+ * Paths that need a role in the active organization. Middleware checks these
+ * before the request reaches the route; the routes and the database functions
+ * behind them check again.
+ */
+const ROLE_PROTECTED_PATHS: { prefix: string; roles: readonly OrganizationRole[] }[] = [
+  { prefix: '/api/organizations/invitations', roles: ['owner'] },
+  { prefix: '/api/organizations/members', roles: ['owner'] },
+  { prefix: '/api/clients', roles: STAFF_ROLES },
+  { prefix: '/protected/clients', roles: STAFF_ROLES },
+  { prefix: '/api/availability', roles: STAFF_ROLES },
+  { prefix: '/protected/bookings', roles: STAFF_ROLES },
+]
+
+export interface Organization {
+  id: string
+  name: string
+  created_at: string
+}
+
+export interface OrganizationMember {
+  organization_id: string
+  user_id: string
+  role: OrganizationRole
+  email: string
+  created_at: string
+}
+
+export interface OrganizationInvitation {
+  id: string
+  organization_id: string
+  email: string
+  role: InvitableRole
+  token: string
+  created_at: string
+  expires_at: string
+  accepted_at: string | null
+}
+
+/** One of the current user's organizations and their role in it. */
+export interface Membership {
+  id: string
+  name: string
+  role: OrganizationRole
+}
+
+export interface ActiveOrganization {
+  id: string
+  role: OrganizationRole
+}
+
+export function isStaff(role: OrganizationRole) {
+  return STAFF_ROLES.includes(role)
+}
+
+export function isInvitableRole(value: unknown): value is InvitableRole {
+  return typeof value === 'string' && (INVITABLE_ROLES as readonly string[]).includes(value)
+}
+
+/** Roles allowed on `pathname`, or null when it is open to every signed-in user. */
+export function requiredRoles(pathname: string) {
+  return ROLE_PROTECTED_PATHS.find(({ prefix }) => pathname.startsWith(prefix))?.roles ?? null
+}
+
+export function invitationPath(token: string) {
+  return `/invite/${token}`
+}
+
+/** The current user's role in an organization, or null if they are not a member. */
+export async function getOrganizationRole(supabase: SupabaseClient, organizationId: string) {
+  const { data, error } = await supabase.rpc('organization_role', { p_organization_id: organizationId })
+  if (error) throw error
+  return (data as OrganizationRole | null) ?? null
+}
+
+/**
+ * The organization named by the active-organization cookie, as long as the
+ * user still belongs to it. Null means they act for their personal account,
+ * which is also what a cookie that is not an organization id means.
+ */
+export async function resolveActiveOrganization(
+  supabase: SupabaseClient,
+  organizationId: string | undefined
+): Promise<ActiveOrganization | null> {
+  if (!organizationId || !UUID_PATTERN.test(organizationId)) return null
+  const role = await getOrganizationRole(supabase, organizationId)
+  return role ? { id: organizationId, role } : null
+}
+
+/** The credit pool generations are charged to: the organization's for staff, otherwise the user's own. */
+export function creditAccount(active: ActiveOrganization | null) {
+  return active && isStaff(active.role) ? active.id : null
+}
+
+export async function listMemberships(supabase: SupabaseClient, userId: string): Promise<Membership[]> {
+  const { data, error } = await supabase
+    .from('organization_members')
+    .select('role, organizations (id, name)')
+    .eq('user_id', userId)
+    .order('created_at')
+    .returns<{ role: OrganizationRole; organizations: Pick<Organization, 'id' | 'name'> | null }[]>()
+  if (error) throw error
+
+  return (data ?? []).flatMap(({ role, organizations }) => (organizations ? [{ ...organizations, role }] : []))
+}
+
+/** Creates an organization owned by the current user and returns its id. */
+export async function createOrganization(supabase: SupabaseClient, name: string) {
+  const { data, error } = await supabase.rpc('create_organization', { p_name: name })
+  if (error) throw error
+  return data as string
+}
+
+export async function listMembers(supabase: SupabaseClient, organizationId: string) {
+  const { data, error } = await supabase
+    .from('organization_members')
+    .select('*')
+    .eq('organization_id', organizationId)
+    .order('created_at')
+    .returns<OrganizationMember[]>()
+  if (error) throw error
+  return data ?? []
+}
+
+/** A member's role in an organization the current user belongs to, or null. */
+export async function getMemberRole(supabase: SupabaseClient, organizationId: string, userId: string) {
+  const { data, error } = await supabase
+    .from('organization_members')
+    .select('role')
+    .eq('organization_id', organizationId)
+    .eq('user_id', userId)
+    .maybeSingle<Pick<OrganizationMember, 'role'>>()
+  if (error) throw error
+  return data?.role ?? null
+}
+
+/**
+ * Removes a member. Returns false if there is no such member or the current
+ * user may not remove them (only owners can, and never themselves).
+ */
+export async function removeMember(supabase: SupabaseClient, organizationId: string, userId: string) {
+  const { data, error } = await supabase
+    .from('organization_members')
+    .delete()
+    .eq('organization_id', organizationId)
+    .eq('user_id', userId)
+    .select('user_id')
+  if (error) throw error
+  return (data ?? []).length > 0
+}
+
+/** Pending invitations, for owners; everyone else sees none. */
+export async function listInvitations(supabase: SupabaseClient, organizationId: string) {
+  const { data, error } = await supabase
+    .from('organization_invitations')
+    .select('*')
+    .eq('organization_id', organizationId)
+    .is('accepted_at', null)
+    .order('created_at', { ascending: false })
+    .returns<OrganizationInvitation[]>()
+  if (error) throw error
+  return data ?? []
+}
+
+/**
+ * Invites `email` to the organization, replacing a pending invitation for the
+ * same address. Owners only. Returns the invitation token.
+ */
+export async function inviteMember(
+  supabase: SupabaseClient,
+  { organizationId, email, role }: { organizationId: string; email: string; role: InvitableRole }
+) {
+  const { data, error } = await supabase.rpc('invite_to_organization', {
+    p_organization_id: organizationId,
+    p_email: email,
+    p_role: role,
+  })
+  if (error) throw error
+  return data as string
+}
+
+/** The email that delivers an invitation link. */
+export function invitationEmail({
+  email,
+  role,
+  organizationName,
+  inviterEmail,
+  url,
+}: {
+  email: string
+  role: InvitableRole
+  organizationName: string
+  inviterEmail: string
+  url: string
+}): EmailMessage {
+  return {
+    to: email,
+    subject: `You are invited to join ${organizationName}`,
+    text: [
+      `${inviterEmail || 'The owner'} invited you to join ${organizationName} as a ${ROLE_LABELS[role].toLowerCase()}.`,
+      `Sign in with this email address and open ${url} to accept. The link works for 7 days.`,
+    ].join('\n\n'),
+  }
+}
+
+export async function revokeInvitation(supabase: SupabaseClient, organizationId: string, id: string) {
+  const { data, error } = await supabase
+    .from('organization_invitations')
+    .delete()
+    .eq('organization_id', organizationId)
+    .eq('id', id)
+    .select('id')
+  if (error) throw error
+  return (data ?? []).length > 0
+}
+
+/**
+ * Joins the organization behind an invitation token. Returns its id, or null
+ * if the invitation is unknown, used, expired or for another email address.
+ */
+export async function acceptInvitation(supabase: SupabaseClient, token: string) {
+  const { data, error } = await supabase.rpc('accept_organization_invitation', { p_token: token })
+  if (error) {
+    if (error.code === 'P0002') return null
+    throw error
+  }
+  return data as string
+}
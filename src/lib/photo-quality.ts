@@ -0,0 +1,293 @@
+/**
+ * In-browser pre-flight checks on a photo before it is spent on a generation.
+ * Everything here runs locally: lighting and sharpness come from the pixels,
+ * faces from the Shape Detection API where the browser provides one and from
+ * a bundled TF.js model everywhere else.
+ */
+
+import type * as FaceApi from '@vladmandic/face-api'
+
+export type PhotoWarningCode =
+  | 'no-face'
+  | 'multiple-faces'
+  | 'face-too-small'
+  | 'face-off-center'
+  | 'too-dark'
+  | 'too-bright'
+  | 'blurry'
+
+export const PHOTO_WARNING_MESSAGES: Record<PhotoWarningCode, string> = {
+  'no-face': 'We could not find a face. Use a front-facing photo with your whole face visible.',
+  'multiple-faces': 'More than one face is in the photo. Crop it so only you are in frame.',
+  'face-too-small': 'Your face is small in the frame. Move closer or crop the photo around your head and shoulders.',
+  'face-off-center': 'Your face is near the edge of the photo. Center it so the whole hairline is visible.',
+  'too-dark': 'The photo is quite dark. Face a window or turn on a light.',
+  'too-bright': 'The photo is overexposed. Avoid direct light or a bright background behind you.',
+  blurry: 'The photo looks blurry. Hold the camera steady and make sure it is focused on your face.',
+}
+
+export interface FaceBox {
+  x: number
+  y: number
+  width: number
+  height: number
+}
+
+export type LandmarkType = 'eye' | 'mouth' | 'nose'
+
+export interface FaceWithLandmarks extends FaceBox {
+  /** Center of each landmark the detector reported; eyes appear twice. */
+  landmarks: { type: LandmarkType; x: number; y: number }[]
+}
+
+export interface PhotoQualityReport {
+  warnings: PhotoWarningCode[]
+  /** Null when face detection failed and face checks were skipped. */
+  faces: FaceBox[] | null
+  /** Mean luminance, 0–255. */
+  brightness: number
+  /** Variance of the Laplacian; higher is sharper. */
+  sharpness: number
+}
+
+// Thresholds tuned on phone selfies downscaled to ANALYSIS_SIZE.
+const ANALYSIS_SIZE = 256
+const MIN_BRIGHTNESS = 60
+const MAX_BRIGHTNESS = 210
+const MIN_SHARPNESS = 60
+/** Smallest acceptable face height as a fraction of the photo height. */
+const MIN_FACE_HEIGHT_RATIO = 0.2
+/** Largest acceptable distance of the face center from the photo center, as a fraction of each side. */
+const MAX_CENTER_OFFSET = 0.25
+/** Where `src/app/face-models` serves the bundled model files. */
+const FACE_MODEL_URL = '/face-models'
+
+// The Shape Detection API is not in TypeScript's DOM lib yet.
+interface DetectedFace {
+  boundingBox: DOMRectReadOnly
+  landmarks?: { type: LandmarkType; locations: { x: number; y: number }[] }[]
+}
+interface FaceDetectorInstance {
+  detect(image: ImageBitmapSource): Promise<DetectedFace[]>
+}
+type FaceDetectorConstructor = new (options?: { fastMode?: boolean; maxDetectedFaces?: number }) => FaceDetectorInstance
+
+function getFaceDetector(fastMode = true): FaceDetectorInstance | null {
+  const FaceDetector = (globalThis as { FaceDetector?: FaceDetectorConstructor }).FaceDetector
+  return FaceDetector ? new FaceDetector({ fastMode, maxDetectedFaces: 5 }) : null
+}
+
+let faceApi: Promise<typeof FaceApi | null> | null = null
+
+/**
+ * Loads the bundled tiny face detector and landmark model the first time a
+ * browser without a native detector needs them. A failed load is retried on
+ * the next call.
+ */
+function loadFaceApi() {
+  faceApi ??= (async () => {
+    try {
+      const faceapi = await import('@vladmandic/face-api')
+      await Promise.all([
+        faceapi.nets.tinyFaceDetector.loadFromUri(FACE_MODEL_URL),
+        faceapi.nets.faceLandmark68TinyNet.loadFromUri(FACE_MODEL_URL),
+      ])
+      return faceapi
+    } catch (err) {
+      console.error('Failed to load the face model:', err)
+      faceApi = null
+      return null
+    }
+  })()
+  return faceApi
+}
+
+/** The model reads images, videos and canvases; bitmaps are drawn onto a canvas first. */
+function modelInput(source: ImageBitmapSource) {
+  if (
+    source instanceof HTMLImageElement ||
+    source instanceof HTMLVideoElement ||
+    source instanceof HTMLCanvasElement
+  ) {
+    return source
+  }
+  if (!(source instanceof ImageBitmap)) return null
+
+  const canvas = document.createElement('canvas')
+  canvas.width = source.width
+  canvas.height = source.height
+  canvas.getContext('2d')?.drawImage(source, 0, 0)
+  return canvas
+}
+
+function center(points: { x: number; y: number }[]) {
+  return {
+    x: points.reduce((sum, point) => sum + point.x, 0) / points.length,
+    y: points.reduce((sum, point) => sum + point.y, 0) / points.length,
+  }
+}
+
+async function detectWithModel(source: ImageBitmapSource, withLandmarks: boolean) {
+  const faceapi = await loadFaceApi()
+  const input = modelInput(source)
+  if (!faceapi || !input) return null
+
+  const options = new faceapi.TinyFaceDetectorOptions()
+  if (!withLandmarks) {
+    const faces = await faceapi.detectAllFaces(input, options)
+    return faces.map(({ box: { x, y, width, height } }) => ({ x, y, width, height, landmarks: [] }))
+  }
+  const faces = await faceapi.detectAllFaces(input, options).withFaceLandmarks(true)
+  return faces.map(({ detection: { box }, landmarks }): FaceWithLandmarks => ({
+    x: box.x,
+    y: box.y,
+    width: box.width,
+    height: box.height,
+    landmarks: [
+      { type: 'eye', ...center(landmarks.getLeftEye()) },
+      { type: 'eye', ...center(landmarks.getRightEye()) },
+      { type: 'nose', ...center(landmarks.getNose()) },
+      { type: 'mouth', ...center(landmarks.getMouth()) },
+    ],
+  }))
+}
+
+/**
+ * Detects faces with the browser's built-in detector when it has one, which
+ * is faster, and with the bundled model otherwise. Returns null only when
+ * detection fails, so callers can skip face checks.
+ */
+export async function detectFaces(source: ImageBitmapSource): Promise<FaceBox[] | null> {
+  const detector = getFaceDetector()
+  try {
+    if (detector) {
+      const faces = await detector.detect(source)
+      return faces.map(({ boundingBox: { x, y, width, height } }) => ({ x, y, width, height }))
+    }
+    const faces = await detectWithModel(source, false)
+    return faces && faces.map(({ x, y, width, height }) => ({ x, y, width, height }))
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Like `detectFaces`, but in accurate mode and with eye, nose and mouth
+ * positions. Slower, so it is meant for single images rather than video.
+ */
+export async function detectFaceLandmarks(source: ImageBitmapSource): Promise<FaceWithLandmarks[] | null> {
+  const detector = getFaceDetector(false)
+  try {
+    if (!detector) return await detectWithModel(source, true)
+    const faces = await detector.detect(source)
+    return faces.map(({ boundingBox: { x, y, width, height }, landmarks = [] }) => ({
+      x,
+      y,
+      width,
+      height,
+      landmarks: landmarks
+        .filter((landmark) => landmark.locations.length > 0)
+        .map(({ type, locations }) => ({ type, ...center(locations) })),
+    }))
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Framing warnings for detected faces in a `width` × `height` frame. Shared by
+ * the photo check and the live camera guide.
+ */
+export function checkFraming(faces: FaceBox[], width: number, height: number): PhotoWarningCode[] {
+  if (faces.length === 0) return ['no-face']
+  if (faces.length > 1) return ['multiple-faces']
+
+  const [face] = faces
+  const warnings: PhotoWarningCode[] = []
+  if (face.height / height < MIN_FACE_HEIGHT_RATIO) {
+    warnings.push('face-too-small')
+  }
+  const offsetX = Math.abs(face.x + face.width / 2 - width / 2) / width
+  const offsetY = Math.abs(face.y + face.height / 2 - height / 2) / height
+  if (offsetX > MAX_CENTER_OFFSET || offsetY > MAX_CENTER_OFFSET) {
+    warnings.push('face-off-center')
+  }
+  return warnings
+}
+
+function grayscale(source: CanvasImageSource, width: number, height: number) {
+  const scale = Math.min(1, ANALYSIS_SIZE / Math.max(width, height))
+  const w = Math.max(3, Math.round(width * scale))
+  const h = Math.max(3, Math.round(height * scale))
+
+  const canvas = document.createElement('canvas')
+  canvas.width = w
+  canvas.height = h
+  const ctx = canvas.getContext('2d', { willReadFrequently: true })
+  if (!ctx) return null
+  ctx.drawImage(source, 0, 0, w, h)
+
+  const { data } = ctx.getImageData(0, 0, w, h)
+  const gray = new Float32Array(w * h)
+  for (let i = 0; i < gray.length; i++) {
+    gray[i] = 0.299 * data[i * 4] + 0.587 * data[i * 4 + 1] + 0.114 * data[i * 4 + 2]
+  }
+  return { gray, w, h }
+}
+
+function laplacianVariance(gray: Float32Array, w: number, h: number) {
+  let sum = 0
+  let sumSq = 0
+  let n = 0
+  for (let y = 1; y < h - 1; y++) {
+    for (let x = 1; x < w - 1; x++) {
+      const i = y * w + x
+      const value = gray[i - w] + gray[i + w] + gray[i - 1] + gray[i + 1] - 4 * gray[i]
+      sum += value
+      sumSq += value * value
+      n++
+    }
+  }
+  const mean = sum / n
+  return sumSq / n - mean * mean
+}
+
+/**
+ * Runs all checks on a decoded image. Warnings are advisory; the caller
+ * decides whether to let the user continue.
+ */
+export async function analyzePhoto(
+  source: HTMLImageElement | ImageBitmap | HTMLCanvasElement
+): Promise<PhotoQualityReport> {
+  const width = source instanceof HTMLImageElement ? source.naturalWidth : source.width
+  const height = source instanceof HTMLImageElement ? source.naturalHeight : source.height
+  const warnings: PhotoWarningCode[] = []
+
+  let brightness = 0
+  let sharpness = 0
+  const pixels = grayscale(source, width, height)
+  if (pixels) {
+    brightness = pixels.gray.reduce((total, value) => total + value, 0) / pixels.gray.length
+    sharpness = laplacianVariance(pixels.gray, pixels.w, pixels.h)
+    if (brightness < MIN_BRIGHTNESS) warnings.push('too-dark')
+    if (brightness > MAX_BRIGHTNESS) warnings.push('too-bright')
+    if (sharpness < MIN_SHARPNESS) warnings.push('blurry')
+  }
+
+  const faces = await detectFaces(source)
+  if (faces) {
+    warnings.unshift(...checkFraming(faces, width, height))
+  }
+
+  return { warnings, faces, brightness, sharpness }
+}
+
+/**
+ * Convenience wrapper that decodes a data URL or object URL first.
+ */
+export async function analyzePhotoUrl(url: string) {
+  const image = new Image()
+  image.src = url
+  await image.decode()
+  return analyzePhoto(image)
+}
@@ -0,0 +1,93 @@
+import { describe, expect, it } from 'vitest'
+
+import { buildEditPrompt, buildRefinePrompt } from '@/lib/prompt-builder'
+
+const PRESERVE_LINE = "Keep the person's face, skin, eyes, expression, and all other features exactly the same."
+
+function occurrences(text: string, line: string) {
+  return text.split(line).length - 1
+}
+
+describe('buildEditPrompt', () => {
+  it('changes hair, color and beard together', () => {
+    expect(
+      buildEditPrompt({ hairstyleId: 'men-quiff', beardId: 'beard-stubble', colorId: 'color-auburn' })
+    ).toMatchSnapshot()
+  })
+
+  it('leaves everything as it is for an empty selection', () => {
+    expect(buildEditPrompt({})).toMatchSnapshot()
+  })
+
+  it('drops a color on a bald head', () => {
+    const prompt = buildEditPrompt({ hairstyleId: 'men-bald', colorId: 'color-blonde' })
+    expect(prompt.text).not.toContain('hair color')
+    expect(prompt).toMatchSnapshot()
+  })
+
+  it('drops part, texture and fringe on a bald head', () => {
+    expect(
+      buildEditPrompt({ hairstyleId: 'men-bald', modifiers: { partSide: 'left', texture: 'curly', fringe: 'long' } })
+    ).toMatchSnapshot()
+  })
+
+  it('drops part and fringe on a short cut but keeps the texture', () => {
+    const prompt = buildEditPrompt({
+      hairstyleId: 'men-buzz-cut',
+      modifiers: { partSide: 'right', texture: 'wavy', fringe: 'short' },
+    })
+    expect(prompt.text).toContain('wavy texture')
+    expect(prompt.text).not.toContain('fringe')
+    expect(prompt).toMatchSnapshot()
+  })
+
+  it('drops a center part on a style that is parted to one side', () => {
+    expect(buildEditPrompt({ hairstyleId: 'men-side-part', modifiers: { partSide: 'center' } })).toMatchSnapshot()
+  })
+
+  it('keeps a side part on a style that is parted to one side', () => {
+    const prompt = buildEditPrompt({ hairstyleId: 'men-side-part', modifiers: { partSide: 'left' } })
+    expect(prompt.notes).toEqual([])
+    expect(prompt).toMatchSnapshot()
+  })
+
+  it('drops any part on a tied style', () => {
+    expect(buildEditPrompt({ hairstyleId: 'women-ponytail', modifiers: { partSide: 'left' } })).toMatchSnapshot()
+  })
+
+  it('states the preservation line exactly once', () => {
+    const selections = [
+      {},
+      { hairstyleId: 'men-undercut', beardId: 'beard-full', colorId: 'color-black' },
+      { modifiers: { texture: 'curly' as const } },
+      { instructions: 'a little messier on top' },
+    ]
+    for (const selection of selections) {
+      expect(occurrences(buildEditPrompt(selection).text, PRESERVE_LINE)).toBe(1)
+      expect(occurrences(buildEditPrompt(selection, { reference: true }).text, PRESERVE_LINE)).toBe(1)
+    }
+    expect(occurrences(buildRefinePrompt('shorter on the sides').text, PRESERVE_LINE)).toBe(1)
+  })
+
+  it('ignores unknown ids and ids from the wrong category', () => {
+    const prompt = buildEditPrompt({ hairstyleId: 'men-mohawk', beardId: 'color-red', colorId: 'beard-goatee' })
+    expect(prompt.notes).toHaveLength(3)
+    expect(prompt).toMatchSnapshot()
+  })
+
+  it('styles the current haircut with modifiers alone', () => {
+    expect(
+      buildEditPrompt({ modifiers: { partSide: 'left', texture: 'coily', fringe: 'none' } })
+    ).toMatchSnapshot()
+  })
+
+  it('skips the catalog hairstyle when a reference photo sets it', () => {
+    expect(
+      buildEditPrompt({ hairstyleId: 'men-pompadour', colorId: 'color-gray' }, { reference: true })
+    ).toMatchSnapshot()
+  })
+
+  it('quotes free-text instructions', () => {
+    expect(buildEditPrompt({ instructions: 'Shorter "on" the sides' })).toMatchSnapshot()
+  })
+})
@@ -0,0 +1,213 @@
+import { getStyle, HAIR_CATEGORIES, type StyleCategory, type StyleDefinition } from '@/lib/style-catalog'
+
+export type PartSide = 'left' | 'right' | 'center'
+export type HairTexture = 'straight' | 'wavy' | 'curly' | 'coily'
+export type Fringe = 'none' | 'short' | 'long' | 'side-swept'
+
+export interface StyleModifiers {
+  partSide?: PartSide
+  texture?: HairTexture
+  fringe?: Fringe
+}
+
+/** What the user picked, by catalog id. Missing ids mean "no change". */
+export interface StyleSelection {
+  hairstyleId?: string | null
+  beardId?: string | null
+  colorId?: string | null
+  modifiers?: StyleModifiers
+  /** Optional "describe your style" text, screened by `checkInstruction` before use. */
+  instructions?: string
+}
+
+export interface EditPrompt {
+  text: string
+  /** Explanations for selections that were dropped because they conflict or do nothing. */
+  notes: string[]
+}
+
+export const PART_SIDE_LABELS: Record<PartSide, string> = {
+  left: 'Left part',
+  right: 'Right part',
+  center: 'Center part',
+}
+
+export const TEXTURE_LABELS: Record<HairTexture, string> = {
+  straight: 'Straight',
+  wavy: 'Wavy',
+  curly: 'Curly',
+  coily: 'Coily',
+}
+
+export const FRINGE_LABELS: Record<Fringe, string> = {
+  none: 'No fringe',
+  short: 'Short fringe',
+  long: 'Long fringe',
+  'side-swept': 'Side-swept fringe',
+}
+
+const PRESERVE_INSTRUCTION =
+  "Keep the person's face, skin, eyes, expression, and all other features exactly the same. Do not alter anything else."
+
+/** At or below this length there is nothing left to part, texture or color. */
+const SHAVED_MAX_MM = 2
+/** At or below this length parts and fringes are not visible. */
+const CROPPED_MAX_MM = 12
+
+function maxLengthMm(style: StyleDefinition) {
+  const { top, sides, overall } = style.lengths ?? {}
+  const ranges = [top, sides, overall].filter((range) => range !== undefined)
+  return ranges.length > 0 ? Math.max(...ranges.map((range) => range.maxMm)) : undefined
+}
+
+/** Catalog prompts carry their own trailing punctuation; strip it so sentences end cleanly. */
+function fragment(style: StyleDefinition) {
+  return style.prompt.replace(/[\s;.]+$/, '')
+}
+
+function resolve(id: string | null | undefined, categories: readonly StyleCategory[], notes: string[]) {
+  if (!id) return undefined
+  const style = getStyle(id)
+  if (!style || !categories.includes(style.category)) {
+    notes.push(`Ignored unknown style "${id}".`)
+    return undefined
+  }
+  return style
+}
+
+const REFERENCE_INSTRUCTION =
+  'Use the second image only as a hairstyle reference. Do not copy the face, skin, expression, clothing or background from it.'
+
+/**
+ * Turns a style selection into the instruction sent to the image model.
+ *
+ * Conflicting or redundant choices are dropped rather than passed through
+ * (e.g. a hair color on a bald head), with a note explaining why, and the
+ * preservation instruction is stated once at the end instead of per change.
+ * With `reference`, the hairstyle comes from a second image sent after the
+ * photo, so a catalog hairstyle is dropped in its favour.
+ */
+export function buildEditPrompt(
+  selection: StyleSelection,
+  { reference = false }: { reference?: boolean } = {}
+): EditPrompt {
+  const notes: string[] = []
+  let hair = resolve(selection.hairstyleId, HAIR_CATEGORIES, notes)
+  if (reference && hair) {
+    notes.push(`The reference photo sets the hairstyle, so ${hair.name} was skipped.`)
+    hair = undefined
+  }
+  const beard = resolve(selection.beardId, ['beard'], notes)
+  let color = resolve(selection.colorId, ['color'], notes)
+  let { partSide, texture, fringe } = selection.modifiers ?? {}
+
+  const hairLength = hair ? maxLengthMm(hair) : undefined
+
+  if (hairLength !== undefined && hairLength <= SHAVED_MAX_MM) {
+    if (color) {
+      notes.push(`${hair!.name} leaves no hair to color, so ${color.name} was skipped.`)
+      color = undefined
+    }
+    if (partSide || texture || fringe) {
+      notes.push(`${hair!.name} leaves no hair to part, texture or style, so those options were skipped.`)
+      partSide = texture = fringe = undefined
+    }
+  } else if (hairLength !== undefined && hairLength <= CROPPED_MAX_MM) {
+    if (partSide || fringe) {
+      notes.push(`${hair!.name} is too short for a part or fringe, so those options were skipped.`)
+      partSide = fringe = undefined
+    }
+  }
+
+  if (partSide === 'center' && hair?.tags.includes('parted')) {
+    notes.push(`${hair.name} is parted to one side, so the center part was skipped.`)
+    partSide = undefined
+  }
+  if (partSide && hair?.tags.includes('tied')) {
+    notes.push(`${hair.name} pulls the hair back, so the part was skipped.`)
+    partSide = undefined
+  }
+
+  const instructions = selection.instructions?.trim()
+  const lines: string[] = []
+  const details: string[] = []
+  if (partSide) details.push(PART_SIDE_LABELS[partSide].toLowerCase())
+  if (texture) details.push(`${TEXTURE_LABELS[texture].toLowerCase()} texture`)
+  if (fringe) details.push(fringe === 'none' ? 'no fringe or bangs' : FRINGE_LABELS[fringe].toLowerCase())
+
+  if (reference) {
+    const extra = details.length > 0 ? `, but with ${details.join(', ')}` : ''
+    const traits = color ? 'cut, length, shape and texture' : 'cut, length, shape, texture and color'
+    lines.push(`Change only the hair to match the hairstyle in the second image: its ${traits}${extra}.`)
+  } else if (hair) {
+    const extra = details.length > 0 ? ` with ${details.join(', ')}` : ''
+    lines.push(`Change only the hair to: ${fragment(hair)}${extra}.`)
+  } else if (details.length > 0) {
+    lines.push(`Keep the current haircut and length, but style it with ${details.join(', ')}.`)
+  } else if (instructions) {
+    lines.push('Keep the current haircut except where the request below asks for a change.')
+  } else {
+    lines.push('Do not change the hair. Keep the hairstyle exactly as it is.')
+  }
+
+  if (color) {
+    lines.push(`Change the hair color to: ${fragment(color)}.`)
+  }
+
+  if (beard) {
+    lines.push(`Change only the beard to: ${fragment(beard)}.`)
+  } else if (instructions) {
+    lines.push('Keep the existing beard except where the request below asks for a change.')
+  } else {
+    lines.push('Do not change the beard. Keep the existing beard exactly as it is.')
+  }
+
+  if (instructions) {
+    // Quoted and scoped so the text is read as a style request, not as instructions to the model.
+    lines.push(`The user also described the style they want. Apply it to the hair and beard only: "${instructions.replace(/"/g, "'")}".`)
+  }
+
+  if (reference) {
+    lines.push(REFERENCE_INSTRUCTION)
+  }
+
+  lines.push(PRESERVE_INSTRUCTION)
+
+  return { text: lines.join('\n'), notes }
+}
+
+/** Longest free-text refinement accepted, in characters. */
+export const MAX_INSTRUCTION_LENGTH = 200
+
+/**
+ * The instruction for refining an earlier result, e.g. "shorter on the sides".
+ * The model sees the previous turns, so only the change is described.
+ */
+export function buildRefinePrompt(instruction: string): EditPrompt {
+  const change = instruction.trim().replace(/[\s.]+$/, '')
+  return {
+    text: [
+      `Refine the hair in the latest image: ${change}.`,
+      'Keep everything else about the hair and beard as it is in the latest image.',
+      PRESERVE_INSTRUCTION,
+    ].join('\n'),
+    notes: [],
+  }
+}
+
+/**
+ * Short human-readable summary of a selection, e.g. "Quiff · Stubble · Auburn".
+ * With `reference`, the reference photo stands in for the hairstyle.
+ */
+export function describeSelection(selection: StyleSelection, { reference = false }: { reference?: boolean } = {}) {
+  const names = [reference ? null : selection.hairstyleId, selection.beardId, selection.colorId]
+    .map((id) => getStyle(id)?.name)
+    .filter((name) => name !== undefined)
+  if (reference) names.unshift('Reference photo')
+  const { partSide, texture, fringe } = selection.modifiers ?? {}
+  if (partSide) names.push(PART_SIDE_LABELS[partSide])
+  if (texture) names.push(TEXTURE_LABELS[texture])
+  if (fringe) names.push(FRINGE_LABELS[fringe])
+  if (selection.instructions) names.push(`“${selection.instructions}”`)
+  return names.length > 0 ? names.join(' · ') : 'No change'
+}
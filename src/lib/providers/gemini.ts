@@ -0,0 +1,136 @@
+import type { Base64Image } from '@/lib/image-data'
+import { ProviderError, type ImageEditProvider } from '@/lib/providers/types'
+
+// Gemini `generateContent` wire shapes. The REST API answers in camelCase but
+// accepts (and some proxies return) snake_case, so both spellings are typed.
+export interface InlineData {
+  mime_type?: string
+  mimeType?: string
+  data: string
+}
+
+export interface ContentPart {
+  inline_data?: InlineData
+  inlineData?: InlineData
+  text?: string
+}
+
+export interface ContentItem {
+  role: string
+  parts: ContentPart[]
+}
+
+export interface Candidate {
+  content: {
+    parts: ContentPart[]
+  }
+  finishReason?: string
+}
+
+export interface APIResponse {
+  candidates?: Candidate[]
+  promptFeedback?: {
+    blockReason?: string
+  }
+}
+
+/** Finish reasons that mean the model refused on safety or policy grounds. */
+const SAFETY_FINISH_REASONS = ['SAFETY', 'IMAGE_SAFETY', 'PROHIBITED_CONTENT', 'BLOCKLIST', 'SPII', 'RECITATION']
+
+const DEFAULT_MODEL = 'gemini-2.5-flash-image-preview'
+const API_BASE_URL = 'https://generativelanguage.googleapis.com/v1beta'
+
+/**
+ * Pulls the first image (and any text) out of a `generateContent` response.
+ */
+export function parseGeminiResponse(response: APIResponse) {
+  const parts = response.candidates?.flatMap((candidate) => candidate.content?.parts ?? []) ?? []
+
+  let image: { data: string; mimeType: string } | undefined
+  const text: string[] = []
+
+  for (const part of parts) {
+    const inline = part.inlineData ?? part.inline_data
+    if (inline?.data && !image) {
+      image = {
+        data: inline.data,
+        mimeType: inline.mimeType ?? inline.mime_type ?? 'image/png',
+      }
+    }
+    if (part.text) {
+      text.push(part.text)
+    }
+  }
+
+  return { image, text: text.length > 0 ? text.join('\n') : undefined }
+}
+
+export interface GeminiProviderOptions {
+  apiKey: string
+  model?: string
+  fetch?: typeof fetch
+}
+
+/**
+ * Talks to the Gemini REST API directly with a server-side API key.
+ */
+export function createGeminiProvider({
+  apiKey,
+  model = DEFAULT_MODEL,
+  fetch: fetchImpl = fetch,
+}: GeminiProviderOptions): ImageEditProvider {
+  return {
+    name: 'gemini',
+    async edit({ image, reference, prompt, history = [], signal }) {
+      // Earlier turns are replayed as a conversation: each instruction as a
+      // user turn, each result as a model turn, ending with the new prompt.
+      const inline = ({ mimeType, data }: Base64Image): ContentPart => ({ inline_data: { mime_type: mimeType, data } })
+      const first: ContentPart[] = [{ text: history[0]?.prompt ?? prompt }, inline(image)]
+      if (reference) first.push(inline(reference))
+      const contents: ContentItem[] = [{ role: 'user', parts: first }]
+      history.forEach((turn, i) => {
+        contents.push({ role: 'model', parts: [inline(turn.image)] })
+        contents.push({ role: 'user', parts: [{ text: history[i + 1]?.prompt ?? prompt }] })
+      })
+
+      const response = await fetchImpl(`${API_BASE_URL}/models/${model}:generateContent`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'x-goog-api-key': apiKey,
+        },
+        body: JSON.stringify({
+          contents,
+          generationConfig: { responseModalities: ['TEXT', 'IMAGE'] },
+        }),
+        signal,
+      })
+
+      if (!response.ok) {
+        throw new ProviderError(`Gemini API responded with ${response.status}`, response.status)
+      }
+
+      const body = (await response.json()) as APIResponse
+      const { image: output, text } = parseGeminiResponse(body)
+
+      if (!output) {
+        const blockReason = body.promptFeedback?.blockReason
+        const finishReason = body.candidates?.[0]?.finishReason
+        if (blockReason || (finishReason && SAFETY_FINISH_REASONS.includes(finishReason))) {
+          throw new ProviderError(
+            `Gemini API declined the request (${blockReason ?? finishReason})`,
+            422,
+            'safety-blocked'
+          )
+        }
+        throw new ProviderError(
+          finishReason ? `No image returned by Gemini API (${finishReason})` : text || 'No image returned by Gemini API',
+          502,
+          'no-image'
+        )
+      }
+
+      return { image: output, text }
+    },
+  }
+}
@@ -0,0 +1,62 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+
+import { createGeminiProvider } from '@/lib/providers/gemini'
+import { withResilience, type ResilienceOptions } from '@/lib/providers/resilience'
+import { createStubProvider } from '@/lib/providers/stub'
+import { createSupabaseFunctionProvider } from '@/lib/providers/supabase-function'
+import type { ImageEditProvider } from '@/lib/providers/types'
+
+export * from '@/lib/providers/types'
+export { abortable, DEFAULT_RESILIENCE, withResilience, type ResilienceOptions } from '@/lib/providers/resilience'
+
+export interface ProviderContext {
+  /** Server client bound to the current user's session. */
+  supabase: SupabaseClient
+}
+
+/**
+ * Picks the image-edit provider named by `IMAGE_EDIT_PROVIDER`:
+ * - `supabase-function` (default): the `gemini-function` Edge Function
+ * - `gemini`: the Gemini API directly, using `GEMINI_API_KEY`
+ * - `stub`: deterministic offline output, no network or keys needed
+ *
+ * Every provider is wrapped with the timeout and retry policy from
+ * `GENERATION_TIMEOUT_MS`, `GENERATION_MAX_RETRIES` and `GENERATION_BACKOFF_MS`.
+ */
+export function getImageEditProvider({ supabase }: ProviderContext): ImageEditProvider {
+  return withResilience(createProvider(supabase), resilienceFromEnv())
+}
+
+function numberFromEnv(name: string, min = 0) {
+  const value = Number(process.env[name])
+  return process.env[name] && Number.isFinite(value) && value >= min ? value : undefined
+}
+
+function resilienceFromEnv(): Partial<ResilienceOptions> {
+  return {
+    // A zero timeout would abort every attempt before it starts.
+    timeoutMs: numberFromEnv('GENERATION_TIMEOUT_MS', 1),
+    retries: numberFromEnv('GENERATION_MAX_RETRIES'),
+    backoffMs: numberFromEnv('GENERATION_BACKOFF_MS'),
+  }
+}
+
+function createProvider(supabase: SupabaseClient): ImageEditProvider {
+  const name = process.env.IMAGE_EDIT_PROVIDER ?? 'supabase-function'
+
+  switch (name) {
+    case 'supabase-function':
+      return createSupabaseFunctionProvider(supabase)
+    case 'gemini': {
+      const apiKey = process.env.GEMINI_API_KEY
+      if (!apiKey) {
+        throw new Error('GEMINI_API_KEY is required when IMAGE_EDIT_PROVIDER=gemini')
+      }
+      return createGeminiProvider({ apiKey, model: process.env.GEMINI_IMAGE_MODEL })
+    }
+    case 'stub':
+      return createStubProvider({ delayMs: numberFromEnv('STUB_DELAY_MS') })
+    default:
+      throw new Error(`Unknown IMAGE_EDIT_PROVIDER: ${name}`)
+  }
+}
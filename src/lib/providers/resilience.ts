@@ -0,0 +1,92 @@
+import { ProviderError, TRANSIENT_FAILURES, type ImageEditProvider } from '@/lib/providers/types'
+
+export interface ResilienceOptions {
+  /** Per-attempt limit; the attempt is aborted and fails as `timeout` after this long. */
+  timeoutMs: number
+  /** Extra attempts after a transient failure (`TRANSIENT_FAILURES`). */
+  retries: number
+  /** First backoff delay; doubled on each retry, plus up to 50% jitter. */
+  backoffMs: number
+}
+
+export const DEFAULT_RESILIENCE: ResilienceOptions = {
+  timeoutMs: 90_000,
+  retries: 2,
+  backoffMs: 1_000,
+}
+
+export function cancelledError() {
+  return new ProviderError('The generation was cancelled.', 499, 'cancelled')
+}
+
+/**
+ * Settles with `promise`, or rejects with a `cancelled` error as soon as
+ * `signal` aborts. For calls that cannot be aborted themselves: the work
+ * carries on, but its result is dropped.
+ */
+export function abortable<T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> {
+  if (!signal) return promise
+  if (signal.aborted) return Promise.reject(cancelledError())
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(cancelledError())
+    signal.addEventListener('abort', onAbort, { once: true })
+    promise.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort))
+  })
+}
+
+function sleep(ms: number, signal?: AbortSignal) {
+  return abortable(new Promise<void>((resolve) => setTimeout(resolve, ms)), signal)
+}
+
+/**
+ * Wraps a provider with a per-attempt timeout, cancellation through the
+ * request's `signal`, and exponential backoff on transient failures.
+ */
+export function withResilience(
+  provider: ImageEditProvider,
+  options: Partial<ResilienceOptions> = {}
+): ImageEditProvider {
+  const timeoutMs = options.timeoutMs ?? DEFAULT_RESILIENCE.timeoutMs
+  const retries = options.retries ?? DEFAULT_RESILIENCE.retries
+  const backoffMs = options.backoffMs ?? DEFAULT_RESILIENCE.backoffMs
+
+  const attempt: ImageEditProvider['edit'] = async (request) => {
+    const controller = new AbortController()
+    let timedOut = false
+    const timer = setTimeout(() => {
+      timedOut = true
+      controller.abort()
+    }, timeoutMs)
+    const onAbort = () => controller.abort()
+    request.signal?.addEventListener('abort', onAbort, { once: true })
+
+    try {
+      return await abortable(provider.edit({ ...request, signal: controller.signal }), controller.signal)
+    } catch (err) {
+      if (timedOut) {
+        throw new ProviderError(`The image service did not answer within ${Math.round(timeoutMs / 1000)} seconds.`, 504, 'timeout')
+      }
+      if (request.signal?.aborted) throw cancelledError()
+      throw err
+    } finally {
+      clearTimeout(timer)
+      request.signal?.removeEventListener('abort', onAbort)
+    }
+  }
+
+  return {
+    name: provider.name,
+    async edit(request) {
+      for (let retry = 0; ; retry++) {
+        try {
+          return await attempt(request)
+        } catch (err) {
+          const transient = err instanceof ProviderError && TRANSIENT_FAILURES.includes(err.kind)
+          if (!transient || retry >= retries) throw err
+          console.warn(`${provider.name}: ${err.message}; retrying (${retry + 1}/${retries})`)
+          await sleep(backoffMs * 2 ** retry * (1 + Math.random() / 2), request.signal)
+        }
+      }
+    },
+  }
+}
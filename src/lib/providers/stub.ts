@@ -0,0 +1,45 @@
+import { abortable } from '@/lib/providers/resilience'
+import { latestImage, type ImageEditProvider } from '@/lib/providers/types'
+
+/** 32-bit FNV-1a, enough to turn a prompt into a stable number. */
+function hash(value: string) {
+  let h = 0x811c9dc5
+  for (let i = 0; i < value.length; i++) {
+    h ^= value.charCodeAt(i)
+    h = Math.imul(h, 0x01000193)
+  }
+  return h >>> 0
+}
+
+/**
+ * Offline provider for local development and tests. It never calls out: the
+ * result is the input photo wrapped in an SVG with a hue rotation derived from
+ * the prompt, so the same request always yields byte-identical output and
+ * different prompts are visibly different.
+ *
+ * `delayMs` simulates a slow model, which is handy for trying out
+ * cancellation and timeouts.
+ */
+export function createStubProvider({ delayMs = 0 }: { delayMs?: number } = {}): ImageEditProvider {
+  return {
+    name: 'stub',
+    async edit(request) {
+      const { prompt, signal } = request
+      const image = latestImage(request)
+      await abortable(new Promise((resolve) => setTimeout(resolve, delayMs)), signal)
+
+      const hue = hash(prompt) % 360
+      const svg = [
+        '<svg xmlns="http://www.w3.org/2000/svg" xmlns:xlink="http://www.w3.org/1999/xlink" width="1024" height="1024" viewBox="0 0 1024 1024">',
+        `<filter id="stub"><feColorMatrix type="hueRotate" values="${hue}"/></filter>`,
+        `<image width="1024" height="1024" preserveAspectRatio="xMidYMid meet" filter="url(#stub)" xlink:href="data:${image.mimeType};base64,${image.data}"/>`,
+        '</svg>',
+      ].join('')
+
+      return {
+        image: { data: Buffer.from(svg).toString('base64'), mimeType: 'image/svg+xml' },
+        text: `stub: hue-rotate ${hue}deg`,
+      }
+    },
+  }
+}
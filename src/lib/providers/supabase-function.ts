@@ -0,0 +1,54 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+
+import { parseDataUrl } from '@/lib/image-data'
+import { abortable } from '@/lib/providers/resilience'
+import { latestImage, ProviderError, type ImageEditProvider } from '@/lib/providers/types'
+
+const FUNCTION_NAME = 'gemini-function'
+
+/**
+ * Calls the `gemini-function` Supabase Edge Function with the caller's session.
+ * The function takes a single image, so refinements edit the latest result
+ * without the earlier turns. A reference photo is sent as `referenceBase64Image`
+ * and `referenceMimeType`; deployments of the function that predate reference
+ * photos ignore it and only follow the prompt.
+ */
+export function createSupabaseFunctionProvider(supabase: SupabaseClient): ImageEditProvider {
+  return {
+    name: 'supabase-function',
+    async edit(request) {
+      const { prompt, history, signal } = request
+      const image = latestImage(request)
+      // `functions.invoke` takes no abort signal, so a cancelled call is only abandoned.
+      const { data, error } = await abortable(
+        supabase.functions.invoke<{
+          image?: string
+          error?: string
+        }>(FUNCTION_NAME, {
+          body: {
+            base64Image: image.data,
+            mimeType: image.mimeType,
+            prompt,
+            // Only the first turn is about the reference; later ones refine a result.
+            referenceBase64Image: history?.length ? undefined : request.reference?.data,
+            referenceMimeType: history?.length ? undefined : request.reference?.mimeType,
+          },
+        }),
+        signal
+      )
+
+      if (error) {
+        // FunctionsHttpError carries the function's response as its context.
+        const status = error.context instanceof Response ? error.context.status : undefined
+        throw new ProviderError(error.message || 'Error calling Supabase Edge Function', status)
+      }
+
+      const output = data?.image ? parseDataUrl(data.image) : null
+      if (!output) {
+        throw new ProviderError(data?.error || 'No image returned by Gemini API', 502, 'no-image')
+      }
+
+      return { image: output }
+    },
+  }
+}
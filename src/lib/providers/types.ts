@@ -0,0 +1,76 @@
+import type { Base64Image } from '@/lib/image-data'
+
+/** An earlier instruction in the same edit session and the image it produced. */
+export interface EditTurn {
+  prompt: string
+  image: Base64Image
+}
+
+export interface ImageEditRequest {
+  /** The photo the session started from. */
+  image: Base64Image
+  /** A photo of the hairstyle to copy, sent alongside `image` in the first turn. */
+  reference?: Base64Image
+  /** Applies to the last image in `history`, or to `image` when there is none. */
+  prompt: string
+  /** Earlier turns, oldest first, for providers that can hold a conversation. */
+  history?: EditTurn[]
+  /** Aborts the edit; providers reject with a `cancelled` (or `timeout`) `ProviderError`. */
+  signal?: AbortSignal
+}
+
+export interface ImageEditResult {
+  image: Base64Image
+  /** Any text the model returned alongside the image. */
+  text?: string
+}
+
+/**
+ * Anything that can apply a text instruction to a photo. Route handlers only
+ * talk to this interface so the backing model can be swapped per environment.
+ */
+export interface ImageEditProvider {
+  readonly name: string
+  edit(request: ImageEditRequest): Promise<ImageEditResult>
+}
+
+/**
+ * The image `prompt` applies to. Providers without multi-turn support edit
+ * this alone.
+ */
+export function latestImage({ image, history }: ImageEditRequest) {
+  return history && history.length > 0 ? history[history.length - 1].image : image
+}
+
+/**
+ * Why an edit produced no image. `rate-limited` and `unavailable` are
+ * transient and worth retrying; the rest are not.
+ */
+export type ProviderFailureKind =
+  | 'timeout'
+  | 'cancelled'
+  | 'rate-limited'
+  | 'unavailable'
+  | 'safety-blocked'
+  | 'no-image'
+  | 'failed'
+
+export const TRANSIENT_FAILURES: readonly ProviderFailureKind[] = ['rate-limited', 'unavailable']
+
+/** The failure kind an upstream HTTP status maps to. */
+export function failureKindForStatus(status: number | undefined): ProviderFailureKind {
+  if (status === 429) return 'rate-limited'
+  if (status === 503 || status === 504) return 'unavailable'
+  return 'failed'
+}
+
+export class ProviderError extends Error {
+  constructor(
+    message: string,
+    public readonly status = 502,
+    public readonly kind: ProviderFailureKind = failureKindForStatus(status)
+  ) {
+    super(message)
+    this.name = 'ProviderError'
+  }
+}
@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest'
+
+import { BURST_LIMITS, checkQuota, clientIp, MemoryQuotaStore, TIER_LIMITS } from '@/lib/quota'
+
+const now = new Date('2026-10-19T12:00:30Z')
+
+async function recordDay(store: MemoryQuotaStore, userId: string, count: number) {
+  for (let i = 0; i < count; i++) await store.recordGeneration(userId, new Date('2026-10-19T08:00:00Z'))
+}
+
+describe('checkQuota', () => {
+  it('refuses once the daily quota is used up', async () => {
+    const store = new MemoryQuotaStore()
+    await recordDay(store, 'user', TIER_LIMITS.free.daily)
+
+    const decision = await checkQuota(store, { userId: 'user', tier: 'free', ip: null }, now)
+    expect(decision).toMatchObject({ allowed: false, reason: 'daily-limit' })
+  })
+
+  it('skips the quota for generations charged to an organization', async () => {
+    const store = new MemoryQuotaStore()
+    await recordDay(store, 'user', TIER_LIMITS.free.daily)
+
+    expect(await checkQuota(store, { userId: 'user', tier: null, ip: null }, now)).toEqual({
+      allowed: true,
+      status: null,
+    })
+  })
+
+  it('applies the burst limit with or without a tier, until the window resets', async () => {
+    const store = new MemoryQuotaStore()
+    for (let i = 0; i < BURST_LIMITS.perUser; i++) {
+      const tier = i % 2 ? 'free' : null
+      expect((await checkQuota(store, { userId: 'user', tier, ip: null }, now)).allowed).toBe(true)
+    }
+
+    const decision = await checkQuota(store, { userId: 'user', tier: null, ip: null }, now)
+    expect(decision).toMatchObject({ allowed: false, reason: 'rate-limited', retryAfterSeconds: 30 })
+
+    const nextWindow = new Date(now.getTime() + 30_000)
+    expect((await checkQuota(store, { userId: 'user', tier: null, ip: null }, nextWindow)).allowed).toBe(true)
+  })
+})
+
+describe('clientIp', () => {
+  it('takes the address the proxy appended, not one the client sent', () => {
+    expect(clientIp(new Headers({ 'x-forwarded-for': '1.2.3.4, 203.0.113.7' }))).toBe('203.0.113.7')
+    expect(clientIp(new Headers({ 'x-real-ip': '203.0.113.7' }))).toBe('203.0.113.7')
+    expect(clientIp(new Headers())).toBeNull()
+  })
+})
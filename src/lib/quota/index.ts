@@ -0,0 +1,115 @@
+import type { JwtPayload, SupabaseClient } from '@supabase/supabase-js'
+
+import { MemoryQuotaStore } from '@/lib/quota/memory-store'
+import { SupabaseQuotaStore } from '@/lib/quota/supabase-store'
+import { BURST_LIMITS, TIER_LIMITS, type QuotaStore, type QuotaTier, type QuotaUsage, type TierLimits } from '@/lib/quota/types'
+
+export * from '@/lib/quota/types'
+export { MemoryQuotaStore } from '@/lib/quota/memory-store'
+export { SupabaseQuotaStore } from '@/lib/quota/supabase-store'
+
+export interface QuotaStatus {
+  tier: QuotaTier
+  limits: TierLimits
+  used: QuotaUsage
+  remaining: QuotaUsage
+  resetsAt: { daily: string; monthly: string }
+}
+
+export type QuotaDenialReason = 'daily-limit' | 'monthly-limit' | 'rate-limited'
+
+export type QuotaDecision =
+  | { allowed: true; status: QuotaStatus | null }
+  | { allowed: false; reason: QuotaDenialReason; status: QuotaStatus | null; retryAfterSeconds: number }
+
+const memoryStore = new MemoryQuotaStore()
+
+/**
+ * Picks the store named by `QUOTA_STORE`: `supabase` (default) or `memory`.
+ */
+export function getQuotaStore(supabase: SupabaseClient): QuotaStore {
+  return process.env.QUOTA_STORE === 'memory' ? memoryStore : new SupabaseQuotaStore(supabase)
+}
+
+/** Tier comes from `app_metadata.tier`, which only the service role can set. */
+export function tierFromClaims(claims: JwtPayload): QuotaTier {
+  const tier = claims.app_metadata?.tier
+  return typeof tier === 'string' && tier in TIER_LIMITS ? (tier as QuotaTier) : 'free'
+}
+
+function periodStarts(now: Date) {
+  const day = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()))
+  const month = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1))
+  const nextDay = new Date(day.getTime() + 24 * 60 * 60 * 1000)
+  const nextMonth = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1))
+  return { day, month, nextDay, nextMonth }
+}
+
+export async function getQuotaStatus(
+  store: QuotaStore,
+  userId: string,
+  tier: QuotaTier,
+  now = new Date()
+): Promise<QuotaStatus> {
+  const { day, month, nextDay, nextMonth } = periodStarts(now)
+  const limits = TIER_LIMITS[tier]
+  const used = await store.usage(userId, day, month)
+
+  return {
+    tier,
+    limits,
+    used,
+    remaining: {
+      daily: Math.max(0, limits.daily - used.daily),
+      monthly: Math.max(0, limits.monthly - used.monthly),
+    },
+    resetsAt: { daily: nextDay.toISOString(), monthly: nextMonth.toISOString() },
+  }
+}
+
+/**
+ * Decides whether the user may start a generation. Burst limits are counted
+ * on every attempt; the daily and monthly quota only counts generations that
+ * were recorded with `store.recordGeneration`. A null `tier` skips the quota:
+ * generations charged to an organization are limited by its credits instead.
+ */
+export async function checkQuota(
+  store: QuotaStore,
+  { userId, tier, ip }: { userId: string; tier: QuotaTier | null; ip: string | null },
+  now = new Date()
+): Promise<QuotaDecision> {
+  const windowStart = new Date(Math.floor(now.getTime() / BURST_LIMITS.windowMs) * BURST_LIMITS.windowMs)
+  const retryAfterSeconds = Math.ceil((windowStart.getTime() + BURST_LIMITS.windowMs - now.getTime()) / 1000)
+
+  const [userHits, ipHits] = await Promise.all([
+    store.incrementWindow(`user:${userId}`, windowStart),
+    ip ? store.incrementWindow(`ip:${ip}`, windowStart) : Promise.resolve(0),
+  ])
+  if (userHits > BURST_LIMITS.perUser || ipHits > BURST_LIMITS.perIp) {
+    return { allowed: false, reason: 'rate-limited', status: null, retryAfterSeconds }
+  }
+  if (!tier) {
+    return { allowed: true, status: null }
+  }
+
+  const status = await getQuotaStatus(store, userId, tier, now)
+  const secondsUntil = (iso: string) => Math.ceil((new Date(iso).getTime() - now.getTime()) / 1000)
+
+  if (status.remaining.monthly === 0) {
+    return { allowed: false, reason: 'monthly-limit', status, retryAfterSeconds: secondsUntil(status.resetsAt.monthly) }
+  }
+  if (status.remaining.daily === 0) {
+    return { allowed: false, reason: 'daily-limit', status, retryAfterSeconds: secondsUntil(status.resetsAt.daily) }
+  }
+
+  return { allowed: true, status }
+}
+
+/**
+ * Client IP as seen by the hosting platform's proxy. Clients can send their
+ * own `x-forwarded-for`, but the proxy appends the address it saw, so only
+ * the right-most entry is trusted.
+ */
+export function clientIp(headers: Headers) {
+  return headers.get('x-forwarded-for')?.split(',').at(-1)?.trim() || headers.get('x-real-ip') || null
+}
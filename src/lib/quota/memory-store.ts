@@ -0,0 +1,36 @@
+import type { QuotaStore } from '@/lib/quota/types'
+
+/**
+ * Process-local store for tests and local development. Counters are lost on
+ * restart and not shared between server instances.
+ */
+export class MemoryQuotaStore implements QuotaStore {
+  private generations = new Map<string, number[]>()
+  private windows = new Map<string, number>()
+
+  async usage(userId: string, dayStart: Date, monthStart: Date) {
+    const times = this.generations.get(userId) ?? []
+    return {
+      daily: times.filter((time) => time >= dayStart.getTime()).length,
+      monthly: times.filter((time) => time >= monthStart.getTime()).length,
+    }
+  }
+
+  async recordGeneration(userId: string, at: Date) {
+    const times = this.generations.get(userId) ?? []
+    times.push(at.getTime())
+    this.generations.set(userId, times)
+  }
+
+  async incrementWindow(key: string, windowStart: Date) {
+    const windowKey = `${key}@${windowStart.getTime()}`
+    const count = (this.windows.get(windowKey) ?? 0) + 1
+    this.windows.set(windowKey, count)
+    return count
+  }
+
+  reset() {
+    this.generations.clear()
+    this.windows.clear()
+  }
+}
@@ -0,0 +1,43 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+
+import type { QuotaStore } from '@/lib/quota/types'
+
+/**
+ * Production store backed by the `generation_usage` table and the
+ * `increment_rate_limit` function (see `supabase/migrations`).
+ */
+export class SupabaseQuotaStore implements QuotaStore {
+  constructor(private readonly supabase: SupabaseClient) {}
+
+  private async countSince(userId: string, since: Date) {
+    const { count, error } = await this.supabase
+      .from('generation_usage')
+      .select('*', { count: 'exact', head: true })
+      .eq('user_id', userId)
+      .gte('created_at', since.toISOString())
+    if (error) throw error
+    return count ?? 0
+  }
+
+  async usage(userId: string, dayStart: Date, monthStart: Date) {
+    const [daily, monthly] = await Promise.all([
+      this.countSince(userId, dayStart),
+      this.countSince(userId, monthStart),
+    ])
+    return { daily, monthly }
+  }
+
+  async recordGeneration(userId: string, at: Date) {
+    const { error } = await this.supabase
+      .from('generation_usage')
+      .insert({ user_id: userId, created_at: at.toISOString() })
+    if (error) throw error
+  }
+
+  /** The database picks the window from its own clock, so `windowStart` is not sent. */
+  async incrementWindow(key: string) {
+    const { data, error } = await this.supabase.rpc('increment_rate_limit', { p_key: key })
+    if (error) throw error
+    return data as number
+  }
+}
@@ -0,0 +1,42 @@
+export type QuotaTier = 'free' | 'pro'
+
+export interface TierLimits {
+  daily: number
+  monthly: number
+}
+
+export const TIER_LIMITS: Record<QuotaTier, TierLimits> = {
+  free: { daily: 5, monthly: 50 },
+  pro: { daily: 50, monthly: 1000 },
+}
+
+/**
+ * Short-window limits that apply on top of the tier quota. `increment_rate_limit`
+ * counts whole minutes, so `windowMs` has to stay at one minute.
+ */
+export const BURST_LIMITS = {
+  windowMs: 60_000,
+  perUser: 5,
+  perIp: 20,
+}
+
+export interface QuotaUsage {
+  daily: number
+  monthly: number
+}
+
+/**
+ * Persistence for quota counters. Implementations must be safe to call from
+ * concurrent requests; `incrementWindow` in particular has to be atomic.
+ */
+export interface QuotaStore {
+  /** Generations recorded for the user since each period start. */
+  usage(userId: string, dayStart: Date, monthStart: Date): Promise<QuotaUsage>
+  recordGeneration(userId: string, at: Date): Promise<void>
+  /**
+   * Adds one hit to the fixed window starting at `windowStart` for `key` and
+   * returns the new total. A store with its own clock may use its current
+   * window instead.
+   */
+  incrementWindow(key: string, windowStart: Date): Promise<number>
+}
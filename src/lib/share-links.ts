@@ -0,0 +1,196 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+
+import { currentConsent, hasConsent } from '@/lib/client-profiles'
+import { downloadImage, type GenerationRecord } from '@/lib/generations'
+import { describeSelection } from '@/lib/prompt-builder'
+
+/** Expiry choices offered when sharing, in days; null never expires. */
+export const SHARE_EXPIRY_DAYS = [1, 7, 30, null] as const
+
+export type ShareExpiryDays = (typeof SHARE_EXPIRY_DAYS)[number]
+
+export interface ShareLink {
+  id: string
+  generation_id: string
+  token: string
+  show_before: boolean
+  expires_at: string | null
+  revoked_at: string | null
+  created_by: string
+  created_at: string
+}
+
+/** A share link as the owner sees it in the share panel. */
+export interface ShareLinkView {
+  id: string
+  url: string
+  showBefore: boolean
+  expiresAt: string | null
+  createdAt: string
+}
+
+/** A shared look as the public page renders it. */
+export interface SharedLook {
+  token: string
+  showBefore: boolean
+  expiresAt: string | null
+  /** The styles applied, without the user's free-text instructions. */
+  description: string
+  createdAt: string
+}
+
+export type SharedImage = 'before' | 'after'
+
+/** Tokens are 24 random bytes, hex-encoded. */
+export function isShareToken(value: string) {
+  return /^[0-9a-f]{48}$/.test(value)
+}
+
+export function isShareExpiryDays(value: unknown): value is ShareExpiryDays {
+  return (SHARE_EXPIRY_DAYS as readonly unknown[]).includes(value)
+}
+
+export function sharePath(token: string) {
+  return `/s/${token}`
+}
+
+export function sharedImagePath(token: string, image: SharedImage) {
+  return `${sharePath(token)}/${image}`
+}
+
+export function toShareLinkView(link: ShareLink, origin: string): ShareLinkView {
+  return {
+    id: link.id,
+    url: new URL(sharePath(link.token), origin).toString(),
+    showBefore: link.show_before,
+    expiresAt: link.expires_at,
+    createdAt: link.created_at,
+  }
+}
+
+export type CreateShareLinkResult =
+  | { ok: true; link: ShareLink }
+  | { ok: false; code: 'generation-not-found' | 'share-consent-required' }
+
+/**
+ * Creates a link for the current user, who must have made the look or be the
+ * client it was made for. A look made for a client profile can only be shared
+ * while the client consents to `portfolio`.
+ */
+export async function createShareLink(
+  supabase: SupabaseClient,
+  { generationId, showBefore, expiresInDays }: { generationId: string; showBefore: boolean; expiresInDays: ShareExpiryDays }
+): Promise<CreateShareLinkResult> {
+  const { data: generation, error: generationError } = await supabase
+    .from('generations')
+    .select('client_profile_id')
+    .eq('id', generationId)
+    .maybeSingle<Pick<GenerationRecord, 'client_profile_id'>>()
+  if (generationError) throw generationError
+  if (!generation) return { ok: false, code: 'generation-not-found' }
+
+  if (generation.client_profile_id) {
+    const { data: consented, error: consentError } = await supabase.rpc('has_client_consent', {
+      p_client_profile_id: generation.client_profile_id,
+      p_scope: 'portfolio',
+    })
+    if (consentError) throw consentError
+    if (!consented) return { ok: false, code: 'share-consent-required' }
+  }
+
+  const expiresAt = expiresInDays === null ? null : new Date(Date.now() + expiresInDays * 24 * 60 * 60 * 1000)
+  const { data, error } = await supabase
+    .from('share_links')
+    .insert({ generation_id: generationId, show_before: showBefore, expires_at: expiresAt?.toISOString() ?? null })
+    .select()
+    .single<ShareLink>()
+  // Row-level security rejects links to a look the user can see but did not make
+  if (error?.code === '42501') return { ok: false, code: 'generation-not-found' }
+  if (error) throw error
+  return { ok: true, link: data }
+}
+
+/** The current user's links to a generation that still work, newest first. */
+export async function listActiveShareLinks(supabase: SupabaseClient, generationId: string) {
+  const { data, error } = await supabase
+    .from('share_links')
+    .select('*')
+    .eq('generation_id', generationId)
+    .is('revoked_at', null)
+    .or(`expires_at.is.null,expires_at.gt.${new Date().toISOString()}`)
+    .order('created_at', { ascending: false })
+    .returns<ShareLink[]>()
+  if (error) throw error
+  return data ?? []
+}
+
+/** Returns false if the link does not exist, is already revoked or belongs to someone else. */
+export async function revokeShareLink(supabase: SupabaseClient, id: string) {
+  const { data, error } = await supabase
+    .from('share_links')
+    .update({ revoked_at: new Date().toISOString() })
+    .eq('id', id)
+    .is('revoked_at', null)
+    .select('id')
+  if (error) throw error
+  return (data ?? []).length > 0
+}
+
+/** Whether `path` is one of the generation's own images rather than someone else's. */
+function isGenerationImage(generation: GenerationRecord, path: string) {
+  return (
+    path.startsWith(`${generation.user_id}/`) ||
+    (generation.organization_id !== null && path.startsWith(`organizations/${generation.organization_id}/`))
+  )
+}
+
+/**
+ * The link and its look for a token, or null if it does not exist, has
+ * expired or was revoked, or the client the look was made for withdrew
+ * their portfolio consent. Needs the service-role client: visitors are
+ * usually signed out.
+ */
+async function findSharedGeneration(admin: SupabaseClient, token: string) {
+  if (!isShareToken(token)) return null
+  const { data, error } = await admin
+    .from('share_links')
+    .select('*, generation:generations (*)')
+    .eq('token', token)
+    .is('revoked_at', null)
+    .maybeSingle<ShareLink & { generation: GenerationRecord | null }>()
+  if (error) throw error
+  if (!data?.generation) return null
+  if (data.expires_at && Date.parse(data.expires_at) <= Date.now()) return null
+  if (data.generation.client_profile_id) {
+    const consent = await currentConsent(admin, data.generation.client_profile_id)
+    if (!hasConsent(consent, 'portfolio')) return null
+  }
+  return data as ShareLink & { generation: GenerationRecord }
+}
+
+export async function getSharedLook(admin: SupabaseClient, token: string): Promise<SharedLook | null> {
+  const link = await findSharedGeneration(admin, token)
+  if (!link) return null
+  return {
+    token: link.token,
+    showBefore: link.show_before,
+    expiresAt: link.expires_at,
+    description: describeSelection(
+      { ...link.generation.selection, instructions: undefined },
+      { reference: link.generation.reference_path !== null }
+    ),
+    createdAt: link.generation.created_at,
+  }
+}
+
+/**
+ * One image of a shared look, or null when the link no longer works. The
+ * original photo is only available if the link was created with it.
+ */
+export async function downloadSharedImage(admin: SupabaseClient, token: string, image: SharedImage) {
+  const link = await findSharedGeneration(admin, token)
+  if (!link || (image === 'before' && !link.show_before)) return null
+  const path = image === 'before' ? link.generation.input_path : link.generation.output_path
+  if (!isGenerationImage(link.generation, path)) return null
+  return downloadImage(admin, path)
+}
@@ -0,0 +1,256 @@
+export type StyleCategory = 'men' | 'women' | 'beard' | 'color'
+
+/** An inclusive length range in millimetres. */
+export interface LengthRange {
+  minMm: number
+  maxMm: number
+}
+
+export interface StyleDefinition {
+  /** Stable identifier; persisted in saved data, never reuse or rename. */
+  id: string
+  name: string
+  category: StyleCategory
+  /** Description handed to the model when this style is selected. */
+  prompt: string
+  lengths?: {
+    top?: LengthRange
+    sides?: LengthRange
+    overall?: LengthRange
+  }
+  tags: string[]
+}
+
+export const STYLE_CATEGORY_LABELS: Record<StyleCategory, string> = {
+  men: 'Men',
+  women: 'Women',
+  beard: 'Beard',
+  color: 'Hair Color',
+}
+
+export const STYLE_CATALOG: readonly StyleDefinition[] = [
+  // Men hairstyles
+  {
+    id: 'men-bald',
+    name: 'Bald',
+    category: 'men',
+    prompt: 'Bald head, 0–2 mm length, completely shaved, clean and bold appearance;',
+    lengths: { overall: { minMm: 0, maxMm: 2 } },
+    tags: ['shaved', 'low-maintenance'],
+  },
+  {
+    id: 'men-short-fade',
+    name: 'Short Fade',
+    category: 'men',
+    prompt: 'Short fade, top 1–2 inches (25–50 mm), sides 0–1 inch (0–25 mm), sharp and modern look;',
+    lengths: { top: { minMm: 25, maxMm: 50 }, sides: { minMm: 0, maxMm: 25 } },
+    tags: ['short', 'fade', 'modern'],
+  },
+  {
+    id: 'men-long-hair',
+    name: 'Long Hair',
+    category: 'men',
+    prompt: 'Long hair, 6–12 inches (150–300 mm), flowing and versatile, rugged look;',
+    lengths: { overall: { minMm: 150, maxMm: 300 } },
+    tags: ['long'],
+  },
+  {
+    id: 'men-crew-cut',
+    name: 'Crew Cut',
+    category: 'men',
+    prompt: 'Crew cut, top 1–2 inches (25–50 mm), sides 0–1 inch (0–25 mm), classic and clean;',
+    lengths: { top: { minMm: 25, maxMm: 50 }, sides: { minMm: 0, maxMm: 25 } },
+    tags: ['short', 'classic'],
+  },
+  {
+    id: 'men-undercut',
+    name: 'Undercut',
+    category: 'men',
+    prompt: 'Undercut, sides 0–1 inch (0–25 mm), top 2–6 inches (50–150 mm), edgy contrast;',
+    lengths: { top: { minMm: 50, maxMm: 150 }, sides: { minMm: 0, maxMm: 25 } },
+    tags: ['medium', 'edgy'],
+  },
+  {
+    id: 'men-man-bun',
+    name: 'Man Bun',
+    category: 'men',
+    prompt: 'Man bun, 6–12 inches (150–300 mm), hair pulled back, often with shaved sides, bohemian look;',
+    lengths: { overall: { minMm: 150, maxMm: 300 } },
+    tags: ['long', 'tied'],
+  },
+  {
+    id: 'men-buzz-cut',
+    name: 'Buzz Cut',
+    category: 'men',
+    prompt: 'Buzz cut, uniform 1.5–12 mm, simple and low-maintenance;',
+    lengths: { overall: { minMm: 1.5, maxMm: 12 } },
+    tags: ['short', 'low-maintenance'],
+  },
+  {
+    id: 'men-pompadour',
+    name: 'Pompadour',
+    category: 'men',
+    prompt: 'Pompadour, top 4–6 inches (100–150 mm), sides 1–2 inches (25–50 mm), voluminous retro style;',
+    lengths: { top: { minMm: 100, maxMm: 150 }, sides: { minMm: 25, maxMm: 50 } },
+    tags: ['medium', 'retro', 'volume'],
+  },
+  {
+    id: 'men-side-part',
+    name: 'Side Part',
+    category: 'men',
+    prompt: 'Side part, top 2–4 inches (50–100 mm), neat and formal;',
+    lengths: { top: { minMm: 50, maxMm: 100 } },
+    tags: ['medium', 'formal', 'parted'],
+  },
+  {
+    id: 'men-quiff',
+    name: 'Quiff',
+    category: 'men',
+    prompt: 'Quiff, front 3–5 inches (75–125 mm), styled upwards and back, voluminous;',
+    lengths: { top: { minMm: 75, maxMm: 125 } },
+    tags: ['medium', 'volume'],
+  },
+
+  // Women hairstyles
+  {
+    id: 'women-bob-cut',
+    name: 'Bob Cut',
+    category: 'women',
+    prompt: 'Bob Cut, chin-length, straight or slightly wavy, classic and elegant;',
+    tags: ['short', 'classic'],
+  },
+  {
+    id: 'women-layered-cut',
+    name: 'Layered Cut',
+    category: 'women',
+    prompt: 'Layered Cut, medium length, layered for volume and texture;',
+    tags: ['medium', 'volume'],
+  },
+  {
+    id: 'women-pixie-cut',
+    name: 'Pixie Cut',
+    category: 'women',
+    prompt: 'Pixie Cut, short, cropped, chic and edgy;',
+    tags: ['short', 'edgy'],
+  },
+  {
+    id: 'women-long-waves',
+    name: 'Long Waves',
+    category: 'women',
+    prompt: 'Long Waves, long, soft waves, voluminous and flowing;',
+    tags: ['long', 'wavy', 'volume'],
+  },
+  {
+    id: 'women-ponytail',
+    name: 'Ponytail',
+    category: 'women',
+    prompt: 'Ponytail, hair pulled back into high or low ponytail, practical yet stylish;',
+    tags: ['long', 'tied'],
+  },
+
+  // Beard styles
+  {
+    id: 'beard-clean-shave',
+    name: 'Clean Shave',
+    category: 'beard',
+    prompt:
+      'clean shave — Completely smooth face with no facial hair, projecting a fresh, youthful, and formal look; famously sported by actors like Daniel Craig in James Bond appearances.',
+    lengths: { overall: { minMm: 0, maxMm: 0 } },
+    tags: ['shaved'],
+  },
+  {
+    id: 'beard-stubble',
+    name: 'Stubble',
+    category: 'beard',
+    prompt:
+      "stubble — Short, evenly trimmed facial hair (approx. 2–5 mm), offering a rugged yet neat aesthetic; epitomized by Ryan Gosling's designer stubble.",
+    lengths: { overall: { minMm: 2, maxMm: 5 } },
+    tags: ['short'],
+  },
+  {
+    id: 'beard-goatee',
+    name: 'Goatee',
+    category: 'beard',
+    prompt:
+      "goatee — A precise and distinctive beard style where facial hair is grown only on the chin, forming a small, concentrated patch that highlights the center of the face. The cheeks, jawline, and sideburns are completely shaved so the skin is fully visible, leaving no stubble or extended beard growth. The chin hair is kept short to medium in length, without braids or long strands. Unlike a circle beard or Van Dyke, the mustache remains either absent or completely disconnected from the chin beard, leaving a clear gap above the lips and around the corners of the mouth. This creates a sharp contrast between the visible skin and the deliberate chin hair, emphasizing the jaw and adding definition to the lower face. Culturally, the goatee is often associated with artistic, intellectual, and occasionally rebellious personalities, offering a blend of sophistication and edginess. Iconic example: Johnny Depp, who frequently sports a short disconnected goatee in both his public appearances and films, most famously in his portrayal of Captain Jack Sparrow in the 'Pirates of the Caribbean' series.",
+    tags: ['chin'],
+  },
+  {
+    id: 'beard-full',
+    name: 'Full Beard',
+    category: 'beard',
+    prompt:
+      'full beard — Thick, dense coverage across jawline, cheeks, and chin, projecting maturity and masculinity; showcased by Jason Momoa with his signature rugged, unkempt full beard.',
+    tags: ['long', 'full'],
+  },
+  {
+    id: 'beard-van-dyke',
+    name: 'Van Dyke',
+    category: 'beard',
+    prompt:
+      'van dyke — Pointed chin beard paired with a detached mustache, with cheeks clean-shaven; a bold, artistic look often associated with Johnny Depp.',
+    tags: ['chin', 'mustache'],
+  },
+  {
+    id: 'beard-anchor',
+    name: 'Anchor',
+    category: 'beard',
+    prompt:
+      'anchor — A stylized beard shaped like an anchor: jawline beard connected to a pointed chin beard and mustache, offering a sharp, modern appearance; famously worn by Robert Downey Jr. as Tony Stark.',
+    tags: ['chin', 'mustache', 'modern'],
+  },
+  {
+    id: 'beard-circle',
+    name: 'Circle Beard',
+    category: 'beard',
+    prompt:
+      'circle beard — Rounded goatee merged with a mustache, forming a neat circle around the mouth; refined style seen on Idris Elba in well-groomed roles.',
+    tags: ['chin', 'mustache'],
+  },
+  {
+    id: 'beard-mutton-chops',
+    name: 'Mutton Chops',
+    category: 'beard',
+    prompt:
+      'mutton chops — Thick sideburns extending down the cheeks and connecting to a mustache, with chin completely shaved to the skin (no hair); evoking vintage boldness, occasionally seen in retro character portrayals. Example: Micah Bell (RDR2)',
+    tags: ['sideburns', 'mustache', 'retro'],
+  },
+  {
+    id: 'beard-balbo',
+    name: 'Balbo',
+    category: 'beard',
+    prompt:
+      'balbo — Separated chin beard and mustache without cheek or jaw hair; sharp, precise, and fashion-forward, popularized by Christian Bale in various stylized roles.',
+    tags: ['chin', 'mustache'],
+  },
+  {
+    id: 'beard-extended-goatee',
+    name: 'Extended Goatee',
+    category: 'beard',
+    prompt:
+      'extended goatee — Wider goatee extending along the jawline with chin beard connected to short side patches; David Beckham has sported this to frame his strong jaw.',
+    tags: ['chin', 'jawline'],
+  },
+
+  // Hair colors
+  { id: 'color-black', name: 'Black', category: 'color', prompt: 'black, dark and natural', tags: ['dark', 'natural'] },
+  { id: 'color-brown', name: 'Brown', category: 'color', prompt: 'brown, medium warm tone', tags: ['natural', 'warm'] },
+  { id: 'color-blonde', name: 'Blonde', category: 'color', prompt: 'blonde, light and bright', tags: ['light'] },
+  { id: 'color-red', name: 'Red', category: 'color', prompt: 'red, vibrant coppery tone', tags: ['vibrant', 'warm'] },
+  { id: 'color-gray', name: 'Gray', category: 'color', prompt: 'gray, silver and matured look', tags: ['light'] },
+  { id: 'color-white', name: 'White', category: 'color', prompt: 'white, pure white tone', tags: ['light'] },
+  { id: 'color-auburn', name: 'Auburn', category: 'color', prompt: 'auburn, reddish-brown mix', tags: ['warm'] },
+]
+
+const stylesById = new Map(STYLE_CATALOG.map((style) => [style.id, style]))
+
+export function getStyle(id: string | null | undefined) {
+  return id ? stylesById.get(id) : undefined
+}
+
+export function getStylesByCategory(category: StyleCategory) {
+  return STYLE_CATALOG.filter((style) => style.category === category)
+}
+
+/** Hairstyle categories, in the order the picker groups them. */
+export const HAIR_CATEGORIES: readonly StyleCategory[] = ['men', 'women']
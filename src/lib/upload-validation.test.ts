@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest'
+
+import { isBase64 } from '@/lib/image-data'
+import { validateBase64Image } from '@/lib/upload-validation'
+
+function png(width: number, height: number) {
+  const bytes = new Uint8Array(24)
+  bytes.set([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])
+  const view = new DataView(bytes.buffer)
+  view.setUint32(16, width)
+  view.setUint32(20, height)
+  return Buffer.from(bytes).toString('base64')
+}
+
+describe('isBase64', () => {
+  it('accepts padded base64', () => {
+    expect(isBase64('YWJj')).toBe(true)
+    expect(isBase64('YWI=')).toBe(true)
+    expect(isBase64('YQ==')).toBe(true)
+  })
+
+  it('rejects partial groups, misplaced padding and other characters', () => {
+    expect(isBase64('')).toBe(false)
+    expect(isBase64('abcde')).toBe(false)
+    expect(isBase64('YQ=a')).toBe(false)
+    expect(isBase64('Y===')).toBe(false)
+    expect(isBase64('YW J')).toBe(false)
+  })
+})
+
+describe('validateBase64Image', () => {
+  it('reads the dimensions of a valid image', () => {
+    expect(validateBase64Image({ data: png(512, 640), mimeType: 'image/png' })).toEqual({
+      ok: true,
+      mimeType: 'image/png',
+      width: 512,
+      height: 640,
+    })
+  })
+
+  it('reports malformed base64 as unreadable instead of throwing', () => {
+    expect(validateBase64Image({ data: 'abcde', mimeType: 'image/png' })).toEqual({ ok: false, code: 'unreadable' })
+  })
+
+  it('rejects a declared type that does not match the bytes', () => {
+    expect(validateBase64Image({ data: png(512, 512), mimeType: 'image/jpeg' })).toEqual({
+      ok: false,
+      code: 'type-mismatch',
+    })
+  })
+})
@@ -0,0 +1,177 @@
+import { isBase64 } from '@/lib/image-data'
+
+/**
+ * Upload rules shared by the browser (`processFile`) and every route that
+ * accepts images, so a bad file is rejected before it is sent anywhere.
+ * Messages and HTTP statuses for the error codes live in `@/lib/errors`.
+ */
+export const UPLOAD_LIMITS = {
+  /** Largest file accepted from the picker, before preprocessing shrinks it. */
+  maxInputBytes: 30 * 1024 * 1024,
+  /** Largest image accepted by the server. */
+  maxBytes: 8 * 1024 * 1024,
+  minDimension: 256,
+  maxDimension: 8192,
+  allowedMimeTypes: ['image/jpeg', 'image/png', 'image/webp'],
+}
+
+export type UploadErrorCode =
+  | 'file-too-large'
+  | 'unsupported-type'
+  | 'type-mismatch'
+  | 'dimensions-too-small'
+  | 'dimensions-too-large'
+  | 'unreadable'
+
+export type SniffedType = 'image/jpeg' | 'image/png' | 'image/webp' | 'image/gif' | 'image/heic'
+
+export type UploadValidation =
+  | { ok: true; mimeType: SniffedType; width: number; height: number }
+  | { ok: false; code: UploadErrorCode }
+
+function ascii(bytes: Uint8Array, start: number, length: number) {
+  return String.fromCharCode(...bytes.subarray(start, start + length))
+}
+
+/**
+ * Identifies an image from its leading bytes, ignoring the declared type.
+ */
+export function sniffImageType(bytes: Uint8Array): SniffedType | null {
+  if (bytes.length >= 3 && bytes[0] === 0xff && bytes[1] === 0xd8 && bytes[2] === 0xff) {
+    return 'image/jpeg'
+  }
+  if (bytes.length >= 8 && ascii(bytes, 1, 3) === 'PNG' && bytes[0] === 0x89) {
+    return 'image/png'
+  }
+  if (bytes.length >= 12 && ascii(bytes, 0, 4) === 'RIFF' && ascii(bytes, 8, 4) === 'WEBP') {
+    return 'image/webp'
+  }
+  if (bytes.length >= 6 && ascii(bytes, 0, 4) === 'GIF8') {
+    return 'image/gif'
+  }
+  if (bytes.length >= 12 && ascii(bytes, 4, 4) === 'ftyp' && /^(heic|heix|hevc|heim|heis|mif1|msf1)$/.test(ascii(bytes, 8, 4))) {
+    return 'image/heic'
+  }
+  return null
+}
+
+function readUint16(bytes: Uint8Array, offset: number, littleEndian = false) {
+  return littleEndian ? bytes[offset] | (bytes[offset + 1] << 8) : (bytes[offset] << 8) | bytes[offset + 1]
+}
+
+function readUint24LE(bytes: Uint8Array, offset: number) {
+  return bytes[offset] | (bytes[offset + 1] << 8) | (bytes[offset + 2] << 16)
+}
+
+function readUint32BE(bytes: Uint8Array, offset: number) {
+  return ((bytes[offset] << 24) | (bytes[offset + 1] << 16) | (bytes[offset + 2] << 8) | bytes[offset + 3]) >>> 0
+}
+
+function jpegDimensions(bytes: Uint8Array) {
+  let offset = 2
+  while (offset + 9 < bytes.length) {
+    if (bytes[offset] !== 0xff) return null
+    const marker = bytes[offset + 1]
+    // SOF0–SOF15, excluding DHT (C4), JPG (C8) and DAC (CC)
+    if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+      return { height: readUint16(bytes, offset + 5), width: readUint16(bytes, offset + 7) }
+    }
+    offset += 2 + readUint16(bytes, offset + 2)
+  }
+  return null
+}
+
+function webpDimensions(bytes: Uint8Array) {
+  const chunk = ascii(bytes, 12, 4)
+  if (chunk === 'VP8 ' && bytes.length >= 30) {
+    return { width: readUint16(bytes, 26, true) & 0x3fff, height: readUint16(bytes, 28, true) & 0x3fff }
+  }
+  if (chunk === 'VP8L' && bytes.length >= 25) {
+    const bits = bytes[21] | (bytes[22] << 8) | (bytes[23] << 16) | (bytes[24] << 24)
+    return { width: (bits & 0x3fff) + 1, height: ((bits >> 14) & 0x3fff) + 1 }
+  }
+  if (chunk === 'VP8X' && bytes.length >= 30) {
+    return { width: readUint24LE(bytes, 24) + 1, height: readUint24LE(bytes, 27) + 1 }
+  }
+  return null
+}
+
+/**
+ * Reads pixel dimensions from the image header without decoding it.
+ */
+export function readImageDimensions(bytes: Uint8Array, type: SniffedType) {
+  switch (type) {
+    case 'image/png':
+      return bytes.length >= 24 ? { width: readUint32BE(bytes, 16), height: readUint32BE(bytes, 20) } : null
+    case 'image/jpeg':
+      return jpegDimensions(bytes)
+    case 'image/webp':
+      return webpDimensions(bytes)
+    case 'image/gif':
+      return bytes.length >= 10 ? { width: readUint16(bytes, 6, true), height: readUint16(bytes, 8, true) } : null
+    default:
+      return null
+  }
+}
+
+/**
+ * Checks an encoded image against `UPLOAD_LIMITS`. The declared MIME type must
+ * agree with the sniffed one, so renamed or spoofed files are rejected.
+ */
+export function validateImageBytes(bytes: Uint8Array, declaredType: string): UploadValidation {
+  if (bytes.length > UPLOAD_LIMITS.maxBytes) {
+    return { ok: false, code: 'file-too-large' }
+  }
+
+  const type = sniffImageType(bytes)
+  if (!type || !UPLOAD_LIMITS.allowedMimeTypes.includes(type)) {
+    return { ok: false, code: 'unsupported-type' }
+  }
+  if (declaredType !== type) {
+    return { ok: false, code: 'type-mismatch' }
+  }
+
+  const dimensions = readImageDimensions(bytes, type)
+  if (!dimensions || dimensions.width === 0 || dimensions.height === 0) {
+    return { ok: false, code: 'unreadable' }
+  }
+  if (Math.min(dimensions.width, dimensions.height) < UPLOAD_LIMITS.minDimension) {
+    return { ok: false, code: 'dimensions-too-small' }
+  }
+  if (Math.max(dimensions.width, dimensions.height) > UPLOAD_LIMITS.maxDimension) {
+    return { ok: false, code: 'dimensions-too-large' }
+  }
+
+  return { ok: true, mimeType: type, ...dimensions }
+}
+
+/**
+ * First pass on a picked file, before preprocessing: size and a magic-byte
+ * check that lets HEIC through so the browser can try to convert it.
+ */
+export async function validateInputFile(file: Blob): Promise<UploadErrorCode | null> {
+  if (file.size > UPLOAD_LIMITS.maxInputBytes) {
+    return 'file-too-large'
+  }
+  const head = new Uint8Array(await file.slice(0, 32).arrayBuffer())
+  const type = sniffImageType(head)
+  if (!type || (type !== 'image/heic' && !UPLOAD_LIMITS.allowedMimeTypes.includes(type))) {
+    return 'unsupported-type'
+  }
+  return null
+}
+
+/**
+ * `validateImageBytes` for base64 payloads posted to routes. The size limit is
+ * checked before decoding so oversized bodies are not copied again, and
+ * malformed base64 is reported as unreadable instead of throwing.
+ */
+export function validateBase64Image(image: { data: string; mimeType: string }): UploadValidation {
+  if (Math.floor((image.data.length * 3) / 4) > UPLOAD_LIMITS.maxBytes + 2) {
+    return { ok: false, code: 'file-too-large' }
+  }
+  if (!isBase64(image.data)) {
+    return { ok: false, code: 'unreadable' }
+  }
+  return validateImageBytes(Uint8Array.from(atob(image.data), (char) => char.charCodeAt(0)), image.mimeType)
+}
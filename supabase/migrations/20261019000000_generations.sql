@@ -0,0 +1,43 @@
+-- Saved generations, one row per successful edit, scoped to the owning user.
+create table public.generations (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null default auth.uid() references auth.users (id) on delete cascade,
+  input_path text not null,
+  output_path text not null,
+  selection jsonb not null default '{}'::jsonb,
+  prompt text not null,
+  created_at timestamptz not null default now()
+);
+
+create index generations_user_id_created_at_idx on public.generations (user_id, created_at desc);
+
+alter table public.generations enable row level security;
+
+create policy "Users can read their own generations"
+  on public.generations for select
+  using (auth.uid() = user_id);
+
+create policy "Users can insert their own generations"
+  on public.generations for insert
+  with check (auth.uid() = user_id);
+
+create policy "Users can delete their own generations"
+  on public.generations for delete
+  using (auth.uid() = user_id);
+
+-- Images live under `<user id>/<generation id>/` in a private bucket.
+insert into storage.buckets (id, name, public)
+values ('generations', 'generations', false)
+on conflict (id) do nothing;
+
+create policy "Users can read their own generation images"
+  on storage.objects for select
+  using (bucket_id = 'generations' and (storage.foldername(name))[1] = auth.uid()::text);
+
+create policy "Users can upload their own generation images"
+  on storage.objects for insert
+  with check (bucket_id = 'generations' and (storage.foldername(name))[1] = auth.uid()::text);
+
+create policy "Users can delete their own generation images"
+  on storage.objects for delete
+  using (bucket_id = 'generations' and (storage.foldername(name))[1] = auth.uid()::text);
@@ -0,0 +1,61 @@
+-- One row per completed generation, used for daily and monthly quotas.
+create table public.generation_usage (
+  id bigint generated always as identity primary key,
+  user_id uuid not null default auth.uid() references auth.users (id) on delete cascade,
+  created_at timestamptz not null default now()
+);
+
+create index generation_usage_user_id_created_at_idx on public.generation_usage (user_id, created_at);
+
+alter table public.generation_usage enable row level security;
+
+-- No update or delete policies: users cannot erase their own usage.
+create policy "Users can read their own usage"
+  on public.generation_usage for select
+  using (auth.uid() = user_id);
+
+create policy "Users can record their own usage"
+  on public.generation_usage for insert
+  with check (auth.uid() = user_id);
+
+-- Fixed-window burst counters. Only reachable through increment_rate_limit.
+create table public.rate_limit_windows (
+  key text not null,
+  window_start timestamptz not null,
+  count integer not null default 0,
+  primary key (key, window_start)
+);
+
+alter table public.rate_limit_windows enable row level security;
+
+-- Counts a hit in the current one-minute window (BURST_LIMITS.windowMs). The
+-- window comes from the database clock so callers cannot move it.
+create function public.increment_rate_limit(p_key text)
+returns integer
+language plpgsql
+security definer
+set search_path = ''
+as $$
+declare
+  current_window timestamptz := date_trunc('minute', now());
+  result integer;
+begin
+  -- Users may only count against their own user key; IP keys are counted by the server.
+  if coalesce(auth.role(), '') <> 'service_role' and p_key is distinct from ('user:' || auth.uid()::text) then
+    raise exception 'invalid rate limit key' using errcode = '42501';
+  end if;
+
+  insert into public.rate_limit_windows as w (key, window_start, count)
+  values (p_key, current_window, 1)
+  on conflict (key, window_start) do update set count = w.count + 1
+  returning w.count into result;
+
+  delete from public.rate_limit_windows
+  where key = p_key and window_start < current_window;
+
+  return result;
+end;
+$$;
+
+revoke execute on function public.increment_rate_limit(text) from public, anon;
+grant execute on function public.increment_rate_limit(text) to authenticated, service_role;
@@ -0,0 +1,137 @@
+-- Append-only credit ledger. A user's balance is the sum of their entries:
+-- grants and purchases are positive, generation debits negative, refunds
+-- reverse a debit.
+create table public.credit_ledger (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  amount integer not null check (amount <> 0),
+  kind text not null check (kind in ('grant', 'purchase', 'generation', 'refund')),
+  generation_id uuid,
+  payment_ref text unique,
+  refund_of uuid unique references public.credit_ledger (id),
+  description text not null default '',
+  created_at timestamptz not null default now()
+);
+
+create index credit_ledger_user_id_created_at_idx on public.credit_ledger (user_id, created_at desc);
+
+alter table public.credit_ledger enable row level security;
+
+-- Users can only read. Writes go through the functions below or the service role.
+create policy "Users can read their own ledger"
+  on public.credit_ledger for select
+  using (auth.uid() = user_id);
+
+create function public.credit_ledger_immutable()
+returns trigger
+language plpgsql
+as $$
+begin
+  -- Allow the cascade from deleting the auth user (fired from the FK trigger).
+  if tg_op = 'DELETE' and pg_trigger_depth() > 1 then
+    return old;
+  end if;
+  raise exception 'credit_ledger entries are immutable';
+end;
+$$;
+
+create trigger credit_ledger_immutable
+  before update or delete on public.credit_ledger
+  for each row execute function public.credit_ledger_immutable();
+
+create function public.credit_balance()
+returns integer
+language sql
+stable
+security invoker
+set search_path = ''
+as $$
+  select coalesce(sum(amount), 0)::integer from public.credit_ledger where user_id = auth.uid();
+$$;
+
+-- Debits the caller, serialised per user so concurrent generations cannot
+-- overdraw. Returns the new entry id, or null if the balance is too low.
+create function public.debit_credits(p_amount integer, p_generation_id uuid, p_description text)
+returns uuid
+language plpgsql
+security definer
+set search_path = ''
+as $$
+declare
+  v_user uuid := auth.uid();
+  v_balance integer;
+  v_id uuid;
+begin
+  if v_user is null then
+    raise exception 'not authenticated' using errcode = '42501';
+  end if;
+  if p_amount <= 0 then
+    raise exception 'amount must be positive';
+  end if;
+
+  perform pg_advisory_xact_lock(hashtextextended(v_user::text, 0));
+
+  select coalesce(sum(amount), 0) into v_balance from public.credit_ledger where user_id = v_user;
+  if v_balance < p_amount then
+    return null;
+  end if;
+
+  insert into public.credit_ledger (user_id, amount, kind, generation_id, description)
+  values (v_user, -p_amount, 'generation', p_generation_id, p_description)
+  returning id into v_id;
+
+  return v_id;
+end;
+$$;
+
+-- Reverses a generation debit, at most once. Only trusted server code may call
+-- it: users could otherwise refund looks they already received.
+create function public.refund_credits(p_debit_id uuid)
+returns void
+language plpgsql
+security definer
+set search_path = ''
+as $$
+declare
+  v_debit public.credit_ledger;
+begin
+  select * into v_debit
+  from public.credit_ledger
+  where id = p_debit_id and kind = 'generation';
+
+  if not found then
+    raise exception 'debit not found' using errcode = 'P0002';
+  end if;
+
+  insert into public.credit_ledger (user_id, amount, kind, generation_id, refund_of, description)
+  values (v_debit.user_id, -v_debit.amount, 'refund', v_debit.generation_id, v_debit.id, 'Refund: no image returned')
+  on conflict (refund_of) do nothing;
+end;
+$$;
+
+revoke execute on function public.debit_credits(integer, uuid, text) from public, anon;
+revoke execute on function public.refund_credits(uuid) from public, anon;
+grant execute on function public.debit_credits(integer, uuid, text) to authenticated;
+revoke execute on function public.refund_credits(uuid) from authenticated;
+grant execute on function public.refund_credits(uuid) to service_role;
+
+-- Every account starts with a few free credits.
+create function public.grant_welcome_credits()
+returns trigger
+language plpgsql
+security definer
+set search_path = ''
+as $$
+begin
+  insert into public.credit_ledger (user_id, amount, kind, description)
+  values (new.id, 5, 'grant', 'Welcome credits');
+  return new;
+end;
+$$;
+
+create trigger on_auth_user_created_grant_credits
+  after insert on auth.users
+  for each row execute function public.grant_welcome_credits();
+
+insert into public.credit_ledger (user_id, amount, kind, description)
+select id, 5, 'grant', 'Welcome credits' from auth.users;
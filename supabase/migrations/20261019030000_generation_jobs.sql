@@ -0,0 +1,36 @@
+-- Queued generations. The job id doubles as the generation id, so the ledger
+-- debit, the stored images and the saved generation all share it.
+create table public.generation_jobs (
+  id uuid primary key,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  status text not null default 'queued' check (status in ('queued', 'running', 'succeeded', 'failed')),
+  input_path text not null,
+  output_path text,
+  selection jsonb not null default '{}'::jsonb,
+  prompt text not null,
+  debit_id uuid references public.credit_ledger (id),
+  -- Set once the result is saved to history; deleting it there removes the job.
+  generation_id uuid references public.generations (id) on delete cascade,
+  error text,
+  attempts integer not null default 0,
+  created_at timestamptz not null default now(),
+  started_at timestamptz,
+  finished_at timestamptz
+);
+
+create index generation_jobs_user_id_created_at_idx on public.generation_jobs (user_id, created_at desc);
+create index generation_jobs_status_created_at_idx on public.generation_jobs (status, created_at)
+  where status in ('queued', 'running');
+
+alter table public.generation_jobs enable row level security;
+
+-- Users can only watch their own jobs. Jobs are enqueued by the generate
+-- route after it has charged for them, and moved through their states by the
+-- worker, both with the service role.
+create policy "Users can read their own jobs"
+  on public.generation_jobs for select
+  using (auth.uid() = user_id);
+
+-- Generations are now only saved by the worker. Users inserting rows directly
+-- could point them at any image or, later, any organization or client.
+drop policy "Users can insert their own generations" on public.generations;
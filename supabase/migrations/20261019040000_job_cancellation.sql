@@ -0,0 +1,7 @@
+-- Jobs can be cancelled by their owner, and failures record why they failed
+-- (see ProviderFailureKind in src/lib/providers/types.ts).
+alter table public.generation_jobs drop constraint generation_jobs_status_check;
+alter table public.generation_jobs add constraint generation_jobs_status_check
+  check (status in ('queued', 'running', 'succeeded', 'failed', 'cancelled'));
+
+alter table public.generation_jobs add column error_code text;
@@ -0,0 +1,45 @@
+-- Iterative editing. A session is a tree of steps: the root is the uploaded
+-- photo, every other step is one generation applied to its parent's image.
+-- Branching is just adding a second child to a step.
+create table public.edit_sessions (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  created_at timestamptz not null default now()
+);
+
+create index edit_sessions_user_id_created_at_idx on public.edit_sessions (user_id, created_at desc);
+
+create table public.edit_steps (
+  id uuid primary key default gen_random_uuid(),
+  session_id uuid not null references public.edit_sessions (id) on delete cascade,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  parent_id uuid references public.edit_steps (id) on delete cascade,
+  -- What the user asked for: null on the root, a style summary or free text otherwise.
+  instruction text,
+  -- The prompt sent to the model, replayed as context for later steps.
+  prompt text,
+  image_path text not null,
+  generation_id uuid references public.generations (id) on delete set null,
+  created_at timestamptz not null default now(),
+  check ((parent_id is null) = (prompt is null))
+);
+
+create index edit_steps_session_id_created_at_idx on public.edit_steps (session_id, created_at);
+
+alter table public.edit_sessions enable row level security;
+alter table public.edit_steps enable row level security;
+
+-- Read-only for users: steps are written by the job worker with the service role.
+create policy "Users can read their own edit sessions"
+  on public.edit_sessions for select
+  using (auth.uid() = user_id);
+
+create policy "Users can read their own edit steps"
+  on public.edit_steps for select
+  using (auth.uid() = user_id);
+
+alter table public.generation_jobs
+  add column session_id uuid references public.edit_sessions (id) on delete set null,
+  add column parent_step_id uuid references public.edit_steps (id) on delete set null,
+  add column step_id uuid references public.edit_steps (id) on delete set null,
+  add column instruction text;
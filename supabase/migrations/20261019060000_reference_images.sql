@@ -0,0 +1,6 @@
+-- Optional reference photo ("make my hair look like this"), stored next to the
+-- input under `<user id>/<generation id>/reference.<ext>`. Sessions keep it so
+-- refinements of the first result can still be shown the reference.
+alter table public.generations add column reference_path text;
+alter table public.generation_jobs add column reference_path text;
+alter table public.edit_sessions add column reference_path text;
@@ -0,0 +1,5 @@
+-- Optional edit mask: a black and white PNG the size of the input photo, white
+-- where the model may change pixels. Stored as `<user id>/<job id>/mask.png`.
+-- Sessions keep it so refinements are confined to the same region.
+alter table public.generation_jobs add column mask_path text;
+alter table public.edit_sessions add column mask_path text;
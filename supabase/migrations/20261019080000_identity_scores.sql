@@ -0,0 +1,8 @@
+-- How much the face in the result still matches the input (0–1), measured by
+-- the job worker with a face-embedding model. Null when it could not be
+-- measured. Only the worker writes it, with the service role.
+alter table public.generation_jobs
+  add column identity_score real check (identity_score between 0 and 1);
+
+alter table public.generations
+  add column identity_score real check (identity_score between 0 and 1);
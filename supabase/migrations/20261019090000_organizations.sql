@@ -0,0 +1,356 @@
+-- Salon and barbershop accounts. Owners manage the organization and its
+-- credit pool, stylists generate on behalf of clients from that pool, and
+-- clients can see the looks made for them.
+create table public.organizations (
+  id uuid primary key default gen_random_uuid(),
+  name text not null check (length(btrim(name)) between 1 and 100),
+  created_by uuid references auth.users (id) on delete set null,
+  created_at timestamptz not null default now()
+);
+
+create table public.organization_members (
+  organization_id uuid not null references public.organizations (id) on delete cascade,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  role text not null check (role in ('owner', 'stylist', 'client')),
+  -- Copied from the account so members can be listed without reading auth.users.
+  email text not null,
+  created_at timestamptz not null default now(),
+  primary key (organization_id, user_id)
+);
+
+create index organization_members_user_id_idx on public.organization_members (user_id);
+
+create table public.organization_invitations (
+  id uuid primary key default gen_random_uuid(),
+  organization_id uuid not null references public.organizations (id) on delete cascade,
+  email text not null,
+  role text not null check (role in ('stylist', 'client')),
+  token text not null unique,
+  invited_by uuid references auth.users (id) on delete set null,
+  created_at timestamptz not null default now(),
+  expires_at timestamptz not null default now() + interval '7 days',
+  accepted_at timestamptz
+);
+
+create unique index organization_invitations_pending_email_idx
+  on public.organization_invitations (organization_id, lower(email))
+  where accepted_at is null;
+
+-- The caller's role in an organization, or null. Security definer so policies
+-- on the member table can use it without recursing into themselves.
+create function public.organization_role(p_organization_id uuid)
+returns text
+language sql
+stable
+security definer
+set search_path = ''
+as $$
+  select role from public.organization_members
+  where organization_id = p_organization_id and user_id = auth.uid();
+$$;
+
+alter table public.organizations enable row level security;
+alter table public.organization_members enable row level security;
+alter table public.organization_invitations enable row level security;
+
+-- Reads follow membership. Writes go through the functions below, except
+-- removing members and revoking invitations.
+create policy "Members can read their organizations"
+  on public.organizations for select
+  using (public.organization_role(id) is not null);
+
+create policy "Members can read their organization's members"
+  on public.organization_members for select
+  using (public.organization_role(organization_id) is not null);
+
+create policy "Owners remove members, anyone but an owner can leave"
+  on public.organization_members for delete
+  using (
+    (public.organization_role(organization_id) = 'owner' and user_id <> auth.uid())
+    or (user_id = auth.uid() and role <> 'owner')
+  );
+
+create policy "Owners can read invitations"
+  on public.organization_invitations for select
+  using (public.organization_role(organization_id) = 'owner');
+
+create policy "Owners can revoke invitations"
+  on public.organization_invitations for delete
+  using (public.organization_role(organization_id) = 'owner');
+
+-- Creates an organization with the caller as its owner.
+create function public.create_organization(p_name text)
+returns uuid
+language plpgsql
+security definer
+set search_path = ''
+as $$
+declare
+  v_user uuid := auth.uid();
+  v_id uuid;
+begin
+  if v_user is null then
+    raise exception 'not authenticated' using errcode = '42501';
+  end if;
+
+  insert into public.organizations (name, created_by) values (btrim(p_name), v_user) returning id into v_id;
+  insert into public.organization_members (organization_id, user_id, role, email)
+  values (v_id, v_user, 'owner', coalesce(auth.jwt() ->> 'email', ''));
+  return v_id;
+end;
+$$;
+
+-- Invites an email address as stylist or client, replacing any pending
+-- invitation for it. Owners only. Returns the token for the invitation link.
+create function public.invite_to_organization(p_organization_id uuid, p_email text, p_role text)
+returns text
+language plpgsql
+security definer
+set search_path = ''
+as $$
+declare
+  v_token text := encode(extensions.gen_random_bytes(24), 'hex');
+begin
+  if public.organization_role(p_organization_id) is distinct from 'owner' then
+    raise exception 'only owners can invite' using errcode = '42501';
+  end if;
+
+  delete from public.organization_invitations
+  where organization_id = p_organization_id and lower(email) = lower(btrim(p_email)) and accepted_at is null;
+
+  insert into public.organization_invitations (organization_id, email, role, token, invited_by)
+  values (p_organization_id, lower(btrim(p_email)), p_role, v_token, auth.uid());
+  return v_token;
+end;
+$$;
+
+-- Joins the organization an invitation is for. The invitation must be
+-- pending, unexpired and addressed to the caller's email. Returns the
+-- organization id; existing members keep their role.
+create function public.accept_organization_invitation(p_token text)
+returns uuid
+language plpgsql
+security definer
+set search_path = ''
+as $$
+declare
+  v_email text := lower(auth.jwt() ->> 'email');
+  v_invitation public.organization_invitations;
+begin
+  if auth.uid() is null then
+    raise exception 'not authenticated' using errcode = '42501';
+  end if;
+
+  select * into v_invitation
+  from public.organization_invitations
+  where token = p_token and accepted_at is null and expires_at > now() and lower(email) = v_email
+  for update;
+
+  if not found then
+    raise exception 'invitation not found' using errcode = 'P0002';
+  end if;
+
+  insert into public.organization_members (organization_id, user_id, role, email)
+  values (v_invitation.organization_id, auth.uid(), v_invitation.role, v_email)
+  on conflict (organization_id, user_id) do nothing;
+
+  update public.organization_invitations set accepted_at = now() where id = v_invitation.id;
+  return v_invitation.organization_id;
+end;
+$$;
+
+revoke execute on function public.create_organization(text) from public, anon;
+revoke execute on function public.invite_to_organization(uuid, text, text) from public, anon;
+revoke execute on function public.accept_organization_invitation(text) from public, anon;
+grant execute on function public.create_organization(text) to authenticated;
+grant execute on function public.invite_to_organization(uuid, text, text) to authenticated;
+grant execute on function public.accept_organization_invitation(text) to authenticated;
+
+-- Pooled credits: entries with an organization belong to its pool, the rest
+-- to the user. `user_id` on a pool debit is the stylist who spent it.
+alter table public.credit_ledger
+  add column organization_id uuid references public.organizations (id) on delete cascade;
+
+create index credit_ledger_organization_id_created_at_idx
+  on public.credit_ledger (organization_id, created_at desc)
+  where organization_id is not null;
+
+create policy "Owners and stylists can read their organization's ledger"
+  on public.credit_ledger for select
+  using (public.organization_role(organization_id) in ('owner', 'stylist'));
+
+create or replace function public.credit_balance()
+returns integer
+language sql
+stable
+security invoker
+set search_path = ''
+as $$
+  select coalesce(sum(amount), 0)::integer
+  from public.credit_ledger
+  where user_id = auth.uid() and organization_id is null;
+$$;
+
+create or replace function public.debit_credits(p_amount integer, p_generation_id uuid, p_description text)
+returns uuid
+language plpgsql
+security definer
+set search_path = ''
+as $$
+declare
+  v_user uuid := auth.uid();
+  v_balance integer;
+  v_id uuid;
+begin
+  if v_user is null then
+    raise exception 'not authenticated' using errcode = '42501';
+  end if;
+  if p_amount <= 0 then
+    raise exception 'amount must be positive';
+  end if;
+
+  perform pg_advisory_xact_lock(hashtextextended(v_user::text, 0));
+
+  select coalesce(sum(amount), 0) into v_balance
+  from public.credit_ledger
+  where user_id = v_user and organization_id is null;
+  if v_balance < p_amount then
+    return null;
+  end if;
+
+  insert into public.credit_ledger (user_id, amount, kind, generation_id, description)
+  values (v_user, -p_amount, 'generation', p_generation_id, p_description)
+  returning id into v_id;
+
+  return v_id;
+end;
+$$;
+
+-- The pool balance, for owners and stylists of the organization.
+create function public.organization_credit_balance(p_organization_id uuid)
+returns integer
+language plpgsql
+stable
+security definer
+set search_path = ''
+as $$
+begin
+  if coalesce(public.organization_role(p_organization_id), '') not in ('owner', 'stylist') then
+    raise exception 'not a member of this organization' using errcode = '42501';
+  end if;
+  return (
+    select coalesce(sum(amount), 0)::integer from public.credit_ledger where organization_id = p_organization_id
+  );
+end;
+$$;
+
+-- Like debit_credits, but from the organization's pool and serialised per
+-- organization. Owners and stylists only.
+create function public.debit_organization_credits(
+  p_organization_id uuid,
+  p_amount integer,
+  p_generation_id uuid,
+  p_description text
+)
+returns uuid
+language plpgsql
+security definer
+set search_path = ''
+as $$
+declare
+  v_balance integer;
+  v_id uuid;
+begin
+  if coalesce(public.organization_role(p_organization_id), '') not in ('owner', 'stylist') then
+    raise exception 'not a member of this organization' using errcode = '42501';
+  end if;
+  if p_amount <= 0 then
+    raise exception 'amount must be positive';
+  end if;
+
+  perform pg_advisory_xact_lock(hashtextextended(p_organization_id::text, 0));
+
+  select coalesce(sum(amount), 0) into v_balance from public.credit_ledger where organization_id = p_organization_id;
+  if v_balance < p_amount then
+    return null;
+  end if;
+
+  insert into public.credit_ledger (user_id, organization_id, amount, kind, generation_id, description)
+  values (auth.uid(), p_organization_id, -p_amount, 'generation', p_generation_id, p_description)
+  returning id into v_id;
+
+  return v_id;
+end;
+$$;
+
+-- Refunds go back to wherever the debit came from.
+create or replace function public.refund_credits(p_debit_id uuid)
+returns void
+language plpgsql
+security definer
+set search_path = ''
+as $$
+declare
+  v_debit public.credit_ledger;
+begin
+  select * into v_debit
+  from public.credit_ledger
+  where id = p_debit_id and kind = 'generation';
+
+  if not found then
+    raise exception 'debit not found' using errcode = 'P0002';
+  end if;
+
+  insert into public.credit_ledger (user_id, organization_id, amount, kind, generation_id, refund_of, description)
+  values (
+    v_debit.user_id,
+    v_debit.organization_id,
+    -v_debit.amount,
+    'refund',
+    v_debit.generation_id,
+    v_debit.id,
+    'Refund: no image returned'
+  )
+  on conflict (refund_of) do nothing;
+end;
+$$;
+
+revoke execute on function public.organization_credit_balance(uuid) from public, anon;
+revoke execute on function public.debit_organization_credits(uuid, integer, uuid, text) from public, anon;
+grant execute on function public.organization_credit_balance(uuid) to authenticated;
+grant execute on function public.debit_organization_credits(uuid, integer, uuid, text) to authenticated;
+
+-- Generations made by a stylist for a client. Owners and stylists see all of
+-- the organization's generations; the client sees the ones made for them.
+alter table public.generation_jobs
+  add column organization_id uuid references public.organizations (id) on delete set null,
+  add column client_id uuid references auth.users (id) on delete set null;
+
+alter table public.generations
+  add column organization_id uuid references public.organizations (id) on delete set null,
+  add column client_id uuid references auth.users (id) on delete set null;
+
+create index generations_organization_id_created_at_idx
+  on public.generations (organization_id, created_at desc)
+  where organization_id is not null;
+create index generations_client_id_created_at_idx
+  on public.generations (client_id, created_at desc)
+  where client_id is not null;
+
+create policy "Organization staff and clients can read shared generations"
+  on public.generations for select
+  using (
+    auth.uid() = client_id
+    or public.organization_role(organization_id) in ('owner', 'stylist')
+  );
+
+-- Images of any generation the reader can see, which may sit in a stylist's folder.
+create policy "Users can read images of generations shared with them"
+  on storage.objects for select
+  using (
+    bucket_id = 'generations'
+    and exists (
+      select 1 from public.generations
+      where id::text = (storage.foldername(name))[2]
+    )
+  );
@@ -0,0 +1,108 @@
+-- Client profiles kept by salon staff across visits: notes, a reference photo,
+-- the client's consent and the looks made for them. Profiles belong to an
+-- organization; its owners and stylists manage them together.
+create table public.client_profiles (
+  id uuid primary key default gen_random_uuid(),
+  organization_id uuid not null references public.organizations (id) on delete cascade,
+  name text not null check (char_length(name) between 1 and 100),
+  notes text not null default '' check (char_length(notes) <= 2000),
+  -- Only set while the newest consent record includes 'photos'.
+  photo_path text,
+  created_by uuid default auth.uid() references auth.users (id) on delete set null,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index client_profiles_organization_id_name_idx on public.client_profiles (organization_id, lower(name));
+
+-- Append-only: the newest record is the consent in force, earlier ones are the
+-- audit trail. An empty scope list records a withdrawal.
+create table public.client_consents (
+  id uuid primary key default gen_random_uuid(),
+  client_profile_id uuid not null references public.client_profiles (id) on delete cascade,
+  scopes text[] not null check (scopes <@ array['photos', 'portfolio']::text[]),
+  recorded_by uuid default auth.uid() references auth.users (id) on delete set null,
+  recorded_at timestamptz not null default now()
+);
+
+create index client_consents_client_profile_id_recorded_at_idx
+  on public.client_consents (client_profile_id, recorded_at desc);
+
+alter table public.client_profiles enable row level security;
+alter table public.client_consents enable row level security;
+
+create policy "Organization staff can manage client profiles"
+  on public.client_profiles for all
+  using (public.organization_role(organization_id) in ('owner', 'stylist'))
+  with check (public.organization_role(organization_id) in ('owner', 'stylist'));
+
+create policy "Organization staff can read client consents"
+  on public.client_consents for select
+  using (
+    exists (
+      select 1 from public.client_profiles
+      where client_profiles.id = client_consents.client_profile_id
+    )
+  );
+
+create policy "Organization staff can record client consents"
+  on public.client_consents for insert
+  with check (
+    recorded_by = auth.uid()
+    and exists (
+      select 1 from public.client_profiles
+      where client_profiles.id = client_consents.client_profile_id
+    )
+  );
+
+-- Looks made during a session with a client profile.
+alter table public.generation_jobs
+  add column client_profile_id uuid references public.client_profiles (id) on delete set null;
+
+alter table public.generations
+  add column client_profile_id uuid references public.client_profiles (id) on delete set null;
+
+create index generations_client_profile_id_created_at_idx
+  on public.generations (client_profile_id, created_at desc)
+  where client_profile_id is not null;
+
+-- Profile photos live under organizations/<organization id>/clients/<profile id>/
+-- so every owner and stylist of the organization can use them.
+create policy "Organization staff can read organization images"
+  on storage.objects for select
+  using (
+    bucket_id = 'generations'
+    and (storage.foldername(name))[1] = 'organizations'
+    and exists (
+      select 1 from public.organization_members
+      where organization_id::text = (storage.foldername(name))[2]
+        and user_id = auth.uid()
+        and role in ('owner', 'stylist')
+    )
+  );
+
+create policy "Organization staff can upload organization images"
+  on storage.objects for insert
+  with check (
+    bucket_id = 'generations'
+    and (storage.foldername(name))[1] = 'organizations'
+    and exists (
+      select 1 from public.organization_members
+      where organization_id::text = (storage.foldername(name))[2]
+        and user_id = auth.uid()
+        and role in ('owner', 'stylist')
+    )
+  );
+
+create policy "Organization staff can delete organization images"
+  on storage.objects for delete
+  using (
+    bucket_id = 'generations'
+    and (storage.foldername(name))[1] = 'organizations'
+    and exists (
+      select 1 from public.organization_members
+      where organization_id::text = (storage.foldername(name))[2]
+        and user_id = auth.uid()
+        and role in ('owner', 'stylist')
+    )
+  );
@@ -0,0 +1,212 @@
+-- Appointment booking. Stylists publish weekly availability; members of the
+-- organization book a slot with them, usually for a look they generated.
+create table public.stylist_availability (
+  id uuid primary key default gen_random_uuid(),
+  organization_id uuid not null references public.organizations (id) on delete cascade,
+  stylist_id uuid not null references auth.users (id) on delete cascade,
+  -- 0 = Sunday, as in extract(dow from ...) and Date.getDay().
+  weekday smallint not null check (weekday between 0 and 6),
+  start_time time not null,
+  end_time time not null,
+  -- Start and end are wall-clock times in this IANA zone, so slots follow daylight saving.
+  time_zone text not null,
+  slot_minutes integer not null default 45 check (slot_minutes between 15 and 240),
+  created_at timestamptz not null default now(),
+  check (start_time < end_time)
+);
+
+create index stylist_availability_organization_id_stylist_id_idx
+  on public.stylist_availability (organization_id, stylist_id);
+
+create table public.bookings (
+  id uuid primary key default gen_random_uuid(),
+  organization_id uuid not null references public.organizations (id) on delete cascade,
+  stylist_id uuid not null references auth.users (id) on delete cascade,
+  client_id uuid not null references auth.users (id) on delete cascade,
+  -- The look the client wants; the stylist can see it.
+  generation_id uuid references public.generations (id) on delete set null,
+  starts_at timestamptz not null,
+  ends_at timestamptz not null,
+  status text not null default 'confirmed' check (status in ('confirmed', 'cancelled')),
+  created_at timestamptz not null default now(),
+  check (starts_at < ends_at)
+);
+
+-- Two requests for the same slot: the second insert fails and books nothing.
+create unique index bookings_stylist_id_starts_at_key
+  on public.bookings (stylist_id, starts_at)
+  where status = 'confirmed';
+create index bookings_client_id_starts_at_idx on public.bookings (client_id, starts_at);
+create index bookings_organization_id_starts_at_idx on public.bookings (organization_id, starts_at);
+
+alter table public.stylist_availability enable row level security;
+alter table public.bookings enable row level security;
+
+create policy "Members can read their organization's availability"
+  on public.stylist_availability for select
+  using (public.organization_role(organization_id) is not null);
+
+create policy "Staff can publish their own availability"
+  on public.stylist_availability for insert
+  with check (stylist_id = auth.uid() and public.organization_role(organization_id) in ('owner', 'stylist'));
+
+create policy "Staff can remove their own availability, owners anyone's"
+  on public.stylist_availability for delete
+  using (stylist_id = auth.uid() or public.organization_role(organization_id) = 'owner');
+
+-- Written only through book_appointment() and cancel_booking().
+create policy "Clients, their stylist and owners can read bookings"
+  on public.bookings for select
+  using (
+    auth.uid() in (client_id, stylist_id)
+    or public.organization_role(organization_id) = 'owner'
+  );
+
+-- The stylist sees the target look, even when it is in the client's personal history.
+create policy "Stylists can read looks booked with them"
+  on public.generations for select
+  using (
+    exists (
+      select 1 from public.bookings
+      where bookings.generation_id = generations.id
+    )
+  );
+
+-- Confirmed bookings of a stylist in [p_from, p_to), so clients can see which
+-- slots are taken without reading anyone else's booking.
+create or replace function public.stylist_busy_times(
+  p_organization_id uuid,
+  p_stylist_id uuid,
+  p_from timestamptz,
+  p_to timestamptz
+)
+returns table (starts_at timestamptz, ends_at timestamptz)
+language plpgsql
+stable
+security definer
+set search_path = ''
+as $$
+begin
+  if public.organization_role(p_organization_id) is null then
+    raise exception 'not a member of this organization' using errcode = '42501';
+  end if;
+
+  return query
+    select b.starts_at, b.ends_at
+    from public.bookings b
+    where b.stylist_id = p_stylist_id
+      and b.status = 'confirmed'
+      and b.starts_at < p_to
+      and b.ends_at > p_from
+    order by b.starts_at;
+end;
+$$;
+
+-- Books a slot for the current user. Returns null when the slot is not in the
+-- stylist's availability, is in the past, or is already taken.
+create or replace function public.book_appointment(
+  p_organization_id uuid,
+  p_stylist_id uuid,
+  p_starts_at timestamptz,
+  p_generation_id uuid default null
+)
+returns uuid
+language plpgsql
+security definer
+set search_path = ''
+as $$
+declare
+  v_user uuid := auth.uid();
+  v_minutes integer;
+  v_ends_at timestamptz;
+  v_id uuid;
+begin
+  if v_user is null then
+    raise exception 'not authenticated' using errcode = '42501';
+  end if;
+  if public.organization_role(p_organization_id) is null then
+    raise exception 'not a member of this organization' using errcode = '42501';
+  end if;
+  if p_generation_id is not null and not exists (
+    select 1 from public.generations
+    where id = p_generation_id and v_user in (user_id, client_id)
+  ) then
+    raise exception 'generation not found' using errcode = 'P0002';
+  end if;
+
+  if p_starts_at <= now() or not exists (
+    select 1 from public.organization_members
+    where organization_id = p_organization_id
+      and user_id = p_stylist_id
+      and role in ('owner', 'stylist')
+  ) then
+    return null;
+  end if;
+
+  -- Slots start every slot_minutes from the start of a window and end inside it.
+  select a.slot_minutes into v_minutes
+  from public.stylist_availability a
+  where a.organization_id = p_organization_id
+    and a.stylist_id = p_stylist_id
+    and extract(dow from p_starts_at at time zone a.time_zone) = a.weekday
+    and (p_starts_at at time zone a.time_zone)::time >= a.start_time
+    and (p_starts_at at time zone a.time_zone)::time - a.start_time + make_interval(mins => a.slot_minutes)
+      <= a.end_time - a.start_time
+    and extract(epoch from (p_starts_at at time zone a.time_zone)::time - a.start_time)::integer
+      % (a.slot_minutes * 60) = 0
+  limit 1;
+
+  if not found then
+    return null;
+  end if;
+  v_ends_at := p_starts_at + make_interval(mins => v_minutes);
+
+  if exists (
+    select 1 from public.bookings
+    where stylist_id = p_stylist_id
+      and status = 'confirmed'
+      and starts_at < v_ends_at
+      and ends_at > p_starts_at
+  ) then
+    return null;
+  end if;
+
+  insert into public.bookings (organization_id, stylist_id, client_id, generation_id, starts_at, ends_at)
+  values (p_organization_id, p_stylist_id, v_user, p_generation_id, p_starts_at, v_ends_at)
+  returning id into v_id;
+
+  return v_id;
+exception
+  when unique_violation then
+    return null;
+end;
+$$;
+
+-- Cancels an upcoming booking. The client, their stylist and owners may.
+create or replace function public.cancel_booking(p_booking_id uuid)
+returns boolean
+language plpgsql
+security definer
+set search_path = ''
+as $$
+begin
+  update public.bookings
+  set status = 'cancelled'
+  where id = p_booking_id
+    and status = 'confirmed'
+    and starts_at > now()
+    and (
+      auth.uid() in (client_id, stylist_id)
+      or public.organization_role(organization_id) = 'owner'
+    );
+
+  return found;
+end;
+$$;
+
+revoke execute on function public.stylist_busy_times(uuid, uuid, timestamptz, timestamptz) from public, anon;
+revoke execute on function public.book_appointment(uuid, uuid, timestamptz, uuid) from public, anon;
+revoke execute on function public.cancel_booking(uuid) from public, anon;
+grant execute on function public.stylist_busy_times(uuid, uuid, timestamptz, timestamptz) to authenticated;
+grant execute on function public.book_appointment(uuid, uuid, timestamptz, uuid) to authenticated;
+grant execute on function public.cancel_booking(uuid) to authenticated;
@@ -0,0 +1,75 @@
+-- Public links to a single look. Anyone with the token can open /s/<token>
+-- until it expires or is revoked; the page is served with the service role,
+-- so nothing here is readable by anon.
+create table public.share_links (
+  id uuid primary key default gen_random_uuid(),
+  generation_id uuid not null references public.generations (id) on delete cascade,
+  token text not null unique default encode(extensions.gen_random_bytes(24), 'hex'),
+  -- Show the original photo next to the look.
+  show_before boolean not null default false,
+  expires_at timestamptz,
+  revoked_at timestamptz,
+  created_by uuid not null default auth.uid() references auth.users (id) on delete cascade,
+  created_at timestamptz not null default now()
+);
+
+create index share_links_generation_id_idx on public.share_links (generation_id);
+
+alter table public.share_links enable row level security;
+
+create policy "Users can read their own share links"
+  on public.share_links for select
+  using (created_by = auth.uid());
+
+-- Whether the newest consent record of a client profile includes p_scope.
+-- Security definer so the client a look was made for can be checked too; they
+-- cannot read the salon's consent records.
+create function public.has_client_consent(p_client_profile_id uuid, p_scope text)
+returns boolean
+language sql
+stable
+security definer
+set search_path = ''
+as $$
+  select coalesce(
+    (
+      select p_scope = any (c.scopes)
+      from public.client_consents c
+      where c.client_profile_id = p_client_profile_id
+      order by c.recorded_at desc
+      limit 1
+    ),
+    false
+  );
+$$;
+
+revoke execute on function public.has_client_consent(uuid, text) from public, anon;
+grant execute on function public.has_client_consent(uuid, text) to authenticated;
+
+-- The person who made the look, or the client it was made for, may share it.
+-- Looks made for a client profile need the client's portfolio consent.
+create policy "Users can share their own looks"
+  on public.share_links for insert
+  with check (
+    created_by = auth.uid()
+    and revoked_at is null
+    and exists (
+      select 1 from public.generations
+      where generations.id = share_links.generation_id
+        and auth.uid() in (generations.user_id, generations.client_id)
+        and (
+          generations.client_profile_id is null
+          or public.has_client_consent(generations.client_profile_id, 'portfolio')
+        )
+    )
+  );
+
+-- Only used to revoke: revoked_at is the only column users may change, and a
+-- revoked link stays revoked.
+revoke update on public.share_links from authenticated;
+grant update (revoked_at) on public.share_links to authenticated;
+
+create policy "Users can revoke their own share links"
+  on public.share_links for update
+  using (created_by = auth.uid())
+  with check (created_by = auth.uid() and revoked_at is not null);
@@ -0,0 +1,82 @@
+-- Personal organization of looks: stars, named collections and notes. Every
+-- row belongs to one user and is only visible to them, even for looks shared
+-- by a salon.
+create table public.generation_favorites (
+  user_id uuid not null default auth.uid() references auth.users (id) on delete cascade,
+  generation_id uuid not null references public.generations (id) on delete cascade,
+  created_at timestamptz not null default now(),
+  primary key (user_id, generation_id)
+);
+
+create table public.generation_notes (
+  user_id uuid not null default auth.uid() references auth.users (id) on delete cascade,
+  generation_id uuid not null references public.generations (id) on delete cascade,
+  body text not null check (char_length(body) between 1 and 2000),
+  updated_at timestamptz not null default now(),
+  primary key (user_id, generation_id)
+);
+
+create table public.collections (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null default auth.uid() references auth.users (id) on delete cascade,
+  name text not null check (char_length(name) between 1 and 100),
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index collections_user_id_name_idx on public.collections (user_id, lower(name));
+
+create table public.collection_items (
+  collection_id uuid not null references public.collections (id) on delete cascade,
+  generation_id uuid not null references public.generations (id) on delete cascade,
+  added_at timestamptz not null default now(),
+  primary key (collection_id, generation_id)
+);
+
+create index collection_items_generation_id_idx on public.collection_items (generation_id);
+
+alter table public.generation_favorites enable row level security;
+alter table public.generation_notes enable row level security;
+alter table public.collections enable row level security;
+alter table public.collection_items enable row level security;
+
+-- Looks can only be starred, noted or collected while the user can see them;
+-- the generations policies apply inside these checks.
+create policy "Users can manage their own favorites"
+  on public.generation_favorites for all
+  using (user_id = auth.uid())
+  with check (
+    user_id = auth.uid()
+    and exists (select 1 from public.generations where generations.id = generation_favorites.generation_id)
+  );
+
+create policy "Users can manage their own notes"
+  on public.generation_notes for all
+  using (user_id = auth.uid())
+  with check (
+    user_id = auth.uid()
+    and exists (select 1 from public.generations where generations.id = generation_notes.generation_id)
+  );
+
+create policy "Users can manage their own collections"
+  on public.collections for all
+  using (user_id = auth.uid())
+  with check (user_id = auth.uid());
+
+create policy "Users can manage items in their own collections"
+  on public.collection_items for all
+  using (
+    exists (
+      select 1 from public.collections
+      where collections.id = collection_items.collection_id
+        and collections.user_id = auth.uid()
+    )
+  )
+  with check (
+    exists (
+      select 1 from public.collections
+      where collections.id = collection_items.collection_id
+        and collections.user_id = auth.uid()
+    )
+    and exists (select 1 from public.generations where generations.id = collection_items.generation_id)
+  );